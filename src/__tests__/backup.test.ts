@@ -0,0 +1,162 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { BrowserWindow } from 'electron';
+
+const userData = fs.mkdtempSync(path.join(os.tmpdir(), 'todolo-backup-'));
+const appSettings: {
+  backupIntervalMinutes?: number;
+  backupKeepCount?: number;
+} = {};
+
+jest.mock('electron', () => ({
+  app: {
+    getPath: () => userData,
+  },
+  dialog: {
+    showMessageBox: jest.fn(),
+  },
+}));
+
+jest.mock('../main/db', () => ({
+  // Stand-in for SQLite's backup API: copy the current file contents
+  backupDatabase: async (destination: string) => {
+    const live = path.join(userData, 'todolo.db');
+    fs.writeFileSync(destination, fs.readFileSync(live));
+  },
+  closeDatabase: jest.fn(),
+  getDatabasePath: () => path.join(userData, 'todolo.db'),
+  loadAppSettings: () => appSettings,
+  DEFAULT_BACKUP_INTERVAL_MINUTES: 60,
+  DEFAULT_BACKUP_KEEP_COUNT: 10,
+}));
+
+// Use require so we can keep mocks above and satisfy lint rules
+const {
+  createBackup,
+  listBackups,
+  restoreBackup,
+  getBackupDir,
+  startBackupSchedule,
+  stopBackupSchedule,
+  rescheduleBackups,
+} = require('../main/backup');
+const { closeDatabase } = require('../main/db');
+
+const livePath = path.join(userData, 'todolo.db');
+
+describe('backups', () => {
+  beforeEach(() => {
+    fs.rmSync(getBackupDir(), { recursive: true, force: true });
+    fs.writeFileSync(livePath, 'v1');
+    delete appSettings.backupIntervalMinutes;
+    delete appSettings.backupKeepCount;
+    jest.clearAllMocks();
+  });
+
+  afterAll(() => {
+    fs.rmSync(userData, { recursive: true, force: true });
+  });
+
+  test('createBackup writes a timestamped snapshot', async () => {
+    const info = await createBackup(5);
+    expect(info.file).toMatch(/^todolo-\d{8}T\d{9}Z\.db$/);
+    expect(fs.readFileSync(info.path, 'utf8')).toBe('v1');
+    expect(listBackups().map((b: { file: string }) => b.file)).toEqual([
+      info.file,
+    ]);
+  });
+
+  test('startBackupSchedule resolves once the first snapshot is on disk', async () => {
+    await startBackupSchedule();
+    stopBackupSchedule();
+    expect(listBackups()).toHaveLength(1);
+  });
+
+  test('the schedule follows the backup interval setting', async () => {
+    const setIntervalSpy = jest.spyOn(global, 'setInterval');
+    appSettings.backupIntervalMinutes = 0;
+    await startBackupSchedule();
+    expect(setIntervalSpy).not.toHaveBeenCalled();
+
+    appSettings.backupIntervalMinutes = 15;
+    rescheduleBackups();
+    stopBackupSchedule();
+    expect(setIntervalSpy).toHaveBeenCalledWith(
+      expect.any(Function),
+      15 * 60 * 1000,
+    );
+    // rescheduling doesn't take another snapshot
+    expect(listBackups()).toHaveLength(1);
+    setIntervalSpy.mockRestore();
+  });
+
+  test('rotation keeps as many snapshots as the keep count setting', async () => {
+    fs.mkdirSync(getBackupDir(), { recursive: true });
+    ['20240101T000000000Z', '20240102T000000000Z'].forEach((stamp) =>
+      fs.writeFileSync(path.join(getBackupDir(), `todolo-${stamp}.db`), ''),
+    );
+    appSettings.backupKeepCount = 2;
+
+    const info = await createBackup();
+
+    expect(listBackups().map((b: { file: string }) => b.file)).toEqual([
+      info.file,
+      'todolo-20240102T000000000Z.db',
+    ]);
+  });
+
+  test('rotation keeps only the newest snapshots and ignores other files', async () => {
+    fs.mkdirSync(getBackupDir(), { recursive: true });
+    [
+      '20240101T000000000Z',
+      '20240102T000000000Z',
+      '20240103T000000000Z',
+    ].forEach((stamp) =>
+      fs.writeFileSync(path.join(getBackupDir(), `todolo-${stamp}.db`), ''),
+    );
+    fs.writeFileSync(path.join(getBackupDir(), 'notes.txt'), '');
+
+    const info = await createBackup(2);
+    const files = listBackups().map((b: { file: string }) => b.file);
+
+    expect(files).toEqual([info.file, 'todolo-20240103T000000000Z.db']);
+    expect(fs.existsSync(path.join(getBackupDir(), 'notes.txt'))).toBe(true);
+  });
+
+  test('restoreBackup swaps the snapshot in and reloads the renderer', async () => {
+    fs.mkdirSync(getBackupDir(), { recursive: true });
+    const snapshot = 'todolo-20240101T000000000Z.db';
+    fs.writeFileSync(path.join(getBackupDir(), snapshot), 'v1');
+    fs.writeFileSync(livePath, 'v2');
+    fs.writeFileSync(`${livePath}-wal`, 'stale');
+    const loadURL = jest.fn().mockResolvedValue(undefined);
+    const win = {
+      loadURL,
+      webContents: { loadURL },
+    } as unknown as BrowserWindow;
+
+    const ok = await restoreBackup(win, snapshot);
+
+    expect(ok).toBe(true);
+    expect(closeDatabase).toHaveBeenCalled();
+    expect(fs.readFileSync(livePath, 'utf8')).toBe('v1');
+    expect(fs.existsSync(`${livePath}-wal`)).toBe(false);
+    expect(loadURL).toHaveBeenNthCalledWith(1, 'about:blank');
+    expect(loadURL).toHaveBeenCalledTimes(2);
+    // the pre-restore state was snapshotted too
+    const contents = listBackups().map((b: { path: string }) =>
+      fs.readFileSync(b.path, 'utf8'),
+    );
+    expect(contents).toContain('v2');
+  });
+
+  test('restoreBackup refuses files outside the backup set', async () => {
+    const win = {
+      loadURL: jest.fn(),
+      webContents: { loadURL: jest.fn() },
+    } as unknown as BrowserWindow;
+    expect(await restoreBackup(win, '../todolo.db')).toBe(false);
+    expect(closeDatabase).not.toHaveBeenCalled();
+  });
+});
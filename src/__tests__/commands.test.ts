@@ -0,0 +1,85 @@
+import type { BrowserWindow } from 'electron';
+
+jest.mock('electron-updater', () => ({
+  autoUpdater: { on: jest.fn() },
+}));
+
+jest.mock('electron', () => ({
+  app: { getVersion: () => '1.0.0' },
+  dialog: { showMessageBox: jest.fn() },
+  shell: { openExternal: jest.fn() },
+}));
+
+jest.mock('../main/backup', () => ({
+  promptRestoreFromBackup: jest.fn(),
+}));
+
+const {
+  COMMANDS,
+  formatAccelerator,
+  getAvailableCommands,
+  isCommandId,
+} = require('../shared/commands');
+
+describe('shared command registry', () => {
+  it('has unique ids', () => {
+    const ids = COMMANDS.map((c: { id: string }) => c.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(isCommandId('new-list')).toBe(true);
+    expect(isCommandId('nope')).toBe(false);
+  });
+
+  it('hides debug-only commands unless the debug UI is enabled', () => {
+    const ids = (enabled: boolean) =>
+      getAvailableCommands(enabled).map((c: { id: string }) => c.id);
+    expect(ids(false)).not.toContain('toggle-debug-mode');
+    expect(ids(true)).toContain('toggle-debug-mode');
+  });
+
+  it('formats accelerators per platform', () => {
+    expect(formatAccelerator('Shift+CmdOrCtrl+Z', true)).toBe('⇧⌘Z');
+    expect(formatAccelerator('Shift+CmdOrCtrl+Z', false)).toBe('Shift+Ctrl+Z');
+  });
+});
+
+describe('MenuBuilder.runCommand', () => {
+  const originalEnv = process.env;
+
+  const makeBuilder = () => {
+    const send = jest.fn();
+    const MenuBuilder = require('../main/menu').default;
+    const fakeWin = { webContents: { send } } as unknown as BrowserWindow;
+    return { builder: new MenuBuilder(fakeWin), send };
+  };
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('dispatches renderer commands to the window', () => {
+    const { builder, send } = makeBuilder();
+    expect(builder.runCommand('new-list')).toBe(true);
+    expect(send).toHaveBeenCalledWith('menu-command', 'new-list');
+    builder.runCommand('export-all-markdown');
+    expect(send).toHaveBeenCalledWith('menu-export-markdown', 'all');
+  });
+
+  it('runs main process commands', () => {
+    const { promptRestoreFromBackup } = require('../main/backup');
+    const { builder } = makeBuilder();
+    expect(builder.runCommand('restore-backup')).toBe(true);
+    expect(promptRestoreFromBackup).toHaveBeenCalled();
+  });
+
+  it('refuses debug-only commands without the debug UI', () => {
+    process.env = { ...originalEnv, NODE_ENV: 'production' };
+    delete process.env.DEBUG_PROD;
+    const { builder, send } = makeBuilder();
+    expect(builder.runCommand('toggle-debug-mode')).toBe(false);
+    expect(send).not.toHaveBeenCalled();
+
+    process.env.DEBUG_PROD = 'true';
+    expect(builder.runCommand('toggle-debug-mode')).toBe(true);
+    expect(send).toHaveBeenCalledWith('toggle-debug-mode');
+  });
+});
@@ -0,0 +1,85 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// Verify backup settings persist and are kept within range
+
+jest.mock('electron', () => ({
+  app: {
+    getPath: () => '/tmp',
+  },
+}));
+
+let settings: Record<string, string> = {};
+
+// Minimal better-sqlite3 mock keeping app_settings rows in memory
+jest.mock('better-sqlite3', () => {
+  return function MockDB(this: any) {
+    this.exec = (_sql: string) => {};
+    this.pragma = (_sql: string) => {};
+    this.close = () => {};
+    this.transaction = (fn: any) => fn;
+    this.prepare = (sql: string) => ({
+      all: () => [],
+      get: (...args: any[]) => {
+        if (sql.includes('FROM app_settings')) {
+          return args[0] in settings ? { value: settings[args[0]] } : undefined;
+        }
+        return undefined;
+      },
+      run: (...args: any[]) => {
+        if (sql.includes('INTO app_settings')) {
+          const [key, value] = args;
+          settings[key] = value;
+        }
+        return { changes: 1 };
+      },
+    });
+  } as any;
+});
+// Use require so we can keep mocks above and satisfy lint rules
+const {
+  loadAppSettings,
+  saveAppSettings,
+  DEFAULT_BACKUP_INTERVAL_MINUTES,
+  DEFAULT_BACKUP_KEEP_COUNT,
+} = require('../main/db');
+
+describe('DB: backup settings', () => {
+  beforeEach(() => {
+    settings = {};
+  });
+
+  test('default, save and load', () => {
+    expect(loadAppSettings()).toMatchObject({
+      backupIntervalMinutes: DEFAULT_BACKUP_INTERVAL_MINUTES,
+      backupKeepCount: DEFAULT_BACKUP_KEEP_COUNT,
+    });
+
+    saveAppSettings({
+      hideCompletedItems: true,
+      backupIntervalMinutes: 0,
+      backupKeepCount: 20,
+    });
+    expect(loadAppSettings()).toMatchObject({
+      backupIntervalMinutes: 0,
+      backupKeepCount: 20,
+    });
+  });
+
+  test('out-of-range values are clamped on save and on load', () => {
+    saveAppSettings({
+      hideCompletedItems: true,
+      backupIntervalMinutes: 1,
+      backupKeepCount: 5000,
+    });
+    expect(settings).toMatchObject({
+      backupIntervalMinutes: '5',
+      backupKeepCount: '100',
+    });
+
+    settings.backupIntervalMinutes = '100000';
+    settings.backupKeepCount = '-3';
+    expect(loadAppSettings()).toMatchObject({
+      backupIntervalMinutes: 24 * 60,
+      backupKeepCount: 1,
+    });
+  });
+});
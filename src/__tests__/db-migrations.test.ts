@@ -0,0 +1,219 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// Verify numbered migrations run once each, record schema_version and stop
+// on newer or failing schemas
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const userData = fs.mkdtempSync(path.join(os.tmpdir(), 'todolo-migrate-'));
+
+jest.mock('electron', () => ({
+  app: {
+    getPath: () => userData,
+  },
+}));
+
+let meta: Record<string, string> = {};
+let columns: Record<string, string[]> = {};
+let execs: string[] = [];
+let failOn: string | null = null;
+let pragmas: string[] = [];
+let fkViolations: unknown[] = [];
+// Tables sqlite_master reports; empty for a new database
+let tables: string[] = [];
+
+// Minimal better-sqlite3 mock with a meta table, table_info and rollback of
+// meta writes when a transaction throws
+jest.mock('better-sqlite3', () => {
+  return function MockDB(this: any) {
+    this.exec = (sql: string) => {
+      if (failOn && sql.includes(failOn)) throw new Error('disk I/O error');
+      execs.push(sql);
+      const added = /ALTER TABLE (\w+) ADD COLUMN (\w+)/.exec(sql);
+      if (added) columns[added[1]] = [...(columns[added[1]] ?? []), added[2]];
+    };
+    this.pragma = (sql: string) => {
+      pragmas.push(sql);
+      return sql === 'foreign_key_check' ? fkViolations : undefined;
+    };
+    this.close = () => {};
+    this.transaction = (fn: any) => () => {
+      const before = { ...meta };
+      try {
+        return fn();
+      } catch (e) {
+        meta = before;
+        throw e;
+      }
+    };
+    this.prepare = (sql: string) => ({
+      all: () => {
+        const info = /PRAGMA table_info\((\w+)\)/.exec(sql);
+        return info ? (columns[info[1]] ?? []).map((name) => ({ name })) : [];
+      },
+      get: (key: string) => {
+        if (sql.includes('FROM sqlite_master')) {
+          return tables.includes(key) ? { name: key } : undefined;
+        }
+        if (sql.includes('FROM meta')) {
+          return key in meta ? { value: meta[key] } : undefined;
+        }
+        return undefined;
+      },
+      run: (...args: any[]) => {
+        if (sql.includes('INTO meta')) {
+          const [key, value] = args;
+          meta[key] = value;
+        }
+        return { changes: 1 };
+      },
+    });
+  } as any;
+});
+// Use require so we can keep mocks above and satisfy lint rules
+const {
+  openDatabase,
+  closeDatabase,
+  SchemaError,
+  SCHEMA_VERSION,
+} = require('../main/db');
+
+const alters = () => execs.filter((sql) => sql.startsWith('ALTER TABLE'));
+const dbPath = path.join(userData, 'todolo.db');
+
+describe('DB: schema migrations', () => {
+  beforeEach(() => {
+    closeDatabase();
+    meta = {};
+    columns = {};
+    execs = [];
+    failOn = null;
+    pragmas = [];
+    fkViolations = [];
+    tables = [];
+    fs.writeFileSync(dbPath, 'v1');
+  });
+
+  afterAll(() => {
+    fs.rmSync(userData, { recursive: true, force: true });
+  });
+
+  test('a new database runs every migration and records the version', () => {
+    openDatabase();
+    expect(meta.schema_version).toBe(String(SCHEMA_VERSION));
+    expect(columns.todos).toEqual(
+      expect.arrayContaining(['parent_id', 'due_time', 'completed_at']),
+    );
+  });
+
+  test('only pending migrations run', () => {
+    meta.schema_version = '13';
+    openDatabase();
+    expect(alters()).toEqual([
+      'ALTER TABLE todos ADD COLUMN completed_at TEXT',
+      'ALTER TABLE lists ADD COLUMN revision INTEGER NOT NULL DEFAULT 0',
+    ]);
+    expect(meta.schema_version).toBe(String(SCHEMA_VERSION));
+
+    closeDatabase();
+    execs = [];
+    openDatabase();
+    expect(alters()).toEqual([]);
+  });
+
+  test('databases from before versioning skip columns they already have', () => {
+    columns = { todos: ['parent_id', 'section', 'due_date'] };
+    openDatabase();
+    expect(alters()).not.toContain(
+      'ALTER TABLE todos ADD COLUMN due_date TEXT',
+    );
+    expect(meta.schema_version).toBe(String(SCHEMA_VERSION));
+  });
+
+  test('refuses a database from a newer app version', () => {
+    meta.schema_version = String(SCHEMA_VERSION + 1);
+    let error: any;
+    try {
+      openDatabase();
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(SchemaError);
+    expect(error.kind).toBe('newer_schema');
+    expect(alters()).toEqual([]);
+    expect(meta.schema_version).toBe(String(SCHEMA_VERSION + 1));
+  });
+
+  test('a failing migration stops at the last good version', () => {
+    meta.schema_version = '12';
+    failOn = 'completed_at';
+    let error: any;
+    try {
+      openDatabase();
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(SchemaError);
+    expect(error).toMatchObject({ kind: 'migration_failed', version: 14 });
+    expect(error.message).toContain('disk I/O error');
+    expect(meta.schema_version).toBe('13');
+
+    // The connection isn't kept; the next open retries the migration
+    failOn = null;
+    openDatabase();
+    expect(meta.schema_version).toBe(String(SCHEMA_VERSION));
+  });
+
+  test('a failing migration puts the file back as it was before the first step', () => {
+    tables = ['meta', 'lists'];
+    meta.schema_version = '12';
+    // Migration 13 commits a change to the file before 14 fails
+    failOn = 'completed_at';
+    const exec = execs.push.bind(execs);
+    execs.push = (sql: string) => {
+      fs.writeFileSync(dbPath, 'migrated');
+      return exec(sql);
+    };
+    expect(() => openDatabase()).toThrow(SchemaError);
+    expect(fs.readFileSync(dbPath, 'utf8')).toBe('v1');
+    expect(fs.existsSync(`${dbPath}.pre-migration`)).toBe(false);
+  });
+
+  test('the copy is removed once the migrations succeed', () => {
+    tables = ['meta', 'lists'];
+    meta.schema_version = '16';
+    openDatabase();
+    expect(pragmas).toContain('wal_checkpoint(TRUNCATE)');
+    expect(fs.existsSync(`${dbPath}.pre-migration`)).toBe(false);
+  });
+
+  test('an up-to-date database is not copied', () => {
+    tables = ['meta', 'lists'];
+    meta.schema_version = String(SCHEMA_VERSION);
+    openDatabase();
+    expect(pragmas).not.toContain('wal_checkpoint(TRUNCATE)');
+  });
+
+  test('the todos rebuild runs with foreign keys off and checks them', () => {
+    meta.schema_version = '15';
+    openDatabase();
+    const rebuild = execs.join('\n');
+    expect(rebuild).toContain('CREATE TABLE todos_new');
+    expect(rebuild).not.toMatch(/todos_new \([^;]*section/);
+    expect(rebuild).toContain('ALTER TABLE todos_new RENAME TO todos');
+    expect(pragmas.slice(-3)).toEqual([
+      'foreign_keys = OFF',
+      'foreign_key_check',
+      'foreign_keys = ON',
+    ]);
+    expect(meta.schema_version).toBe(String(SCHEMA_VERSION));
+  });
+
+  test('foreign key violations roll the rebuild back', () => {
+    meta.schema_version = '15';
+    fkViolations = [{ table: 'todos', parent: 'todos' }];
+    expect(() => openDatabase()).toThrow(/foreign key violations/);
+    expect(meta.schema_version).toBe('15');
+    expect(pragmas[pragmas.length - 1]).toBe('foreign_keys = ON');
+  });
+});
@@ -0,0 +1,161 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// Verify moving a todo subtree between lists remaps ids in one transaction
+
+jest.mock('electron', () => ({
+  app: {
+    getPath: () => '/tmp',
+  },
+}));
+
+const runCalls: Array<{ sql: string; args: any[] }> = [];
+let sourceRows: any[] = [];
+let targetExists = true;
+let revisions: Record<string, number> = {};
+let transactions = 0;
+
+// Minimal better-sqlite3 mock serving the source rows and target bounds
+jest.mock('better-sqlite3', () => {
+  return function MockDB(this: any) {
+    this.exec = (_sql: string) => {};
+    this.pragma = (_sql: string) => {};
+    this.close = () => {};
+    this.transaction = (fn: any) => () => {
+      transactions += 1;
+      return fn();
+    };
+    this.prepare = (sql: string) => ({
+      all: () => (sql.includes('FROM todos') ? sourceRows : []),
+      get: (...args: any[]) => {
+        if (sql.startsWith('SELECT revision')) {
+          return { revision: revisions[args[0]] ?? 0 };
+        }
+        if (sql.includes('FROM lists'))
+          return targetExists ? { id: 'b' } : undefined;
+        if (sql.includes('MAX(id)')) return { maxId: 7, maxOrder: 4 };
+        return undefined;
+      },
+      run: (...args: any[]) => {
+        runCalls.push({ sql, args });
+        return {};
+      },
+    });
+  } as any;
+});
+// Use require so we can keep mocks above and satisfy lint rules
+const { moveTodosToList } = require('../main/db');
+
+const row = (id: number, parentId: number | null, indent: number) => ({
+  id,
+  text: `Todo ${id}`,
+  completed: 0,
+  indent,
+  parent_id: parentId,
+  due_date: null,
+  recurrence: null,
+  priority: null,
+  notes: null,
+  collapsed: 0,
+});
+
+describe('DB: moveTodosToList', () => {
+  beforeAll(() => {
+    // Open the database (and run its migrations) before counting transactions
+    moveTodosToList('a', 1, 'a', 0);
+  });
+
+  beforeEach(() => {
+    runCalls.length = 0;
+    transactions = 0;
+    targetExists = true;
+    revisions = {};
+    sourceRows = [row(1, null, 0), row(2, 1, 1), row(3, 2, 2), row(4, null, 0)];
+  });
+
+  test('moves the subtree with fresh ids after the destination rows', () => {
+    const result = moveTodosToList('a', 1, 'b', 0);
+
+    expect(result).toEqual({
+      success: true,
+      idMap: { 1: 8, 2: 9, 3: 10 },
+      revisions: { a: 0, b: 0 },
+    });
+    expect(transactions).toBe(1);
+    const inserts = runCalls.filter((c) =>
+      c.sql.startsWith('INSERT INTO todos'),
+    );
+    // list, id, ..., indent, order_index, parent_id
+    expect(
+      inserts.map(({ args }) => [args[0], args[1], args[4], args[5], args[6]]),
+    ).toEqual([
+      ['b', 8, 0, 1028, null],
+      ['b', 9, 1, 2052, 8],
+      ['b', 10, 2, 3076, 9],
+    ]);
+    const deletes = runCalls.filter((c) =>
+      c.sql.startsWith('DELETE FROM todos'),
+    );
+    expect(deletes.map((c) => c.args)).toEqual([
+      ['a', 1],
+      ['a', 2],
+      ['a', 3],
+    ]);
+  });
+
+  test('re-roots a nested todo at the top level of the destination', () => {
+    const result = moveTodosToList('a', 2, 'b', 0);
+
+    expect(result).toEqual({
+      success: true,
+      idMap: { 2: 8, 3: 9 },
+      revisions: { a: 0, b: 0 },
+    });
+    const inserts = runCalls.filter((c) =>
+      c.sql.startsWith('INSERT INTO todos'),
+    );
+    expect(inserts.map(({ args }) => [args[1], args[4], args[6]])).toEqual([
+      [8, 0, null],
+      [9, 1, 8],
+    ]);
+  });
+
+  test('rejects same-list moves and missing lists or todos', () => {
+    expect(moveTodosToList('a', 1, 'a', 0)).toEqual({
+      success: false,
+      error: 'invalid_args',
+    });
+    expect(moveTodosToList('a', 99, 'b', 0)).toEqual({
+      success: false,
+      error: 'not_found',
+    });
+    targetExists = false;
+    expect(moveTodosToList('a', 1, 'b', 0)).toEqual({
+      success: false,
+      error: 'not_found',
+    });
+    expect(runCalls.filter((c) => c.sql.startsWith('INSERT'))).toEqual([]);
+  });
+
+  test('rejects a move based on an old revision of the source list', () => {
+    revisions = { a: 3 };
+    expect(moveTodosToList('a', 1, 'b', 2)).toEqual({
+      success: false,
+      error: 'revision_conflict',
+      listId: 'a',
+      revision: 3,
+    });
+    expect(runCalls).toEqual([]);
+  });
+
+  test('rejects a move into a target that changed since the caller saved it', () => {
+    revisions = { b: 5 };
+    expect(moveTodosToList('a', 1, 'b', 0, 4)).toEqual({
+      success: false,
+      error: 'revision_conflict',
+      listId: 'b',
+      revision: 5,
+    });
+    expect(runCalls).toEqual([]);
+    // Without a target revision only the source is checked
+    expect(moveTodosToList('a', 1, 'b', 0, null).success).toBe(true);
+  });
+});
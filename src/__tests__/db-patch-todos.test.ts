@@ -0,0 +1,307 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// Verify todo patches touch only the rows they name and saves check revisions
+
+jest.mock('electron', () => ({
+  app: {
+    getPath: () => '/tmp',
+  },
+}));
+
+const calls: Array<{ sql: string; args: any[] }> = [];
+let listExists = true;
+let revision = 0;
+let failOn: string | null = null;
+// order_index of each todo row of the list under test
+const orders = new Map<number, number>();
+
+const firstOrder = (above: number, skipId: number) => {
+  const after = [...orders]
+    .filter(([id, order]) => id !== skipId && order > above)
+    .map(([, order]) => order);
+  return after.length ? { order_index: Math.min(...after) } : undefined;
+};
+
+// Minimal better-sqlite3 mock capturing statements and their arguments
+jest.mock('better-sqlite3', () => {
+  return function MockDB(this: any) {
+    this.exec = (_sql: string) => {};
+    this.pragma = (_sql: string) => {};
+    this.close = () => {};
+    this.transaction = (fn: any) => fn;
+    this.prepare = (sql: string) => ({
+      all: (...args: any[]) => {
+        calls.push({ sql, args });
+        if (sql.startsWith('SELECT id FROM todos')) {
+          return [...orders]
+            .sort((a, b) => a[1] - b[1])
+            .map(([id]) => ({ id }));
+        }
+        return [];
+      },
+      get: (...args: any[]) => {
+        calls.push({ sql, args });
+        if (sql.startsWith('SELECT revision FROM lists')) {
+          return listExists ? { revision } : undefined;
+        }
+        if (sql.includes('order_index > ?')) {
+          return firstOrder(args[1], args[2]);
+        }
+        if (
+          sql.startsWith(
+            'SELECT order_index FROM todos WHERE list_id = ? AND id = ?',
+          )
+        ) {
+          return orders.has(args[1])
+            ? { order_index: orders.get(args[1]) }
+            : undefined;
+        }
+        if (sql.startsWith('SELECT order_index FROM todos')) {
+          return firstOrder(-Infinity, args[1]);
+        }
+        return undefined;
+      },
+      run: (...args: any[]) => {
+        if (failOn && sql.startsWith(failOn)) {
+          throw new Error('FOREIGN KEY constraint failed');
+        }
+        calls.push({ sql, args });
+        if (sql.startsWith('INSERT INTO todos')) {
+          orders.set(args[0].id, args[0].order_index);
+        } else if (sql.startsWith('UPDATE todos SET order_index')) {
+          orders.set(args[2], args[0]);
+        } else if (sql.startsWith('DELETE FROM todos')) {
+          orders.delete(args[1]);
+        }
+        return { changes: 1 };
+      },
+    });
+  } as any;
+});
+// Use require so we can keep mocks above and satisfy lint rules
+const { applyTodosPatch, saveListTodos } = require('../main/db');
+
+const emptyPatch = { inserted: [], updated: [], deleted: [], moved: [] };
+const writes = () =>
+  calls.filter((c) => /^(INSERT|UPDATE|DELETE)/.test(c.sql.trim()));
+
+describe('DB: todo patches', () => {
+  beforeEach(() => {
+    calls.length = 0;
+    listExists = true;
+    revision = 0;
+    failOn = null;
+    orders.clear();
+  });
+
+  test('an update rewrites one row and its search entry and tags', () => {
+    const res = applyTodosPatch(
+      'list-1',
+      {
+        ...emptyPatch,
+        updated: [
+          {
+            id: 7,
+            text: 'call #bob',
+            completed: false,
+            indent: 0,
+            parentId: 3,
+          },
+        ],
+      },
+      0,
+    );
+    expect(res).toEqual({ success: true, revision: 1 });
+    const update = writes().find((c) =>
+      c.sql.startsWith('UPDATE todos SET text'),
+    );
+    expect(update?.args[0]).toMatchObject({
+      list_id: 'list-1',
+      id: 7,
+      text: 'call #bob',
+      parent_id: 3,
+    });
+    expect(writes().some((c) => c.sql.includes('DELETE FROM todos'))).toBe(
+      false,
+    );
+    expect(
+      writes().find((c) => c.sql.includes('INTO search_index'))?.args,
+    ).toEqual(['list-1', 7, 'call #bob']);
+    expect(
+      writes().find((c) => c.sql.includes('INTO todo_tags'))?.args,
+    ).toEqual(['list-1', 7, 'bob']);
+  });
+
+  test('inserts go between their neighbours without moving other rows', () => {
+    orders.set(1, 0).set(2, 1024);
+    applyTodosPatch(
+      'list-1',
+      {
+        ...emptyPatch,
+        inserted: [
+          {
+            todo: { id: 9, text: '', completed: false, indent: 0 },
+            afterId: 1,
+          },
+        ],
+      },
+      0,
+    );
+    const insert = writes().find((c) => c.sql.startsWith('INSERT INTO todos'));
+    // A taken id fails the patch instead of overwriting that row
+    expect(insert?.sql).not.toContain('ON CONFLICT');
+    expect(insert?.args[0]).toMatchObject({ id: 9, order_index: 512 });
+    // Blank rows aren't searchable
+    expect(writes().some((c) => c.sql.includes('INTO search_index'))).toBe(
+      false,
+    );
+    expect(
+      writes().some((c) => c.sql.startsWith('UPDATE todos SET order_index')),
+    ).toBe(false);
+  });
+
+  test('a moved row changes only its own order', () => {
+    orders.set(1, 0).set(2, 1024).set(3, 2048);
+    applyTodosPatch(
+      'list-1',
+      { ...emptyPatch, moved: [{ id: 3, afterId: null }] },
+      0,
+    );
+    const moves = writes().filter((c) =>
+      c.sql.startsWith('UPDATE todos SET order_index'),
+    );
+    expect(moves.map((c) => c.args)).toEqual([[-1024, 'list-1', 3]]);
+  });
+
+  test('rows following other placed rows are placed after them', () => {
+    orders.set(1, 0).set(2, 1024);
+    applyTodosPatch(
+      'list-1',
+      {
+        ...emptyPatch,
+        inserted: [
+          {
+            todo: { id: 11, text: 'b', completed: false, indent: 0 },
+            afterId: 10,
+          },
+          {
+            todo: { id: 10, text: 'a', completed: false, indent: 0 },
+            afterId: 2,
+          },
+        ],
+        moved: [{ id: 1, afterId: 11 }],
+      },
+      0,
+    );
+    expect([...orders].sort((a, b) => a[1] - b[1]).map(([id]) => id)).toEqual([
+      2, 10, 11, 1,
+    ]);
+  });
+
+  test('renumbers the list once there is no room left between rows', () => {
+    orders.set(1, 0).set(2, 1);
+    applyTodosPatch(
+      'list-1',
+      {
+        ...emptyPatch,
+        inserted: [
+          {
+            todo: { id: 9, text: '', completed: false, indent: 0 },
+            afterId: 1,
+          },
+        ],
+      },
+      0,
+    );
+    expect(Object.fromEntries(orders)).toEqual({ 1: 0, 2: 1024, 9: 512 });
+  });
+
+  test('deletes remove the row, its search entry and its tags', () => {
+    applyTodosPatch('list-1', { ...emptyPatch, deleted: [4] }, 0);
+    expect(writes().map((c) => [c.sql.split(' WHERE')[0], c.args])).toEqual([
+      ['UPDATE lists SET revision = ?', [1, 'list-1']],
+      ['DELETE FROM todos', ['list-1', 4]],
+      ['DELETE FROM search_index', ['list-1', 4]],
+      ['DELETE FROM todo_tags', ['list-1', 4]],
+    ]);
+  });
+
+  test('creates a placeholder list when the list row is missing', () => {
+    listExists = false;
+    applyTodosPatch('list-new', emptyPatch, 0);
+    const created = writes().find((c) => c.sql.startsWith('INSERT INTO lists'));
+    expect(created?.args.slice(0, 2)).toEqual(['list-new', 'Untitled']);
+  });
+
+  test('reports a failed patch instead of throwing', () => {
+    failOn = 'UPDATE todos';
+    const res = applyTodosPatch(
+      'list-1',
+      {
+        ...emptyPatch,
+        updated: [{ id: 1, text: 'a', completed: false, parentId: 99 }],
+      },
+      0,
+    );
+    expect(res.success).toBe(false);
+    expect(res.error).toContain('FOREIGN KEY');
+  });
+
+  test('an insert whose id is taken fails the patch', () => {
+    failOn = 'INSERT INTO todos';
+    const res = applyTodosPatch(
+      'list-1',
+      {
+        ...emptyPatch,
+        inserted: [
+          {
+            todo: { id: 3, text: 'new', completed: false, indent: 0 },
+            orderIndex: 0,
+          },
+        ],
+      },
+      0,
+    );
+    expect(res.success).toBe(false);
+    expect(writes().some((c) => c.sql.startsWith('INSERT INTO todos'))).toBe(
+      false,
+    );
+  });
+
+  test('a patch based on an old revision is rejected without writing', () => {
+    revision = 5;
+    const res = applyTodosPatch('list-1', { ...emptyPatch, deleted: [4] }, 4);
+    expect(res).toEqual({
+      success: false,
+      error: 'revision_conflict',
+      revision: 5,
+    });
+    expect(writes()).toEqual([]);
+  });
+
+  test('a full save checks and bumps the revision too', () => {
+    revision = 2;
+    const doc = { version: 2, todos: [] };
+    expect(saveListTodos('list-1', doc, 1)).toMatchObject({
+      error: 'revision_conflict',
+      revision: 2,
+    });
+    expect(saveListTodos('list-1', doc, 2)).toEqual({
+      success: true,
+      revision: 3,
+    });
+  });
+
+  test('a full save no longer skips a lone blank row', () => {
+    saveListTodos(
+      'list-1',
+      {
+        version: 2,
+        todos: [{ id: 1, text: '', completed: false, indent: 0 }],
+      },
+      0,
+    );
+    expect(writes().map((c) => c.sql.split(' WHERE')[0])).toContain(
+      'DELETE FROM todos',
+    );
+  });
+});
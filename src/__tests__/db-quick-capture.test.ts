@@ -0,0 +1,134 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// Verify quick capture appends to a list and its shortcut setting persists
+
+jest.mock('electron', () => ({
+  app: {
+    getPath: () => '/tmp',
+  },
+}));
+
+const calls: Array<{ sql: string; args: any[] }> = [];
+let liveListIds = new Set<string>();
+let settings: Record<string, string> = {};
+
+// Minimal better-sqlite3 mock capturing statements and their arguments
+jest.mock('better-sqlite3', () => {
+  return function MockDB(this: any) {
+    this.exec = (_sql: string) => {};
+    this.pragma = (_sql: string) => {};
+    this.close = () => {};
+    this.transaction = (fn: any) => fn;
+    this.prepare = (sql: string) => ({
+      all: (...args: any[]) => {
+        calls.push({ sql, args });
+        if (sql.includes('FROM todos WHERE list_id = ?')) {
+          return [
+            { id: 3, text: 'first', completed: 0, indent: 0, parent_id: null },
+            { id: 7, text: 'second', completed: 1, indent: 0, parent_id: null },
+          ];
+        }
+        return [];
+      },
+      get: (...args: any[]) => {
+        calls.push({ sql, args });
+        if (sql.includes('FROM lists WHERE id = ?')) {
+          return liveListIds.has(args[0]) ? { id: args[0] } : undefined;
+        }
+        if (sql.includes('FROM app_settings')) {
+          return args[0] in settings ? { value: settings[args[0]] } : undefined;
+        }
+        return undefined;
+      },
+      run: (...args: any[]) => {
+        calls.push({ sql, args });
+        if (sql.includes('INTO app_settings')) {
+          const [key, value] = args;
+          settings[key] = value;
+        }
+        return { changes: 1 };
+      },
+    });
+  } as any;
+});
+// Use require so we can keep mocks above and satisfy lint rules
+const {
+  appendTodo,
+  loadAppSettings,
+  saveAppSettings,
+  DEFAULT_QUICK_CAPTURE_SHORTCUT,
+} = require('../main/db');
+
+const insertedTodos = () =>
+  calls
+    .filter((c) => c.sql.startsWith('INSERT INTO todos'))
+    .map((c) => c.args[0]);
+
+describe('DB: quick capture', () => {
+  beforeEach(() => {
+    calls.length = 0;
+    liveListIds = new Set(['list-1']);
+    settings = {};
+  });
+
+  test('appends a trimmed top-level todo after the existing ones', () => {
+    const res = appendTodo('list-1', '  Buy milk  ');
+
+    expect(res).toEqual({ success: true, todoId: 8, revision: 1 });
+    const inserted = insertedTodos();
+    expect(inserted.map((t: any) => t.id)).toEqual([3, 7, 8]);
+    expect(inserted[2]).toMatchObject({
+      text: 'Buy milk',
+      completed: 0,
+      parent_id: null,
+      order_index: 2048,
+    });
+  });
+
+  test('stores parsed due date, time and priority; drops malformed ones', () => {
+    appendTodo('list-1', 'Call Bob', {
+      dueDate: '2024-05-03',
+      dueTime: '15:00',
+      priority: 'high',
+    });
+    expect(insertedTodos()[2]).toMatchObject({
+      due_date: '2024-05-03',
+      due_time: '15:00',
+      priority: 'high',
+    });
+
+    calls.length = 0;
+    appendTodo('list-1', 'Call Bob', { dueTime: '25:99', priority: 'meh' });
+    expect(insertedTodos()[2]).toMatchObject({
+      due_date: null,
+      due_time: null,
+      priority: null,
+    });
+  });
+
+  test('refuses empty text and lists that are missing or in the Trash', () => {
+    expect(appendTodo('list-1', '   ')).toEqual({
+      success: false,
+      error: 'empty_text',
+    });
+    expect(appendTodo('trashed', 'x')).toEqual({
+      success: false,
+      error: 'list_not_found',
+    });
+    expect(insertedTodos()).toHaveLength(0);
+  });
+
+  test('shortcut setting defaults, saves and can be cleared', () => {
+    expect(loadAppSettings().quickCaptureShortcut).toBe(
+      DEFAULT_QUICK_CAPTURE_SHORTCUT,
+    );
+
+    saveAppSettings({
+      hideCompletedItems: true,
+      quickCaptureShortcut: 'Alt+Space',
+    });
+    expect(loadAppSettings().quickCaptureShortcut).toBe('Alt+Space');
+
+    saveAppSettings({ hideCompletedItems: true, quickCaptureShortcut: '' });
+    expect(loadAppSettings().quickCaptureShortcut).toBe('');
+  });
+});
@@ -0,0 +1,106 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// Verify pending reminders honour notified/snoozed state per due time
+
+jest.mock('electron', () => ({
+  app: {
+    getPath: () => '/tmp',
+  },
+}));
+
+let reminderRows: any[] = [];
+const runs: Array<{ sql: string; args: any[] }> = [];
+
+// Minimal better-sqlite3 mock returning canned reminder rows
+jest.mock('better-sqlite3', () => {
+  return function MockDB(this: any) {
+    this.exec = (_sql: string) => {};
+    this.pragma = (_sql: string) => {};
+    this.close = () => {};
+    this.transaction = (fn: any) => fn;
+    this.prepare = (sql: string) => ({
+      all: () => (sql.includes('LEFT JOIN reminder_state') ? reminderRows : []),
+      get: () => undefined,
+      run: (...args: any[]) => {
+        runs.push({ sql, args });
+        return { changes: 1 };
+      },
+    });
+  } as any;
+});
+// Use require so we can keep mocks above and satisfy lint rules
+const {
+  loadPendingReminders,
+  markReminderNotified,
+  snoozeReminder,
+} = require('../main/db');
+
+const row = (overrides: Record<string, unknown>) => ({
+  listId: 'list-1',
+  listName: 'Work',
+  todoId: 1,
+  text: 'Call Bob',
+  dueDate: '2025-06-15',
+  dueTime: '15:00',
+  stateDueAt: null,
+  notifiedAt: null,
+  snoozedUntil: null,
+  ...overrides,
+});
+
+describe('DB: reminders', () => {
+  beforeEach(() => {
+    reminderRows = [];
+    runs.length = 0;
+  });
+
+  test('reminds at the local due time, earliest first', () => {
+    reminderRows = [
+      row({ todoId: 1, dueTime: '15:00' }),
+      row({ todoId: 2, dueTime: '09:30' }),
+      row({ todoId: 3, dueTime: 'soon' }),
+    ];
+    expect(loadPendingReminders()).toEqual([
+      expect.objectContaining({
+        todoId: 2,
+        dueAt: '2025-06-15T09:30',
+        fireAt: new Date(2025, 5, 15, 9, 30).getTime(),
+      }),
+      expect.objectContaining({ todoId: 1, listName: 'Work' }),
+    ]);
+  });
+
+  test('skips notified reminders and uses snooze times, for the same due time only', () => {
+    const snoozedUntil = '2025-06-15T13:10:00.000Z';
+    reminderRows = [
+      row({
+        todoId: 1,
+        stateDueAt: '2025-06-15T15:00',
+        notifiedAt: '2025-06-15T13:00:00.000Z',
+      }),
+      row({ todoId: 2, stateDueAt: '2025-06-15T15:00', snoozedUntil }),
+      // Due time moved since it was shown: reminds again
+      row({
+        todoId: 3,
+        stateDueAt: '2025-06-14T15:00',
+        notifiedAt: '2025-06-14T13:00:00.000Z',
+      }),
+    ];
+    const pending = loadPendingReminders();
+    expect(pending.map((r: any) => r.todoId)).toEqual([2, 3]);
+    expect(pending[0].fireAt).toBe(Date.parse(snoozedUntil));
+  });
+
+  test('records notified and snoozed state', () => {
+    const at = new Date('2025-06-15T13:00:00.000Z');
+    const target = { listId: 'list-1', todoId: 1, dueAt: '2025-06-15T15:00' };
+    markReminderNotified(target, at);
+    snoozeReminder(target, at);
+    const writes = runs.filter((r) => r.sql.includes('reminder_state'));
+    expect(writes.map((w) => w.args)).toEqual([
+      ['list-1', 1, '2025-06-15T15:00', at.toISOString()],
+      ['list-1', 1, '2025-06-15T15:00', at.toISOString()],
+    ]);
+    expect(writes[0].sql).toContain('NULL)');
+    expect(writes[1].sql).toContain('NULL, ?)');
+  });
+});
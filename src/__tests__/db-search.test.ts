@@ -0,0 +1,136 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// Verify the FTS search index is kept in sync and queried safely
+
+jest.mock('electron', () => ({
+  app: {
+    getPath: () => '/tmp',
+  },
+}));
+
+const runCalls: Array<{ sql: string; args: any[] }> = [];
+let allRows: any[] = [];
+
+// Minimal better-sqlite3 mock capturing statements and their arguments
+jest.mock('better-sqlite3', () => {
+  return function MockDB(this: any) {
+    this.exec = (_sql: string) => {};
+    this.pragma = (_sql: string) => {};
+    this.close = () => {};
+    this.transaction = (fn: any) => fn;
+    this.prepare = (sql: string) => ({
+      all: (...args: any[]) => {
+        runCalls.push({ sql, args });
+        return sql.includes('search_index MATCH') ? allRows : [];
+      },
+      get: () => undefined,
+      run: (...args: any[]) => {
+        runCalls.push({ sql, args });
+        return {};
+      },
+    });
+  } as any;
+});
+// Use require so we can keep mocks above and satisfy lint rules
+const {
+  buildSearchMatchQuery,
+  saveListTodos,
+  saveListsIndex,
+  searchTodos,
+} = require('../main/db');
+
+describe('DB: full-text search', () => {
+  beforeEach(() => {
+    runCalls.length = 0;
+    allRows = [];
+  });
+
+  test('buildSearchMatchQuery quotes and prefix-matches every term', () => {
+    expect(buildSearchMatchQuery('  buy  mil ')).toBe('"buy"* "mil"*');
+    expect(buildSearchMatchQuery('say "hi" OR')).toBe('"say"* """hi"""* "OR"*');
+    expect(buildSearchMatchQuery('   ')).toBeNull();
+  });
+
+  test('saveListTodos re-indexes non-empty todo text for the list', () => {
+    saveListTodos(
+      'list-1',
+      {
+        version: 2,
+        todos: [
+          { id: 1, text: 'milk', completed: false, indent: 0, parentId: null },
+          { id: 2, text: '  ', completed: false, indent: 0, parentId: null },
+        ],
+      },
+      0,
+    );
+    const deletes = runCalls.filter((c) =>
+      c.sql.startsWith('DELETE FROM search_index'),
+    );
+    const inserts = runCalls.filter((c) =>
+      c.sql.startsWith('INSERT INTO search_index'),
+    );
+    expect(deletes.map((c) => c.args)).toEqual([['list-1']]);
+    expect(inserts.map((c) => c.args)).toEqual([['list-1', 1, 'milk']]);
+  });
+
+  test('saveListsIndex indexes list names', () => {
+    saveListsIndex({
+      version: 2,
+      lists: [
+        {
+          id: 'a',
+          name: 'Groceries',
+          createdAt: '2024-01-01T00:00:00.000Z',
+          updatedAt: '2024-01-01T00:00:00.000Z',
+        },
+      ],
+      selectedListId: 'a',
+    });
+    const inserts = runCalls.filter((c) =>
+      c.sql.startsWith('INSERT INTO search_index'),
+    );
+    expect(inserts.map((c) => c.args)).toEqual([['a', 'Groceries']]);
+  });
+
+  test('searchTodos maps rows and skips blank queries', () => {
+    expect(searchTodos('  ')).toEqual([]);
+    allRows = [
+      {
+        kind: 'todo',
+        listId: 'a',
+        todoId: 3,
+        text: 'milk',
+        listName: 'Groceries',
+        completed: 1,
+      },
+      {
+        kind: 'list',
+        listId: 'a',
+        todoId: null,
+        text: 'Groceries',
+        listName: 'Groceries',
+        completed: null,
+      },
+    ];
+    const hits = searchTodos('gro');
+    const query = runCalls.find((c) => c.sql.includes('search_index MATCH'));
+    expect(query?.args[0]).toBe('"gro"*');
+    expect(hits).toEqual([
+      {
+        kind: 'todo',
+        listId: 'a',
+        listName: 'Groceries',
+        todoId: 3,
+        text: 'milk',
+        completed: true,
+      },
+      {
+        kind: 'list',
+        listId: 'a',
+        listName: 'Groceries',
+        todoId: null,
+        text: 'Groceries',
+        completed: false,
+      },
+    ]);
+  });
+});
@@ -43,28 +43,36 @@ describe('DB: section column deprecation', () => {
 
   test('loadListTodos SELECT does not include section', () => {
     loadListTodos('list-1');
-    const select = prepareSqlCalls.find((s) => s.startsWith('SELECT')) || '';
+    const select =
+      prepareSqlCalls.find(
+        (s) =>
+          s.startsWith('SELECT') && s.includes('FROM todos WHERE list_id = ?'),
+      ) || '';
     expect(select).toContain('SELECT id, text, completed, indent, parent_id');
     expect(select).not.toContain('section');
   });
 
   test('saveListTodos INSERT does not include section', () => {
-    saveListTodos('list-1', {
-      version: 2,
-      todos: [
-        {
-          id: 1,
-          text: 'a',
-          completed: false,
-          indent: 0,
-          parentId: null,
-        },
-      ],
-    });
+    saveListTodos(
+      'list-1',
+      {
+        version: 2,
+        todos: [
+          {
+            id: 1,
+            text: 'a',
+            completed: false,
+            indent: 0,
+            parentId: null,
+          },
+        ],
+      },
+      0,
+    );
     const insert =
       prepareSqlCalls.find((s) => s.startsWith('INSERT INTO todos')) || '';
     expect(insert).toContain(
-      'INSERT INTO todos (list_id, id, text, completed, indent, order_index, parent_id)',
+      'INSERT INTO todos (list_id, id, text, completed, indent, order_index, parent_id, due_date, due_time, recurrence, priority, notes, collapsed, completed_at)',
     );
     expect(insert).not.toContain('section');
   });
@@ -87,7 +95,7 @@ describe('DB: section column deprecation', () => {
     const todosInsert =
       inserts.find((s) => s.startsWith('INSERT INTO todos')) || '';
     expect(todosInsert).toContain(
-      'INSERT INTO todos (list_id, id, text, completed, indent, order_index, parent_id)',
+      'INSERT INTO todos (list_id, id, text, completed, indent, order_index, parent_id, due_date, due_time, recurrence, priority, notes, collapsed, completed_at)',
     );
     expect(todosInsert).not.toContain('section');
   });
@@ -0,0 +1,149 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// Verify completion timestamps round-trip and smart list definitions persist
+
+jest.mock('electron', () => ({
+  app: {
+    getPath: () => '/tmp',
+  },
+}));
+
+const calls: Array<{ sql: string; args: any[] }> = [];
+let settings: Record<string, string> = {};
+let todoRows: any[] = [];
+
+// Minimal better-sqlite3 mock capturing statements and their arguments
+jest.mock('better-sqlite3', () => {
+  return function MockDB(this: any) {
+    this.exec = (_sql: string) => {};
+    this.pragma = (_sql: string) => {};
+    this.close = () => {};
+    this.transaction = (fn: any) => fn;
+    this.prepare = (sql: string) => ({
+      all: (...args: any[]) => {
+        calls.push({ sql, args });
+        if (sql.includes('FROM todos WHERE list_id = ?')) return todoRows;
+        return [];
+      },
+      get: (...args: any[]) => {
+        calls.push({ sql, args });
+        if (sql.includes('FROM app_settings')) {
+          return args[0] in settings ? { value: settings[args[0]] } : undefined;
+        }
+        return undefined;
+      },
+      run: (...args: any[]) => {
+        calls.push({ sql, args });
+        if (sql.includes('INTO app_settings')) {
+          const [key, value] = args;
+          settings[key] = value;
+        }
+        return { changes: 1 };
+      },
+    });
+  } as any;
+});
+// Use require so we can keep mocks above and satisfy lint rules
+const {
+  loadListTodos,
+  saveListTodos,
+  loadSmartLists,
+  saveSmartLists,
+} = require('../main/db');
+
+describe('DB: smart lists', () => {
+  beforeEach(() => {
+    calls.length = 0;
+    settings = {};
+    todoRows = [];
+  });
+
+  test('stores completedAt only for completed todos', () => {
+    saveListTodos(
+      'list-1',
+      {
+        version: 2,
+        todos: [
+          {
+            id: 1,
+            text: 'done',
+            completed: true,
+            indent: 0,
+            parentId: null,
+            completedAt: '2024-05-03T10:00:00.000Z',
+          },
+          {
+            id: 2,
+            text: 'reopened',
+            completed: false,
+            indent: 0,
+            parentId: null,
+            completedAt: '2024-05-03T10:00:00.000Z',
+          },
+        ],
+      },
+      0,
+    );
+    const inserted = calls
+      .filter((c) => c.sql.startsWith('INSERT INTO todos'))
+      .map((c) => c.args[0].completed_at);
+    expect(inserted).toEqual(['2024-05-03T10:00:00.000Z', null]);
+  });
+
+  test('loads completedAt, dropping malformed timestamps', () => {
+    todoRows = [
+      {
+        id: 1,
+        text: 'a',
+        completed: 1,
+        indent: 0,
+        parent_id: null,
+        completed_at: '2024-05-03T10:00:00.000Z',
+      },
+      {
+        id: 2,
+        text: 'b',
+        completed: 1,
+        indent: 0,
+        parent_id: null,
+        completed_at: 'yesterday-ish',
+      },
+    ];
+    const { todos } = loadListTodos('list-1');
+    expect(todos.map((t: any) => t.completedAt)).toEqual([
+      '2024-05-03T10:00:00.000Z',
+      null,
+    ]);
+  });
+
+  test('saves normalized definitions and loads them back', () => {
+    expect(loadSmartLists()).toEqual([]);
+
+    expect(
+      saveSmartLists([
+        { id: 'a', name: ' Work ', filter: { tag: '#Sales', due: 'soon' } },
+        { id: 'a', name: 'duplicate' },
+        { name: 'no id' },
+      ]),
+    ).toEqual({ success: true });
+
+    expect(loadSmartLists()).toEqual([
+      {
+        id: 'a',
+        name: 'Work',
+        filter: {
+          status: 'open',
+          due: 'any',
+          tag: 'sales',
+          minPriority: null,
+          text: '',
+          listIds: [],
+        },
+      },
+    ]);
+  });
+
+  test('ignores a corrupt stored value', () => {
+    settings.smartLists = '{not json';
+    expect(loadSmartLists()).toEqual([]);
+  });
+});
@@ -0,0 +1,121 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// Verify the todo_tags index is kept in sync and queried by tag
+
+jest.mock('electron', () => ({
+  app: {
+    getPath: () => '/tmp',
+  },
+}));
+
+const runCalls: Array<{ sql: string; args: any[] }> = [];
+let allRows: any[] = [];
+
+// Minimal better-sqlite3 mock capturing statements and their arguments
+jest.mock('better-sqlite3', () => {
+  return function MockDB(this: any) {
+    this.exec = (_sql: string) => {};
+    this.pragma = (_sql: string) => {};
+    this.close = () => {};
+    this.transaction = (fn: any) => fn;
+    this.prepare = (sql: string) => ({
+      all: (...args: any[]) => {
+        runCalls.push({ sql, args });
+        return sql.includes('FROM todo_tags') ? allRows : [];
+      },
+      get: () => undefined,
+      run: (...args: any[]) => {
+        runCalls.push({ sql, args });
+        return {};
+      },
+    });
+  } as any;
+});
+// Use require so we can keep mocks above and satisfy lint rules
+const {
+  extractTags,
+  findTodosByTag,
+  loadTags,
+  saveListTodos,
+} = require('../main/db');
+
+describe('DB: tags', () => {
+  beforeEach(() => {
+    runCalls.length = 0;
+    allRows = [];
+  });
+
+  test('extractTags finds distinct lower-cased hashtags', () => {
+    expect(extractTags('#UI polish #ui and #2024 x#y #docs')).toEqual([
+      'ui',
+      'docs',
+    ]);
+  });
+
+  test('saveListTodos rewrites the tag rows for the list', () => {
+    saveListTodos(
+      'list-1',
+      {
+        version: 2,
+        todos: [
+          {
+            id: 1,
+            text: 'Fix nav #frontend #bug',
+            completed: false,
+            indent: 0,
+            parentId: null,
+          },
+          {
+            id: 2,
+            text: 'No tags',
+            completed: false,
+            indent: 0,
+            parentId: null,
+          },
+        ],
+      },
+      0,
+    );
+    const deletes = runCalls.filter((c) =>
+      c.sql.startsWith('DELETE FROM todo_tags'),
+    );
+    const inserts = runCalls.filter((c) =>
+      c.sql.startsWith('INSERT OR IGNORE INTO todo_tags'),
+    );
+    expect(deletes.map((c) => c.args)).toEqual([['list-1']]);
+    expect(inserts.map((c) => c.args)).toEqual([
+      ['list-1', 1, 'frontend'],
+      ['list-1', 1, 'bug'],
+    ]);
+  });
+
+  test('loadTags maps counts', () => {
+    allRows = [{ tag: 'frontend', count: 3 }];
+    expect(loadTags()).toEqual([{ tag: 'frontend', count: 3 }]);
+  });
+
+  test('findTodosByTag normalizes the tag and maps rows to hits', () => {
+    expect(findTodosByTag('  ')).toEqual([]);
+    allRows = [
+      {
+        listId: 'a',
+        todoId: 4,
+        text: 'Fix nav #frontend',
+        completed: 0,
+        listName: 'Sprint',
+      },
+    ];
+    const hits = findTodosByTag('#Frontend');
+    const query = runCalls.find((c) => c.sql.includes('WHERE todo_tags.tag'));
+    expect(query?.args).toEqual(['frontend']);
+    expect(hits).toEqual([
+      {
+        kind: 'todo',
+        listId: 'a',
+        listName: 'Sprint',
+        todoId: 4,
+        text: 'Fix nav #frontend',
+        completed: false,
+      },
+    ]);
+  });
+});
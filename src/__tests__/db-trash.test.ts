@@ -0,0 +1,113 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// Verify lists are soft-deleted into the Trash and purged explicitly
+
+jest.mock('electron', () => ({
+  app: {
+    getPath: () => '/tmp',
+  },
+}));
+
+const calls: Array<{ sql: string; args: any[] }> = [];
+let trashedIds = new Set<string>();
+let expiredIds: string[] = [];
+
+// Minimal better-sqlite3 mock capturing statements and their arguments
+jest.mock('better-sqlite3', () => {
+  return function MockDB(this: any) {
+    this.exec = (_sql: string) => {};
+    this.pragma = (_sql: string) => {};
+    this.close = () => {};
+    this.transaction = (fn: any) => fn;
+    this.prepare = (sql: string) => ({
+      all: (...args: any[]) => {
+        calls.push({ sql, args });
+        if (sql.includes('deleted_at < ?')) {
+          return expiredIds.map((id) => ({ id }));
+        }
+        return [];
+      },
+      get: (...args: any[]) => {
+        calls.push({ sql, args });
+        if (
+          sql.includes('deleted_at IS NOT NULL') &&
+          sql.startsWith('SELECT 1')
+        ) {
+          return trashedIds.has(args[0]) ? { 1: 1 } : undefined;
+        }
+        return undefined;
+      },
+      run: (...args: any[]) => {
+        calls.push({ sql, args });
+        return { changes: 1 };
+      },
+    });
+  } as any;
+});
+// Use require so we can keep mocks above and satisfy lint rules
+const {
+  deleteList,
+  loadListsIndex,
+  purgeList,
+  purgeExpiredTrash,
+} = require('../main/db');
+
+const ran = (fragment: string) => calls.filter((c) => c.sql.includes(fragment));
+
+describe('DB: trash', () => {
+  beforeEach(() => {
+    calls.length = 0;
+    trashedIds = new Set();
+    expiredIds = [];
+  });
+
+  test('deleteList marks the list deleted instead of removing rows', () => {
+    expect(deleteList('list-1')).toEqual({ success: true });
+    const update = ran('UPDATE lists SET deleted_at = ?');
+    expect(update).toHaveLength(1);
+    expect(update[0].args[1]).toBe('list-1');
+    expect(ran('DELETE FROM todos')).toHaveLength(0);
+    expect(ran('DELETE FROM lists')).toHaveLength(0);
+  });
+
+  test('loadListsIndex only returns lists that are not in the trash', () => {
+    loadListsIndex();
+    const select = calls.find((c) =>
+      c.sql.includes('SELECT id, name, created_at as createdAt'),
+    );
+    expect(select?.sql).toContain('WHERE deleted_at IS NULL');
+  });
+
+  test('purgeList refuses lists that are not in the trash', () => {
+    expect(purgeList('live')).toEqual({
+      success: false,
+      error: 'not_in_trash',
+    });
+    expect(ran('DELETE FROM lists')).toHaveLength(0);
+  });
+
+  test('purgeList hard-deletes a trashed list with its todos', () => {
+    trashedIds.add('gone');
+    expect(purgeList('gone')).toEqual({ success: true });
+    expect(ran('DELETE FROM todos WHERE list_id = ?')[0].args).toEqual([
+      'gone',
+    ]);
+    expect(ran('DELETE FROM search_index')[0].args).toEqual(['gone']);
+    expect(ran('DELETE FROM lists WHERE id = ?')[0].args).toEqual(['gone']);
+  });
+
+  test('purgeExpiredTrash purges lists older than the retention cutoff', () => {
+    trashedIds = new Set(['old']);
+    expiredIds = ['old'];
+    const now = new Date('2024-03-31T00:00:00.000Z');
+
+    expect(purgeExpiredTrash(30, now)).toBe(1);
+    const query = ran('deleted_at < ?')[0];
+    expect(query.args).toEqual(['2024-03-01T00:00:00.000Z']);
+  });
+
+  test('purgeExpiredTrash with retention 0 keeps everything', () => {
+    expiredIds = ['old'];
+    expect(purgeExpiredTrash(0)).toBe(0);
+    expect(ran('deleted_at < ?')).toHaveLength(0);
+  });
+});
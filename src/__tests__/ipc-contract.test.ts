@@ -0,0 +1,182 @@
+import * as s from '../shared/ipcSchema';
+import {
+  checkRequest,
+  checkResponse,
+  isIpcPayloadError,
+} from '../shared/ipcContract';
+
+const handlers = new Map<string, (...args: unknown[]) => Promise<unknown>>();
+
+jest.mock('electron', () => ({
+  ipcMain: {
+    handle: (channel: string, fn: (...args: unknown[]) => Promise<unknown>) =>
+      handlers.set(channel, fn),
+  },
+}));
+
+const { handle, send } = require('../main/ipc');
+const { on } = require('../renderer/features/todos/api/ipc');
+
+describe('IPC schemas', () => {
+  it('reports where a nested value is wrong', () => {
+    const schema = s.object({
+      todos: s.array(s.object({ id: s.integer(), text: s.string() })),
+    });
+    const res = s.check(schema, { todos: [{ id: 1, text: 2 }] }, 'args');
+    expect(res).toEqual({
+      ok: false,
+      issues: [
+        { path: 'args.todos[0].text', message: 'expected string, got number' },
+      ],
+    });
+  });
+
+  it('keeps keys the schema does not mention and skips missing optional ones', () => {
+    const schema = s.object({ id: s.string(), note: s.optional(s.string()) });
+    expect(s.check(schema, { id: 'a', section: 'active' }, 'reply')).toEqual({
+      ok: true,
+      value: { id: 'a', section: 'active' },
+    });
+  });
+
+  it('drops invalid items only when asked to', () => {
+    const items = [1, 'two', 3];
+    expect(s.check(s.array(s.integer()), items, 'reply').ok).toBe(false);
+    expect(
+      s.check(s.array(s.integer(), { dropInvalid: true }), items, 'reply'),
+    ).toEqual({ ok: true, value: [1, 3] });
+  });
+
+  it('reports the closest union option', () => {
+    const schema = s.union(
+      s.object({ success: s.literal(true), revision: s.integer() }),
+      s.object({ success: s.literal(false), error: s.string() }),
+    );
+    const res = s.check(schema, { success: true, revision: 'x' }, 'reply');
+    expect(res).toEqual({
+      ok: false,
+      issues: [
+        { path: 'reply.revision', message: 'expected integer, got string' },
+      ],
+    });
+  });
+
+  it('accepts trailing arguments being left out', () => {
+    const schema = s.args([s.string()], [s.string()]);
+    expect(s.check(schema, ['a'], 'args').ok).toBe(true);
+    expect(s.check(schema, ['a', undefined], 'args').ok).toBe(true);
+    expect(s.check(schema, [], 'args')).toEqual({
+      ok: false,
+      issues: [{ path: 'args', message: 'expected 1 to 2 arguments, got 0' }],
+    });
+  });
+});
+
+describe('IPC contract', () => {
+  it('checks requests against the channel contract', () => {
+    expect(checkRequest('delete-list', ['list-1'])).toEqual({
+      ok: true,
+      value: ['list-1'],
+    });
+    const res = checkRequest('save-list-todos', [
+      'list-1',
+      { version: 2, todos: [{ id: 1, text: 'a', completed: 'no' }] },
+      0,
+    ]);
+    expect(res).toMatchObject({
+      ok: false,
+      error: {
+        channel: 'save-list-todos',
+        direction: 'request',
+        issues: [
+          {
+            path: 'args[1].todos[0].completed',
+            message: 'expected boolean, got string',
+          },
+        ],
+      },
+    });
+    expect(isIpcPayloadError((res as { error?: unknown }).error)).toBe(true);
+  });
+
+  it('checks replies against the channel contract', () => {
+    expect(
+      checkResponse('save-list-todos', {
+        success: false,
+        error: 'revision_conflict',
+        revision: 4,
+      }).ok,
+    ).toBe(true);
+    expect(checkResponse('load-app-settings', null)).toMatchObject({
+      ok: false,
+      error: { direction: 'response', channel: 'load-app-settings' },
+    });
+  });
+});
+
+describe('main process IPC helpers', () => {
+  beforeEach(() => {
+    handlers.clear();
+  });
+
+  it('runs handlers only with valid arguments', async () => {
+    const handler = jest.fn(async () => ({ success: true }));
+    handle('delete-list', handler);
+    const registered = handlers.get('delete-list')!;
+
+    await expect(registered({}, 'list-1')).resolves.toEqual({ success: true });
+    expect(handler).toHaveBeenCalledWith({}, 'list-1');
+
+    const rejected = await registered({}, 42);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(rejected).toEqual({
+      success: false,
+      error: 'invalid_payload',
+      channel: 'delete-list',
+      direction: 'request',
+      issues: [{ path: 'args[0]', message: 'expected string, got number' }],
+    });
+  });
+
+  it('replaces replies that break the contract', async () => {
+    handle('delete-list', async () => ({ success: 'yes' }));
+    const reply = await handlers.get('delete-list')!({}, 'list-1');
+    expect(reply).toEqual({
+      success: false,
+      error: 'invalid_payload',
+      channel: 'delete-list',
+      direction: 'response',
+      issues: [
+        { path: 'reply.success', message: 'expected boolean, got string' },
+      ],
+    });
+  });
+
+  it('does not send events that break the contract', () => {
+    const contents = { send: jest.fn() };
+    send(contents, 'reminder-open-todo', 'list-1', 3);
+    send(contents, 'reminder-open-todo', 'list-1', 'three');
+    expect(contents.send).toHaveBeenCalledTimes(1);
+    expect(contents.send).toHaveBeenCalledWith(
+      'reminder-open-todo',
+      'list-1',
+      3,
+    );
+  });
+});
+
+describe('renderer IPC helpers', () => {
+  it('drops events that break the contract', () => {
+    const subscribe = window.electron.ipcRenderer.on as jest.Mock;
+    const listener = jest.fn();
+    on('reminder-open-todo', listener);
+    const [channel, forward] = subscribe.mock.calls.at(-1);
+    expect(channel).toBe('reminder-open-todo');
+
+    forward('list-1', 3);
+    forward('list-1', 'three');
+    forward({ listId: 'list-1' });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith('list-1', 3);
+  });
+});
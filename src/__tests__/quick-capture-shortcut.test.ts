@@ -0,0 +1,51 @@
+// Verify rebinding the quick-capture shortcut never leaves it unbound
+const bound = new Set<string>();
+const taken = new Set<string>(['Alt+Space']);
+
+jest.mock('electron', () => ({
+  app: { isPackaged: false },
+  BrowserWindow: function MockBrowserWindow() {},
+  screen: {},
+  globalShortcut: {
+    register: (accelerator: string) => {
+      if (accelerator === 'Not+A+Key') throw new Error('invalid accelerator');
+      if (taken.has(accelerator)) return false;
+      bound.add(accelerator);
+      return true;
+    },
+    unregister: (accelerator: string) => bound.delete(accelerator),
+  },
+}));
+
+// Use require so we can keep mocks above and satisfy lint rules
+const {
+  registerQuickCaptureShortcut,
+  getQuickCaptureShortcut,
+} = require('../main/quickCapture');
+
+describe('quick capture shortcut', () => {
+  beforeEach(() => {
+    registerQuickCaptureShortcut('');
+    bound.clear();
+    registerQuickCaptureShortcut('CommandOrControl+Shift+Space');
+  });
+
+  test('swaps to a free shortcut', () => {
+    expect(registerQuickCaptureShortcut('Alt+Shift+T')).toBe(true);
+    expect(getQuickCaptureShortcut()).toBe('Alt+Shift+T');
+    expect([...bound]).toEqual(['Alt+Shift+T']);
+  });
+
+  test('keeps the old shortcut when the new one is taken or invalid', () => {
+    expect(registerQuickCaptureShortcut('Alt+Space')).toBe(false);
+    expect(registerQuickCaptureShortcut('Not+A+Key')).toBe(false);
+    expect(getQuickCaptureShortcut()).toBe('CommandOrControl+Shift+Space');
+    expect([...bound]).toEqual(['CommandOrControl+Shift+Space']);
+  });
+
+  test('an empty shortcut unbinds it', () => {
+    expect(registerQuickCaptureShortcut('  ')).toBe(true);
+    expect(getQuickCaptureShortcut()).toBeNull();
+    expect(bound.size).toBe(0);
+  });
+});
@@ -0,0 +1,180 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// Verify the reminder scheduler shows due reminders, snoozes and reschedules
+
+const shown: any[] = [];
+const powerListeners: Record<string, () => void> = {};
+const mockShowMessageBox = jest.fn();
+
+jest.mock('electron', () => ({
+  dialog: {
+    showMessageBox: (...args: any[]) => mockShowMessageBox(...args),
+  },
+  Notification: Object.assign(
+    function MockNotification(this: any, options: any) {
+      this.options = options;
+      this.handlers = {} as Record<string, (...args: any[]) => void>;
+      this.on = (event: string, fn: (...args: any[]) => void) => {
+        this.handlers[event] = fn;
+      };
+      this.show = () => shown.push(this);
+    },
+    { isSupported: () => true },
+  ),
+  powerMonitor: {
+    on: (event: string, fn: () => void) => {
+      powerListeners[event] = fn;
+    },
+    removeListener: (event: string) => {
+      delete powerListeners[event];
+    },
+  },
+}));
+
+const mockDb = {
+  loadPendingReminders: jest.fn(),
+  markReminderNotified: jest.fn(),
+  snoozeReminder: jest.fn(),
+};
+jest.mock('../main/db', () => mockDb);
+
+// Use require so we can keep mocks above and satisfy lint rules
+const {
+  planReminders,
+  checkReminders,
+  startReminderScheduler,
+  stopReminderScheduler,
+} = require('../main/reminders');
+
+const NOW = new Date(2025, 5, 15, 9, 0).getTime();
+const realPlatform = process.platform;
+const setPlatform = (platform: string) =>
+  Object.defineProperty(process, 'platform', { value: platform });
+const MINUTE = 60 * 1000;
+
+const reminder = (todoId: number, fireAt: number) => ({
+  listId: 'list-1',
+  listName: 'Work',
+  todoId,
+  text: `Todo ${todoId}`,
+  dueAt: '2025-06-15T09:00',
+  fireAt,
+});
+
+describe('reminders', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(NOW);
+    shown.length = 0;
+    mockDb.loadPendingReminders.mockReset().mockReturnValue([]);
+    mockDb.markReminderNotified.mockReset();
+    mockDb.snoozeReminder.mockReset();
+    mockShowMessageBox.mockReset();
+    setPlatform('darwin');
+  });
+
+  afterEach(() => {
+    stopReminderScheduler();
+    jest.useRealTimers();
+    setPlatform(realPlatform);
+  });
+
+  test('plans due reminders and the next one, skipping long-missed ones', () => {
+    const plan = planReminders(
+      [
+        reminder(1, NOW - 13 * 60 * MINUTE),
+        reminder(2, NOW - MINUTE),
+        reminder(3, NOW + 30 * MINUTE),
+        reminder(4, NOW + 5 * MINUTE),
+      ],
+      NOW,
+    );
+    expect(plan.due.map((r: any) => r.todoId)).toEqual([2]);
+    expect(plan.nextAt).toBe(NOW + 5 * MINUTE);
+  });
+
+  test('shows due reminders once and opens the todo on click', () => {
+    const openTodo = jest.fn();
+    mockDb.loadPendingReminders.mockReturnValue([reminder(2, NOW)]);
+    startReminderScheduler({ openTodo });
+
+    expect(shown).toHaveLength(1);
+    expect(shown[0].options.title).toBe('Todo 2');
+    expect(mockDb.markReminderNotified).toHaveBeenCalledWith(
+      expect.objectContaining({ listId: 'list-1', todoId: 2 }),
+      new Date(NOW),
+    );
+
+    shown[0].handlers.click();
+    expect(openTodo).toHaveBeenCalledWith('list-1', 2);
+  });
+
+  test('fires the next reminder when its time comes', () => {
+    mockDb.loadPendingReminders.mockReturnValue([
+      reminder(3, NOW + 5 * MINUTE),
+    ]);
+    startReminderScheduler({ openTodo: jest.fn() });
+    expect(shown).toHaveLength(0);
+
+    jest.advanceTimersByTime(5 * MINUTE);
+    expect(shown).toHaveLength(1);
+  });
+
+  test('snooze stores the new time and re-reads reminders', () => {
+    mockDb.loadPendingReminders.mockReturnValueOnce([reminder(2, NOW)]);
+    startReminderScheduler({ openTodo: jest.fn() });
+
+    shown[0].handlers.action({}, 0);
+    expect(mockDb.snoozeReminder).toHaveBeenCalledWith(
+      expect.objectContaining({ todoId: 2 }),
+      new Date(NOW + 10 * MINUTE),
+    );
+    mockDb.loadPendingReminders.mockClear();
+    jest.advanceTimersByTime(500);
+    expect(mockDb.loadPendingReminders).toHaveBeenCalledTimes(1);
+  });
+
+  test('without notification buttons a click offers open and snooze', async () => {
+    setPlatform('win32');
+    const openTodo = jest.fn();
+    mockDb.loadPendingReminders.mockReturnValueOnce([
+      reminder(2, NOW),
+      reminder(3, NOW),
+    ]);
+    startReminderScheduler({ openTodo });
+    expect(shown[0].options.actions).toEqual([]);
+
+    mockShowMessageBox.mockResolvedValueOnce({ response: 2 });
+    shown[0].handlers.click();
+    await Promise.resolve();
+    expect(mockShowMessageBox.mock.calls[0][0].buttons).toEqual([
+      'Open',
+      'Snooze 10 min',
+      'Snooze 1 hour',
+      'Dismiss',
+    ]);
+    expect(mockDb.snoozeReminder).toHaveBeenCalledWith(
+      expect.objectContaining({ todoId: 2 }),
+      new Date(NOW + 60 * MINUTE),
+    );
+    expect(openTodo).not.toHaveBeenCalled();
+
+    mockShowMessageBox.mockResolvedValueOnce({ response: 0 });
+    shown[1].handlers.click();
+    await Promise.resolve();
+    expect(openTodo).toHaveBeenCalledWith('list-1', 3);
+  });
+
+  test('catches up after waking from sleep', () => {
+    startReminderScheduler({ openTodo: jest.fn() });
+    mockDb.loadPendingReminders.mockReturnValue([reminder(5, NOW)]);
+
+    powerListeners.resume();
+    expect(shown).toHaveLength(1);
+  });
+
+  test('does nothing until started', () => {
+    mockDb.loadPendingReminders.mockReturnValue([reminder(2, NOW)]);
+    checkReminders();
+    expect(shown).toHaveLength(0);
+  });
+});
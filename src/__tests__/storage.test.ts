@@ -182,11 +182,11 @@ describe('Storage API', () => {
 
   describe('loadListTodos', () => {
     it('should return default data when no todos exist', async () => {
-      mockInvoke.mockResolvedValue({ version: 2, todos: [] });
+      mockInvoke.mockResolvedValue({ version: 2, todos: [], revision: 0 });
 
       const result = await loadListTodos('list-1');
 
-      expect(result).toEqual({ version: 3, todos: [] });
+      expect(result).toEqual({ version: 3, todos: [], revision: 0 });
       expect(mockInvoke).toHaveBeenCalledWith('load-list-todos', 'list-1');
     });
 
@@ -194,12 +194,14 @@ describe('Storage API', () => {
       const incoming = {
         version: 2,
         todos: [{ id: 1, text: 'Test todo', completed: false, indent: 0 }],
+        revision: 0,
       };
       mockInvoke.mockResolvedValue(incoming);
 
       const result = await loadListTodos('list-1');
       expect(result).toEqual({
         version: 3,
+        revision: 0,
         todos: [
           {
             id: 1,
@@ -233,12 +235,14 @@ describe('Storage API', () => {
             section: 'active' as const,
           },
         ],
+        revision: 0,
       };
       mockInvoke.mockResolvedValue(incoming);
 
       const result = await loadListTodos('list-1');
       expect(result).toEqual({
         version: 3,
+        revision: 0,
         todos: [
           {
             id: 1,
@@ -260,12 +264,10 @@ describe('Storage API', () => {
       });
     });
 
-    it('should return default data when invalid response', async () => {
+    it('should reject when the response is invalid', async () => {
       mockInvoke.mockResolvedValue(null);
 
-      const result = await loadListTodos('list-1');
-
-      expect(result).toEqual({ version: 3, todos: [] });
+      await expect(loadListTodos('list-1')).rejects.toThrow();
     });
   });
 
@@ -275,15 +277,16 @@ describe('Storage API', () => {
         version: 2 as const,
         todos: [{ id: 1, text: 'Test todo', completed: false, indent: 0 }],
       };
-      mockInvoke.mockResolvedValue({ success: true });
+      mockInvoke.mockResolvedValue({ success: true, revision: 1 });
 
-      const result = await saveListTodos('list-1', mockData);
+      const result = await saveListTodos('list-1', mockData, 0);
 
-      expect(result).toBe(true);
+      expect(result).toEqual({ status: 'saved', revision: 1 });
       expect(mockInvoke).toHaveBeenCalledWith(
         'save-list-todos',
         'list-1',
         mockData,
+        0,
       );
     });
 
@@ -309,24 +312,45 @@ describe('Storage API', () => {
           },
         ],
       };
-      mockInvoke.mockResolvedValue({ success: true });
+      mockInvoke.mockResolvedValue({ success: true, revision: 1 });
 
-      const result = await saveListTodos('list-1', mockData);
+      const result = await saveListTodos('list-1', mockData, 0);
 
-      expect(result).toBe(true);
+      expect(result).toEqual({ status: 'saved', revision: 1 });
       expect(mockInvoke).toHaveBeenCalledWith(
         'save-list-todos',
         'list-1',
         mockData,
+        0,
       );
     });
 
     it('should return false on failure', async () => {
       mockInvoke.mockResolvedValue({ success: false });
 
-      const result = await saveListTodos('list-1', { version: 2, todos: [] });
+      const result = await saveListTodos(
+        'list-1',
+        { version: 2, todos: [] },
+        0,
+      );
+
+      expect(result).toEqual({ status: 'failed' });
+    });
 
-      expect(result).toBe(false);
+    it('should report a revision conflict', async () => {
+      mockInvoke.mockResolvedValue({
+        success: false,
+        error: 'revision_conflict',
+        revision: 4,
+      });
+
+      const result = await saveListTodos(
+        'list-1',
+        { version: 2, todos: [] },
+        2,
+      );
+
+      expect(result).toEqual({ status: 'conflict', revision: 4 });
     });
   });
 
@@ -366,6 +390,7 @@ describe('Storage API', () => {
                 { id: 5, text: 'A', completed: false, indent: 0 },
                 { id: 10, text: 'B', completed: true, indent: 0 },
               ],
+              revision: 0,
             };
           }
           if (listId === newListId) {
@@ -376,9 +401,10 @@ describe('Storage API', () => {
                 { id: 1, text: 'A', completed: false, indent: 0 },
                 { id: 2, text: 'B', completed: true, indent: 0 },
               ],
+              revision: 0,
             };
           }
-          return { version: 2, todos: [] };
+          return { version: 2, todos: [], revision: 0 };
         }
         // Default fallthrough for other channels
         return undefined;
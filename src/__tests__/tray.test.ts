@@ -0,0 +1,89 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// Verify the tray summarises open items per list and wires its menu actions
+
+const trayState: { tooltip?: string; template?: any[] } = {};
+
+jest.mock('electron', () => ({
+  app: { isPackaged: false },
+  Menu: {
+    buildFromTemplate: (template: any[]) => {
+      trayState.template = template;
+      return template;
+    },
+  },
+  nativeImage: {
+    createFromPath: () => ({ resize: () => ({}) }),
+  },
+  Tray: function MockTray(this: any) {
+    this.setToolTip = (text: string) => {
+      trayState.tooltip = text;
+    };
+    this.setContextMenu = () => {};
+    this.on = () => {};
+    this.destroy = () => {};
+  },
+}));
+
+jest.mock('../main/quickCapture', () => ({
+  openQuickCapture: () => {},
+}));
+
+jest.mock('../main/db', () => ({
+  loadListSummaries: () => ({
+    lists: [
+      { id: 'a', name: 'Work', open: 1 },
+      { id: 'b', name: 'Home', open: 1 },
+    ],
+    selectedListId: 'a',
+  }),
+}));
+
+// Use require so we can keep mocks above and satisfy lint rules
+const { summarizeOpenItems, createTray, destroyTray } = require('../main/tray');
+
+describe('tray', () => {
+  afterEach(() => {
+    destroyTray();
+  });
+
+  test('totals the open items of all lists', () => {
+    expect(summarizeOpenItems()).toEqual({
+      lists: [
+        { id: 'a', name: 'Work', open: 1 },
+        { id: 'b', name: 'Home', open: 1 },
+      ],
+      total: 2,
+    });
+  });
+
+  test('shows the total in the tooltip and lists in the menu', () => {
+    const actions = {
+      showWindow: jest.fn(),
+      openList: jest.fn(),
+      quit: jest.fn(),
+    };
+    createTray(actions);
+
+    expect(trayState.tooltip).toBe('Todolo — 2 open items');
+    const labels = trayState.template!.map((item) => item.label);
+    expect(labels).toEqual(
+      expect.arrayContaining([
+        '2 open items',
+        'Work — 1',
+        'Home — 1',
+        'New todo…',
+        'Show Todolo',
+        'Quit',
+      ]),
+    );
+
+    const byLabel = (label: string) =>
+      trayState.template!.find((item) => item.label === label);
+    byLabel('Home — 1').click();
+    byLabel('Show Todolo').click();
+    byLabel('Quit').click();
+    expect(actions.openList).toHaveBeenCalledWith('b');
+    expect(actions.showWindow).toHaveBeenCalled();
+    expect(actions.quit).toHaveBeenCalled();
+  });
+});
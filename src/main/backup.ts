@@ -0,0 +1,246 @@
+/* eslint-disable no-console */
+import fs from 'fs';
+import path from 'path';
+import { app, dialog, BrowserWindow } from 'electron';
+import {
+  backupDatabase,
+  closeDatabase,
+  getDatabasePath,
+  loadAppSettings,
+  DEFAULT_BACKUP_INTERVAL_MINUTES,
+  DEFAULT_BACKUP_KEEP_COUNT,
+} from './db';
+import { resolveHtmlPath } from './util';
+
+export type BackupInfo = {
+  file: string;
+  path: string;
+  createdAt: Date;
+  size: number;
+};
+
+// todolo-20240131T235959123Z.db (UTC timestamp, sorts chronologically)
+const BACKUP_FILE_PATTERN = /^todolo-(\d{8}T\d{9}Z)\.db$/;
+
+let backupTimer: ReturnType<typeof setInterval> | null = null;
+let backupIntervalMinutes: number | null = null;
+
+export function getBackupDir(): string {
+  return path.join(app.getPath('userData'), 'backups');
+}
+
+function timestampForFile(date: Date): string {
+  return date.toISOString().replace(/[-:.]/g, '');
+}
+
+function parseFileTimestamp(stamp: string): Date {
+  const iso = `${stamp.slice(0, 4)}-${stamp.slice(4, 6)}-${stamp.slice(6, 8)}T${stamp.slice(9, 11)}:${stamp.slice(11, 13)}:${stamp.slice(13, 15)}.${stamp.slice(15, 18)}Z`;
+  return new Date(iso);
+}
+
+/**
+ * Lists snapshots in the backups directory, newest first.
+ * Files that don't follow the backup naming scheme are ignored.
+ */
+export function listBackups(): BackupInfo[] {
+  const dir = getBackupDir();
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .map((file) => {
+      const match = BACKUP_FILE_PATTERN.exec(file);
+      if (!match) return null;
+      const full = path.join(dir, file);
+      return {
+        file,
+        path: full,
+        createdAt: parseFileTimestamp(match[1]),
+        size: fs.statSync(full).size,
+      };
+    })
+    .filter((b): b is BackupInfo => b !== null)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+// Deletes the oldest snapshots so at most `keep` remain.
+export function rotateBackups(keep: number): number {
+  if (!Number.isFinite(keep) || keep < 1) return 0;
+  const stale = listBackups().slice(keep);
+  stale.forEach((b) => {
+    try {
+      fs.unlinkSync(b.path);
+    } catch (e) {
+      console.warn('[Backup] Failed to remove old snapshot', b.file, e);
+    }
+  });
+  return stale.length;
+}
+
+/**
+ * Writes a new timestamped snapshot and rotates old ones.
+ * The snapshot is written to a temporary name first so a crash mid-backup
+ * never leaves a truncated file that looks restorable.
+ */
+export async function createBackup(keep?: number): Promise<BackupInfo | null> {
+  try {
+    const dir = getBackupDir();
+    fs.mkdirSync(dir, { recursive: true });
+    const now = new Date();
+    const file = `todolo-${timestampForFile(now)}.db`;
+    const full = path.join(dir, file);
+    const partial = `${full}.partial`;
+    await backupDatabase(partial);
+    fs.renameSync(partial, full);
+    const removed = rotateBackups(keep ?? getBackupKeepCount());
+    console.log('[Backup] Snapshot written', { file, removed });
+    return { file, path: full, createdAt: now, size: fs.statSync(full).size };
+  } catch (e) {
+    console.error('[Backup] Failed to write snapshot:', e);
+    return null;
+  }
+}
+
+export function getBackupKeepCount(): number {
+  return loadAppSettings().backupKeepCount ?? DEFAULT_BACKUP_KEEP_COUNT;
+}
+
+function scheduleBackups(intervalMinutes: number): void {
+  stopBackupSchedule();
+  backupIntervalMinutes = intervalMinutes;
+  if (intervalMinutes > 0) {
+    backupTimer = setInterval(
+      () => {
+        void createBackup();
+      },
+      intervalMinutes * 60 * 1000,
+    );
+    backupTimer.unref?.();
+  }
+}
+
+/**
+ * Takes a snapshot now and then every `backupIntervalMinutes` (an app
+ * setting; 0 disables the periodic backups). Resolves once the first
+ * snapshot has been written or has failed.
+ */
+export async function startBackupSchedule(): Promise<void> {
+  scheduleBackups(
+    loadAppSettings().backupIntervalMinutes ?? DEFAULT_BACKUP_INTERVAL_MINUTES,
+  );
+  await createBackup();
+}
+
+// Picks up a changed interval setting; no snapshot is taken
+export function rescheduleBackups(): void {
+  if (backupIntervalMinutes === null) return;
+  const intervalMinutes =
+    loadAppSettings().backupIntervalMinutes ?? DEFAULT_BACKUP_INTERVAL_MINUTES;
+  if (intervalMinutes !== backupIntervalMinutes) {
+    scheduleBackups(intervalMinutes);
+  }
+}
+
+export function stopBackupSchedule(): void {
+  if (backupTimer) {
+    clearInterval(backupTimer);
+    backupTimer = null;
+  }
+  backupIntervalMinutes = null;
+}
+
+/**
+ * Replaces the live database with a snapshot.
+ *
+ * The renderer is navigated away first so its unload-time save flush lands in
+ * the old database instead of overwriting the restored one; then the DB is
+ * closed, the file swapped in and the renderer loaded again.
+ */
+export async function restoreBackup(
+  mainWindow: BrowserWindow,
+  file: string,
+): Promise<boolean> {
+  const backup = listBackups().find((b) => b.file === file);
+  if (!backup) {
+    console.warn('[Backup] Refusing to restore unknown snapshot', file);
+    return false;
+  }
+  // Keep the current state restorable too; the extra slot guarantees the
+  // rotation can't remove the snapshot we're about to restore
+  await createBackup(getBackupKeepCount() + 1);
+
+  await mainWindow.webContents.loadURL('about:blank');
+  closeDatabase();
+
+  const dbPath = getDatabasePath();
+  const staging = `${dbPath}.restoring`;
+  try {
+    fs.copyFileSync(backup.path, staging);
+    ['-wal', '-shm'].forEach((suffix) => {
+      fs.rmSync(`${dbPath}${suffix}`, { force: true });
+    });
+    fs.renameSync(staging, dbPath);
+    console.log('[Backup] Restored snapshot', { file });
+    return true;
+  } catch (e) {
+    console.error('[Backup] Restore failed:', e);
+    fs.rmSync(staging, { force: true });
+    return false;
+  } finally {
+    await mainWindow.loadURL(resolveHtmlPath('index.html'));
+  }
+}
+
+const MAX_LISTED_BACKUPS = 8;
+
+/**
+ * File > Restore from Backup… : lets the user pick one of the most recent
+ * snapshots, confirms, and restores it.
+ */
+export async function promptRestoreFromBackup(
+  mainWindow: BrowserWindow,
+): Promise<void> {
+  const backups = listBackups().slice(0, MAX_LISTED_BACKUPS);
+  if (backups.length === 0) {
+    await dialog.showMessageBox(mainWindow, {
+      type: 'info',
+      title: 'No Backups',
+      message: 'No backups have been made yet.',
+      buttons: ['OK'],
+      defaultId: 0,
+    });
+    return;
+  }
+
+  const pick = await dialog.showMessageBox(mainWindow, {
+    type: 'question',
+    title: 'Restore from Backup',
+    message: 'Choose a backup to restore:',
+    buttons: [...backups.map((b) => b.createdAt.toLocaleString()), 'Cancel'],
+    defaultId: 0,
+    cancelId: backups.length,
+  });
+  const chosen = backups[pick.response];
+  if (!chosen) return;
+
+  const confirm = await dialog.showMessageBox(mainWindow, {
+    type: 'warning',
+    title: 'Restore from Backup',
+    message: `Replace all current lists with the backup from ${chosen.createdAt.toLocaleString()}?`,
+    detail: 'A backup of your current data is made first.',
+    buttons: ['Restore', 'Cancel'],
+    defaultId: 0,
+    cancelId: 1,
+  });
+  if (confirm.response !== 0) return;
+
+  const ok = await restoreBackup(mainWindow, chosen.file);
+  if (!ok) {
+    await dialog.showMessageBox(mainWindow, {
+      type: 'error',
+      title: 'Restore Failed',
+      message: 'The backup could not be restored. Your data was not changed.',
+      buttons: ['OK'],
+      defaultId: 0,
+    });
+  }
+}
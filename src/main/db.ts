@@ -1,7 +1,12 @@
 /* eslint-disable no-console */
+import fs from 'fs';
 import path from 'path';
 import { app } from 'electron';
 import crypto from 'crypto';
+import {
+  normalizeSmartLists,
+  type SmartListDefinition,
+} from '../shared/smartLists';
 
 // We use better-sqlite3 for fast, local, embedded storage in the main process
 // Following ERB patterns: keep all storage in main and expose via IPC
@@ -17,6 +22,7 @@ type DatabaseInstance = {
   pragma: (sql: string) => any;
   close: () => void;
   transaction: (fn: () => void) => any;
+  backup: (destination: string) => Promise<unknown>;
 };
 
 // Type for database rows
@@ -30,8 +36,26 @@ export type EditorTodo = {
   completed: boolean;
   indent?: number;
   parentId?: number | null;
+  dueDate?: string | null;
+  // 24-hour `HH:MM` on the due date
+  dueTime?: string | null;
+  recurrence?: RecurrenceRule | null;
+  priority?: TodoPriority | null;
+  notes?: string | null;
+  collapsed?: boolean;
+  // ISO timestamp of when the todo was last completed
+  completedAt?: string | null;
 };
 
+export type TodoPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+// How a todo repeats once completed; weekdays are 0 (Sunday) .. 6
+export type RecurrenceRule =
+  | { kind: 'daily' }
+  | { kind: 'weekly'; days: number[] }
+  | { kind: 'monthly' }
+  | { kind: 'afterCompletion'; everyDays: number };
+
 export type ListsIndexV2 = {
   version: 2;
   lists: Array<{
@@ -45,6 +69,86 @@ export type ListsIndexV2 = {
 
 export type AppSettings = {
   hideCompletedItems: boolean;
+  // days a list stays in Trash before it is purged; 0 = keep forever
+  trashRetentionDays?: number;
+  // Electron accelerator for the quick-capture window; '' = disabled
+  quickCaptureShortcut?: string;
+  // keep the app (and tray icon) alive after the last window closes
+  keepRunningInBackground?: boolean;
+  // minutes between database snapshots; 0 = only the one at startup
+  backupIntervalMinutes?: number;
+  // snapshots kept in the backups directory before the oldest are removed
+  backupKeepCount?: number;
+};
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const DEFAULT_QUICK_CAPTURE_SHORTCUT = 'CommandOrControl+Shift+Space';
+export const DEFAULT_BACKUP_INTERVAL_MINUTES = 60;
+export const DEFAULT_BACKUP_KEEP_COUNT = 10;
+
+// Backup settings come from the renderer; keep them to values that neither
+// thrash the disk nor fill it
+function clampBackupInterval(minutes: unknown): number | null {
+  if (typeof minutes !== 'number' || !Number.isFinite(minutes)) return null;
+  if (minutes <= 0) return 0;
+  return Math.min(24 * 60, Math.max(5, Math.round(minutes)));
+}
+
+function clampBackupKeepCount(count: unknown): number | null {
+  if (typeof count !== 'number' || !Number.isFinite(count)) return null;
+  return Math.min(100, Math.max(1, Math.round(count)));
+}
+
+export type TrashedList = {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt: string;
+  todoCount: number;
+};
+
+export type SearchHit = {
+  kind: 'todo' | 'list';
+  listId: string;
+  listName: string;
+  todoId: number | null;
+  text: string;
+  completed: boolean;
+};
+
+// Result of a todos save. 'revision_conflict' means the list changed since
+// the revision the save was based on; `revision` is the current one.
+export type TodosWriteResult =
+  | { success: true; revision: number }
+  | { success: false; error: 'revision_conflict'; revision: number }
+  | { success: false; error: string };
+
+// Changes to one list's todos since its last save. Positions name the todo
+// a row now follows (`afterId`, null for the top of the list)
+export type TodosPatch = {
+  inserted: Array<{ todo: EditorTodo; afterId: number | null }>;
+  // rows whose fields changed; position changes are in `moved`
+  updated: EditorTodo[];
+  deleted: number[];
+  moved: Array<{ id: number; afterId: number | null }>;
+};
+
+export type TagCount = {
+  tag: string;
+  count: number;
+};
+
+export type Reminder = {
+  listId: string;
+  listName: string;
+  todoId: number;
+  text: string;
+  // local due date and time, "YYYY-MM-DDTHH:MM"; state is kept per value so
+  // moving the due time re-arms the reminder
+  dueAt: string;
+  // epoch ms when the reminder should show (the due time, or the snooze end)
+  fireAt: number;
 };
 
 type DB = DatabaseInstance;
@@ -72,6 +176,10 @@ function getDbPath() {
   return dbPath;
 }
 
+export function getDatabasePath(): string {
+  return getDbPath();
+}
+
 export function openDatabase(): DB {
   if (db) {
     // reuse existing db connection
@@ -87,10 +195,54 @@ export function openDatabase(): DB {
   db!.pragma('temp_store = MEMORY');
   db!.pragma('foreign_keys = ON');
 
-  applyMigrations(db!);
+  const snapshot = snapshotBeforeMigrating(db!, dbPath);
+  try {
+    applyMigrations(db!);
+  } catch (e) {
+    // Don't hand out a connection to a schema the app doesn't understand
+    db!.close();
+    db = null;
+    if (snapshot) restoreSnapshot(snapshot, dbPath);
+    throw e;
+  }
+  if (snapshot) fs.rmSync(snapshot, { force: true });
   return db!;
 }
 
+/**
+ * Copies the database file when existing data is about to be migrated. Each
+ * migration commits on its own, so without the copy a failing step would
+ * leave the ones before it applied.
+ */
+function snapshotBeforeMigrating(database: DB, dbPath: string): string | null {
+  let current: number;
+  if (hasTable(database, 'meta')) current = readSchemaVersion(database);
+  else if (hasTable(database, 'lists')) current = 0;
+  else return null;
+  if (current >= SCHEMA_VERSION) return null;
+  const snapshot = `${dbPath}.pre-migration`;
+  // Everything in the WAL goes into the main file first
+  database.pragma('wal_checkpoint(TRUNCATE)');
+  fs.copyFileSync(dbPath, snapshot);
+  return snapshot;
+}
+
+// Puts the file back as it was before the migrations; the connection must be
+// closed. If that fails too the copy is kept for the user to recover.
+function restoreSnapshot(snapshot: string, dbPath: string): void {
+  try {
+    ['-wal', '-shm'].forEach((suffix) => {
+      fs.rmSync(`${dbPath}${suffix}`, { force: true });
+    });
+    fs.renameSync(snapshot, dbPath);
+    console.log('[DB] Restored the database from before the migrations');
+  } catch (e: any) {
+    throw new Error(
+      `Updating the database failed and it could not be put back (${e?.message || String(e)}). A copy from before the update is at ${snapshot}.`,
+    );
+  }
+}
+
 export function closeDatabase(): void {
   if (db) {
     try {
@@ -109,86 +261,501 @@ export function closeDatabase(): void {
   }
 }
 
+// Writes a consistent snapshot of the live database using SQLite's online
+// backup API; safe to run while the app keeps reading and writing.
+export async function backupDatabase(destination: string): Promise<void> {
+  const database = openDatabase();
+  await database.backup(destination);
+}
+
+type Migration = {
+  version: number;
+  name: string;
+  // Table rebuilds: SQLite only allows dropping and renaming a table that
+  // others reference with foreign key enforcement off; the keys are checked
+  // before the step commits instead
+  foreignKeysOff?: boolean;
+  up: (database: DB) => void;
+};
+
+export type SchemaErrorKind = 'newer_schema' | 'migration_failed';
+
+/**
+ * Thrown by openDatabase when the schema can't be brought up to date: the
+ * file was written by a newer app version, or a migration failed. Startup
+ * stops on it; the database file is back as it was before the migrations.
+ */
+export class SchemaError extends Error {
+  kind: SchemaErrorKind;
+
+  version: number;
+
+  constructor(kind: SchemaErrorKind, version: number, message: string) {
+    super(message);
+    this.name = 'SchemaError';
+    this.kind = kind;
+    this.version = version;
+  }
+}
+
+const SCHEMA_VERSION_KEY = 'schema_version';
+
+const hasTable = (database: DB, name: string): boolean =>
+  !!database
+    .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?")
+    .get(name);
+
+// Databases from before schema_version was recorded may already have some of
+// these columns and tables, so the early steps check before altering
+function addColumnIfMissing(
+  database: DB,
+  table: string,
+  column: string,
+  definition: string,
+): void {
+  const columns = database
+    .prepare(`PRAGMA table_info(${table})`)
+    .all() as DatabaseRow[];
+  if (columns.some((col) => col.name === column)) return;
+  console.log(`[DB] Adding ${column} column to ${table} table`);
+  database.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+}
+
+// Spacing of todos.order_index, so a todo can be put between two others
+// without renumbering the rest of the list
+const ORDER_GAP = 1024;
+
+// Ordered by version; append new steps, never edit shipped ones
+const MIGRATIONS: Migration[] = [
+  {
+    version: 3,
+    name: 'base schema',
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS lists (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT
+        );
+        CREATE TABLE IF NOT EXISTS todos (
+          list_id TEXT NOT NULL,
+          id INTEGER NOT NULL,
+          text TEXT NOT NULL,
+          completed INTEGER NOT NULL DEFAULT 0,
+          indent INTEGER NOT NULL DEFAULT 0,
+          order_index INTEGER NOT NULL,
+          PRIMARY KEY (list_id, id),
+          FOREIGN KEY (list_id) REFERENCES lists(id) ON DELETE CASCADE
+        );
+        CREATE INDEX IF NOT EXISTS todos_list_order_idx
+        ON todos(list_id, order_index);
+        CREATE TABLE IF NOT EXISTS app_settings (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        );
+        UPDATE lists
+        SET updated_at = created_at
+        WHERE updated_at IS NULL
+           OR TRIM(updated_at) = '';
+      `);
+    },
+  },
+  {
+    // section is deprecated and no longer read or written
+    version: 4,
+    name: 'explicit hierarchy',
+    up: (database) => {
+      addColumnIfMissing(database, 'todos', 'parent_id', 'INTEGER');
+      addColumnIfMissing(database, 'todos', 'section', 'TEXT');
+    },
+  },
+  {
+    version: 5,
+    name: 'due dates',
+    up: (database) => addColumnIfMissing(database, 'todos', 'due_date', 'TEXT'),
+  },
+  {
+    // Kept in sync by saveListTodos/saveListsIndex; backfilled once here
+    version: 6,
+    name: 'search index',
+    up: (database) => {
+      if (hasTable(database, 'search_index')) return;
+      database.exec(`
+        CREATE VIRTUAL TABLE search_index USING fts5(
+          kind UNINDEXED,
+          list_id UNINDEXED,
+          todo_id UNINDEXED,
+          text,
+          tokenize = 'unicode61 remove_diacritics 2'
+        );
+        INSERT INTO search_index (kind, list_id, todo_id, text)
+          SELECT 'todo', list_id, id, text FROM todos WHERE TRIM(text) <> '';
+        INSERT INTO search_index (kind, list_id, todo_id, text)
+          SELECT 'list', id, NULL, name FROM lists;
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: 'trash',
+    up: (database) =>
+      addColumnIfMissing(database, 'lists', 'deleted_at', 'TEXT'),
+  },
+  {
+    version: 8,
+    name: 'recurrence',
+    up: (database) =>
+      addColumnIfMissing(database, 'todos', 'recurrence', 'TEXT'),
+  },
+  {
+    // Normalized #tag index, kept in sync by saveListTodos
+    version: 9,
+    name: 'tag index',
+    up: (database) => {
+      if (hasTable(database, 'todo_tags')) return;
+      database.exec(`
+        CREATE TABLE todo_tags (
+          list_id TEXT NOT NULL,
+          todo_id INTEGER NOT NULL,
+          tag TEXT NOT NULL,
+          PRIMARY KEY (list_id, todo_id, tag)
+        );
+        CREATE INDEX IF NOT EXISTS idx_todo_tags_tag ON todo_tags(tag);
+      `);
+      const rows = database
+        .prepare('SELECT list_id, id, text FROM todos')
+        .all() as DatabaseRow[];
+      const insTag = database.prepare(
+        'INSERT OR IGNORE INTO todo_tags (list_id, todo_id, tag) VALUES (?, ?, ?)',
+      );
+      for (const r of rows) {
+        for (const tag of extractTags(String(r.text ?? ''))) {
+          insTag.run(r.list_id, r.id, tag);
+        }
+      }
+    },
+  },
+  {
+    version: 10,
+    name: 'priority',
+    up: (database) => addColumnIfMissing(database, 'todos', 'priority', 'TEXT'),
+  },
+  {
+    version: 11,
+    name: 'notes',
+    up: (database) => addColumnIfMissing(database, 'todos', 'notes', 'TEXT'),
+  },
+  {
+    version: 12,
+    name: 'collapse state',
+    up: (database) =>
+      addColumnIfMissing(
+        database,
+        'todos',
+        'collapsed',
+        'INTEGER NOT NULL DEFAULT 0',
+      ),
+  },
+  {
+    // Optional time of day for the due date (HH:MM)
+    version: 13,
+    name: 'due times',
+    up: (database) => addColumnIfMissing(database, 'todos', 'due_time', 'TEXT'),
+  },
+  {
+    // When a todo was completed, for "completed today" views
+    version: 14,
+    name: 'completion time',
+    up: (database) =>
+      addColumnIfMissing(database, 'todos', 'completed_at', 'TEXT'),
+  },
+  {
+    // Notified / snoozed state per todo due time
+    version: 15,
+    name: 'reminder state',
+    up: (database) => {
+      if (hasTable(database, 'reminder_state')) return;
+      database.exec(`
+        CREATE TABLE reminder_state (
+          list_id TEXT NOT NULL,
+          todo_id INTEGER NOT NULL,
+          due_at TEXT NOT NULL,
+          notified_at TEXT,
+          snoozed_until TEXT,
+          PRIMARY KEY (list_id, todo_id)
+        );
+      `);
+    },
+  },
+  {
+    // Rebuilds todos without the deprecated section column and with a real
+    // reference from parent_id to the parent row. SQLite's ON DELETE SET NULL
+    // would clear list_id too (it's part of the key), so a trigger clears
+    // just parent_id; the key is deferred so saves can delete and re-insert a
+    // list's rows in any order. Rows of lists that no longer exist are
+    // dropped, and parent ids pointing at missing rows become NULL.
+    version: 16,
+    name: 'rebuild todos without section',
+    foreignKeysOff: true,
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE todos_new (
+          list_id TEXT NOT NULL,
+          id INTEGER NOT NULL,
+          text TEXT NOT NULL,
+          completed INTEGER NOT NULL DEFAULT 0,
+          indent INTEGER NOT NULL DEFAULT 0,
+          order_index INTEGER NOT NULL,
+          parent_id INTEGER,
+          due_date TEXT,
+          due_time TEXT,
+          recurrence TEXT,
+          priority TEXT,
+          notes TEXT,
+          collapsed INTEGER NOT NULL DEFAULT 0,
+          completed_at TEXT,
+          PRIMARY KEY (list_id, id),
+          FOREIGN KEY (list_id) REFERENCES lists(id) ON DELETE CASCADE,
+          FOREIGN KEY (list_id, parent_id) REFERENCES todos(list_id, id)
+            DEFERRABLE INITIALLY DEFERRED
+        );
+      `);
+      const count = (sql: string) =>
+        Number(database.prepare(sql).get()?.c ?? 0);
+      const expected = count(
+        'SELECT COUNT(*) AS c FROM todos WHERE list_id IN (SELECT id FROM lists)',
+      );
+      const orphaned = count('SELECT COUNT(*) AS c FROM todos') - expected;
+      if (orphaned > 0) {
+        console.log(`[DB] Dropping ${orphaned} todos of deleted lists`);
+      }
+      database.exec(`
+        INSERT INTO todos_new (list_id, id, text, completed, indent, order_index, parent_id, due_date, due_time, recurrence, priority, notes, collapsed, completed_at)
+          SELECT t.list_id, t.id, t.text, t.completed, t.indent, t.order_index,
+                 CASE WHEN EXISTS (
+                   SELECT 1 FROM todos p
+                   WHERE p.list_id = t.list_id AND p.id = t.parent_id
+                 ) THEN t.parent_id END,
+                 t.due_date, t.due_time, t.recurrence, t.priority, t.notes,
+                 COALESCE(t.collapsed, 0), t.completed_at
+          FROM todos t
+          WHERE t.list_id IN (SELECT id FROM lists);
+      `);
+      const copied = count('SELECT COUNT(*) AS c FROM todos_new');
+      if (copied !== expected) {
+        throw new Error(`Copied ${copied} of ${expected} todos`);
+      }
+      database.exec(`
+        DROP TABLE todos;
+        ALTER TABLE todos_new RENAME TO todos;
+        CREATE INDEX todos_list_order_idx ON todos(list_id, order_index);
+        CREATE INDEX todos_parent_idx ON todos(list_id, parent_id);
+        CREATE TRIGGER todos_parent_set_null AFTER DELETE ON todos
+        BEGIN
+          UPDATE todos SET parent_id = NULL
+          WHERE list_id = OLD.list_id AND parent_id = OLD.id;
+        END;
+      `);
+    },
+  },
+  {
+    // Bumped by every write to a list's todos; saves name the revision they
+    // were based on and are rejected when it has moved on
+    version: 17,
+    name: 'add list revisions',
+    up: (database) => {
+      addColumnIfMissing(
+        database,
+        'lists',
+        'revision',
+        'INTEGER NOT NULL DEFAULT 0',
+      );
+    },
+  },
+  {
+    version: 18,
+    name: 'space out todo order',
+    up: (database) => {
+      database
+        .prepare('UPDATE todos SET order_index = order_index * ?')
+        .run(ORDER_GAP);
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+function readSchemaVersion(database: DB): number {
+  const row = database
+    .prepare('SELECT value FROM meta WHERE key = ?')
+    .get(SCHEMA_VERSION_KEY);
+  const version = Number(row?.value ?? 0);
+  return Number.isInteger(version) && version > 0 ? version : 0;
+}
+
+/**
+ * Brings the schema up to SCHEMA_VERSION. Each pending migration runs in its
+ * own transaction together with the version bump, so a failure rolls that
+ * step back and leaves the recorded version at the last one that succeeded;
+ * openDatabase puts back the steps before it from its copy of the file.
+ */
 function applyMigrations(database: DB) {
-  const createMeta = `
+  database.exec(`
     CREATE TABLE IF NOT EXISTS meta (
       key TEXT PRIMARY KEY,
       value TEXT
-    );`;
-  const createLists = `
-    CREATE TABLE IF NOT EXISTS lists (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL,
-      created_at TEXT NOT NULL,
-      updated_at TEXT
-    );`;
-  const createTodos = `
-    CREATE TABLE IF NOT EXISTS todos (
-      list_id TEXT NOT NULL,
-      id INTEGER NOT NULL,
-      text TEXT NOT NULL,
-      completed INTEGER NOT NULL DEFAULT 0,
-      indent INTEGER NOT NULL DEFAULT 0,
-      order_index INTEGER NOT NULL,
-      PRIMARY KEY (list_id, id),
-      FOREIGN KEY (list_id) REFERENCES lists(id) ON DELETE CASCADE
-    );`;
-  const createAppSettings = `
-    CREATE TABLE IF NOT EXISTS app_settings (
-      key TEXT PRIMARY KEY,
-      value TEXT NOT NULL
-    );`;
-  // Support fast ordered reads of todos by (list_id, order_index)
-  const createTodosListOrderIdx = `
-    CREATE INDEX IF NOT EXISTS todos_list_order_idx
-    ON todos(list_id, order_index);
-  `;
-
-  database.exec(
-    `${createMeta}${createLists}${createTodos}${createTodosListOrderIdx}${createAppSettings}`,
+    );`);
+  const current = readSchemaVersion(database);
+  if (current > SCHEMA_VERSION) {
+    throw new SchemaError(
+      'newer_schema',
+      current,
+      `The database was created by a newer version of Todolo (schema ${current}, this version supports ${SCHEMA_VERSION}).`,
+    );
+  }
+  const setVersion = database.prepare(
+    'INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)',
   );
-
-  try {
-    database.exec(`
-      UPDATE lists
-      SET updated_at = created_at
-      WHERE updated_at IS NULL
-         OR TRIM(updated_at) = '';
-    `);
-  } catch (e: any) {
-    console.error('[DB] Failed to backfill updated_at column:', e);
+  for (const migration of MIGRATIONS) {
+    if (migration.version > current) {
+      // Can't be changed inside a transaction
+      if (migration.foreignKeysOff) database.pragma('foreign_keys = OFF');
+      try {
+        database.transaction(() => {
+          migration.up(database);
+          if (migration.foreignKeysOff) {
+            const violations = database.pragma('foreign_key_check') as
+              | unknown[]
+              | undefined;
+            if (violations?.length) {
+              throw new Error(
+                `${violations.length} foreign key violations after the migration`,
+              );
+            }
+          }
+          setVersion.run(SCHEMA_VERSION_KEY, String(migration.version));
+        })();
+        console.log(
+          `[DB] Applied migration ${migration.version} (${migration.name})`,
+        );
+      } catch (e: any) {
+        throw new SchemaError(
+          'migration_failed',
+          migration.version,
+          `Updating the database to schema ${migration.version} (${migration.name}) failed: ${e?.message || String(e)}`,
+        );
+      } finally {
+        if (migration.foreignKeysOff) database.pragma('foreign_keys = ON');
+      }
+    }
   }
+}
 
-  // Migration to v4: Add parent_id and section columns for explicit hierarchy
-  try {
-    // Check if parent_id column exists
-    const tableInfo = database
-      .prepare('PRAGMA table_info(todos)')
-      .all() as Array<{ name: string; type: string }>;
-    const columnNames = tableInfo.map((col) => col.name);
-    const hasParentId = columnNames.includes('parent_id');
-    const hasSection = columnNames.includes('section');
-
-    if (!hasParentId) {
-      console.log('[DB] Adding parent_id column to todos table');
-      database.exec('ALTER TABLE todos ADD COLUMN parent_id INTEGER');
+const DUE_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DUE_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Only persist well-formed calendar dates; anything else is stored as NULL
+function normalizeDueDate(value: unknown): string | null {
+  return typeof value === 'string' && DUE_DATE_PATTERN.test(value)
+    ? value
+    : null;
+}
+
+function normalizeDueTime(value: unknown): string | null {
+  return typeof value === 'string' && DUE_TIME_PATTERN.test(value)
+    ? value
+    : null;
+}
+
+// Completion timestamps only mean something on completed todos
+function normalizeCompletedAt(
+  value: unknown,
+  completed: boolean,
+): string | null {
+  if (!completed || typeof value !== 'string') return null;
+  const time = Date.parse(value);
+  return Number.isFinite(time) ? new Date(time).toISOString() : null;
+}
+
+// Accepts a rule object or its stored JSON; anything malformed becomes null
+function parseRecurrence(value: unknown): RecurrenceRule | null {
+  let raw = value;
+  if (typeof raw === 'string') {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      return null;
     }
-    if (!hasSection) {
-      console.log('[DB] Adding section column to todos table');
-      database.exec('ALTER TABLE todos ADD COLUMN section TEXT');
-    } else {
-      // Section column is deprecated and no longer used by the application
-      console.log('[DB] Section column deprecated and no longer used');
+  }
+  if (!raw || typeof raw !== 'object') return null;
+  const rule = raw as Record<string, unknown>;
+  switch (rule.kind) {
+    case 'daily':
+    case 'monthly':
+      return { kind: rule.kind };
+    case 'weekly': {
+      const days = Array.isArray(rule.days)
+        ? Array.from(
+            new Set(
+              rule.days.filter(
+                (d): d is number => Number.isInteger(d) && d >= 0 && d <= 6,
+              ),
+            ),
+          ).sort((a, b) => a - b)
+        : [];
+      return days.length > 0 ? { kind: 'weekly', days } : null;
     }
-  } catch (e: any) {
-    console.error('[DB] Error applying v4 migration:', e);
+    case 'afterCompletion': {
+      const everyDays = Number(rule.everyDays);
+      return Number.isInteger(everyDays) && everyDays > 0
+        ? { kind: 'afterCompletion', everyDays }
+        : null;
+    }
+    default:
+      return null;
   }
 }
 
+function serializeRecurrence(value: unknown): string | null {
+  const rule = parseRecurrence(value);
+  return rule ? JSON.stringify(rule) : null;
+}
+
+const PRIORITIES: TodoPriority[] = ['low', 'medium', 'high', 'urgent'];
+
+function normalizePriority(value: unknown): TodoPriority | null {
+  return PRIORITIES.includes(value as TodoPriority)
+    ? (value as TodoPriority)
+    : null;
+}
+
+// Blank notes are stored as NULL
+function normalizeNotes(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() !== '' ? value : null;
+}
+
+// `#word` at the start of the text or after whitespace; must start with a letter
+const TAG_PATTERN = /(^|\s)#(\p{L}[\p{L}\p{N}_/-]*)/gu;
+
+/**
+ * Returns the distinct, lower-cased `#tags` in a todo's text (without `#`).
+ * Mirrors the renderer's `extractTags`.
+ */
+export function extractTags(text: string): string[] {
+  const tags = new Set<string>();
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    const tag = match[2].replace(/[/-]+$/, '').toLowerCase();
+    if (tag) tags.add(tag);
+  }
+  return Array.from(tags);
+}
+
 export function loadListsIndex(): ListsIndexV2 {
   const LISTS_BY_RECENCY_QUERY = `
     SELECT id, name, created_at as createdAt, updated_at as updatedAt
     FROM lists
+    WHERE deleted_at IS NULL
     ORDER BY updated_at DESC,
              created_at DESC
   `;
@@ -246,6 +813,11 @@ export function loadListsIndex(): ListsIndexV2 {
     const tx = database.transaction(() => {
       upsertList.run(id, 'My Todos', now, now);
       setMeta.run('selectedListId', id);
+      database
+        .prepare(
+          "INSERT INTO search_index (kind, list_id, todo_id, text) VALUES ('list', ?, NULL, ?)",
+        )
+        .run(id, 'My Todos');
     });
     tx();
     // no per-save checkpoint
@@ -264,6 +836,53 @@ export function loadListsIndex(): ListsIndexV2 {
   };
 }
 
+export type ListSummary = { id: string; name: string; open: number };
+
+/**
+ * Live lists, most recently updated first, with their number of incomplete,
+ * non-blank todos. Only reads: unlike loadListsIndex it never seeds a list,
+ * so the tray and quick capture can call it at any time.
+ */
+export function loadListSummaries(): {
+  lists: ListSummary[];
+  selectedListId: string | null;
+} {
+  const database = openDatabase();
+  const counts = new Map<string, number>(
+    (
+      database
+        .prepare(
+          `SELECT list_id AS listId, COUNT(*) AS open
+           FROM todos
+           WHERE completed = 0 AND TRIM(text) != ''
+           GROUP BY list_id`,
+        )
+        .all() as DatabaseRow[]
+    ).map((r) => [String(r.listId), Number(r.open)]),
+  );
+  const lists = (
+    database
+      .prepare(
+        `SELECT id, name
+         FROM lists
+         WHERE deleted_at IS NULL
+         ORDER BY updated_at DESC, created_at DESC`,
+      )
+      .all() as DatabaseRow[]
+  ).map((r) => ({
+    id: String(r.id),
+    name: String(r.name),
+    open: counts.get(String(r.id)) ?? 0,
+  }));
+  const selected = database
+    .prepare('SELECT value FROM meta WHERE key = ?')
+    .get('selectedListId');
+  return {
+    lists,
+    selectedListId: selected?.value ? String(selected.value) : null,
+  };
+}
+
 export function saveListsIndex(index: ListsIndexV2): {
   success: boolean;
   error?: string;
@@ -309,6 +928,12 @@ export function saveListsIndex(index: ListsIndexV2): {
     const setMeta = database.prepare(
       'INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)',
     );
+    const delListSearch = database.prepare(
+      "DELETE FROM search_index WHERE kind = 'list' AND list_id = ?",
+    );
+    const insListSearch = database.prepare(
+      "INSERT INTO search_index (kind, list_id, todo_id, text) VALUES ('list', ?, NULL, ?)",
+    );
     const tx = database.transaction(() => {
       // Deletions intentionally disabled here; handle explicit deletions elsewhere.
       for (const l of index.lists) {
@@ -328,6 +953,8 @@ export function saveListsIndex(index: ListsIndexV2): {
           created_at: new Date(l.createdAt).toISOString(),
           updated_at: new Date(l.updatedAt).toISOString(),
         });
+        delListSearch.run(l.id);
+        insListSearch.run(l.id, l.name);
       }
       // Only update selectedListId if provided to avoid clobbering
       // a previously saved selection with an empty string during
@@ -357,11 +984,15 @@ export function saveListsIndex(index: ListsIndexV2): {
 export function loadListTodos(listId: string): {
   version: 2;
   todos: EditorTodo[];
+  revision: number;
 } {
   const database = openDatabase();
+  const list = database
+    .prepare('SELECT revision FROM lists WHERE id = ?')
+    .get(listId);
   const rows = database
     .prepare(
-      'SELECT id, text, completed, indent, parent_id FROM todos WHERE list_id = ? ORDER BY order_index ASC',
+      'SELECT id, text, completed, indent, parent_id, due_date, due_time, recurrence, priority, notes, collapsed, completed_at FROM todos WHERE list_id = ? ORDER BY order_index ASC',
     )
     .all(listId);
   // rows loaded from todos
@@ -378,91 +1009,384 @@ export function loadListTodos(listId: string): {
     } else {
       todo.parentId = null;
     }
+    todo.dueDate = normalizeDueDate(r.due_date);
+    todo.dueTime = normalizeDueTime(r.due_time);
+    todo.recurrence = parseRecurrence(r.recurrence);
+    todo.priority = normalizePriority(r.priority);
+    todo.notes = normalizeNotes(r.notes);
+    todo.collapsed = !!r.collapsed;
+    todo.completedAt = normalizeCompletedAt(r.completed_at, todo.completed);
     return todo;
   });
-  return { version: 2, todos };
+  return { version: 2, todos, revision: Number(list?.revision ?? 0) };
+}
+
+// Named parameters for inserting or updating one todos row
+function todoRowParams(
+  listId: string,
+  t: EditorTodo,
+  orderIndex: number | null,
+  { parentId = t.parentId ?? null }: { parentId?: number | null } = {},
+) {
+  return {
+    list_id: listId,
+    id: t.id,
+    text: t.text,
+    completed: t.completed ? 1 : 0,
+    indent: Number(t.indent ?? 0),
+    order_index: orderIndex,
+    parent_id: parentId,
+    due_date: normalizeDueDate(t.dueDate),
+    due_time: normalizeDueTime(t.dueTime),
+    recurrence: serializeRecurrence(t.recurrence),
+    priority: normalizePriority(t.priority),
+    notes: normalizeNotes(t.notes),
+    collapsed: t.collapsed ? 1 : 0,
+    completed_at: normalizeCompletedAt(t.completedAt, t.completed),
+  };
+}
+
+/**
+ * Checks that a list is still at `baseRevision` and bumps it; call first
+ * thing inside the save's transaction and write nothing on a conflict. A list
+ * the index hasn't been saved for yet gets a placeholder row (saveListsIndex
+ * names it later) at revision 0.
+ */
+function claimRevision(
+  database: DB,
+  listId: string,
+  baseRevision: number,
+): { revision: number; conflict: boolean } {
+  const row = database
+    .prepare('SELECT revision FROM lists WHERE id = ?')
+    .get(listId);
+  const current = Number(row?.revision ?? 0);
+  if (current !== baseRevision) return { revision: current, conflict: true };
+  if (!row) {
+    const now = new Date().toISOString();
+    database
+      .prepare(
+        'INSERT INTO lists (id, name, created_at, updated_at) VALUES (?, ?, ?, ?)',
+      )
+      .run(listId, 'Untitled', now, now);
+  }
+  database
+    .prepare('UPDATE lists SET revision = ? WHERE id = ?')
+    .run(current + 1, listId);
+  return { revision: current + 1, conflict: false };
+}
+
+function claimResult(
+  listId: string,
+  claim: { revision: number; conflict: boolean },
+): TodosWriteResult {
+  if (!claim.conflict) return { success: true, revision: claim.revision };
+  console.warn(
+    `[DB] Rejected stale save for list ${listId}: now at revision ${claim.revision}`,
+  );
+  return {
+    success: false,
+    error: 'revision_conflict',
+    revision: claim.revision,
+  };
 }
 
+/**
+ * Replaces a list's todos. `baseRevision` is the revision the todos were
+ * loaded or last saved at; the save is rejected if the list moved past it.
+ */
 export function saveListTodos(
   listId: string,
   doc: { version: 2; todos: EditorTodo[] },
-): { success: boolean; error?: string } {
+  baseRevision: number,
+): TodosWriteResult {
   const database = openDatabase();
   try {
     // replace list todos atomically
     const del = database.prepare('DELETE FROM todos WHERE list_id = ?');
     const ins = database.prepare(
-      'INSERT INTO todos (list_id, id, text, completed, indent, order_index, parent_id) VALUES (@list_id, @id, @text, @completed, @indent, @order_index, @parent_id)',
+      'INSERT INTO todos (list_id, id, text, completed, indent, order_index, parent_id, due_date, due_time, recurrence, priority, notes, collapsed, completed_at) VALUES (@list_id, @id, @text, @completed, @indent, @order_index, @parent_id, @due_date, @due_time, @recurrence, @priority, @notes, @collapsed, @completed_at)',
     );
-    const ensureList = database.prepare('SELECT id FROM lists WHERE id = ?');
-    const createList = database.prepare(
-      'INSERT INTO lists (id, name, created_at, updated_at) VALUES (?, ?, ?, ?)',
+    const delSearch = database.prepare(
+      "DELETE FROM search_index WHERE kind = 'todo' AND list_id = ?",
     );
-    const countExisting = database.prepare(
-      'SELECT COUNT(*) as c FROM todos WHERE list_id = ?',
+    const insSearch = database.prepare(
+      "INSERT INTO search_index (kind, list_id, todo_id, text) VALUES ('todo', ?, ?, ?)",
+    );
+    const delTags = database.prepare('DELETE FROM todo_tags WHERE list_id = ?');
+    const insTag = database.prepare(
+      'INSERT OR IGNORE INTO todo_tags (list_id, todo_id, tag) VALUES (?, ?, ?)',
     );
 
-    // If DB already has rows and incoming doc looks like a seed/placeholder (<=1 empty row), skip to avoid wiping data
-    try {
-      const row = countExisting.get(listId) as any;
-      const existingCount = Number(row?.c ?? 0);
-      const looksLikeSeed =
-        Array.isArray(doc.todos) &&
-        doc.todos.length <= 1 &&
-        doc.todos.every(
-          (t) => String(t.text ?? '').trim() === '' && !t.completed,
-        );
-      if (existingCount > 0 && looksLikeSeed) {
-        // skip seed save when existing data present
-        return { success: true };
-      }
-    } catch {}
     const tx = database.transaction(() => {
-      // Ensure parent list exists to satisfy FK constraint.
-      // If missing, create a placeholder row to avoid races with index saves.
-      const found = ensureList.get(listId);
-      if (!found) {
-        const now = new Date().toISOString();
-        // Use a placeholder name; it will be upserted later by saveListsIndex
-        createList.run(listId, 'Untitled', now, now);
-      }
+      const claim = claimRevision(database, listId, baseRevision);
+      if (claim.conflict) return claim;
       del.run(listId);
-      let idx = 0;
+      delSearch.run(listId);
+      delTags.run(listId);
+      // parent_id must name a row of this list (foreign key)
+      const ids = new Set(doc.todos.map((t) => t.id));
+      let order = 0;
       for (const t of doc.todos) {
-        ins.run({
-          list_id: listId,
-          id: t.id,
-          text: t.text,
-          completed: t.completed ? 1 : 0,
-          indent: Number(t.indent ?? 0),
-          order_index: idx++,
-          parent_id:
-            t.parentId !== undefined
-              ? t.parentId !== null
-                ? t.parentId
-                : null
-              : null,
-        });
+        ins.run(
+          todoRowParams(listId, t, order, {
+            parentId:
+              t.parentId != null && ids.has(t.parentId) ? t.parentId : null,
+          }),
+        );
+        order += ORDER_GAP;
+        if (String(t.text ?? '').trim() !== '') {
+          insSearch.run(listId, t.id, t.text);
+        }
+        for (const tag of extractTags(String(t.text ?? ''))) {
+          insTag.run(listId, t.id, tag);
+        }
       }
+      return claim;
     });
-    tx();
     // no per-save checkpoint
-    return { success: true };
+    return claimResult(listId, tx());
   } catch (e: any) {
     console.error(`[DB] Error saving todos for list ${listId}:`, e);
     return { success: false, error: e?.message || String(e) };
   }
 }
 
+/**
+ * Applies the changes to one list since its last save, touching only the
+ * rows involved. The patch must be based on the list as stored: an insert
+ * whose id is already taken, or a parent_id that doesn't name a row of the
+ * list, fails and rolls the whole patch back rather than overwrite a row
+ * it never saw. Revisions are checked as in saveListTodos.
+ *
+ * A placed row gets an order_index between the todo it follows and the
+ * next one; the list is only renumbered when that gap has run out.
+ */
+export function applyTodosPatch(
+  listId: string,
+  patch: TodosPatch,
+  baseRevision: number,
+): TodosWriteResult {
+  const database = openDatabase();
+  try {
+    const insert = database.prepare(
+      'INSERT INTO todos (list_id, id, text, completed, indent, order_index, parent_id, due_date, due_time, recurrence, priority, notes, collapsed, completed_at) VALUES (@list_id, @id, @text, @completed, @indent, @order_index, @parent_id, @due_date, @due_time, @recurrence, @priority, @notes, @collapsed, @completed_at)',
+    );
+    const update = database.prepare(
+      `UPDATE todos SET text = @text, completed = @completed, indent = @indent,
+         parent_id = @parent_id, due_date = @due_date, due_time = @due_time,
+         recurrence = @recurrence, priority = @priority, notes = @notes,
+         collapsed = @collapsed, completed_at = @completed_at
+       WHERE list_id = @list_id AND id = @id`,
+    );
+    const move = database.prepare(
+      'UPDATE todos SET order_index = ? WHERE list_id = ? AND id = ?',
+    );
+    const selectOrder = database.prepare(
+      'SELECT order_index FROM todos WHERE list_id = ? AND id = ?',
+    );
+    // The row after a position, leaving out the row being placed
+    const selectNext = database.prepare(
+      `SELECT order_index FROM todos
+       WHERE list_id = ? AND order_index > ? AND id != ?
+       ORDER BY order_index LIMIT 1`,
+    );
+    const selectFirst = database.prepare(
+      `SELECT order_index FROM todos WHERE list_id = ? AND id != ?
+       ORDER BY order_index LIMIT 1`,
+    );
+    const selectIds = database.prepare(
+      'SELECT id FROM todos WHERE list_id = ? ORDER BY order_index',
+    );
+    const del = database.prepare(
+      'DELETE FROM todos WHERE list_id = ? AND id = ?',
+    );
+    const delSearch = database.prepare(
+      "DELETE FROM search_index WHERE kind = 'todo' AND list_id = ? AND todo_id = ?",
+    );
+    const insSearch = database.prepare(
+      "INSERT INTO search_index (kind, list_id, todo_id, text) VALUES ('todo', ?, ?, ?)",
+    );
+    const delTags = database.prepare(
+      'DELETE FROM todo_tags WHERE list_id = ? AND todo_id = ?',
+    );
+    const insTag = database.prepare(
+      'INSERT OR IGNORE INTO todo_tags (list_id, todo_id, tag) VALUES (?, ?, ?)',
+    );
+    // Search entries and tags follow the text
+    const reindex = (t: EditorTodo) => {
+      delSearch.run(listId, t.id);
+      delTags.run(listId, t.id);
+      if (String(t.text ?? '').trim() !== '') {
+        insSearch.run(listId, t.id, t.text);
+      }
+      for (const tag of extractTags(String(t.text ?? ''))) {
+        insTag.run(listId, t.id, tag);
+      }
+    };
+
+    const orderOf = (id: number): number => {
+      const row = selectOrder.get(listId, id);
+      if (!row) throw new Error(`Todo ${id} is not in list ${listId}`);
+      return Number(row.order_index);
+    };
+    const keyAfter = (afterId: number | null, id: number): number | null => {
+      const prev = afterId == null ? null : orderOf(afterId);
+      const next =
+        prev == null
+          ? selectFirst.get(listId, id)
+          : selectNext.get(listId, prev, id);
+      if (!next) return prev == null ? 0 : prev + ORDER_GAP;
+      const nextOrder = Number(next.order_index);
+      if (prev == null) return nextOrder - ORDER_GAP;
+      const gap = nextOrder - prev;
+      return gap > 1 ? prev + Math.floor(gap / 2) : null;
+    };
+    const renumber = () => {
+      (selectIds.all(listId) as Array<{ id: number }>).forEach((r, i) =>
+        move.run(i * ORDER_GAP, listId, r.id),
+      );
+    };
+
+    const inserted = new Map(patch.inserted.map((p) => [p.todo.id, p]));
+    const afterIds = new Map<number, number | null>([
+      ...patch.inserted.map((p): [number, number | null] => [
+        p.todo.id,
+        p.afterId,
+      ]),
+      ...patch.moved.map((p): [number, number | null] => [p.id, p.afterId]),
+    ]);
+    const placed = new Set<number>();
+    const place = (id: number) => {
+      const afterId = afterIds.get(id) ?? null;
+      let key = keyAfter(afterId, id);
+      if (key == null) {
+        renumber();
+        key = keyAfter(afterId, id) as number;
+      }
+      const entry = inserted.get(id);
+      if (entry) {
+        insert.run(todoRowParams(listId, entry.todo, key));
+        reindex(entry.todo);
+      } else {
+        move.run(key, listId, id);
+      }
+    };
+
+    const tx = database.transaction(() => {
+      const claim = claimRevision(database, listId, baseRevision);
+      if (claim.conflict) return claim;
+      for (const id of patch.deleted) {
+        del.run(listId, id);
+        delSearch.run(listId, id);
+        delTags.run(listId, id);
+      }
+      // A row following another placed row goes after it, so each chain is
+      // placed from its first row on
+      for (const id of afterIds.keys()) {
+        const chain: number[] = [];
+        for (
+          let cur: number | null = id;
+          cur != null && afterIds.has(cur) && !placed.has(cur);
+          cur = afterIds.get(cur) ?? null
+        ) {
+          placed.add(cur);
+          chain.push(cur);
+        }
+        chain.reverse().forEach(place);
+      }
+      for (const todo of patch.updated) {
+        update.run(todoRowParams(listId, todo, null));
+        reindex(todo);
+      }
+      return claim;
+    });
+    return claimResult(listId, tx());
+  } catch (e: any) {
+    console.error(`[DB] Error patching todos for list ${listId}:`, e);
+    return { success: false, error: e?.message || String(e) };
+  }
+}
+
+/**
+ * Appends one top-level todo to the end of a list (used by quick capture).
+ * Returns the new todo's id.
+ */
+export function appendTodo(
+  listId: string,
+  text: string,
+  fields: Pick<EditorTodo, 'dueDate' | 'dueTime' | 'priority'> = {},
+): { success: boolean; todoId?: number; revision?: number; error?: string } {
+  const trimmed = text.trim();
+  if (!trimmed) return { success: false, error: 'empty_text' };
+  try {
+    const found = openDatabase()
+      .prepare('SELECT id FROM lists WHERE id = ? AND deleted_at IS NULL')
+      .get(listId);
+    if (!found) return { success: false, error: 'list_not_found' };
+    const { todos, revision } = loadListTodos(listId);
+    const todoId = todos.reduce((max, t) => Math.max(max, t.id), 0) + 1;
+    const res = saveListTodos(
+      listId,
+      {
+        version: 2,
+        todos: [
+          ...todos,
+          {
+            id: todoId,
+            text: trimmed,
+            completed: false,
+            indent: 0,
+            parentId: null,
+            dueDate: normalizeDueDate(fields.dueDate),
+            dueTime: normalizeDueTime(fields.dueTime),
+            priority: normalizePriority(fields.priority),
+          },
+        ],
+      },
+      revision,
+    );
+    return res.success
+      ? { success: true, todoId, revision: res.revision }
+      : res;
+  } catch (e: any) {
+    console.error(`[DB] Error appending todo to list ${listId}:`, e);
+    return { success: false, error: e?.message || String(e) };
+  }
+}
+
 export function loadAppSettings(): AppSettings {
   const database = openDatabase();
-  const hideCompletedRow = database
-    .prepare('SELECT value FROM app_settings WHERE key = ?')
-    .get('hideCompletedItems');
+  const getSetting = database.prepare(
+    'SELECT value FROM app_settings WHERE key = ?',
+  );
+  const hideCompletedRow = getSetting.get('hideCompletedItems');
+  const retentionRow = getSetting.get('trashRetentionDays');
+  const retention = retentionRow ? Number(retentionRow.value) : NaN;
+  const shortcutRow = getSetting.get('quickCaptureShortcut');
+  const backgroundRow = getSetting.get('keepRunningInBackground');
+  const intervalRow = getSetting.get('backupIntervalMinutes');
+  const interval = clampBackupInterval(
+    intervalRow ? Number(intervalRow.value) : NaN,
+  );
+  const keepRow = getSetting.get('backupKeepCount');
+  const keep = clampBackupKeepCount(keepRow ? Number(keepRow.value) : NaN);
   return {
     hideCompletedItems: hideCompletedRow
       ? hideCompletedRow.value === 'true'
       : true,
+    trashRetentionDays:
+      Number.isInteger(retention) && retention >= 0
+        ? retention
+        : DEFAULT_TRASH_RETENTION_DAYS,
+    quickCaptureShortcut: shortcutRow
+      ? String(shortcutRow.value)
+      : DEFAULT_QUICK_CAPTURE_SHORTCUT,
+    keepRunningInBackground: backgroundRow
+      ? backgroundRow.value === 'true'
+      : false,
+    backupIntervalMinutes: interval ?? DEFAULT_BACKUP_INTERVAL_MINUTES,
+    backupKeepCount: keep ?? DEFAULT_BACKUP_KEEP_COUNT,
   };
 }
 
@@ -480,6 +1404,30 @@ export function saveAppSettings(settings: AppSettings): {
         'hideCompletedItems',
         settings.hideCompletedItems ? 'true' : 'false',
       );
+      const retention = settings.trashRetentionDays;
+      if (Number.isInteger(retention) && (retention as number) >= 0) {
+        upsert.run('trashRetentionDays', String(retention));
+      }
+      if (typeof settings.quickCaptureShortcut === 'string') {
+        upsert.run(
+          'quickCaptureShortcut',
+          settings.quickCaptureShortcut.trim(),
+        );
+      }
+      if (typeof settings.keepRunningInBackground === 'boolean') {
+        upsert.run(
+          'keepRunningInBackground',
+          settings.keepRunningInBackground ? 'true' : 'false',
+        );
+      }
+      const interval = clampBackupInterval(settings.backupIntervalMinutes);
+      if (interval !== null) {
+        upsert.run('backupIntervalMinutes', String(interval));
+      }
+      const keep = clampBackupKeepCount(settings.backupKeepCount);
+      if (keep !== null) {
+        upsert.run('backupKeepCount', String(keep));
+      }
     });
     tx();
     return { success: true };
@@ -489,6 +1437,133 @@ export function saveAppSettings(settings: AppSettings): {
   }
 }
 
+// Saved smart list definitions live in app_settings as one JSON value
+const SMART_LISTS_KEY = 'smartLists';
+
+export function loadSmartLists(): SmartListDefinition[] {
+  const database = openDatabase();
+  const row = database
+    .prepare('SELECT value FROM app_settings WHERE key = ?')
+    .get(SMART_LISTS_KEY);
+  if (!row) return [];
+  try {
+    return normalizeSmartLists(JSON.parse(String(row.value)));
+  } catch {
+    return [];
+  }
+}
+
+export function saveSmartLists(definitions: unknown): {
+  success: boolean;
+  error?: string;
+} {
+  const database = openDatabase();
+  try {
+    database
+      .prepare('INSERT OR REPLACE INTO app_settings (key, value) VALUES (?, ?)')
+      .run(SMART_LISTS_KEY, JSON.stringify(normalizeSmartLists(definitions)));
+    return { success: true };
+  } catch (e: any) {
+    console.error(`[DB] Error saving smart lists:`, e);
+    return { success: false, error: e?.message || String(e) };
+  }
+}
+
+// Local wall-clock time; reminders follow the machine's time zone
+function dueAtToEpoch(dueAt: string): number {
+  const [date, time] = dueAt.split('T');
+  const [y, m, d] = date.split('-').map(Number);
+  const [hh, mm] = time.split(':').map(Number);
+  return new Date(y, m - 1, d, hh, mm).getTime();
+}
+
+/**
+ * Reminders that haven't been shown yet for open todos with a due date and
+ * time in live lists, earliest first. Past ones are included; the scheduler
+ * decides which are too old to show.
+ */
+export function loadPendingReminders(): Reminder[] {
+  const database = openDatabase();
+  try {
+    const rows = database
+      .prepare(
+        `SELECT todos.list_id AS listId,
+                todos.id AS todoId,
+                todos.text AS text,
+                todos.due_date AS dueDate,
+                todos.due_time AS dueTime,
+                lists.name AS listName,
+                reminder_state.due_at AS stateDueAt,
+                reminder_state.notified_at AS notifiedAt,
+                reminder_state.snoozed_until AS snoozedUntil
+         FROM todos
+         JOIN lists
+           ON lists.id = todos.list_id
+          AND lists.deleted_at IS NULL
+         LEFT JOIN reminder_state
+           ON reminder_state.list_id = todos.list_id
+          AND reminder_state.todo_id = todos.id
+         WHERE todos.completed = 0
+           AND todos.due_date IS NOT NULL
+           AND todos.due_time IS NOT NULL
+           AND TRIM(todos.text) != ''`,
+      )
+      .all() as DatabaseRow[];
+    return rows
+      .flatMap((r): Reminder[] => {
+        const dueDate = normalizeDueDate(r.dueDate);
+        const dueTime = normalizeDueTime(r.dueTime);
+        if (!dueDate || !dueTime) return [];
+        const dueAt = `${dueDate}T${dueTime}`;
+        const current = r.stateDueAt === dueAt;
+        if (current && r.notifiedAt) return [];
+        const snoozedUntil =
+          current && r.snoozedUntil ? Date.parse(String(r.snoozedUntil)) : NaN;
+        return [
+          {
+            listId: String(r.listId),
+            listName: String(r.listName),
+            todoId: Number(r.todoId),
+            text: String(r.text),
+            dueAt,
+            fireAt: Number.isFinite(snoozedUntil)
+              ? snoozedUntil
+              : dueAtToEpoch(dueAt),
+          },
+        ];
+      })
+      .sort((a, b) => a.fireAt - b.fireAt);
+  } catch (e: any) {
+    console.error('[DB] loadPendingReminders error:', e);
+    return [];
+  }
+}
+
+// Shown: stays quiet until the due time changes or it's snoozed
+export function markReminderNotified(
+  reminder: Pick<Reminder, 'listId' | 'todoId' | 'dueAt'>,
+  at: Date = new Date(),
+): void {
+  const database = openDatabase();
+  database
+    .prepare(
+      'INSERT OR REPLACE INTO reminder_state (list_id, todo_id, due_at, notified_at, snoozed_until) VALUES (?, ?, ?, ?, NULL)',
+    )
+    .run(reminder.listId, reminder.todoId, reminder.dueAt, at.toISOString());
+}
+
+export function snoozeReminder(
+  reminder: Pick<Reminder, 'listId' | 'todoId' | 'dueAt'>,
+  until: Date,
+): void {
+  const database = openDatabase();
+  database
+    .prepare(
+      'INSERT OR REPLACE INTO reminder_state (list_id, todo_id, due_at, notified_at, snoozed_until) VALUES (?, ?, ?, NULL, ?)',
+    )
+    .run(reminder.listId, reminder.todoId, reminder.dueAt, until.toISOString());
+}
+
 // Persist selected list id directly in meta table.
 export function setSelectedListMeta(listId: string | null): void {
   const database = openDatabase();
@@ -546,13 +1621,20 @@ export function duplicateList(
       // Copy todos but assign NEW ids within the new list to ensure
       // global uniqueness across lists and avoid any coupling via ids.
       const selectTodos = database.prepare(
-        `SELECT id, text, completed, indent, order_index, parent_id
+        `SELECT id, text, completed, indent, order_index, parent_id, due_date, due_time, recurrence, priority, notes, collapsed, completed_at
          FROM todos
          WHERE list_id = ?
          ORDER BY order_index`,
       );
       const insertTodo = database.prepare(
-        'INSERT INTO todos (list_id, id, text, completed, indent, order_index, parent_id) VALUES (?, ?, ?, ?, ?, ?, ?)',
+        'INSERT INTO todos (list_id, id, text, completed, indent, order_index, parent_id, due_date, due_time, recurrence, priority, notes, collapsed, completed_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      );
+      const insertSearch = database.prepare(
+        'INSERT INTO search_index (kind, list_id, todo_id, text) VALUES (?, ?, ?, ?)',
+      );
+      insertSearch.run('list', newListId, null, finalName);
+      const insertTag = database.prepare(
+        'INSERT OR IGNORE INTO todo_tags (list_id, todo_id, tag) VALUES (?, ?, ?)',
       );
 
       const rows = selectTodos.all(sourceListId) as Array<{
@@ -562,6 +1644,13 @@ export function duplicateList(
         indent: number;
         order_index: number;
         parent_id: number | null;
+        due_date: string | null;
+        due_time: string | null;
+        recurrence: string | null;
+        priority: string | null;
+        notes: string | null;
+        collapsed: number;
+        completed_at: string | null;
       }>;
 
       // Assign sequential ids in the duplicated list, preserving order.
@@ -587,7 +1676,20 @@ export function duplicateList(
           Number(r.indent ?? 0),
           r.order_index,
           newParentId,
+          normalizeDueDate(r.due_date),
+          normalizeDueTime(r.due_time),
+          serializeRecurrence(r.recurrence),
+          normalizePriority(r.priority),
+          normalizeNotes(r.notes),
+          r.collapsed ? 1 : 0,
+          normalizeCompletedAt(r.completed_at, !!r.completed),
         );
+        if (String(r.text ?? '').trim() !== '') {
+          insertSearch.run('todo', newListId, newId, r.text);
+        }
+        for (const tag of extractTags(String(r.text ?? ''))) {
+          insertTag.run(newListId, newId, tag);
+        }
       }
     });
     tx();
@@ -614,6 +1716,218 @@ export function duplicateList(
   }
 }
 
+export type MoveTodosResult =
+  | {
+      success: true;
+      idMap: Record<number, number>;
+      // new revisions of the source and target lists
+      revisions: Record<string, number>;
+    }
+  // `listId` is the list that changed, `revision` its current revision
+  | {
+      success: false;
+      error: 'revision_conflict';
+      listId: string;
+      revision: number;
+    }
+  | {
+      success: false;
+      error: 'invalid_args' | 'not_found' | 'internal_error';
+    };
+
+/**
+ * Moves a todo and its descendants to the end of another list in a single
+ * transaction. The moved rows get new ids in the destination, with parent_id
+ * remapped the same way duplicateList does; `idMap` maps old id → new id.
+ * `baseRevision` is the source list's revision the move was based on; as
+ * with saves, the move is rejected if the list moved past it.
+ */
+export function moveTodosToList(
+  sourceListId: string,
+  todoId: number,
+  targetListId: string,
+  baseRevision: number,
+  // null when the caller holds no rows of the target list that could clash
+  targetBaseRevision: number | null = null,
+): MoveTodosResult {
+  const startTime = performance.now();
+  const database = openDatabase();
+  if (
+    !sourceListId ||
+    !targetListId ||
+    sourceListId === targetListId ||
+    !Number.isInteger(todoId)
+  ) {
+    return { success: false, error: 'invalid_args' };
+  }
+
+  try {
+    const target = database
+      .prepare('SELECT id FROM lists WHERE id = ? AND deleted_at IS NULL')
+      .get(targetListId);
+    if (!target) return { success: false, error: 'not_found' };
+
+    const selectTodos = database.prepare(
+      `SELECT id, text, completed, indent, parent_id, due_date, due_time, recurrence, priority, notes, collapsed, completed_at
+       FROM todos
+       WHERE list_id = ?
+       ORDER BY order_index`,
+    );
+    const selectTargetBounds = database.prepare(
+      'SELECT COALESCE(MAX(id), 0) AS maxId, COALESCE(MAX(order_index), 0) AS maxOrder FROM todos WHERE list_id = ?',
+    );
+    const insertTodo = database.prepare(
+      'INSERT INTO todos (list_id, id, text, completed, indent, order_index, parent_id, due_date, due_time, recurrence, priority, notes, collapsed, completed_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    );
+    const deleteTodo = database.prepare(
+      'DELETE FROM todos WHERE list_id = ? AND id = ?',
+    );
+    const deleteSearch = database.prepare(
+      "DELETE FROM search_index WHERE kind = 'todo' AND list_id = ? AND todo_id = ?",
+    );
+    const insertSearch = database.prepare(
+      "INSERT INTO search_index (kind, list_id, todo_id, text) VALUES ('todo', ?, ?, ?)",
+    );
+    const deleteTags = database.prepare(
+      'DELETE FROM todo_tags WHERE list_id = ? AND todo_id = ?',
+    );
+    const insertTag = database.prepare(
+      'INSERT OR IGNORE INTO todo_tags (list_id, todo_id, tag) VALUES (?, ?, ?)',
+    );
+    const touchList = database.prepare(
+      'UPDATE lists SET updated_at = ?, revision = revision + 1 WHERE id = ?',
+    );
+    const selectRevision = database.prepare(
+      'SELECT revision FROM lists WHERE id = ?',
+    );
+
+    const tx = database.transaction(
+      ():
+        | Map<number, number>
+        | { conflict: { listId: string; revision: number } }
+        | null => {
+        // Moved rows take ids after the target's saved rows, so unsaved
+        // rows of a stale target could reuse them
+        const bases: Array<[string, number | null]> = [
+          [sourceListId, baseRevision],
+          [targetListId, targetBaseRevision],
+        ];
+        for (const [listId, base] of bases) {
+          const current = Number(selectRevision.get(listId)?.revision ?? 0);
+          if (base !== null && current !== base) {
+            return { conflict: { listId, revision: current } };
+          }
+        }
+        const rows = selectTodos.all(sourceListId) as Array<{
+          id: number;
+          text: string;
+          completed: number;
+          indent: number;
+          parent_id: number | null;
+          due_date: string | null;
+          due_time: string | null;
+          recurrence: string | null;
+          priority: string | null;
+          notes: string | null;
+          collapsed: number;
+          completed_at: string | null;
+        }>;
+        const root = rows.find((r) => r.id === todoId);
+        if (!root) return null;
+
+        // Descendants follow their parents, so one pass in list order collects
+        // the whole subtree
+        const subtreeIds = new Set([todoId]);
+        const moved = rows.filter((r) => {
+          if (r.id === todoId) return true;
+          if (r.parent_id != null && subtreeIds.has(r.parent_id)) {
+            subtreeIds.add(r.id);
+            return true;
+          }
+          return false;
+        });
+
+        const bounds = selectTargetBounds.get(targetListId) as {
+          maxId: number;
+          maxOrder: number;
+        };
+        const map = new Map<number, number>();
+        moved.forEach((r, i) => map.set(r.id, Number(bounds.maxId) + 1 + i));
+
+        const rootIndent = Number(root.indent ?? 0);
+        moved.forEach((r, i) => {
+          const newId = map.get(r.id)!;
+          insertTodo.run(
+            targetListId,
+            newId,
+            r.text,
+            r.completed ? 1 : 0,
+            Math.max(0, Number(r.indent ?? 0) - rootIndent),
+            Number(bounds.maxOrder) + (i + 1) * ORDER_GAP,
+            r.id === todoId ? null : (map.get(r.parent_id as number) ?? null),
+            normalizeDueDate(r.due_date),
+            normalizeDueTime(r.due_time),
+            serializeRecurrence(r.recurrence),
+            normalizePriority(r.priority),
+            normalizeNotes(r.notes),
+            r.collapsed ? 1 : 0,
+            normalizeCompletedAt(r.completed_at, !!r.completed),
+          );
+          if (String(r.text ?? '').trim() !== '') {
+            insertSearch.run(targetListId, newId, r.text);
+          }
+          for (const tag of extractTags(String(r.text ?? ''))) {
+            insertTag.run(targetListId, newId, tag);
+          }
+          deleteTodo.run(sourceListId, r.id);
+          deleteSearch.run(sourceListId, r.id);
+          deleteTags.run(sourceListId, r.id);
+        });
+
+        const now = new Date().toISOString();
+        touchList.run(now, sourceListId);
+        touchList.run(now, targetListId);
+        return map;
+      },
+    );
+    const idMap = tx();
+
+    const duration = performance.now() - startTime;
+    if (!idMap) return { success: false, error: 'not_found' };
+    if (!(idMap instanceof Map)) {
+      const { listId, revision } = idMap.conflict;
+      console.warn(
+        `[DB] Rejected stale move ${sourceListId} -> ${targetListId}: list ${listId} now at revision ${revision}`,
+      );
+      return {
+        success: false,
+        error: 'revision_conflict',
+        listId,
+        revision,
+      };
+    }
+    console.log(
+      `[DB] moveTodosToList completed: ${sourceListId} -> ${targetListId}, todoId=${todoId}, moved=${idMap.size}, durationMs=${duration.toFixed(2)}`,
+    );
+    const revisions = Object.fromEntries(
+      [sourceListId, targetListId].map((id) => [
+        id,
+        Number(selectRevision.get(id)?.revision ?? 0),
+      ]),
+    );
+    return { success: true, idMap: Object.fromEntries(idMap), revisions };
+  } catch (e) {
+    const duration = performance.now() - startTime;
+    console.error(
+      `[DB] moveTodosToList failed after ${duration.toFixed(2)}ms:`,
+      e,
+    );
+    return { success: false, error: 'internal_error' };
+  }
+}
+
+// Moves a list to the Trash. Todos stay in place so the list can be restored;
+// purgeList/emptyTrash/purgeExpiredTrash remove the data for good.
 export function deleteList(listId: string): {
   success: boolean;
   error?: string;
@@ -624,25 +1938,312 @@ export function deleteList(listId: string): {
       return { success: false, error: 'invalid_list_id' };
     }
     console.log('[DB] deleteList called', { listId });
-    const delTodos = database.prepare('DELETE FROM todos WHERE list_id = ?');
-    const delList = database.prepare('DELETE FROM lists WHERE id = ?');
+    const trashList = database.prepare(
+      'UPDATE lists SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL',
+    );
     const getSelected = database
       .prepare('SELECT value FROM meta WHERE key = ?')
       .get('selectedListId');
     const clearMeta = database.prepare('DELETE FROM meta WHERE key = ?');
     const tx = database.transaction(() => {
-      delTodos.run(listId);
-      delList.run(listId);
+      trashList.run(new Date().toISOString(), listId);
       if (getSelected && String(getSelected.value) === listId) {
         clearMeta.run('selectedListId');
       }
     });
     tx();
     // no per-save checkpoint
-    console.log('[DB] deleteList succeeded', { listId });
+    console.log('[DB] deleteList moved list to trash', { listId });
     return { success: true };
   } catch (e: any) {
     console.error('[DB] deleteList error:', e);
     return { success: false, error: e?.message || String(e) };
   }
 }
+
+export function loadTrash(): TrashedList[] {
+  const database = openDatabase();
+  try {
+    const rows = database
+      .prepare(
+        `SELECT l.id, l.name, l.created_at as createdAt, l.updated_at as updatedAt,
+                l.deleted_at as deletedAt,
+                (SELECT COUNT(*) FROM todos t WHERE t.list_id = l.id) as todoCount
+         FROM lists l
+         WHERE l.deleted_at IS NOT NULL
+         ORDER BY l.deleted_at DESC`,
+      )
+      .all() as DatabaseRow[];
+    return rows.map((r) => ({
+      id: String(r.id),
+      name: String(r.name),
+      createdAt: String(r.createdAt),
+      updatedAt: String(r.updatedAt),
+      deletedAt: String(r.deletedAt),
+      todoCount: Number(r.todoCount ?? 0),
+    }));
+  } catch (e: any) {
+    console.error('[DB] loadTrash error:', e);
+    return [];
+  }
+}
+
+export function restoreList(
+  listId: string,
+):
+  | { success: true; list: ListsIndexV2['lists'][number] }
+  | { success: false; error: 'invalid_list_id' | 'not_found' | string } {
+  const database = openDatabase();
+  try {
+    if (!listId || typeof listId !== 'string') {
+      return { success: false, error: 'invalid_list_id' };
+    }
+    const now = new Date().toISOString();
+    const res = database
+      .prepare(
+        'UPDATE lists SET deleted_at = NULL, updated_at = ? WHERE id = ? AND deleted_at IS NOT NULL',
+      )
+      .run(now, listId);
+    if (!res?.changes) return { success: false, error: 'not_found' };
+    const row = database
+      .prepare(
+        'SELECT id, name, created_at as createdAt, updated_at as updatedAt FROM lists WHERE id = ?',
+      )
+      .get(listId);
+    console.log('[DB] restoreList succeeded', { listId });
+    return {
+      success: true,
+      list: {
+        id: String(row.id),
+        name: String(row.name),
+        createdAt: String(row.createdAt),
+        updatedAt: String(row.updatedAt),
+      },
+    };
+  } catch (e: any) {
+    console.error('[DB] restoreList error:', e);
+    return { success: false, error: e?.message || String(e) };
+  }
+}
+
+// Hard-deletes trashed lists with their todos, search entries, tags and
+// reminder state.
+function purgeTrashedLists(database: DB, listIds: string[]): number {
+  if (listIds.length === 0) return 0;
+  const isTrashed = database.prepare(
+    'SELECT 1 FROM lists WHERE id = ? AND deleted_at IS NOT NULL',
+  );
+  const delTodos = database.prepare('DELETE FROM todos WHERE list_id = ?');
+  const delSearch = database.prepare(
+    'DELETE FROM search_index WHERE list_id = ?',
+  );
+  const delTags = database.prepare('DELETE FROM todo_tags WHERE list_id = ?');
+  const delReminders = database.prepare(
+    'DELETE FROM reminder_state WHERE list_id = ?',
+  );
+  const delList = database.prepare('DELETE FROM lists WHERE id = ?');
+  let purged = 0;
+  const tx = database.transaction(() => {
+    for (const id of listIds) {
+      if (isTrashed.get(id)) {
+        delTodos.run(id);
+        delSearch.run(id);
+        delTags.run(id);
+        delReminders.run(id);
+        delList.run(id);
+        purged++;
+      }
+    }
+  });
+  tx();
+  return purged;
+}
+
+export function purgeList(listId: string): {
+  success: boolean;
+  error?: string;
+} {
+  const database = openDatabase();
+  try {
+    if (!listId || typeof listId !== 'string') {
+      return { success: false, error: 'invalid_list_id' };
+    }
+    const purged = purgeTrashedLists(database, [listId]);
+    if (purged === 0) return { success: false, error: 'not_in_trash' };
+    console.log('[DB] purgeList succeeded', { listId });
+    return { success: true };
+  } catch (e: any) {
+    console.error('[DB] purgeList error:', e);
+    return { success: false, error: e?.message || String(e) };
+  }
+}
+
+export function emptyTrash(): { success: boolean; purged: number } {
+  const database = openDatabase();
+  try {
+    const ids = database
+      .prepare('SELECT id FROM lists WHERE deleted_at IS NOT NULL')
+      .all()
+      .map((r: any) => String(r.id));
+    const purged = purgeTrashedLists(database, ids);
+    console.log('[DB] emptyTrash purged lists', { purged });
+    return { success: true, purged };
+  } catch (e: any) {
+    console.error('[DB] emptyTrash error:', e);
+    return { success: false, purged: 0 };
+  }
+}
+
+// Purges lists that have been in the Trash longer than `retentionDays`.
+export function purgeExpiredTrash(
+  retentionDays: number,
+  now: Date = new Date(),
+): number {
+  if (!Number.isFinite(retentionDays) || retentionDays <= 0) return 0;
+  const database = openDatabase();
+  try {
+    const cutoff = new Date(
+      now.getTime() - retentionDays * 24 * 60 * 60 * 1000,
+    ).toISOString();
+    const ids = database
+      .prepare(
+        'SELECT id FROM lists WHERE deleted_at IS NOT NULL AND deleted_at < ?',
+      )
+      .all(cutoff)
+      .map((r: any) => String(r.id));
+    const purged = purgeTrashedLists(database, ids);
+    if (purged > 0) {
+      console.log('[DB] purgeExpiredTrash purged lists', {
+        purged,
+        retentionDays,
+      });
+    }
+    return purged;
+  } catch (e: any) {
+    console.error('[DB] purgeExpiredTrash error:', e);
+    return 0;
+  }
+}
+
+const MAX_SEARCH_TERMS = 8;
+
+/**
+ * Turns free-form user input into a safe FTS5 MATCH expression.
+ * Every whitespace-separated term is quoted (so FTS operators in user input
+ * are treated as literals) and prefix-matched; all terms must match.
+ */
+export function buildSearchMatchQuery(raw: string): string | null {
+  if (typeof raw !== 'string') return null;
+  const terms = raw
+    .trim()
+    .split(/\s+/)
+    .filter((term) => term !== '')
+    .slice(0, MAX_SEARCH_TERMS)
+    .map((term) => `"${term.replace(/"/g, '""')}"*`);
+  return terms.length > 0 ? terms.join(' ') : null;
+}
+
+export function searchTodos(query: string, limit = 50): SearchHit[] {
+  const match = buildSearchMatchQuery(query);
+  if (!match) return [];
+  const database = openDatabase();
+  try {
+    const rows = database
+      .prepare(
+        `SELECT search_index.kind AS kind,
+                search_index.list_id AS listId,
+                search_index.todo_id AS todoId,
+                search_index.text AS text,
+                lists.name AS listName,
+                todos.completed AS completed
+         FROM search_index
+         JOIN lists
+           ON lists.id = search_index.list_id
+          AND lists.deleted_at IS NULL
+         LEFT JOIN todos
+           ON search_index.kind = 'todo'
+          AND todos.list_id = search_index.list_id
+          AND todos.id = search_index.todo_id
+         WHERE search_index MATCH ?
+         ORDER BY rank
+         LIMIT ?`,
+      )
+      .all(match, Math.max(1, Math.min(200, limit | 0))) as DatabaseRow[];
+    return rows.map((r) => ({
+      kind: r.kind === 'list' ? 'list' : 'todo',
+      listId: String(r.listId),
+      listName: String(r.listName),
+      todoId: r.todoId != null ? Number(r.todoId) : null,
+      text: String(r.text),
+      completed: !!r.completed,
+    }));
+  } catch (e: any) {
+    console.error('[DB] searchTodos error:', e);
+    return [];
+  }
+}
+
+/**
+ * Every tag in use across live lists, most used first.
+ */
+export function loadTags(): TagCount[] {
+  const database = openDatabase();
+  try {
+    const rows = database
+      .prepare(
+        `SELECT todo_tags.tag AS tag, COUNT(*) AS count
+         FROM todo_tags
+         JOIN lists
+           ON lists.id = todo_tags.list_id
+          AND lists.deleted_at IS NULL
+         GROUP BY todo_tags.tag
+         ORDER BY count DESC, tag ASC`,
+      )
+      .all() as DatabaseRow[];
+    return rows.map((r) => ({ tag: String(r.tag), count: Number(r.count) }));
+  } catch (e: any) {
+    console.error('[DB] loadTags error:', e);
+    return [];
+  }
+}
+
+/**
+ * Todos carrying `tag` in every live list, shaped like todo search hits.
+ * Lists are ordered by recency and todos keep their list order.
+ */
+export function findTodosByTag(tag: string): SearchHit[] {
+  const normalized = tag.trim().replace(/^#/, '').toLowerCase();
+  if (!normalized) return [];
+  const database = openDatabase();
+  try {
+    const rows = database
+      .prepare(
+        `SELECT todos.list_id AS listId,
+                todos.id AS todoId,
+                todos.text AS text,
+                todos.completed AS completed,
+                lists.name AS listName
+         FROM todo_tags
+         JOIN lists
+           ON lists.id = todo_tags.list_id
+          AND lists.deleted_at IS NULL
+         JOIN todos
+           ON todos.list_id = todo_tags.list_id
+          AND todos.id = todo_tags.todo_id
+         WHERE todo_tags.tag = ?
+         ORDER BY lists.updated_at DESC, todos.order_index ASC`,
+      )
+      .all(normalized) as DatabaseRow[];
+    return rows.map((r) => ({
+      kind: 'todo',
+      listId: String(r.listId),
+      listName: String(r.listName),
+      todoId: Number(r.todoId),
+      text: String(r.text),
+      completed: !!r.completed,
+    }));
+  } catch (e: any) {
+    console.error('[DB] findTodosByTag error:', e);
+    return [];
+  }
+}
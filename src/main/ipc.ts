@@ -0,0 +1,65 @@
+/* eslint-disable no-console */
+import { ipcMain, type IpcMainInvokeEvent, type WebContents } from 'electron';
+import {
+  checkEvent,
+  checkRequest,
+  checkResponse,
+  type EventArgs,
+  type EventChannel,
+  type InvokeArgs,
+  type InvokeChannel,
+  type InvokeResult,
+} from '../shared/ipcContract';
+
+type Handler<C extends InvokeChannel> = (
+  event: IpcMainInvokeEvent,
+  ...args: InvokeArgs<C>
+) => InvokeResult<C> | Promise<InvokeResult<C>>;
+
+/**
+ * Registers an invoke handler that only runs with arguments matching the
+ * channel's contract. Anything else gets an `invalid_payload` reply listing
+ * what was wrong. A reply that breaks the contract is a bug on this side;
+ * it's logged and replaced with an `invalid_payload` reply too.
+ */
+export function handle<C extends InvokeChannel>(
+  channel: C,
+  handler: Handler<C>,
+): void {
+  ipcMain.handle(channel, async (event, ...args: unknown[]) => {
+    const request = checkRequest(channel, args);
+    if (!request.ok) {
+      console.warn(`[IPC] Rejected ${channel} request:`, request.error.issues);
+      return request.error;
+    }
+    const reply = await (
+      handler as (
+        e: IpcMainInvokeEvent,
+        ...a: unknown[]
+      ) => ReturnType<Handler<C>>
+    )(event, ...(request.value as unknown[]));
+    const response = checkResponse(channel, reply);
+    if (!response.ok) {
+      console.error(`[IPC] Invalid ${channel} reply:`, response.error.issues);
+      return response.error;
+    }
+    return response.value;
+  });
+}
+
+/**
+ * Sends an event to a renderer. A payload that doesn't match the contract
+ * is a bug on this side, so it's logged and not sent.
+ */
+export function send<C extends EventChannel>(
+  contents: WebContents,
+  channel: C,
+  ...args: EventArgs<C>
+): void {
+  const payload = checkEvent(channel, args);
+  if (!payload.ok) {
+    console.error(`[IPC] Not sending ${channel}:`, payload.error.issues);
+    return;
+  }
+  contents.send(channel, ...args);
+}
@@ -10,27 +10,62 @@
  */
 
 import path from 'node:path';
-import { app, BrowserWindow, shell, ipcMain } from 'electron';
+import { app, BrowserWindow, dialog, shell } from 'electron';
 import MenuBuilder from './menu';
+import { handle, send } from './ipc';
 import { initAutoUpdater } from './updater';
+import {
+  rescheduleBackups,
+  startBackupSchedule,
+  stopBackupSchedule,
+} from './backup';
+import { saveMarkdownFile, openMarkdownFiles } from './markdownFiles';
+import {
+  closeQuickCapture,
+  getQuickCaptureShortcut,
+  registerQuickCaptureShortcut,
+  unregisterQuickCaptureShortcut,
+} from './quickCapture';
+import { createTray, destroyTray, scheduleTrayRefresh } from './tray';
+import {
+  scheduleReminderRefresh,
+  startReminderScheduler,
+  stopReminderScheduler,
+} from './reminders';
 import { resolveHtmlPath, shouldEnableDebugUI } from './util';
+import { getAvailableCommands } from '../shared/commands';
 
 // Import DB module only after userData path is finalized to avoid any
 // accidental early reads of the default path inside the module.
 import {
   loadListsIndex as dbLoadListsIndex,
+  loadListSummaries as dbLoadListSummaries,
   saveListsIndex as dbSaveListsIndex,
   loadListTodos as dbLoadListTodos,
   saveListTodos as dbSaveListTodos,
+  applyTodosPatch as dbApplyTodosPatch,
   loadAppSettings as dbLoadAppSettings,
   saveAppSettings as dbSaveAppSettings,
+  loadSmartLists as dbLoadSmartLists,
+  saveSmartLists as dbSaveSmartLists,
   duplicateList as dbDuplicateList,
+  moveTodosToList as dbMoveTodosToList,
   deleteList as dbDeleteList,
   setSelectedListMeta as dbSetSelectedListMeta,
+  searchTodos as dbSearchTodos,
+  loadTags as dbLoadTags,
+  findTodosByTag as dbFindTodosByTag,
+  loadTrash as dbLoadTrash,
+  restoreList as dbRestoreList,
+  purgeList as dbPurgeList,
+  emptyTrash as dbEmptyTrash,
+  appendTodo as dbAppendTodo,
+  purgeExpiredTrash as dbPurgeExpiredTrash,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  DEFAULT_QUICK_CAPTURE_SHORTCUT,
+  openDatabase,
   closeDatabase,
-  type ListsIndexV2,
-  type AppSettings,
-  type EditorTodo,
+  SchemaError,
 } from './db';
 
 // Separate Dev and Prod databases by using different userData paths.
@@ -54,9 +89,68 @@ if (app.isPackaged) {
 // Auto-update logic removed per user request.
 
 let mainWindow: BrowserWindow | null = null;
+let menuBuilder: MenuBuilder | null = null;
+
+// Trash retention: purge expired lists on startup and periodically after.
+const TRASH_SWEEP_INTERVAL_MS = 6 * 60 * 60 * 1000;
+let trashSweepTimer: ReturnType<typeof setInterval> | null = null;
+
+function runTrashRetention() {
+  try {
+    const { trashRetentionDays } = dbLoadAppSettings();
+    dbPurgeExpiredTrash(trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS);
+  } catch (error) {
+    console.error('[TRASH] Retention sweep failed:', error);
+  }
+}
+
+// Opens (and migrates) the database before anything else touches it. When
+// that fails the app quits with an explanation instead of running on a
+// schema it doesn't understand.
+function ensureDatabaseReady(): boolean {
+  try {
+    openDatabase();
+    return true;
+  } catch (error) {
+    console.error('[DB] Failed to open database:', error);
+    const newer = error instanceof SchemaError && error.kind === 'newer_schema';
+    let advice = 'Please report this problem.';
+    if (newer) {
+      advice = 'Install the latest version of Todolo to open this data.';
+    } else if (error instanceof SchemaError) {
+      // A failed migration put the file back as it was
+      advice = 'Your data was left as it was. Please report this problem.';
+    }
+    dialog.showErrorBox(
+      newer ? 'Todolo needs to be updated' : 'Todolo could not open its data',
+      [error instanceof Error ? error.message : String(error), advice].join(
+        '\n\n',
+      ),
+    );
+    app.exit(1);
+    return false;
+  }
+}
+
+function applyQuickCaptureShortcut() {
+  try {
+    const { quickCaptureShortcut } = dbLoadAppSettings();
+    registerQuickCaptureShortcut(
+      quickCaptureShortcut ?? DEFAULT_QUICK_CAPTURE_SHORTCUT,
+    );
+  } catch (error) {
+    console.error('[QuickCapture] Failed to register shortcut:', error);
+  }
+}
+
+function startTrashRetention() {
+  runTrashRetention();
+  if (trashSweepTimer) clearInterval(trashSweepTimer);
+  trashSweepTimer = setInterval(runTrashRetention, TRASH_SWEEP_INTERVAL_MS);
+}
 
 // New IPC: per-list storage (SQLite-backed)
-ipcMain.handle('load-lists', async () => {
+handle('load-lists', async () => {
   const startTime = performance.now();
   try {
     console.log(`[PERF] Starting load-lists operation (sqlite)`);
@@ -74,11 +168,13 @@ ipcMain.handle('load-lists', async () => {
   }
 });
 
-ipcMain.handle('save-lists', async (_event, indexDoc: ListsIndexV2) => {
+handle('save-lists', async (_event, indexDoc) => {
   const startTime = performance.now();
   try {
     console.log(`[PERF] Starting save-lists operation (sqlite)`);
     const res = dbSaveListsIndex(indexDoc);
+    scheduleTrayRefresh();
+    scheduleReminderRefresh();
     const duration = performance.now() - startTime;
     console.log(`[PERF] save-lists completed in ${duration.toFixed(2)}ms`);
     return res;
@@ -92,7 +188,7 @@ ipcMain.handle('save-lists', async (_event, indexDoc: ListsIndexV2) => {
   }
 });
 
-ipcMain.handle('load-list-todos', async (_event, listId: string) => {
+handle('load-list-todos', async (_event, listId) => {
   const startTime = performance.now();
   try {
     console.log(
@@ -108,40 +204,54 @@ ipcMain.handle('load-list-todos', async (_event, listId: string) => {
       `[PERF] load-list-todos failed after ${duration.toFixed(2)}ms:`,
       error,
     );
-    return { version: 2, todos: [] };
+    // Not an empty list: the renderer must not seed or save over it
+    return { success: false, error: String(error) } as const;
   }
 });
 
-ipcMain.handle(
-  'save-list-todos',
-  async (
-    _event,
-    listId: string,
-    todosDoc: { version: 2; todos: EditorTodo[] },
-  ) => {
-    const startTime = performance.now();
-    try {
-      console.log(
-        `[PERF] Starting save-list-todos for list ${listId} (sqlite)`,
-      );
-      const res = dbSaveListTodos(listId, todosDoc);
-      const duration = performance.now() - startTime;
-      console.log(
-        `[PERF] save-list-todos completed in ${duration.toFixed(2)}ms`,
-      );
-      return res;
-    } catch (error) {
-      const duration = performance.now() - startTime;
-      console.error(
-        `[PERF] save-list-todos failed after ${duration.toFixed(2)}ms:`,
-        error,
-      );
-      return { success: false, error: String(error) };
-    }
-  },
-);
+handle('save-list-todos', async (_event, listId, todosDoc, baseRevision) => {
+  const startTime = performance.now();
+  try {
+    console.log(`[PERF] Starting save-list-todos for list ${listId} (sqlite)`);
+    const res = dbSaveListTodos(listId, todosDoc, baseRevision);
+    scheduleTrayRefresh();
+    scheduleReminderRefresh();
+    const duration = performance.now() - startTime;
+    console.log(`[PERF] save-list-todos completed in ${duration.toFixed(2)}ms`);
+    return res;
+  } catch (error) {
+    const duration = performance.now() - startTime;
+    console.error(
+      `[PERF] save-list-todos failed after ${duration.toFixed(2)}ms:`,
+      error,
+    );
+    return { success: false, error: String(error) };
+  }
+});
 
-ipcMain.handle('load-app-settings', async () => {
+handle('patch-list-todos', async (_event, listId, patch, baseRevision) => {
+  const startTime = performance.now();
+  try {
+    console.log(`[PERF] Starting patch-list-todos for list ${listId} (sqlite)`);
+    const res = dbApplyTodosPatch(listId, patch, baseRevision);
+    scheduleTrayRefresh();
+    scheduleReminderRefresh();
+    const duration = performance.now() - startTime;
+    console.log(
+      `[PERF] patch-list-todos completed in ${duration.toFixed(2)}ms`,
+    );
+    return res;
+  } catch (error) {
+    const duration = performance.now() - startTime;
+    console.error(
+      `[PERF] patch-list-todos failed after ${duration.toFixed(2)}ms:`,
+      error,
+    );
+    return { success: false, error: String(error) };
+  }
+});
+
+handle('load-app-settings', async () => {
   const startTime = performance.now();
   try {
     console.log(`[PERF] Starting load-app-settings operation (sqlite)`);
@@ -161,11 +271,27 @@ ipcMain.handle('load-app-settings', async () => {
   }
 });
 
-ipcMain.handle('save-app-settings', async (_event, settings: AppSettings) => {
+handle('save-app-settings', async (_event, settings) => {
   const startTime = performance.now();
   try {
     console.log(`[PERF] Starting save-app-settings operation (sqlite)`);
+    // Bind the new shortcut before saving it; one that can't be bound isn't
+    // saved and the old one keeps working
+    const previousShortcut = getQuickCaptureShortcut();
+    if (
+      typeof settings.quickCaptureShortcut === 'string' &&
+      !registerQuickCaptureShortcut(settings.quickCaptureShortcut)
+    ) {
+      return { success: false, error: 'shortcut_unavailable' };
+    }
     const res = dbSaveAppSettings(settings);
+    if (!res.success) {
+      registerQuickCaptureShortcut(previousShortcut ?? '');
+      return res;
+    }
+    // A shorter retention period or backup interval applies right away
+    runTrashRetention();
+    rescheduleBackups();
     const duration = performance.now() - startTime;
     console.log(
       `[PERF] save-app-settings completed in ${duration.toFixed(2)}ms`,
@@ -181,43 +307,119 @@ ipcMain.handle('save-app-settings', async (_event, settings: AppSettings) => {
   }
 });
 
-ipcMain.handle(
-  'duplicate-list',
-  async (_event, sourceListId: unknown, newListName?: unknown) => {
+handle('load-smart-lists', async () => {
+  const startTime = performance.now();
+  try {
+    console.log(`[PERF] Starting load-smart-lists operation (sqlite)`);
+    const data = dbLoadSmartLists();
+    const duration = performance.now() - startTime;
+    console.log(
+      `[PERF] load-smart-lists completed in ${duration.toFixed(2)}ms`,
+    );
+    return data;
+  } catch (error) {
+    const duration = performance.now() - startTime;
+    console.error(
+      `[PERF] load-smart-lists failed after ${duration.toFixed(2)}ms:`,
+      error,
+    );
+    return [];
+  }
+});
+
+handle('save-smart-lists', async (_event, definitions) => {
+  const startTime = performance.now();
+  try {
+    console.log(`[PERF] Starting save-smart-lists operation (sqlite)`);
+    // db.ts drops malformed definitions
+    const res = dbSaveSmartLists(definitions);
+    const duration = performance.now() - startTime;
+    console.log(
+      `[PERF] save-smart-lists completed in ${duration.toFixed(2)}ms`,
+    );
+    return res;
+  } catch (error) {
+    const duration = performance.now() - startTime;
+    console.error(
+      `[PERF] save-smart-lists failed after ${duration.toFixed(2)}ms:`,
+      error,
+    );
+    return { success: false, error: String(error) };
+  }
+});
+
+handle('duplicate-list', async (_event, sourceListId, newListName) => {
+  const startTime = performance.now();
+  try {
+    console.log(`[PERF] Starting duplicate-list operation (sqlite)`);
+    if (sourceListId.trim() === '') {
+      return { success: false, error: 'invalid_source_id' } as const;
+    }
+    const result = dbDuplicateList(sourceListId, newListName);
+    scheduleTrayRefresh();
+    scheduleReminderRefresh();
+    const duration = performance.now() - startTime;
+    console.log(`[PERF] duplicate-list completed in ${duration.toFixed(2)}ms`);
+    return result;
+  } catch (error) {
+    const duration = performance.now() - startTime;
+    console.error(
+      `[IPC] duplicate-list failed after ${duration.toFixed(2)}ms:`,
+      error instanceof Error ? error.message : String(error),
+      error instanceof Error ? error.stack : undefined,
+    );
+    return { success: false, error: 'internal_error' } as const;
+  }
+});
+
+handle(
+  'move-todos-to-list',
+  async (
+    _event,
+    sourceListId,
+    todoId,
+    targetListId,
+    baseRevision,
+    targetBaseRevision,
+  ) => {
     const startTime = performance.now();
     try {
-      console.log(`[PERF] Starting duplicate-list operation (sqlite)`);
-      if (typeof sourceListId !== 'string' || sourceListId.trim() === '') {
-        return { success: false, error: 'invalid_source_id' } as const;
-      }
-      const safeName =
-        typeof newListName === 'string' ? newListName : undefined;
-      const result = dbDuplicateList(sourceListId, safeName);
+      console.log(`[PERF] Starting move-todos-to-list operation (sqlite)`);
+      const result = dbMoveTodosToList(
+        sourceListId,
+        todoId,
+        targetListId,
+        baseRevision,
+        targetBaseRevision ?? null,
+      );
+      scheduleTrayRefresh();
+      scheduleReminderRefresh();
       const duration = performance.now() - startTime;
       console.log(
-        `[PERF] duplicate-list completed in ${duration.toFixed(2)}ms`,
+        `[PERF] move-todos-to-list completed in ${duration.toFixed(2)}ms`,
       );
       return result;
     } catch (error) {
       const duration = performance.now() - startTime;
       console.error(
-        `[IPC] duplicate-list failed after ${duration.toFixed(2)}ms:`,
-        error instanceof Error ? error.message : String(error),
-        error instanceof Error ? error.stack : undefined,
+        `[PERF] move-todos-to-list failed after ${duration.toFixed(2)}ms:`,
+        error,
       );
       return { success: false, error: 'internal_error' } as const;
     }
   },
 );
 
-ipcMain.handle('delete-list', async (_event, listId: unknown) => {
+handle('delete-list', async (_event, listId) => {
   const startTime = performance.now();
   try {
     console.log(`[PERF] Starting delete-list operation (sqlite)`);
-    if (typeof listId !== 'string' || listId.trim() === '') {
+    if (listId.trim() === '') {
       return { success: false, error: 'invalid_list_id' } as const;
     }
     const res = dbDeleteList(listId);
+    scheduleTrayRefresh();
+    scheduleReminderRefresh();
     const duration = performance.now() - startTime;
     console.log(`[PERF] delete-list completed in ${duration.toFixed(2)}ms`);
     return res;
@@ -231,12 +433,11 @@ ipcMain.handle('delete-list', async (_event, listId: unknown) => {
   }
 });
 
-ipcMain.handle('set-selected-list-meta', async (_event, listId: unknown) => {
+handle('set-selected-list-meta', async (_event, listId) => {
   const startTime = performance.now();
   try {
     console.log(`[PERF] Starting set-selected-list-meta operation (sqlite)`);
-    const safeListId = typeof listId === 'string' ? listId : null;
-    dbSetSelectedListMeta(safeListId);
+    dbSetSelectedListMeta(listId);
     const duration = performance.now() - startTime;
     console.log(
       `[PERF] set-selected-list-meta completed in ${duration.toFixed(2)}ms`,
@@ -250,6 +451,276 @@ ipcMain.handle('set-selected-list-meta', async (_event, listId: unknown) => {
   }
 });
 
+handle('search-todos', async (_event, query, limit) => {
+  const startTime = performance.now();
+  try {
+    console.log(`[PERF] Starting search-todos operation (sqlite)`);
+    if (query.trim() === '') {
+      return [];
+    }
+    const hits = dbSearchTodos(query, limit);
+    const duration = performance.now() - startTime;
+    console.log(
+      `[PERF] search-todos completed in ${duration.toFixed(2)}ms (${hits.length} hits)`,
+    );
+    return hits;
+  } catch (error) {
+    const duration = performance.now() - startTime;
+    console.error(
+      `[PERF] search-todos failed after ${duration.toFixed(2)}ms:`,
+      error,
+    );
+    return [];
+  }
+});
+
+handle('load-tags', async () => {
+  const startTime = performance.now();
+  try {
+    console.log(`[PERF] Starting load-tags operation (sqlite)`);
+    const tags = dbLoadTags();
+    const duration = performance.now() - startTime;
+    console.log(
+      `[PERF] load-tags completed in ${duration.toFixed(2)}ms (${tags.length} tags)`,
+    );
+    return tags;
+  } catch (error) {
+    const duration = performance.now() - startTime;
+    console.error(
+      `[PERF] load-tags failed after ${duration.toFixed(2)}ms:`,
+      error,
+    );
+    return [];
+  }
+});
+
+handle('todos-by-tag', async (_event, tag) => {
+  const startTime = performance.now();
+  try {
+    console.log(`[PERF] Starting todos-by-tag operation (sqlite)`);
+    if (tag.trim() === '') {
+      return [];
+    }
+    const hits = dbFindTodosByTag(tag);
+    const duration = performance.now() - startTime;
+    console.log(
+      `[PERF] todos-by-tag completed in ${duration.toFixed(2)}ms (${hits.length} hits)`,
+    );
+    return hits;
+  } catch (error) {
+    const duration = performance.now() - startTime;
+    console.error(
+      `[PERF] todos-by-tag failed after ${duration.toFixed(2)}ms:`,
+      error,
+    );
+    return [];
+  }
+});
+
+handle('load-trash', async () => {
+  const startTime = performance.now();
+  try {
+    console.log(`[PERF] Starting load-trash operation (sqlite)`);
+    const lists = dbLoadTrash();
+    const duration = performance.now() - startTime;
+    console.log(`[PERF] load-trash completed in ${duration.toFixed(2)}ms`);
+    return lists;
+  } catch (error) {
+    const duration = performance.now() - startTime;
+    console.error(
+      `[PERF] load-trash failed after ${duration.toFixed(2)}ms:`,
+      error,
+    );
+    return [];
+  }
+});
+
+handle('restore-list', async (_event, listId) => {
+  const startTime = performance.now();
+  try {
+    console.log(`[PERF] Starting restore-list operation (sqlite)`);
+    if (listId.trim() === '') {
+      return { success: false, error: 'invalid_list_id' } as const;
+    }
+    const res = dbRestoreList(listId);
+    scheduleTrayRefresh();
+    scheduleReminderRefresh();
+    const duration = performance.now() - startTime;
+    console.log(`[PERF] restore-list completed in ${duration.toFixed(2)}ms`);
+    return res;
+  } catch (error) {
+    const duration = performance.now() - startTime;
+    console.error(
+      `[PERF] restore-list failed after ${duration.toFixed(2)}ms:`,
+      error,
+    );
+    return { success: false, error: 'internal_error' } as const;
+  }
+});
+
+handle('purge-list', async (_event, listId) => {
+  const startTime = performance.now();
+  try {
+    console.log(`[PERF] Starting purge-list operation (sqlite)`);
+    if (listId.trim() === '') {
+      return { success: false, error: 'invalid_list_id' } as const;
+    }
+    const res = dbPurgeList(listId);
+    const duration = performance.now() - startTime;
+    console.log(`[PERF] purge-list completed in ${duration.toFixed(2)}ms`);
+    return res;
+  } catch (error) {
+    const duration = performance.now() - startTime;
+    console.error(
+      `[PERF] purge-list failed after ${duration.toFixed(2)}ms:`,
+      error,
+    );
+    return { success: false, error: 'internal_error' } as const;
+  }
+});
+
+handle('empty-trash', async () => {
+  const startTime = performance.now();
+  try {
+    console.log(`[PERF] Starting empty-trash operation (sqlite)`);
+    const res = dbEmptyTrash();
+    const duration = performance.now() - startTime;
+    console.log(`[PERF] empty-trash completed in ${duration.toFixed(2)}ms`);
+    return res;
+  } catch (error) {
+    const duration = performance.now() - startTime;
+    console.error(
+      `[PERF] empty-trash failed after ${duration.toFixed(2)}ms:`,
+      error,
+    );
+    return { success: false, purged: 0 } as const;
+  }
+});
+
+handle('export-markdown', async (event, { defaultName, content }) => {
+  const startTime = performance.now();
+  try {
+    console.log(`[PERF] Starting export-markdown operation`);
+    const res = await saveMarkdownFile(
+      BrowserWindow.fromWebContents(event.sender),
+      defaultName,
+      content,
+    );
+    const duration = performance.now() - startTime;
+    console.log(`[PERF] export-markdown completed in ${duration.toFixed(2)}ms`);
+    return res;
+  } catch (error) {
+    const duration = performance.now() - startTime;
+    console.error(
+      `[PERF] export-markdown failed after ${duration.toFixed(2)}ms:`,
+      error,
+    );
+    return { success: false, error: String(error) } as const;
+  }
+});
+
+handle('import-markdown', async (event) => {
+  const startTime = performance.now();
+  try {
+    console.log(`[PERF] Starting import-markdown operation`);
+    const res = await openMarkdownFiles(
+      BrowserWindow.fromWebContents(event.sender),
+    );
+    const duration = performance.now() - startTime;
+    console.log(`[PERF] import-markdown completed in ${duration.toFixed(2)}ms`);
+    return res;
+  } catch (error) {
+    const duration = performance.now() - startTime;
+    console.error(
+      `[PERF] import-markdown failed after ${duration.toFixed(2)}ms:`,
+      error,
+    );
+    return { success: false, files: [], error: String(error) } as const;
+  }
+});
+
+handle('quick-capture-context', async () => {
+  const startTime = performance.now();
+  try {
+    console.log(`[PERF] Starting quick-capture-context operation (sqlite)`);
+    // Read-only, so opening the capture window never seeds a list
+    const { lists, selectedListId } = dbLoadListSummaries();
+    const duration = performance.now() - startTime;
+    console.log(
+      `[PERF] quick-capture-context completed in ${duration.toFixed(2)}ms`,
+    );
+    return {
+      lists: lists.map((l) => ({ id: l.id, name: l.name })),
+      selectedListId,
+    };
+  } catch (error) {
+    const duration = performance.now() - startTime;
+    console.error(
+      `[PERF] quick-capture-context failed after ${duration.toFixed(2)}ms:`,
+      error,
+    );
+    return { lists: [], selectedListId: null };
+  }
+});
+
+handle('quick-capture-add', async (_event, listId, text, fields = {}) => {
+  const startTime = performance.now();
+  try {
+    console.log(`[PERF] Starting quick-capture-add operation (sqlite)`);
+    if (listId.trim() === '') {
+      return { success: false, error: 'invalid_list_id' } as const;
+    }
+    // Due date/time and priority parsed from the text; db.ts validates them
+    const res = dbAppendTodo(listId, text, fields);
+    scheduleTrayRefresh();
+    scheduleReminderRefresh();
+    if (res.success) {
+      // Let the main window pick the new todo up without a reload
+      if (mainWindow && res.todoId !== undefined) {
+        send(mainWindow.webContents, 'quick-capture-added', {
+          listId,
+          todoId: res.todoId,
+          revision: res.revision,
+          text: text.trim(),
+          dueDate: fields.dueDate ?? null,
+          dueTime: fields.dueTime ?? null,
+          priority: fields.priority ?? null,
+        });
+      }
+      closeQuickCapture();
+    }
+    const duration = performance.now() - startTime;
+    console.log(
+      `[PERF] quick-capture-add completed in ${duration.toFixed(2)}ms`,
+    );
+    return res;
+  } catch (error) {
+    const duration = performance.now() - startTime;
+    console.error(
+      `[PERF] quick-capture-add failed after ${duration.toFixed(2)}ms:`,
+      error,
+    );
+    return { success: false, error: String(error) } as const;
+  }
+});
+
+handle('quick-capture-close', async () => {
+  closeQuickCapture();
+});
+
+// Command palette: which commands this build offers, and running the ones
+// whose handlers live in the main process
+handle('load-commands', async () =>
+  getAvailableCommands(shouldEnableDebugUI(process.env)).map((c) => c.id),
+);
+
+handle('run-command', async (_event, id) => {
+  if (!menuBuilder) {
+    return { success: false, error: 'no_window' } as const;
+  }
+  return { success: menuBuilder.runCommand(id) };
+});
+
 if (process.env.NODE_ENV === 'production') {
   const sourceMapSupport = require('source-map-support');
   sourceMapSupport.install();
@@ -317,9 +788,10 @@ const createWindow = async () => {
 
   mainWindow.on('closed', () => {
     mainWindow = null;
+    menuBuilder = null;
   });
 
-  const menuBuilder = new MenuBuilder(mainWindow);
+  menuBuilder = new MenuBuilder(mainWindow);
   menuBuilder.buildMenu();
 
   // Open urls in the user's browser
@@ -331,6 +803,48 @@ const createWindow = async () => {
   // Updates are handled manually via the Help > Check for Updates menu.
 };
 
+function showMainWindow() {
+  if (mainWindow === null) {
+    void createWindow();
+    return;
+  }
+  if (mainWindow.isMinimized()) mainWindow.restore();
+  mainWindow.show();
+  mainWindow.focus();
+}
+
+// Tray list entries: select the list, then bring the window forward
+function openListInMainWindow(listId: string) {
+  if (mainWindow === null) {
+    // A fresh window reads the selection from the DB on load
+    dbSetSelectedListMeta(listId);
+  } else {
+    send(mainWindow.webContents, 'tray-open-list', listId);
+  }
+  showMainWindow();
+}
+
+// Reminder clicks: like a tray entry, then focus the todo itself
+function openTodoInMainWindow(listId: string, todoId: number) {
+  if (mainWindow === null) {
+    // A fresh window opens on the list; the todo can't be focused before the
+    // renderer has loaded
+    dbSetSelectedListMeta(listId);
+  } else {
+    send(mainWindow.webContents, 'reminder-open-todo', listId, todoId);
+  }
+  showMainWindow();
+}
+
+function shouldKeepRunningInBackground(): boolean {
+  try {
+    return !!dbLoadAppSettings().keepRunningInBackground;
+  } catch (error) {
+    console.error('[APP] Failed to read background setting:', error);
+    return false;
+  }
+}
+
 /**
  * Add event listeners...
  */
@@ -339,13 +853,18 @@ app.on('window-all-closed', () => {
   console.log('[APP] All windows closed');
   // Respect the OSX convention of having the application in memory even
   // after all windows have been closed
-  if (process.platform !== 'darwin') {
+  if (process.platform !== 'darwin' && !shouldKeepRunningInBackground()) {
     app.quit();
   }
 });
 
 app.on('before-quit', () => {
   console.log('[APP] App is quitting, closing database...');
+  if (trashSweepTimer) clearInterval(trashSweepTimer);
+  stopBackupSchedule();
+  unregisterQuickCaptureShortcut();
+  stopReminderScheduler();
+  destroyTray();
   // Ensure database is properly closed and all data is persisted
   closeDatabase();
 });
@@ -362,7 +881,18 @@ app.on('will-quit', () => {
 (async () => {
   try {
     await app.whenReady();
+    if (!ensureDatabaseReady()) return;
+    // The retention sweep purges for good, so it waits for the snapshot
+    await startBackupSchedule();
+    startTrashRetention();
     await createWindow();
+    applyQuickCaptureShortcut();
+    createTray({
+      showWindow: showMainWindow,
+      openList: openListInMainWindow,
+      quit: () => app.quit(),
+    });
+    startReminderScheduler({ openTodo: openTodoInMainWindow });
     // Initialize auto-updater (guarded by flag and only in production)
     // Initialize after window is created so dialogs have proper parent window
     if (app.isPackaged && process.env.AUTO_UPDATER !== 'false') {
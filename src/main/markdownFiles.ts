@@ -0,0 +1,78 @@
+/* eslint-disable no-console */
+import fs from 'fs';
+import path from 'path';
+import { dialog, BrowserWindow } from 'electron';
+
+export type MarkdownFile = {
+  name: string;
+  content: string;
+};
+
+const MARKDOWN_FILTERS = [
+  { name: 'Markdown', extensions: ['md', 'markdown', 'txt'] },
+  { name: 'All Files', extensions: ['*'] },
+];
+
+// Keep exported file names portable across macOS/Windows/Linux
+export function sanitizeFileName(name: string): string {
+  const cleaned = name
+    .replace(/[\\/:*?"<>|]/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return cleaned || 'Todos';
+}
+
+/**
+ * Asks where to save and writes the Markdown there.
+ * Resolves with `canceled: true` when the user dismisses the dialog.
+ */
+export async function saveMarkdownFile(
+  window: BrowserWindow | null,
+  defaultName: string,
+  content: string,
+): Promise<{ success: boolean; canceled?: boolean; filePath?: string }> {
+  const options = {
+    title: 'Export as Markdown',
+    defaultPath: `${sanitizeFileName(defaultName)}.md`,
+    filters: MARKDOWN_FILTERS,
+  };
+  const result = window
+    ? await dialog.showSaveDialog(window, options)
+    : await dialog.showSaveDialog(options);
+  if (result.canceled || !result.filePath) {
+    return { success: false, canceled: true };
+  }
+  await fs.promises.writeFile(result.filePath, content, 'utf8');
+  console.log('[Markdown] Exported', { filePath: result.filePath });
+  return { success: true, filePath: result.filePath };
+}
+
+/**
+ * Lets the user pick one or more Markdown files and returns their contents.
+ * `name` is the file name without extension, used as a fallback list name.
+ */
+export async function openMarkdownFiles(
+  window: BrowserWindow | null,
+): Promise<{ success: boolean; canceled?: boolean; files: MarkdownFile[] }> {
+  const options = {
+    title: 'Import Markdown',
+    filters: MARKDOWN_FILTERS,
+    properties: ['openFile', 'multiSelections'] as Array<
+      'openFile' | 'multiSelections'
+    >,
+  };
+  const result = window
+    ? await dialog.showOpenDialog(window, options)
+    : await dialog.showOpenDialog(options);
+  if (result.canceled || result.filePaths.length === 0) {
+    return { success: false, canceled: true, files: [] };
+  }
+  const files = await Promise.all(
+    result.filePaths.map(async (filePath) => ({
+      name: path.basename(filePath, path.extname(filePath)),
+      content: await fs.promises.readFile(filePath, 'utf8'),
+    })),
+  );
+  console.log('[Markdown] Imported', { count: files.length });
+  return { success: true, files };
+}
@@ -8,6 +8,9 @@ import {
 } from 'electron';
 import { autoUpdater } from 'electron-updater';
 import { shouldEnableDebugUI } from './util';
+import { promptRestoreFromBackup } from './backup';
+import { send } from './ipc';
+import { getCommand, type CommandId } from '../shared/commands';
 
 interface DarwinMenuItemConstructorOptions extends MenuItemConstructorOptions {
   selector?: string;
@@ -113,6 +116,73 @@ export default class MenuBuilder {
     }
   }
 
+  private commandHandlers(): Record<CommandId, () => void> {
+    const { webContents } = this.mainWindow;
+    // Commands without a dedicated channel are dispatched by id
+    const toRenderer = (id: CommandId) => () =>
+      send(webContents, 'menu-command', id);
+    return {
+      'new-list': toRenderer('new-list'),
+      'rename-list': toRenderer('rename-list'),
+      'duplicate-list': toRenderer('duplicate-list'),
+      'delete-list': toRenderer('delete-list'),
+      'sort-by-priority': toRenderer('sort-by-priority'),
+      'toggle-completed-items': toRenderer('toggle-completed-items'),
+      'toggle-debug-mode': () => send(webContents, 'toggle-debug-mode'),
+      undo: () => send(webContents, 'app-undo'),
+      redo: () => send(webContents, 'app-redo'),
+      'import-markdown': () => send(webContents, 'menu-import-markdown'),
+      'export-list-markdown': () =>
+        send(webContents, 'menu-export-markdown', 'list'),
+      'export-all-markdown': () =>
+        send(webContents, 'menu-export-markdown', 'all'),
+      'restore-backup': () => {
+        void promptRestoreFromBackup(this.mainWindow);
+      },
+      'check-for-updates': () => {
+        void this.checkForUpdatesManually();
+      },
+    };
+  }
+
+  private commandItem(
+    id: CommandId,
+    overrides: MenuItemConstructorOptions = {},
+  ): MenuItemConstructorOptions {
+    const command = getCommand(id);
+    return {
+      label: command.title,
+      accelerator: command.accelerator,
+      click: this.commandHandlers()[id],
+      ...overrides,
+    };
+  }
+
+  /**
+   * Runs a command picked in the renderer's command palette
+   */
+  runCommand(id: CommandId): boolean {
+    if (getCommand(id).debugOnly && !shouldEnableDebugUI(process.env)) {
+      return false;
+    }
+    this.commandHandlers()[id]();
+    return true;
+  }
+
+  private buildListSubmenu(): MenuItemConstructorOptions {
+    return {
+      label: 'List',
+      submenu: [
+        this.commandItem('new-list'),
+        this.commandItem('rename-list'),
+        this.commandItem('duplicate-list'),
+        this.commandItem('sort-by-priority'),
+        { type: 'separator' },
+        this.commandItem('delete-list'),
+      ],
+    };
+  }
+
   buildMenu(): Menu {
     const enableDebugUI = shouldEnableDebugUI(process.env);
     if (enableDebugUI) {
@@ -177,11 +247,23 @@ export default class MenuBuilder {
         },
       ],
     };
+    const subMenuFile: MenuItemConstructorOptions = {
+      label: 'File',
+      submenu: [
+        this.commandItem('import-markdown'),
+        this.commandItem('export-list-markdown'),
+        this.commandItem('export-all-markdown'),
+        { type: 'separator' },
+        this.commandItem('restore-backup'),
+      ],
+    };
     const subMenuEdit: DarwinMenuItemConstructorOptions = {
       label: 'Edit',
       submenu: [
-        { label: 'Undo', accelerator: 'Command+Z', selector: 'undo:' },
-        { label: 'Redo', accelerator: 'Shift+Command+Z', selector: 'redo:' },
+        // The renderer owns Cmd+Z so app-level undo wins over the textarea's;
+        // the accelerators are shown here but not registered with the system.
+        this.commandItem('undo', { registerAccelerator: false }),
+        this.commandItem('redo', { registerAccelerator: false }),
         { type: 'separator' },
         { label: 'Cut', accelerator: 'Command+X', selector: 'cut:' },
         { label: 'Copy', accelerator: 'Command+C', selector: 'copy:' },
@@ -218,13 +300,8 @@ export default class MenuBuilder {
           },
         },
         { type: 'separator' },
-        {
-          label: 'Toggle Debug Mode',
-          accelerator: 'Command+D',
-          click: () => {
-            this.mainWindow.webContents.send('toggle-debug-mode');
-          },
-        },
+        this.commandItem('toggle-completed-items'),
+        this.commandItem('toggle-debug-mode'),
       ],
     };
     const subMenuViewProd: MenuItemConstructorOptions = {
@@ -237,6 +314,8 @@ export default class MenuBuilder {
             this.mainWindow.setFullScreen(!this.mainWindow.isFullScreen());
           },
         },
+        { type: 'separator' },
+        this.commandItem('toggle-completed-items'),
       ],
     };
     const subMenuWindow: DarwinMenuItemConstructorOptions = {
@@ -269,12 +348,7 @@ export default class MenuBuilder {
             );
           },
         },
-        {
-          label: 'Check for Updates…',
-          click: () => {
-            void this.checkForUpdatesManually();
-          },
-        },
+        this.commandItem('check-for-updates'),
         {
           label: 'Search Issues',
           click() {
@@ -289,7 +363,9 @@ export default class MenuBuilder {
 
     return [
       subMenuAbout,
+      subMenuFile,
       subMenuEdit,
+      this.buildListSubmenu(),
       subMenuView,
       subMenuWindow,
       subMenuHelp,
@@ -312,8 +388,21 @@ export default class MenuBuilder {
               this.mainWindow.close();
             },
           },
+          { type: 'separator' },
+          this.commandItem('import-markdown', { label: '&Import Markdown…' }),
+          this.commandItem('export-list-markdown', {
+            label: '&Export List as Markdown…',
+          }),
+          this.commandItem('export-all-markdown', {
+            label: 'Export &All Lists as Markdown…',
+          }),
+          { type: 'separator' },
+          this.commandItem('restore-backup', {
+            label: '&Restore from Backup…',
+          }),
         ],
       },
+      this.buildListSubmenu(),
       {
         label: '&View',
         submenu: ((): MenuItemConstructorOptions[] => {
@@ -344,13 +433,10 @@ export default class MenuBuilder {
                 },
               },
               { type: 'separator' },
-              {
+              this.commandItem('toggle-completed-items'),
+              this.commandItem('toggle-debug-mode', {
                 label: 'Toggle &Debug Mode',
-                accelerator: 'Ctrl+D',
-                click: () => {
-                  this.mainWindow.webContents.send('toggle-debug-mode');
-                },
-              },
+              }),
             ];
           }
           return [
@@ -361,6 +447,8 @@ export default class MenuBuilder {
                 this.mainWindow.setFullScreen(!this.mainWindow.isFullScreen());
               },
             },
+            { type: 'separator' },
+            this.commandItem('toggle-completed-items'),
           ];
         })(),
       },
@@ -381,12 +469,7 @@ export default class MenuBuilder {
               );
             },
           },
-          {
-            label: 'Check for Updates…',
-            click: async () => {
-              await this.checkForUpdatesManually();
-            },
-          },
+          this.commandItem('check-for-updates'),
           {
             label: 'Todolo Discussions',
             click() {
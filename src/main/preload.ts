@@ -1,21 +1,10 @@
 // Disable no-unused-vars, broken for spread args
 /* eslint no-unused-vars: off */
 import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron';
+import type { Channels } from '../shared/ipcContract';
 
-export type Channels =
-  | 'ipc-example'
-  | 'save-todos'
-  | 'load-todos'
-  | 'load-lists'
-  | 'save-lists'
-  | 'load-list-todos'
-  | 'save-list-todos'
-  | 'load-app-settings'
-  | 'save-app-settings'
-  | 'toggle-debug-mode'
-  | 'duplicate-list'
-  | 'set-selected-list-meta'
-  | 'delete-list';
+// Every channel and what it carries is listed in shared/ipcContract
+export type { Channels };
 
 const electronHandler = {
   ipcRenderer: {
@@ -0,0 +1,101 @@
+/* eslint-disable no-console */
+import path from 'path';
+import { app, BrowserWindow, globalShortcut, screen } from 'electron';
+import { resolveHtmlPath } from './util';
+
+const CAPTURE_WIDTH = 480;
+const CAPTURE_HEIGHT = 132;
+
+let captureWindow: BrowserWindow | null = null;
+let registeredShortcut: string | null = null;
+
+function createCaptureWindow(): BrowserWindow {
+  // Open on the display the user is working on, in the upper third
+  const display = screen.getDisplayNearestPoint(screen.getCursorScreenPoint());
+  const { x, y, width, height } = display.workArea;
+  const win = new BrowserWindow({
+    width: CAPTURE_WIDTH,
+    height: CAPTURE_HEIGHT,
+    x: Math.round(x + (width - CAPTURE_WIDTH) / 2),
+    y: Math.round(y + height / 4),
+    frame: false,
+    resizable: false,
+    movable: true,
+    minimizable: false,
+    maximizable: false,
+    fullscreenable: false,
+    skipTaskbar: true,
+    alwaysOnTop: true,
+    show: false,
+    webPreferences: {
+      preload: app.isPackaged
+        ? path.join(__dirname, 'preload.js')
+        : path.join(__dirname, '../../.erb/dll/preload.js'),
+    },
+  });
+  win.loadURL(`${resolveHtmlPath('index.html')}#quick-capture`);
+  win.once('ready-to-show', () => {
+    win.show();
+    win.focus();
+  });
+  // Behave like a popover: clicking elsewhere dismisses it
+  win.on('blur', () => {
+    if (!win.webContents.isDevToolsOpened()) win.close();
+  });
+  win.on('closed', () => {
+    captureWindow = null;
+  });
+  return win;
+}
+
+export function openQuickCapture(): void {
+  if (captureWindow && !captureWindow.isDestroyed()) {
+    captureWindow.show();
+    captureWindow.focus();
+    return;
+  }
+  captureWindow = createCaptureWindow();
+}
+
+export function closeQuickCapture(): void {
+  if (captureWindow && !captureWindow.isDestroyed()) captureWindow.close();
+}
+
+/**
+ * (Re)binds the global quick-capture shortcut. An empty accelerator unbinds it.
+ * Returns false if the accelerator is invalid or taken by another app; the
+ * previous shortcut then stays bound.
+ */
+export function registerQuickCaptureShortcut(accelerator: string): boolean {
+  const next = accelerator.trim();
+  if (next === registeredShortcut) return true;
+  if (!next) {
+    unregisterQuickCaptureShortcut();
+    return true;
+  }
+  try {
+    if (!globalShortcut.register(next, openQuickCapture)) {
+      console.warn('[QuickCapture] Shortcut already in use:', next);
+      return false;
+    }
+  } catch (e) {
+    console.warn('[QuickCapture] Invalid shortcut:', next, e);
+    return false;
+  }
+  unregisterQuickCaptureShortcut();
+  registeredShortcut = next;
+  console.log('[QuickCapture] Registered shortcut', next);
+  return true;
+}
+
+// The shortcut currently bound, or null if none is
+export function getQuickCaptureShortcut(): string | null {
+  return registeredShortcut;
+}
+
+export function unregisterQuickCaptureShortcut(): void {
+  if (registeredShortcut) {
+    globalShortcut.unregister(registeredShortcut);
+    registeredShortcut = null;
+  }
+}
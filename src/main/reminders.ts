@@ -0,0 +1,167 @@
+/* eslint-disable no-console */
+import { dialog, Notification, powerMonitor } from 'electron';
+import {
+  loadPendingReminders,
+  markReminderNotified,
+  snoozeReminder,
+  type Reminder,
+} from './db';
+
+export type ReminderActions = {
+  openTodo: (listId: string, todoId: number) => void;
+};
+
+// Notification buttons on macOS; elsewhere, where notifications can't have
+// buttons, a click opens a prompt offering the same choices
+export const SNOOZE_OPTIONS = [
+  { label: 'Snooze 10 min', minutes: 10 },
+  { label: 'Snooze 1 hour', minutes: 60 },
+];
+
+// Reminders that came due while the app wasn't running (or the machine was
+// asleep) still show if they're this recent; older ones are skipped
+const MISSED_GRACE_MS = 12 * 60 * 60 * 1000;
+// Wake up at least this often so clock changes can't strand a long timer
+const MAX_TIMER_MS = 60 * 60 * 1000;
+const REFRESH_DEBOUNCE_MS = 500;
+
+let reminderActions: ReminderActions | null = null;
+let checkTimer: ReturnType<typeof setTimeout> | null = null;
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+// Electron drops the handlers of notifications that get garbage-collected,
+// so keep the visible ones referenced until they're dismissed
+const visible = new Set<Notification>();
+
+/**
+ * Splits pending reminders into the ones to show now and the time of the
+ * next one still ahead (null when there is none).
+ */
+export function planReminders(
+  reminders: Reminder[],
+  now: number,
+): { due: Reminder[]; nextAt: number | null } {
+  const due = reminders.filter(
+    (r) => r.fireAt <= now && r.fireAt > now - MISSED_GRACE_MS,
+  );
+  const upcoming = reminders.filter((r) => r.fireAt > now);
+  return {
+    due,
+    nextAt: upcoming.length ? Math.min(...upcoming.map((r) => r.fireAt)) : null,
+  };
+}
+
+function snooze(reminder: Reminder, minutes: number): void {
+  try {
+    snoozeReminder(reminder, new Date(Date.now() + minutes * 60 * 1000));
+  } catch (e) {
+    console.error('[Reminders] Failed to snooze:', e);
+  }
+  scheduleReminderRefresh();
+}
+
+// Open, snooze or dismiss, for platforms without notification buttons
+async function promptReminder(reminder: Reminder): Promise<void> {
+  const buttons = ['Open', ...SNOOZE_OPTIONS.map((o) => o.label), 'Dismiss'];
+  const { response } = await dialog.showMessageBox({
+    type: 'info',
+    message: reminder.text,
+    detail: `${reminder.listName} · due ${reminder.dueAt.slice(11)}`,
+    buttons,
+    defaultId: 0,
+    cancelId: buttons.length - 1,
+  });
+  if (response === 0) {
+    reminderActions?.openTodo(reminder.listId, reminder.todoId);
+    return;
+  }
+  const option = SNOOZE_OPTIONS[response - 1];
+  if (option) snooze(reminder, option.minutes);
+}
+
+function showReminder(reminder: Reminder): void {
+  const hasButtons = process.platform === 'darwin';
+  const notification = new Notification({
+    title: reminder.text,
+    body: `${reminder.listName} · due ${reminder.dueAt.slice(11)}`,
+    actions: hasButtons
+      ? SNOOZE_OPTIONS.map((o) => ({
+          type: 'button' as const,
+          text: o.label,
+        }))
+      : [],
+  });
+  const release = () => visible.delete(notification);
+  notification.on('click', () => {
+    release();
+    if (hasButtons) {
+      reminderActions?.openTodo(reminder.listId, reminder.todoId);
+      return;
+    }
+    promptReminder(reminder).catch((e) => {
+      console.error('[Reminders] Failed to show the reminder prompt:', e);
+    });
+  });
+  notification.on('action', (_event, index) => {
+    release();
+    const option = SNOOZE_OPTIONS[index];
+    if (option) snooze(reminder, option.minutes);
+  });
+  notification.on('close', release);
+  visible.add(notification);
+  notification.show();
+}
+
+/**
+ * Shows reminders that are due and sets a timer for the next one.
+ */
+export function checkReminders(now: number = Date.now()): void {
+  if (!reminderActions) return;
+  if (checkTimer) clearTimeout(checkTimer);
+  checkTimer = null;
+  try {
+    const { due, nextAt } = planReminders(loadPendingReminders(), now);
+    due.forEach((reminder) => {
+      // Recorded first so a failing notification can't repeat every check
+      markReminderNotified(reminder, new Date(now));
+      if (Notification.isSupported()) showReminder(reminder);
+    });
+    if (nextAt !== null) {
+      checkTimer = setTimeout(
+        () => checkReminders(),
+        Math.min(Math.max(nextAt - now, 0), MAX_TIMER_MS),
+      );
+    }
+  } catch (e) {
+    console.error('[Reminders] Check failed:', e);
+  }
+}
+
+// Saves arrive in bursts while typing; re-read reminders once they settle
+export function scheduleReminderRefresh(): void {
+  if (!reminderActions) return;
+  if (refreshTimer) clearTimeout(refreshTimer);
+  refreshTimer = setTimeout(() => {
+    refreshTimer = null;
+    checkReminders();
+  }, REFRESH_DEBOUNCE_MS);
+}
+
+// Timers don't run during sleep; catch up on whatever came due meanwhile
+const onResume = () => checkReminders();
+
+export function startReminderScheduler(actions: ReminderActions): void {
+  if (reminderActions) return;
+  reminderActions = actions;
+  powerMonitor.on('resume', onResume);
+  checkReminders();
+}
+
+export function stopReminderScheduler(): void {
+  if (checkTimer) clearTimeout(checkTimer);
+  if (refreshTimer) clearTimeout(refreshTimer);
+  checkTimer = null;
+  refreshTimer = null;
+  if (reminderActions) powerMonitor.removeListener('resume', onResume);
+  reminderActions = null;
+  visible.clear();
+}
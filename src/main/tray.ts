@@ -0,0 +1,101 @@
+/* eslint-disable no-console */
+import path from 'path';
+import { app, Menu, nativeImage, Tray } from 'electron';
+import type { MenuItemConstructorOptions } from 'electron';
+import { loadListSummaries } from './db';
+import { openQuickCapture } from './quickCapture';
+
+export type TrayActions = {
+  showWindow: () => void;
+  openList: (listId: string) => void;
+  quit: () => void;
+};
+
+export type OpenItemsSummary = {
+  lists: Array<{ id: string; name: string; open: number }>;
+  total: number;
+};
+
+const MAX_TRAY_LISTS = 10;
+const REFRESH_DEBOUNCE_MS = 500;
+
+let tray: Tray | null = null;
+let trayActions: TrayActions | null = null;
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Counts incomplete, non-blank todos per list (most recently updated first).
+ */
+export function summarizeOpenItems(): OpenItemsSummary {
+  const { lists } = loadListSummaries();
+  return {
+    lists,
+    total: lists.reduce((n, l) => n + l.open, 0),
+  };
+}
+
+const formatCount = (n: number) => `${n} open item${n === 1 ? '' : 's'}`;
+
+function buildTrayMenu(summary: OpenItemsSummary, actions: TrayActions): Menu {
+  const listItems: MenuItemConstructorOptions[] = summary.lists
+    .slice(0, MAX_TRAY_LISTS)
+    .map((l) => ({
+      label: `${l.name} — ${l.open}`,
+      click: () => actions.openList(l.id),
+    }));
+  return Menu.buildFromTemplate([
+    { label: formatCount(summary.total), enabled: false },
+    ...(listItems.length > 0
+      ? [{ type: 'separator' } as MenuItemConstructorOptions, ...listItems]
+      : []),
+    { type: 'separator' },
+    { label: 'New todo…', click: () => openQuickCapture() },
+    { label: 'Show Todolo', click: () => actions.showWindow() },
+    { type: 'separator' },
+    { label: 'Quit', click: () => actions.quit() },
+  ]);
+}
+
+export function refreshTray(): void {
+  if (!tray || !trayActions) return;
+  try {
+    const summary = summarizeOpenItems();
+    tray.setToolTip(`Todolo — ${formatCount(summary.total)}`);
+    tray.setContextMenu(buildTrayMenu(summary, trayActions));
+  } catch (e) {
+    console.error('[Tray] Failed to refresh:', e);
+  }
+}
+
+// Saves arrive in bursts while typing; rebuild the menu once they settle
+export function scheduleTrayRefresh(): void {
+  if (!tray) return;
+  if (refreshTimer) clearTimeout(refreshTimer);
+  refreshTimer = setTimeout(() => {
+    refreshTimer = null;
+    refreshTray();
+  }, REFRESH_DEBOUNCE_MS);
+}
+
+export function createTray(actions: TrayActions): void {
+  if (tray) return;
+  const iconPath = app.isPackaged
+    ? path.join(process.resourcesPath, 'assets', 'icons', 'icon.png')
+    : path.join(__dirname, '../../assets/icons/icon.png');
+  const icon = nativeImage
+    .createFromPath(iconPath)
+    .resize({ width: 16, height: 16 });
+  tray = new Tray(icon);
+  trayActions = actions;
+  // Windows/Linux: a plain click should bring the app forward
+  tray.on('click', () => actions.showWindow());
+  refreshTray();
+}
+
+export function destroyTray(): void {
+  if (refreshTimer) clearTimeout(refreshTimer);
+  refreshTimer = null;
+  tray?.destroy();
+  tray = null;
+  trayActions = null;
+}
@@ -2,8 +2,10 @@ import { MemoryRouter as Router, Routes, Route } from 'react-router-dom';
 import { useState, useEffect } from 'react';
 import './styles/base.css';
 import { TodoApp } from './features/todos/components/TodoApp';
+import { QuickCapture } from './features/todos/components/QuickCapture';
 import DebugPanel from './components/DebugPanel';
 import { debugLogger } from './utils/debug';
+import { on } from './features/todos/api/ipc';
 
 function Content() {
   const [isDebugVisible, setIsDebugVisible] = useState(false);
@@ -21,11 +23,7 @@ function Content() {
     };
 
     // Listen for IPC message from main process and get cleanup function
-    // eslint-disable-next-line no-undef
-    const cleanup = window.electron.ipcRenderer.on(
-      'toggle-debug-mode',
-      handleToggleDebug,
-    );
+    const cleanup = on('toggle-debug-mode', handleToggleDebug);
 
     return cleanup;
   }, [isDebugVisible]);
@@ -76,6 +74,10 @@ function Content() {
 }
 
 export default function App() {
+  // The quick-capture window loads the same bundle with this hash
+  if (window.location.hash === '#quick-capture') {
+    return <QuickCapture />;
+  }
   return (
     <Router>
       <Routes>
@@ -0,0 +1,112 @@
+import { screen, waitFor, within } from '@testing-library/react';
+import '@testing-library/jest-dom';
+
+import {
+  renderAppWithDefaults,
+  setupDefaultMocks,
+  mockStorage,
+  setupUser,
+} from '../../testUtils/ui';
+import { useTodosStore } from '../../features/todos/store/useTodosStore';
+
+jest.mock('../../features/todos/api/storage');
+
+const twoLists = {
+  version: 2 as const,
+  lists: [
+    {
+      id: 'list-1',
+      name: 'My Todos',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-02T00:00:00.000Z',
+    },
+    {
+      id: 'list-2',
+      name: 'Groceries',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    },
+  ],
+  selectedListId: 'list-1',
+};
+
+describe('Command palette', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    setupDefaultMocks();
+    mockStorage.loadAvailableCommands.mockResolvedValue([]);
+    mockStorage.runMainCommand.mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const paletteOptions = () =>
+    within(screen.getByTestId('command-palette')).queryAllByRole('option');
+
+  const renderReady = async () => {
+    const user = setupUser();
+    renderAppWithDefaults({
+      loadListsIndex: jest.fn().mockResolvedValue(twoLists),
+    });
+    await waitFor(() =>
+      expect(useTodosStore.getState().selectedListId).toBe('list-1'),
+    );
+    return user;
+  };
+
+  it('opens with Cmd/Ctrl+K and closes with Escape', async () => {
+    const user = await renderReady();
+
+    await user.keyboard('{Control>}k{/Control}');
+    expect(screen.getByTestId('command-palette')).toBeInTheDocument();
+    expect(screen.getByLabelText('Search commands')).toHaveFocus();
+
+    await user.keyboard('{Escape}');
+    expect(screen.queryByTestId('command-palette')).not.toBeInTheDocument();
+  });
+
+  it('switches lists by fuzzy-matching their names', async () => {
+    const user = await renderReady();
+
+    await user.keyboard('{Meta>}k{/Meta}');
+    await user.type(screen.getByLabelText('Search commands'), 'grcr');
+    expect(paletteOptions()[0]).toHaveTextContent('Groceries');
+    await user.keyboard('{Enter}');
+
+    expect(useTodosStore.getState().selectedListId).toBe('list-2');
+    expect(screen.queryByTestId('command-palette')).not.toBeInTheDocument();
+  });
+
+  it('runs renderer commands locally', async () => {
+    const user = await renderReady();
+
+    await user.keyboard('{Control>}k{/Control}');
+    await user.type(screen.getByLabelText('Search commands'), 'completed');
+    await user.keyboard('{Enter}');
+
+    await waitFor(() =>
+      expect(mockStorage.saveAppSettings).toHaveBeenCalledWith({
+        hideCompletedItems: false,
+      }),
+    );
+    expect(mockStorage.runMainCommand).not.toHaveBeenCalled();
+  });
+
+  it('forwards main process commands and hides unavailable ones', async () => {
+    const user = await renderReady();
+
+    await user.keyboard('{Control>}k{/Control}');
+    await user.type(screen.getByLabelText('Search commands'), 'debug');
+    expect(paletteOptions()).toHaveLength(0);
+
+    await user.clear(screen.getByLabelText('Search commands'));
+    await user.type(screen.getByLabelText('Search commands'), 'updates');
+    await user.click(screen.getByText('Check for Updates…'));
+
+    expect(mockStorage.runMainCommand).toHaveBeenCalledWith(
+      'check-for-updates',
+    );
+  });
+});
@@ -69,6 +69,19 @@ describe('Error Handling', () => {
       expect(screen.getByTestId('heading')).toBeInTheDocument();
     });
 
+    it('does not seed or save a list whose todos failed to load', async () => {
+      const loadListTodos = jest
+        .fn()
+        .mockRejectedValue(new Error('todos unavailable'));
+      renderAppWithDefaults({ loadListTodos });
+
+      await waitFor(() => expect(loadListTodos).toHaveBeenCalled());
+      jest.advanceTimersByTime(1000);
+
+      expect(mockStorage.patchListTodos).not.toHaveBeenCalled();
+      expect(mockStorage.saveListTodos).not.toHaveBeenCalled();
+    });
+
     it('handles app settings load failure gracefully', async () => {
       renderAppWithDefaults({
         loadAppSettings: jest
@@ -162,6 +175,36 @@ describe('Error Handling', () => {
         screen.getByRole('button', { name: /add list/i }),
       ).toBeInTheDocument();
     });
+
+    it('keeps the old quick capture shortcut when the new one is unavailable', async () => {
+      const user = setupUser();
+      renderAppWithDefaults({
+        loadAppSettings: jest.fn().mockResolvedValue({
+          hideCompletedItems: true,
+          quickCaptureShortcut: 'Alt+Shift+T',
+        }),
+        saveAppSettings: jest
+          .fn()
+          .mockResolvedValue({ success: false, error: 'shortcut_unavailable' }),
+      });
+      await waitFor(() => expect(mockStorage.loadListTodos).toHaveBeenCalled());
+
+      await user.click(screen.getByRole('button', { name: /list actions/i }));
+      const input = await screen.findByDisplayValue('Alt+Shift+T');
+      await user.clear(input);
+      await user.type(input, 'Alt+Space{Enter}');
+
+      expect(await screen.findByRole('alert')).toHaveTextContent(
+        /Alt\+Space can't be used.*Alt\+Shift\+T is still active/,
+      );
+      expect(mockStorage.saveAppSettings).toHaveBeenCalledWith({
+        hideCompletedItems: true,
+        quickCaptureShortcut: 'Alt+Space',
+      });
+      expect(screen.getByTestId('quick-capture-shortcut')).toHaveValue(
+        'Alt+Shift+T',
+      );
+    });
   });
 
   describe('Network and Timeout Errors', () => {
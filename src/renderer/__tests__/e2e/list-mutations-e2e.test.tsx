@@ -31,9 +31,16 @@ describe('List Mutations - UI to DB wiring', () => {
       ],
       selectedListId: 'list-a',
     });
-    mockStorage.loadListTodos.mockResolvedValue({ version: 3, todos: [] });
+    mockStorage.loadListTodos.mockResolvedValue({
+      version: 3,
+      todos: [],
+      revision: 0,
+    });
     mockStorage.saveListsIndex.mockResolvedValue(true);
-    mockStorage.saveListTodos.mockResolvedValue(true);
+    mockStorage.saveListTodos.mockResolvedValue({
+      status: 'saved',
+      revision: 1,
+    });
     mockStorage.deleteList.mockResolvedValue({ success: true });
     mockStorage.duplicateList.mockResolvedValue({
       success: true,
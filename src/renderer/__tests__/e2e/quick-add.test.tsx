@@ -0,0 +1,92 @@
+import { screen, waitFor, within } from '@testing-library/react';
+import '@testing-library/jest-dom';
+
+import {
+  renderAppWithDefaults,
+  setupDefaultMocks,
+  mockStorage,
+  setupUser,
+} from '../../testUtils/ui';
+import { toDateKey } from '../../features/todos/utils/dueDate';
+
+jest.mock('../../features/todos/api/storage');
+
+const tomorrowKey = () => {
+  const now = new Date();
+  return toDateKey(
+    new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1),
+  );
+};
+
+describe('Quick add in todo rows', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    setupDefaultMocks();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const typeIntoFirstRow = async (text: string) => {
+    const user = setupUser();
+    renderAppWithDefaults();
+    await waitFor(() => expect(mockStorage.loadListTodos).toHaveBeenCalled());
+    const input = screen.getByLabelText('Todo text');
+    await user.click(input);
+    await user.type(input, text);
+    return { user, input: input as HTMLTextAreaElement };
+  };
+
+  it('previews recognized tokens and applies them on Enter', async () => {
+    const { user, input } = await typeIntoFirstRow(
+      'Call Bob tomorrow 3pm !high #sales',
+    );
+
+    const preview = screen.getByTestId('quick-add-preview');
+    expect(within(preview).getByText('15:00')).toBeInTheDocument();
+    expect(within(preview).getByText('High')).toBeInTheDocument();
+
+    await user.keyboard('{Enter}');
+
+    expect(input.value).toBe('Call Bob #sales');
+    expect(screen.getAllByTestId('todo-due-date')[0]).toHaveValue(
+      tomorrowKey(),
+    );
+    expect(screen.getAllByTestId('todo-due-time')[0]).toHaveValue('15:00');
+    expect(screen.getAllByTestId('todo-priority')[0]).toHaveAttribute(
+      'data-priority',
+      'high',
+    );
+    expect(screen.queryByTestId('quick-add-preview')).not.toBeInTheDocument();
+  });
+
+  it('keeps the raw text when asked to', async () => {
+    const { user, input } = await typeIntoFirstRow('Read chapter 3 tomorrow');
+
+    await user.click(screen.getByRole('button', { name: 'Keep as text' }));
+    expect(screen.queryByTestId('quick-add-preview')).not.toBeInTheDocument();
+    expect(input).toHaveFocus();
+
+    await user.keyboard('{Enter}');
+
+    expect(input.value).toBe('Read chapter 3 tomorrow');
+    expect(screen.getAllByTestId('todo-due-date')[0]).toHaveValue('');
+  });
+
+  it('undoes the parse in one step', async () => {
+    const { user, input } = await typeIntoFirstRow('Pay rent !1');
+    await user.keyboard('{Enter}');
+    expect(input.value).toBe('Pay rent');
+
+    // Undo the new row, then the parse
+    await user.keyboard('{Control>}z{/Control}');
+    await user.keyboard('{Control>}z{/Control}');
+
+    await waitFor(() =>
+      expect(
+        (screen.getAllByLabelText('Todo text')[0] as HTMLTextAreaElement).value,
+      ).toBe('Pay rent !1'),
+    );
+  });
+});
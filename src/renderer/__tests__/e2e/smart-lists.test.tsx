@@ -0,0 +1,140 @@
+import { screen, waitFor, within } from '@testing-library/react';
+import '@testing-library/jest-dom';
+
+import {
+  renderAppWithDefaults,
+  setupDefaultMocks,
+  mockStorage,
+  setupUser,
+} from '../../testUtils/ui';
+
+jest.mock('../../features/todos/api/storage');
+
+const twoLists = {
+  version: 2,
+  lists: [
+    {
+      id: 'list-1',
+      name: 'Home',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-02T00:00:00.000Z',
+    },
+    {
+      id: 'list-2',
+      name: 'Work',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    },
+  ],
+  selectedListId: 'list-1',
+};
+
+const todosByList: Record<string, unknown[]> = {
+  'list-1': [
+    { id: 1, text: 'Water plants', completed: false, indent: 0 },
+    { id: 2, text: 'Done already', completed: true, indent: 0 },
+  ],
+  'list-2': [{ id: 1, text: 'Ship report', completed: false, indent: 0 }],
+};
+
+describe('Smart lists', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    setupDefaultMocks();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const renderTwoLists = async () => {
+    const user = setupUser();
+    renderAppWithDefaults({
+      loadListsIndex: jest.fn().mockResolvedValue(twoLists),
+      loadListTodos: jest.fn((listId: string) =>
+        Promise.resolve({
+          version: 3,
+          todos: todosByList[listId] ?? [],
+          revision: 0,
+        }),
+      ),
+    });
+    await waitFor(() =>
+      expect(screen.getByDisplayValue('Water plants')).toBeInTheDocument(),
+    );
+    return user;
+  };
+
+  it('shows open todos from every list grouped by list', async () => {
+    const user = await renderTwoLists();
+
+    await user.click(screen.getByRole('button', { name: 'All open' }));
+
+    await waitFor(() =>
+      expect(screen.getAllByTestId('smart-list-group')).toHaveLength(2),
+    );
+    const [home, work] = screen.getAllByTestId('smart-list-group');
+    expect(within(home).getByDisplayValue('Water plants')).toBeInTheDocument();
+    expect(
+      within(home).queryByDisplayValue('Done already'),
+    ).not.toBeInTheDocument();
+    expect(within(work).getByDisplayValue('Ship report')).toBeInTheDocument();
+    expect(mockStorage.loadListTodos).toHaveBeenCalledWith('list-2');
+  });
+
+  it('saves a toggle back to the source list', async () => {
+    const user = await renderTwoLists();
+
+    await user.click(screen.getByRole('button', { name: 'All open' }));
+    const work = await waitFor(() => {
+      const groups = screen.getAllByTestId('smart-list-group');
+      expect(groups).toHaveLength(2);
+      return groups[1];
+    });
+    mockStorage.saveListTodos.mockClear();
+
+    await user.click(within(work).getByLabelText('Toggle completed'));
+    jest.advanceTimersByTime(1000);
+
+    await waitFor(() =>
+      expect(mockStorage.saveListTodos).toHaveBeenCalledWith(
+        'list-2',
+        expect.objectContaining({
+          todos: [
+            expect.objectContaining({
+              text: 'Ship report',
+              completed: true,
+              completedAt: expect.any(String),
+            }),
+          ],
+        }),
+        0,
+      ),
+    );
+    // Completed items drop out of "All open"
+    expect(screen.getAllByTestId('smart-list-group')).toHaveLength(1);
+  });
+
+  it('creates and edits a saved smart list', async () => {
+    const user = await renderTwoLists();
+
+    await user.click(screen.getByRole('button', { name: 'New smart list' }));
+    const form = screen.getByRole('form', { name: 'Smart list filter' });
+    const name = within(form).getByLabelText('Name');
+    await user.clear(name);
+    await user.type(name, 'Chores');
+    await user.selectOptions(within(form).getByLabelText('Status'), 'all');
+    await user.click(within(form).getByLabelText('Home'));
+    await user.click(within(form).getByRole('button', { name: 'Save' }));
+
+    expect(screen.getByRole('heading', { name: 'Chores' })).toBeInTheDocument();
+    expect(screen.getAllByTestId('smart-list-group')).toHaveLength(1);
+    expect(screen.getByDisplayValue('Done already')).toBeInTheDocument();
+    expect(mockStorage.saveSmartLists).toHaveBeenLastCalledWith([
+      expect.objectContaining({
+        name: 'Chores',
+        filter: expect.objectContaining({ status: 'all', listIds: ['list-1'] }),
+      }),
+    ]);
+  });
+});
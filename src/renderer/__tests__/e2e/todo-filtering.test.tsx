@@ -185,6 +185,39 @@ describe('Todo Filtering', () => {
     });
   });
 
+  describe('Backup settings', () => {
+    it('saves the backup interval and keep count from the actions menu', async () => {
+      const user = setupUser();
+      renderAppWithDefaults();
+      await waitFor(() => expect(mockStorage.loadListTodos).toHaveBeenCalled());
+
+      await user.click(screen.getByRole('button', { name: /list actions/i }));
+      const interval = screen.getByRole('combobox', {
+        name: /backup interval/i,
+      });
+      expect(interval).toHaveValue('60');
+      await user.selectOptions(interval, '0');
+      await waitFor(() =>
+        expect(mockStorage.saveAppSettings).toHaveBeenLastCalledWith({
+          hideCompletedItems: true,
+          backupIntervalMinutes: 0,
+        }),
+      );
+
+      await user.selectOptions(
+        screen.getByRole('combobox', { name: /backups to keep/i }),
+        '20',
+      );
+      await waitFor(() =>
+        expect(mockStorage.saveAppSettings).toHaveBeenLastCalledWith({
+          hideCompletedItems: true,
+          backupIntervalMinutes: 0,
+          backupKeepCount: 20,
+        }),
+      );
+    });
+  });
+
   describe('Filtering with Indented Todos', () => {
     it('hides completed parent and all its children', async () => {
       const initialTodos = [
@@ -528,7 +528,7 @@ describe('Todo Keyboard Interactions', () => {
 
       // Should save the indented todo
       await waitFor(() => {
-        expect(mockStorage.saveListTodos).toHaveBeenCalled();
+        expect(mockStorage.patchListTodos).toHaveBeenCalled();
       });
     });
 
@@ -559,7 +559,7 @@ describe('Todo Keyboard Interactions', () => {
 
       // Should save the outdented todo
       await waitFor(() => {
-        expect(mockStorage.saveListTodos).toHaveBeenCalled();
+        expect(mockStorage.patchListTodos).toHaveBeenCalled();
       });
     });
   });
@@ -55,6 +55,7 @@ describe('E2E Basic Flow Tests', () => {
 
       mockStorage.loadListTodos.mockResolvedValue({
         version: 3,
+        revision: 0,
         todos: [
           {
             id: 1,
@@ -100,14 +101,15 @@ describe('E2E Basic Flow Tests', () => {
       // Wait for debounced save
       await waitFor(
         () => {
-          expect(mockStorage.saveListTodos).toHaveBeenCalled();
+          expect(mockStorage.patchListTodos).toHaveBeenCalled();
         },
         { timeout: 2000 },
       );
     });
 
     it('should handle save failures gracefully', async () => {
-      mockStorage.saveListTodos.mockResolvedValue(false);
+      mockStorage.patchListTodos.mockResolvedValue({ status: 'failed' });
+      mockStorage.saveListTodos.mockResolvedValue({ status: 'failed' });
 
       render(<TodoApp />);
 
@@ -123,9 +125,10 @@ describe('E2E Basic Flow Tests', () => {
       await user.click(input);
       await user.type(input, 'Test todo');
 
-      // Should not crash on save failure
+      // A failed patch falls back to a full save; neither failure crashes
       await waitFor(
         () => {
+          expect(mockStorage.patchListTodos).toHaveBeenCalled();
           expect(mockStorage.saveListTodos).toHaveBeenCalled();
         },
         { timeout: 2000 },
@@ -0,0 +1,134 @@
+import React from 'react';
+import { act, render, screen, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { TodoApp } from '../../features/todos/components/TodoApp';
+import { setupDefaultMocks, mockStorage, setupUser } from '../../testUtils/ui';
+
+// Mock the storage module (util relies on the same module reference)
+jest.mock('../../features/todos/api/storage');
+
+describe('Saves based on a stale revision', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    setupDefaultMocks();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('reloads the list, merges and saves again on the new revision', async () => {
+    mockStorage.loadListTodos.mockResolvedValueOnce({
+      version: 3,
+      todos: [{ id: 1, text: 'Draft', completed: false, indent: 0 }],
+      revision: 2,
+    });
+    render(<TodoApp />);
+    await waitFor(() =>
+      expect(screen.getByLabelText('Todo text')).toHaveValue('Draft'),
+    );
+
+    // Meanwhile a todo was captured into the list from outside this window
+    mockStorage.patchListTodos
+      .mockResolvedValueOnce({ status: 'conflict', revision: 3 })
+      .mockResolvedValueOnce({ status: 'saved', revision: 4 });
+    mockStorage.loadListTodos.mockResolvedValueOnce({
+      version: 3,
+      todos: [
+        { id: 1, text: 'Draft', completed: false, indent: 0 },
+        { id: 2, text: 'Captured', completed: false, indent: 0 },
+      ],
+      revision: 3,
+    });
+
+    const user = setupUser();
+    const input = screen.getByLabelText('Todo text');
+    await user.click(input);
+    await user.type(input, ' v2');
+    jest.advanceTimersByTime(200);
+
+    await waitFor(() =>
+      expect(mockStorage.patchListTodos).toHaveBeenCalledTimes(2),
+    );
+    expect(mockStorage.patchListTodos.mock.calls[0][2]).toBe(2);
+    // The retry is based on the reloaded revision and only carries the edit
+    const [, retry, baseRevision] = mockStorage.patchListTodos.mock.calls[1];
+    expect(baseRevision).toBe(3);
+    expect(retry.updated.map((t) => t.text)).toEqual(['Draft v2']);
+    expect(retry.inserted).toEqual([]);
+    expect(
+      screen
+        .getAllByLabelText('Todo text')
+        .map((el) => (el as HTMLTextAreaElement).value),
+    ).toEqual(['Draft v2', 'Captured']);
+    expect(mockStorage.saveListTodos).not.toHaveBeenCalled();
+  });
+
+  it('saves an edit after a quick capture as a patch on the captured revision', async () => {
+    mockStorage.loadListTodos.mockResolvedValueOnce({
+      version: 3,
+      todos: [{ id: 1, text: 'Draft', completed: false, indent: 0 }],
+      revision: 2,
+    });
+    render(<TodoApp />);
+    await waitFor(() =>
+      expect(screen.getByLabelText('Todo text')).toHaveValue('Draft'),
+    );
+
+    // The main process saved the captured todo and tells the open window
+    const subscribe = window.electron.ipcRenderer.on as jest.Mock;
+    const [, onCaptured] = subscribe.mock.calls.find(
+      ([channel]) => channel === 'quick-capture-added',
+    );
+    act(() => {
+      onCaptured({
+        listId: 'list-1',
+        todoId: 2,
+        revision: 3,
+        text: 'Captured',
+        dueDate: null,
+        dueTime: null,
+        priority: null,
+      });
+    });
+
+    const user = setupUser();
+    const input = screen.getAllByLabelText('Todo text')[0];
+    await user.click(input);
+    await user.type(input, ' v2');
+    jest.advanceTimersByTime(200);
+
+    await waitFor(() =>
+      expect(mockStorage.patchListTodos).toHaveBeenCalledTimes(1),
+    );
+    const [, patch, baseRevision] = mockStorage.patchListTodos.mock.calls[0];
+    expect(baseRevision).toBe(3);
+    expect(patch.inserted).toEqual([]);
+    expect(patch.updated.map((t) => t.text)).toEqual(['Draft v2']);
+    expect(mockStorage.saveListTodos).not.toHaveBeenCalled();
+  });
+
+  it('keeps the edits when the reload fails', async () => {
+    mockStorage.patchListTodos.mockResolvedValueOnce({
+      status: 'conflict',
+      revision: 5,
+    });
+    render(<TodoApp />);
+    await waitFor(() => expect(mockStorage.loadListTodos).toHaveBeenCalled());
+    mockStorage.loadListTodos.mockRejectedValueOnce(
+      new Error('disk unavailable'),
+    );
+
+    const user = setupUser();
+    const input = screen.getByLabelText('Todo text');
+    await user.click(input);
+    await user.type(input, 'Keep me');
+    jest.advanceTimersByTime(200);
+
+    await waitFor(() =>
+      expect(mockStorage.loadListTodos).toHaveBeenCalledTimes(2),
+    );
+    expect(mockStorage.patchListTodos).toHaveBeenCalledTimes(1);
+    expect(screen.getByLabelText('Todo text')).toHaveValue('Keep me');
+  });
+});
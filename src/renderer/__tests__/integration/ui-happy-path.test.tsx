@@ -48,14 +48,14 @@ describe('UI Happy Path – user interactions', () => {
     await user.type(input, 'Buy milk');
 
     // Debounce window (200ms) should delay the save
-    expect(mockStorage.saveListTodos).not.toHaveBeenCalled();
+    expect(mockStorage.patchListTodos).not.toHaveBeenCalled();
     jest.advanceTimersByTime(199);
-    expect(mockStorage.saveListTodos).not.toHaveBeenCalled();
+    expect(mockStorage.patchListTodos).not.toHaveBeenCalled();
 
     // Flush the last millisecond to hit debounce
     jest.advanceTimersByTime(1);
     await waitFor(() =>
-      expect(mockStorage.saveListTodos).toHaveBeenCalledTimes(1),
+      expect(mockStorage.patchListTodos).toHaveBeenCalledTimes(1),
     );
 
     // Press Enter to add the next line (new todo below)
@@ -73,7 +73,7 @@ describe('UI Happy Path – user interactions', () => {
 
     // Insert operation saves immediately, so total calls should be 2
     await waitFor(() =>
-      expect(mockStorage.saveListTodos).toHaveBeenCalledTimes(2),
+      expect(mockStorage.patchListTodos).toHaveBeenCalledTimes(2),
     );
 
     // Spec alignment: checkbox disabled for empty todos; enabled for non-empty
@@ -98,15 +98,15 @@ describe('UI Happy Path – user interactions', () => {
     await user.click(input);
     await user.type(input, 'Buy');
     jest.advanceTimersByTime(150);
-    expect(mockStorage.saveListTodos).not.toHaveBeenCalled();
+    expect(mockStorage.patchListTodos).not.toHaveBeenCalled();
     await user.type(input, ' milk');
     // Still within debounce window since we typed again
     jest.advanceTimersByTime(150);
-    expect(mockStorage.saveListTodos).not.toHaveBeenCalled();
+    expect(mockStorage.patchListTodos).not.toHaveBeenCalled();
     // Finally hit 200ms idle
     jest.advanceTimersByTime(50);
     await waitFor(() =>
-      expect(mockStorage.saveListTodos).toHaveBeenCalledTimes(1),
+      expect(mockStorage.patchListTodos).toHaveBeenCalledTimes(1),
     );
   });
 
@@ -128,10 +128,10 @@ describe('UI Happy Path – user interactions', () => {
     await user.type(input, 'Bread');
 
     // Debounced save after typing
-    expect(mockStorage.saveListTodos).not.toHaveBeenCalled();
+    expect(mockStorage.patchListTodos).not.toHaveBeenCalled();
     jest.advanceTimersByTime(200);
     await waitFor(() =>
-      expect(mockStorage.saveListTodos).toHaveBeenCalledTimes(1),
+      expect(mockStorage.patchListTodos).toHaveBeenCalledTimes(1),
     );
 
     // Enter inserts new line and saves immediately (second call)
@@ -142,7 +142,7 @@ describe('UI Happy Path – user interactions', () => {
     // Note: after Add list, the app enters rename mode which intentionally
     // prevents todo-focus stealing; skip focus assertion in this flow.
     await waitFor(() =>
-      expect(mockStorage.saveListTodos).toHaveBeenCalledTimes(2),
+      expect(mockStorage.patchListTodos).toHaveBeenCalledTimes(2),
     );
   });
 });
@@ -3,6 +3,8 @@ import {
   saveListTodos,
   loadAppSettings,
   loadListTodos,
+  searchTodos,
+  deleteList,
 } from '../storage';
 import { debugLogger } from '../../../../utils/debug';
 
@@ -172,13 +174,18 @@ describe('Storage API (minimal)', () => {
   describe('saveListTodos', () => {
     test('happy path: calls correct channel/args and returns true (IPC contract)', async () => {
       const mockInvoke = getInvokeMock();
-      mockInvoke.mockResolvedValue({ success: true });
+      mockInvoke.mockResolvedValue({ success: true, revision: 3 });
 
       const doc = { version: 2 as const, todos: [] };
-      const ok = await saveListTodos('list-1', doc);
-
-      expect(ok).toBe(true);
-      expect(mockInvoke).toHaveBeenCalledWith('save-list-todos', 'list-1', doc);
+      const res = await saveListTodos('list-1', doc, 2);
+
+      expect(res).toEqual({ status: 'saved', revision: 3 });
+      expect(mockInvoke).toHaveBeenCalledWith(
+        'save-list-todos',
+        'list-1',
+        doc,
+        2,
+      );
       expect(mockInvoke).toHaveBeenCalledTimes(1);
     });
 
@@ -187,20 +194,20 @@ describe('Storage API (minimal)', () => {
       const mockInvoke = getInvokeMock();
       mockInvoke.mockRejectedValue(new Error('nope'));
 
-      const ok = await saveListTodos('list-1', { version: 2, todos: [] });
+      const res = await saveListTodos('list-1', { version: 2, todos: [] }, 0);
 
-      expect(ok).toBe(false);
+      expect(res).toEqual({ status: 'failed' });
       const errors = debugLogger.getLogs().filter((l) => l.level === 'error');
       const operations = errors.map((e) => e.operation).join(' | ');
       expect(operations).toContain('Failed to save list todos');
     });
 
-    test('malformed IPC response: missing success → returns false', async () => {
+    test('malformed IPC response: missing success → failed', async () => {
       const mockInvoke = getInvokeMock();
       mockInvoke.mockResolvedValue({} as any);
 
-      const ok = await saveListTodos('list-2', { version: 2, todos: [] });
-      expect(ok).toBe(false);
+      const res = await saveListTodos('list-2', { version: 2, todos: [] }, 0);
+      expect(res).toEqual({ status: 'failed' });
     });
   });
 
@@ -237,37 +244,107 @@ describe('Storage API (minimal)', () => {
   });
 
   describe('loadListTodos (malformed payload parity)', () => {
-    test('malformed payload: missing todos → safe default', async () => {
+    test('malformed payload: missing todos → rejects', async () => {
       const mockInvoke = getInvokeMock();
-      mockInvoke.mockResolvedValue({ version: 2 } as any);
+      mockInvoke.mockResolvedValue({ version: 2, revision: 1 } as any);
 
-      const res = await loadListTodos('x');
+      await expect(loadListTodos('x')).rejects.toThrow('load-list-todos');
       expect(mockInvoke).toHaveBeenCalledWith('load-list-todos', 'x');
-      expect(res).toEqual({ version: 3, todos: [] });
     });
 
-    test('malformed payload: wrong type for todos → safe default and warn', async () => {
+    test('malformed payload: wrong type for todos → rejects and warns', async () => {
       debugLogger.enable();
       const mockInvoke = getInvokeMock();
-      mockInvoke.mockResolvedValue({ version: 2, todos: 'nope' } as any);
+      mockInvoke.mockResolvedValue({
+        version: 2,
+        todos: 'nope',
+        revision: 1,
+      } as any);
 
-      const res = await loadListTodos('list-123');
-      expect(res).toEqual({ version: 3, todos: [] });
+      await expect(loadListTodos('list-123')).rejects.toThrow();
       const warns = debugLogger.getLogs().filter((l) => l.level === 'warn');
       const operations = warns.map((e) => e.operation).join(' | ');
       expect(operations).toContain('Malformed todos payload');
     });
 
-    test('wrong version: version != 2 with valid todos → safe default and warn', async () => {
+    test('wrong version: version != 2 with valid todos → rejects and warns', async () => {
       debugLogger.enable();
       const mockInvoke = getInvokeMock();
-      mockInvoke.mockResolvedValue({ version: 3, todos: [] } as any);
+      mockInvoke.mockResolvedValue({
+        version: 3,
+        todos: [],
+        revision: 1,
+      } as any);
 
-      const res = await loadListTodos('list-abc');
-      expect(res).toEqual({ version: 3, todos: [] });
+      await expect(loadListTodos('list-abc')).rejects.toThrow();
       const warns = debugLogger.getLogs().filter((l) => l.level === 'warn');
       const operations = warns.map((e) => e.operation).join(' | ');
       expect(operations).toContain('Malformed todos payload');
     });
+
+    test('storage failure in the main process → rejects and logs error', async () => {
+      debugLogger.enable();
+      const mockInvoke = getInvokeMock();
+      mockInvoke.mockResolvedValue({ success: false, error: 'SQLITE_BUSY' });
+
+      await expect(loadListTodos('list-1')).rejects.toThrow('SQLITE_BUSY');
+      const errors = debugLogger.getLogs().filter((l) => l.level === 'error');
+      const operations = errors.map((e) => e.operation).join(' | ');
+      expect(operations).toContain('Failed to load list todos');
+    });
+  });
+
+  describe('searchTodos', () => {
+    test('calls search-todos and drops malformed hits', async () => {
+      const mockInvoke = getInvokeMock();
+      const hit = {
+        kind: 'todo',
+        listId: 'a',
+        listName: 'Groceries',
+        todoId: 3,
+        text: 'buy milk',
+        completed: false,
+      };
+      mockInvoke.mockResolvedValue([hit, { kind: 'todo', listId: 1 }]);
+
+      const res = await searchTodos('mil');
+      expect(mockInvoke).toHaveBeenCalledWith('search-todos', 'mil');
+      expect(res).toEqual([hit]);
+    });
+
+    test('blank query short-circuits without IPC', async () => {
+      const mockInvoke = getInvokeMock();
+      const res = await searchTodos('   ');
+      expect(res).toEqual([]);
+      expect(mockInvoke).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('IPC contract', () => {
+    test('invalid arguments are refused before reaching the main process', async () => {
+      debugLogger.enable();
+      const mockInvoke = getInvokeMock();
+
+      const res = await deleteList(42 as unknown as string);
+
+      expect(res).toEqual({ success: false, error: 'internal_error' });
+      expect(mockInvoke).not.toHaveBeenCalled();
+      const errors = debugLogger.getLogs().filter((l) => l.level === 'error');
+      expect(JSON.stringify(errors)).toContain('"direction":"request"');
+    });
+
+    test('a structured rejection from the main process fails the call', async () => {
+      const mockInvoke = getInvokeMock();
+      mockInvoke.mockResolvedValue({
+        success: false,
+        error: 'invalid_payload',
+        channel: 'save-list-todos',
+        direction: 'request',
+        issues: [{ path: 'args[2]', message: 'expected integer, got string' }],
+      });
+
+      const res = await saveListTodos('list-1', { version: 2, todos: [] }, 0);
+      expect(res).toEqual({ status: 'failed' });
+    });
   });
 });
@@ -0,0 +1,89 @@
+import {
+  checkEvent,
+  checkRequest,
+  checkResponse,
+  isIpcPayloadError,
+  type EventArgs,
+  type EventChannel,
+  type InvokeArgs,
+  type InvokeChannel,
+  type InvokeResult,
+  type IpcPayloadError,
+} from '../../../../shared/ipcContract';
+import { debugLogger } from '../../../utils/debug';
+
+/**
+ * A payload on `channel` broke the IPC contract: our arguments (checked
+ * before sending or refused by the main process) or the reply.
+ */
+export class IpcContractError extends Error {
+  readonly detail: IpcPayloadError;
+
+  constructor(detail: IpcPayloadError) {
+    super(
+      `Invalid ${detail.direction} on ${detail.channel}: ${detail.issues
+        .map((i) => `${i.path} ${i.message}`)
+        .join('; ')}`,
+    );
+    this.name = 'IpcContractError';
+    this.detail = detail;
+  }
+}
+
+/**
+ * Typed `ipcRenderer.invoke`: arguments and reply follow the channel's
+ * contract, and a payload that doesn't rejects with an IpcContractError.
+ */
+export async function invoke<C extends InvokeChannel>(
+  channel: C,
+  ...args: InvokeArgs<C>
+): Promise<InvokeResult<C>> {
+  const request = checkRequest(channel, args);
+  if (!request.ok) throw new IpcContractError(request.error);
+  const reply = await window.electron.ipcRenderer.invoke(channel, ...args);
+  if (isIpcPayloadError(reply)) throw new IpcContractError(reply);
+  const response = checkResponse(channel, reply);
+  if (!response.ok) throw new IpcContractError(response.error);
+  return response.value;
+}
+
+type EventListener<C extends EventChannel> = (...args: EventArgs<C>) => void;
+
+// Calls `listener` only with arguments that follow the channel's contract
+function checked<C extends EventChannel>(
+  channel: C,
+  listener: EventListener<C>,
+): (...args: unknown[]) => void {
+  return (...args) => {
+    const payload = checkEvent(channel, args);
+    if (!payload.ok) {
+      debugLogger.log(
+        'error',
+        'Dropped event that breaks the IPC contract',
+        new IpcContractError(payload.error),
+      );
+      return;
+    }
+    listener(...payload.value);
+  };
+}
+
+/**
+ * Typed `ipcRenderer.on`. Events whose arguments break the channel's
+ * contract are logged and dropped. Returns the unsubscribe function, or
+ * undefined outside Electron.
+ */
+export function on<C extends EventChannel>(
+  channel: C,
+  listener: EventListener<C>,
+): (() => void) | undefined {
+  return window.electron?.ipcRenderer.on(channel, checked(channel, listener));
+}
+
+// Typed `ipcRenderer.once`; see `on`
+export function once<C extends EventChannel>(
+  channel: C,
+  listener: EventListener<C>,
+): void {
+  window.electron?.ipcRenderer.once(channel, checked(channel, listener));
+}
@@ -1,7 +1,23 @@
-import type { EditorTodo, AppSettings } from '../types';
+import type {
+  EditorTodo,
+  AppSettings,
+  AppSettingsSaveResult,
+  SearchHit,
+  TagCount,
+  TrashedList,
+  TodosPatch,
+  TodosSaveResult,
+} from '../types';
 import { debugLogger } from '../../../utils/debug';
 import { runTodosMigration } from '../utils/migration';
 import { sortListsByRecency } from '../utils/listOrdering';
+import type { CommandId } from '../../../../shared/commands';
+import {
+  normalizeSmartLists,
+  type SmartListDefinition,
+} from '../../../../shared/smartLists';
+import type { InvokeResult } from '../../../../shared/ipcContract';
+import { invoke, IpcContractError } from './ipc';
 
 // v2 index file format
 export type ListsIndexV2 = {
@@ -16,96 +32,75 @@ export type ListsIndexV2 = {
 };
 
 export type ListTodosV2 = { version: 2; todos: EditorTodo[] };
-export type ListTodosV3 = { version: 3; todos: EditorTodo[] };
+// `revision` is the list's storage revision at load time
+export type ListTodosV3 = {
+  version: 3;
+  todos: EditorTodo[];
+  revision: number;
+};
+
+// Main process reply to save-list-todos and patch-list-todos
+type TodosWriteReply = InvokeResult<'save-list-todos'>;
+
+const toSaveResult = (res: TodosWriteReply): TodosSaveResult => {
+  if (res.success) return { status: 'saved', revision: res.revision };
+  if (res.error === 'revision_conflict' && res.revision !== undefined) {
+    return { status: 'conflict', revision: res.revision };
+  }
+  return { status: 'failed' };
+};
 
 export async function loadListsIndex(): Promise<ListsIndexV2> {
   return debugLogger.measureAsync('storage.loadListsIndex', async () => {
     try {
       debugLogger.log('info', 'Loading lists index');
-      const result = (await window.electron.ipcRenderer.invoke(
-        'load-lists',
-      )) as ListsIndexV2;
-      if (
-        result &&
-        // TODO: Validate the shape of the result. This is a typescript sin.
-        typeof result === 'object' &&
-        (result as unknown as { version?: unknown }).version === 2 &&
-        Array.isArray((result as unknown as { lists?: unknown }).lists)
-      ) {
-        // Minimal item-shape validation: require id/name/createdAt
-        const rawLists = (result as unknown as { lists: unknown[] }).lists;
-        const validLists = rawLists.filter(
-          (l): l is ListsIndexV2['lists'][number] => {
-            if (
-              !(
-                l &&
-                typeof l === 'object' &&
-                typeof (l as { id?: unknown }).id === 'string' &&
-                typeof (l as { name?: unknown }).name === 'string' &&
-                typeof (l as { createdAt?: unknown }).createdAt === 'string' &&
-                typeof (l as { updatedAt?: unknown }).updatedAt === 'string'
-              )
-            ) {
-              return false;
-            }
-            const { updatedAt } = l as { updatedAt: string };
-            const parsed = Date.parse(updatedAt);
-            return Number.isFinite(parsed);
-          },
-        );
-        const sanitizedLists = validLists.map((l) => ({
+      const result = await invoke('load-lists');
+      // Recency ordering needs a parseable updatedAt
+      const sanitizedLists = result.lists
+        .filter((l) => Number.isFinite(Date.parse(l.updatedAt)))
+        .map((l) => ({
           id: l.id,
           name: l.name,
           createdAt: new Date(Date.parse(l.createdAt)).toISOString(),
           updatedAt: new Date(Date.parse(l.updatedAt)).toISOString(),
         }));
-        if (sanitizedLists.length !== rawLists.length) {
-          debugLogger.log(
-            'warn',
-            'Lists index contained invalid items; filtered',
-            {
-              original: rawLists.length,
-              kept: sanitizedLists.length,
-            },
-          );
-        }
-        const sortedLists = sortListsByRecency(sanitizedLists);
-        // Ensure selectedListId points to a valid list
-        const validIds = new Set(sortedLists.map((l) => l.id));
-        const selected = (result as unknown as { selectedListId?: unknown })
-          .selectedListId;
-        const selectedListId =
-          typeof selected === 'string' && validIds.has(selected)
-            ? selected
-            : undefined;
-
-        const sanitized: ListsIndexV2 = {
-          version: 2 as const,
-          lists: sortedLists,
-          selectedListId,
-        };
-        debugLogger.log('info', 'Lists index loaded successfully', {
-          listCount: sanitized.lists.length,
-          selectedListId: sanitized.selectedListId,
-        });
-        return sanitized;
+      if (sanitizedLists.length !== result.lists.length) {
+        debugLogger.log(
+          'warn',
+          'Lists index contained invalid items; filtered',
+          {
+            original: result.lists.length,
+            kept: sanitizedLists.length,
+          },
+        );
       }
-      // Validation failed without throwing: log a warning for visibility
-      debugLogger.log(
-        'warn',
-        'Malformed lists index payload received; using safe default',
-        {
-          receivedType: typeof result,
-          version: (result as unknown as { version?: unknown })?.version,
-          listsType: Array.isArray(
-            (result as unknown as { lists?: unknown })?.lists,
-          )
-            ? 'array'
-            : typeof (result as unknown as { lists?: unknown })?.lists,
-        },
-      );
+      const sortedLists = sortListsByRecency(sanitizedLists);
+      // Ensure selectedListId points to a valid list
+      const validIds = new Set(sortedLists.map((l) => l.id));
+      const sanitized: ListsIndexV2 = {
+        version: 2 as const,
+        lists: sortedLists,
+        selectedListId:
+          result.selectedListId !== undefined &&
+          validIds.has(result.selectedListId)
+            ? result.selectedListId
+            : undefined,
+      };
+      debugLogger.log('info', 'Lists index loaded successfully', {
+        listCount: sanitized.lists.length,
+        selectedListId: sanitized.selectedListId,
+      });
+      return sanitized;
     } catch (error) {
-      debugLogger.log('error', 'Failed to load lists index', error);
+      if (error instanceof IpcContractError) {
+        debugLogger.log(
+          'warn',
+          'Malformed lists index payload received; using safe default',
+          error.detail,
+        );
+      } else {
+        debugLogger.log('error', 'Failed to load lists index', error);
+      }
     }
     return { version: 2, lists: [], selectedListId: undefined };
   });
@@ -118,11 +113,8 @@ export async function saveListsIndex(doc: ListsIndexV2): Promise<boolean> {
         listCount: doc.lists.length,
         selectedListId: doc.selectedListId,
       });
-      const res = (await window.electron.ipcRenderer.invoke(
-        'save-lists',
-        doc,
-      )) as { success?: boolean; error?: string };
-      const success = !!res?.success;
+      const res = await invoke('save-lists', doc);
+      const { success } = res;
       debugLogger.log(success ? 'info' : 'error', 'Lists index save result', {
         success,
       });
@@ -134,79 +126,121 @@ export async function saveListsIndex(doc: ListsIndexV2): Promise<boolean> {
   });
 }
 
+/**
+ * Loads a list's todos. Rejects when they couldn't be loaded, so a failed
+ * load is never mistaken for an empty list.
+ */
 export async function loadListTodos(listId: string): Promise<ListTodosV3> {
   return debugLogger.measureAsync('storage.loadListTodos', async () => {
     try {
       debugLogger.log('info', 'Loading list todos', { listId });
-      const res = (await window.electron.ipcRenderer.invoke(
-        'load-list-todos',
+      const res = await invoke('load-list-todos', listId);
+      if ('error' in res) {
+        throw new Error(`Loading todos failed: ${res.error}`);
+      }
+      const { todos: migratedTodos, stats } = runTodosMigration(res.todos);
+      debugLogger.log('info', 'List todos loaded successfully', {
         listId,
-      )) as ListTodosV2;
-      if (
-        res &&
-        typeof res === 'object' &&
-        (res as unknown as { version?: unknown }).version === 2 &&
-        Array.isArray((res as unknown as { todos?: unknown }).todos)
-      ) {
-        const { todos: migratedTodos, stats } = runTodosMigration(res.todos);
-        debugLogger.log('info', 'List todos loaded successfully', {
+        todoCount: res.todos.length,
+        migratedTo: 3,
+        inferredParentIds: stats.inferredParentIds,
+        reparented: stats.reparentedDueToInvariant,
+      });
+      return {
+        version: 3 as const,
+        todos: migratedTodos,
+        revision: res.revision,
+      };
+    } catch (error) {
+      if (error instanceof IpcContractError) {
+        debugLogger.log('warn', 'Malformed todos payload received', {
           listId,
-          todoCount: res.todos.length,
-          migratedTo: 3,
-          inferredParentIds: stats.inferredParentIds,
-          reparented: stats.reparentedDueToInvariant,
+          ...error.detail,
         });
-        return { version: 3 as const, todos: migratedTodos };
-      }
-      // Validation failed without throwing: log a warning for visibility
-      debugLogger.log(
-        'warn',
-        'Malformed todos payload received; using safe default',
-        {
+      } else {
+        debugLogger.log('error', 'Failed to load list todos', {
           listId,
-          version: (res as unknown as { version?: unknown })?.version,
-          todosType: Array.isArray(
-            (res as unknown as { todos?: unknown })?.todos,
-          )
-            ? 'array'
-            : typeof (res as unknown as { todos?: unknown })?.todos,
-        },
-      );
-    } catch (error) {
-      debugLogger.log('error', 'Failed to load list todos', { listId, error });
+          error,
+        });
+      }
+      throw error;
     }
-    return { version: 3, todos: [] };
   });
 }
 
+/**
+ * Replaces a list's todos in storage. `baseRevision` is the revision the
+ * todos were loaded or last saved at.
+ */
 export async function saveListTodos(
   listId: string,
   doc: ListTodosV2 | ListTodosV3,
-): Promise<boolean> {
+  baseRevision: number,
+): Promise<TodosSaveResult> {
   return debugLogger.measureAsync('storage.saveListTodos', async () => {
     try {
       debugLogger.log('info', 'Saving list todos', {
         listId,
         todoCount: doc.todos.length,
+        baseRevision,
       });
-      const res = (await window.electron.ipcRenderer.invoke(
+      const res = await invoke(
         'save-list-todos',
         listId,
-        // Send full EditorTodo array, database will persist parentId and section
+        // Send full EditorTodo array, database will persist parentId
         {
           version: 2,
           todos: doc.todos,
         } satisfies ListTodosV2,
-      )) as { success?: boolean; error?: string };
-      const success = !!res?.success;
-      debugLogger.log(success ? 'info' : 'error', 'List todos save result', {
+        baseRevision,
+      );
+      const result = toSaveResult(res);
+      debugLogger.log(
+        result.status === 'failed' ? 'error' : 'info',
+        'List todos save result',
+        { listId, ...result },
+      );
+      return result;
+    } catch (error) {
+      debugLogger.log('error', 'Failed to save list todos', { listId, error });
+      return { status: 'failed' };
+    }
+  });
+}
+
+/**
+ * Saves only what changed in a list since its last save. When the patch
+ * fails (other than by a conflict) callers fall back to saveListTodos.
+ */
+export async function patchListTodos(
+  listId: string,
+  patch: TodosPatch,
+  baseRevision: number,
+): Promise<TodosSaveResult> {
+  return debugLogger.measureAsync('storage.patchListTodos', async () => {
+    try {
+      debugLogger.log('info', 'Patching list todos', {
         listId,
-        success,
+        inserted: patch.inserted.length,
+        updated: patch.updated.length,
+        deleted: patch.deleted.length,
+        moved: patch.moved.length,
+        baseRevision,
       });
-      return success;
+      const res = await invoke('patch-list-todos', listId, patch, baseRevision);
+      const result = toSaveResult(res);
+      debugLogger.log(
+        result.status === 'failed' ? 'error' : 'info',
+        'List todos patch result',
+        { listId, ...result, error: res.success ? undefined : res.error },
+      );
+      return result;
     } catch (error) {
-      debugLogger.log('error', 'Failed to save list todos', { listId, error });
-      return false;
+      debugLogger.log('error', 'Failed to patch list todos', {
+        listId,
+        error,
+      });
+      return { status: 'failed' };
     }
   });
 }
@@ -215,17 +249,9 @@ export async function loadAppSettings(): Promise<AppSettings> {
   return debugLogger.measureAsync('storage.loadAppSettings', async () => {
     try {
       debugLogger.log('info', 'Loading app settings');
-      const result = (await window.electron.ipcRenderer.invoke(
-        'load-app-settings',
-      )) as AppSettings;
-      if (
-        result &&
-        typeof result === 'object' &&
-        typeof result.hideCompletedItems === 'boolean'
-      ) {
-        debugLogger.log('info', 'App settings loaded successfully', result);
-        return result;
-      }
+      const result = await invoke('load-app-settings');
+      debugLogger.log('info', 'App settings loaded successfully', result);
+      return result;
     } catch (error) {
       debugLogger.log('error', 'Failed to load app settings', error);
     }
@@ -233,32 +259,58 @@ export async function loadAppSettings(): Promise<AppSettings> {
   });
 }
 
-export async function saveAppSettings(settings: AppSettings): Promise<boolean> {
+export async function saveAppSettings(
+  settings: AppSettings,
+): Promise<AppSettingsSaveResult> {
   return debugLogger.measureAsync('storage.saveAppSettings', async () => {
     try {
       debugLogger.log('info', 'Saving app settings', settings);
-      const res = (await window.electron.ipcRenderer.invoke(
-        'save-app-settings',
-        settings,
-      )) as { success?: boolean; error?: string };
-      const success = !!res?.success;
-      debugLogger.log(success ? 'info' : 'error', 'App settings save result', {
-        success,
-      });
-      return success;
+      const result = await invoke('save-app-settings', settings);
+      debugLogger.log(
+        result.success ? 'info' : 'error',
+        'App settings save result',
+        result,
+      );
+      return result;
     } catch (error) {
       debugLogger.log('error', 'Failed to save app settings', error);
+      return { success: false, error: 'internal_error' };
+    }
+  });
+}
+
+export async function loadSmartLists(): Promise<SmartListDefinition[]> {
+  return debugLogger.measureAsync('storage.loadSmartLists', async () => {
+    try {
+      return normalizeSmartLists(await invoke('load-smart-lists'));
+    } catch (error) {
+      debugLogger.log('error', 'Failed to load smart lists', error);
+      return [];
+    }
+  });
+}
+
+export async function saveSmartLists(
+  definitions: SmartListDefinition[],
+): Promise<boolean> {
+  return debugLogger.measureAsync('storage.saveSmartLists', async () => {
+    try {
+      debugLogger.log('info', 'Saving smart lists', {
+        count: definitions.length,
+      });
+      const res = await invoke('save-smart-lists', definitions);
+      if (!res.success) {
+        debugLogger.log('error', 'Smart lists save failed', res);
+      }
+      return res.success;
+    } catch (error) {
+      debugLogger.log('error', 'Failed to save smart lists', error);
       return false;
     }
   });
 }
 
-type DuplicateListResult =
-  | { success: true; newListId: string }
-  | {
-      success: false;
-      error: 'invalid_source_id' | 'not_found' | 'internal_error';
-    };
+type DuplicateListResult = InvokeResult<'duplicate-list'>;
 
 export async function duplicateList(
   sourceListId: string,
@@ -270,11 +322,7 @@ export async function duplicateList(
         sourceListId,
         newListName,
       });
-      const result = (await window.electron.ipcRenderer.invoke(
-        'duplicate-list',
-        sourceListId,
-        newListName,
-      )) as DuplicateListResult;
+      const result = await invoke('duplicate-list', sourceListId, newListName);
       debugLogger.log(
         result.success ? 'info' : 'error',
         'Duplicate list result',
@@ -291,16 +339,64 @@ export async function duplicateList(
   });
 }
 
+// `revisions` holds the new revisions of the source and target lists
+type MoveTodosResult = InvokeResult<'move-todos-to-list'>;
+
+/**
+ * Moves a todo and its subtree to the end of another list. `baseRevision`
+ * is the source list's revision and `targetBaseRevision` the target's (null
+ * if its todos aren't loaded); a move based on an older one is rejected
+ * with 'revision_conflict'.
+ */
+export async function moveTodosToList(
+  sourceListId: string,
+  todoId: number,
+  targetListId: string,
+  baseRevision: number,
+  targetBaseRevision: number | null,
+): Promise<MoveTodosResult> {
+  return debugLogger.measureAsync('storage.moveTodosToList', async () => {
+    try {
+      debugLogger.log('info', 'Moving todos to list', {
+        sourceListId,
+        todoId,
+        targetListId,
+        baseRevision,
+        targetBaseRevision,
+      });
+      const result = await invoke(
+        'move-todos-to-list',
+        sourceListId,
+        todoId,
+        targetListId,
+        baseRevision,
+        targetBaseRevision,
+      );
+      debugLogger.log(
+        result.success ? 'info' : 'error',
+        'Move todos result',
+        result,
+      );
+      return result;
+    } catch (e) {
+      debugLogger.log('error', 'Error moving todos', {
+        sourceListId,
+        todoId,
+        targetListId,
+        error: e,
+      });
+      return { success: false, error: 'internal_error' };
+    }
+  });
+}
+
 export async function setSelectedListMeta(
   listId: string | null,
 ): Promise<void> {
   return debugLogger.measureAsync('storage.setSelectedListMeta', async () => {
     try {
       debugLogger.log('info', 'Setting selected list meta', { listId });
-      await window.electron.ipcRenderer.invoke(
-        'set-selected-list-meta',
-        listId,
-      );
+      await invoke('set-selected-list-meta', listId);
     } catch (error) {
       debugLogger.log('error', 'Failed to set selected list meta', {
         listId,
@@ -316,10 +412,7 @@ export async function deleteList(
   return debugLogger.measureAsync('storage.deleteList', async () => {
     try {
       debugLogger.log('info', 'Deleting list', { listId });
-      const res = (await window.electron.ipcRenderer.invoke(
-        'delete-list',
-        listId,
-      )) as { success: boolean; error?: string };
+      const res = await invoke('delete-list', listId);
       debugLogger.log(res.success ? 'info' : 'error', 'Delete list result', {
         listId,
         success: res.success,
@@ -334,3 +427,221 @@ export async function deleteList(
     }
   });
 }
+
+export async function searchTodos(query: string): Promise<SearchHit[]> {
+  return debugLogger.measureAsync('storage.searchTodos', async () => {
+    try {
+      if (query.trim() === '') return [];
+      debugLogger.log('info', 'Searching todos', { query });
+      const hits = await invoke('search-todos', query);
+      debugLogger.log('info', 'Search completed', {
+        query,
+        hitCount: hits.length,
+      });
+      return hits;
+    } catch (error) {
+      debugLogger.log('error', 'Failed to search todos', { query, error });
+      return [];
+    }
+  });
+}
+
+export async function loadTags(): Promise<TagCount[]> {
+  return debugLogger.measureAsync('storage.loadTags', async () => {
+    try {
+      debugLogger.log('info', 'Loading tags');
+      return await invoke('load-tags');
+    } catch (error) {
+      debugLogger.log('error', 'Failed to load tags', error);
+      return [];
+    }
+  });
+}
+
+export async function loadTodosByTag(tag: string): Promise<SearchHit[]> {
+  return debugLogger.measureAsync('storage.loadTodosByTag', async () => {
+    try {
+      if (tag.trim() === '') return [];
+      debugLogger.log('info', 'Loading todos by tag', { tag });
+      return await invoke('todos-by-tag', tag);
+    } catch (error) {
+      debugLogger.log('error', 'Failed to load todos by tag', { tag, error });
+      return [];
+    }
+  });
+}
+
+export async function loadTrash(): Promise<TrashedList[]> {
+  return debugLogger.measureAsync('storage.loadTrash', async () => {
+    try {
+      debugLogger.log('info', 'Loading trash');
+      return await invoke('load-trash');
+    } catch (error) {
+      debugLogger.log('error', 'Failed to load trash', error);
+      return [];
+    }
+  });
+}
+
+type RestoreListResult = InvokeResult<'restore-list'>;
+
+export async function restoreList(listId: string): Promise<RestoreListResult> {
+  return debugLogger.measureAsync('storage.restoreList', async () => {
+    try {
+      debugLogger.log('info', 'Restoring list from trash', { listId });
+      const res = await invoke('restore-list', listId);
+      debugLogger.log(res.success ? 'info' : 'error', 'Restore list result', {
+        listId,
+        success: res.success,
+      });
+      return res;
+    } catch (error) {
+      debugLogger.log('error', 'Failed to restore list', { listId, error });
+      return { success: false, error: 'internal_error' };
+    }
+  });
+}
+
+export async function purgeList(listId: string): Promise<boolean> {
+  return debugLogger.measureAsync('storage.purgeList', async () => {
+    try {
+      debugLogger.log('info', 'Purging list', { listId });
+      const res = await invoke('purge-list', listId);
+      debugLogger.log(res.success ? 'info' : 'error', 'Purge list result', {
+        listId,
+        success: res.success,
+        error: res.error,
+      });
+      return res.success;
+    } catch (error) {
+      debugLogger.log('error', 'Failed to purge list', { listId, error });
+      return false;
+    }
+  });
+}
+
+export async function emptyTrash(): Promise<boolean> {
+  return debugLogger.measureAsync('storage.emptyTrash', async () => {
+    try {
+      debugLogger.log('info', 'Emptying trash');
+      const res = await invoke('empty-trash');
+      debugLogger.log(res.success ? 'info' : 'error', 'Empty trash result', {
+        purged: res.purged,
+      });
+      return res.success;
+    } catch (error) {
+      debugLogger.log('error', 'Failed to empty trash', error);
+      return false;
+    }
+  });
+}
+
+export async function exportMarkdownFile(
+  defaultName: string,
+  content: string,
+): Promise<{ success: boolean; canceled?: boolean }> {
+  return debugLogger.measureAsync('storage.exportMarkdownFile', async () => {
+    try {
+      debugLogger.log('info', 'Exporting markdown', {
+        defaultName,
+        length: content.length,
+      });
+      const res = await invoke('export-markdown', { defaultName, content });
+      debugLogger.log(
+        res.success || res.canceled ? 'info' : 'error',
+        'Export markdown result',
+        res,
+      );
+      return { success: res.success, canceled: !!res.canceled };
+    } catch (error) {
+      debugLogger.log('error', 'Failed to export markdown', error);
+      return { success: false };
+    }
+  });
+}
+
+export async function importMarkdownFiles(): Promise<
+  Array<{ name: string; content: string }>
+> {
+  return debugLogger.measureAsync('storage.importMarkdownFiles', async () => {
+    try {
+      debugLogger.log('info', 'Importing markdown');
+      const { success, files } = await invoke('import-markdown');
+      debugLogger.log('info', 'Import markdown result', {
+        success,
+        fileCount: files.length,
+      });
+      return files;
+    } catch (error) {
+      debugLogger.log('error', 'Failed to import markdown', error);
+      return [];
+    }
+  });
+}
+
+export type QuickCaptureContext = InvokeResult<'quick-capture-context'>;
+
+export async function loadQuickCaptureContext(): Promise<QuickCaptureContext> {
+  return debugLogger.measureAsync(
+    'storage.loadQuickCaptureContext',
+    async () => {
+      try {
+        return await invoke('quick-capture-context');
+      } catch (error) {
+        debugLogger.log('error', 'Failed to load quick capture context', error);
+        return { lists: [], selectedListId: null };
+      }
+    },
+  );
+}
+
+export async function addQuickCaptureTodo(
+  listId: string,
+  text: string,
+  fields: Pick<EditorTodo, 'dueDate' | 'dueTime' | 'priority'> = {},
+): Promise<boolean> {
+  return debugLogger.measureAsync('storage.addQuickCaptureTodo', async () => {
+    try {
+      debugLogger.log('info', 'Adding todo from quick capture', { listId });
+      const res = await invoke('quick-capture-add', listId, text, fields);
+      if (!res.success) {
+        debugLogger.log('error', 'Quick capture add failed', res);
+      }
+      return res.success;
+    } catch (error) {
+      debugLogger.log('error', 'Failed to add quick capture todo', error);
+      return false;
+    }
+  });
+}
+
+export async function closeQuickCapture(): Promise<void> {
+  try {
+    await invoke('quick-capture-close');
+  } catch (error) {
+    debugLogger.log('error', 'Failed to close quick capture', error);
+  }
+}
+
+export async function loadAvailableCommands(): Promise<CommandId[]> {
+  try {
+    return await invoke('load-commands');
+  } catch (error) {
+    debugLogger.log('error', 'Failed to load available commands', error);
+    return [];
+  }
+}
+
+export async function runMainCommand(id: CommandId): Promise<boolean> {
+  try {
+    debugLogger.log('info', 'Running main process command', { id });
+    const res = await invoke('run-command', id);
+    if (!res.success) {
+      debugLogger.log('warn', 'Main process command did not run', res);
+    }
+    return res.success;
+  } catch (error) {
+    debugLogger.log('error', 'Failed to run main process command', error);
+    return false;
+  }
+}
@@ -0,0 +1,217 @@
+import React from 'react';
+import { useTodosStore } from '../../store/useTodosStore';
+import { loadAvailableCommands } from '../../api/storage';
+import { rankByFuzzy } from '../../utils/fuzzy';
+import {
+  COMMANDS,
+  formatAccelerator,
+  getAvailableCommands,
+  type CommandId,
+} from '../../../../../shared/commands';
+
+const styles = require('./CommandPalette.module.css');
+
+type PaletteItem = {
+  key: string;
+  title: string;
+  hint: string;
+  keywords: string[];
+  shortcut?: string;
+  run: () => void;
+};
+
+type CommandPaletteProps = {
+  runCommand: (id: CommandId) => void;
+};
+
+const IS_MAC = /mac/i.test(navigator.userAgent);
+
+/**
+ * Detects Cmd/Ctrl+K, which opens and closes the palette.
+ */
+export function isCommandPaletteShortcut(
+  event: Pick<
+    KeyboardEvent,
+    'key' | 'metaKey' | 'ctrlKey' | 'altKey' | 'shiftKey'
+  >,
+): boolean {
+  if (!(event.metaKey || event.ctrlKey) || event.altKey || event.shiftKey) {
+    return false;
+  }
+  return event.key.toLowerCase() === 'k';
+}
+
+/**
+ * Cmd/Ctrl+K overlay: fuzzy search over the shared command registry plus the
+ * lists to switch to. Enter runs the highlighted entry, Escape closes.
+ */
+export default function CommandPalette({
+  runCommand,
+}: CommandPaletteProps): React.ReactElement | null {
+  const lists = useTodosStore((s) => s.lists);
+  const selectedListId = useTodosStore((s) => s.selectedListId);
+  const setSelectedListId = useTodosStore((s) => s.setSelectedListId);
+  const [open, setOpen] = React.useState(false);
+  const [query, setQuery] = React.useState('');
+  const [activeIndex, setActiveIndex] = React.useState(0);
+  // Until the main process answers, offer what every build has
+  const [available, setAvailable] = React.useState(() =>
+    getAvailableCommands(false).map((c) => c.id),
+  );
+  const inputRef = React.useRef<HTMLInputElement | null>(null);
+  const returnFocusRef = React.useRef<HTMLElement | null>(null);
+
+  React.useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!isCommandPaletteShortcut(event)) return;
+      event.preventDefault();
+      event.stopPropagation();
+      setOpen((wasOpen) => !wasOpen);
+    };
+    window.addEventListener('keydown', onKeyDown, true);
+    return () => window.removeEventListener('keydown', onKeyDown, true);
+  }, []);
+
+  React.useEffect(() => {
+    if (!open) return;
+    // Focus hasn't moved into the palette yet
+    returnFocusRef.current = document.activeElement as HTMLElement | null;
+    setQuery('');
+    setActiveIndex(0);
+    inputRef.current?.focus();
+    loadAvailableCommands()
+      .then((ids) => {
+        if (ids.length > 0) setAvailable(ids);
+      })
+      .catch(() => {});
+  }, [open]);
+
+  const items = React.useMemo<PaletteItem[]>(() => {
+    const commands = COMMANDS.filter((c) => available.includes(c.id)).map(
+      (c) => ({
+        key: `command:${c.id}`,
+        title: c.title,
+        hint: c.category,
+        keywords: c.keywords ?? [],
+        shortcut: c.accelerator
+          ? formatAccelerator(c.accelerator, IS_MAC)
+          : undefined,
+        run: () => runCommand(c.id),
+      }),
+    );
+    const switches = lists
+      .filter((l) => l.id !== selectedListId)
+      .map((l) => ({
+        key: `list:${l.id}`,
+        title: l.name,
+        hint: 'Switch to list',
+        keywords: ['switch', 'open', 'go'],
+        run: () => setSelectedListId(l.id),
+      }));
+    return [...commands, ...switches];
+  }, [available, lists, selectedListId, runCommand, setSelectedListId]);
+
+  const results = React.useMemo(
+    () =>
+      rankByFuzzy(items, query, (item) => [
+        item.title,
+        `${item.hint} ${item.title}`,
+        ...item.keywords,
+      ]),
+    [items, query],
+  );
+
+  const close = (restoreFocus: boolean) => {
+    setOpen(false);
+    if (restoreFocus) returnFocusRef.current?.focus();
+    returnFocusRef.current = null;
+  };
+
+  const runItem = (item: PaletteItem | undefined) => {
+    if (!item) return;
+    close(false);
+    item.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (results.length === 0) return;
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((i) => (i + step + results.length) % results.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      runItem(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      e.stopPropagation();
+      close(true);
+    }
+  };
+
+  if (!open) return null;
+
+  return (
+    <div
+      className={styles.backdrop}
+      role="presentation"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) close(true);
+      }}
+    >
+      <div
+        className={styles.palette}
+        role="dialog"
+        aria-label="Command palette"
+        data-testid="command-palette"
+      >
+        <input
+          ref={inputRef}
+          className={styles.input}
+          placeholder="Type a command or list name…"
+          aria-label="Search commands"
+          aria-controls="command-palette-results"
+          aria-activedescendant={
+            results[activeIndex] ? `command-${activeIndex}` : undefined
+          }
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+        />
+        <div
+          className={styles.results}
+          id="command-palette-results"
+          role="listbox"
+        >
+          {results.length === 0 && (
+            <div className={styles.empty}>No matching commands</div>
+          )}
+          {results.map((item, index) => (
+            <div
+              key={item.key}
+              id={`command-${index}`}
+              className={`${styles.item} ${
+                index === activeIndex ? styles.itemActive : ''
+              }`}
+              role="option"
+              aria-selected={index === activeIndex}
+              tabIndex={-1}
+              onMouseMove={() => setActiveIndex(index)}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => runItem(item)}
+            >
+              <span className={styles.itemTitle}>{item.title}</span>
+              <span className={styles.itemHint}>{item.hint}</span>
+              {item.shortcut && (
+                <kbd className={styles.itemShortcut}>{item.shortcut}</kbd>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
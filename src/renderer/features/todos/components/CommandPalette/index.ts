@@ -0,0 +1 @@
+export { default as CommandPalette } from './CommandPalette';
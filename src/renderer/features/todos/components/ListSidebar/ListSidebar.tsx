@@ -4,14 +4,35 @@ import { ReactComponent as TodoloLogo } from '../../../../../../assets/logo/todo
 import { useTodosStore } from '../../store/useTodosStore';
 import useListDuplication from '../../hooks/useListDuplication';
 import useListEditing from '../../hooks/useListEditing';
+import SidebarSearch from './components/SidebarSearch';
+import SmartListsSection from './components/SmartListsSection';
+import TagsSection from './components/TagsSection';
+import TrashSection from './components/TrashSection';
+import type { AppSettings } from '../../types';
+import { TODO_DRAG_MIME } from '../../utils/constants';
 
 const styles = require('./Sidebar.module.css');
 
-export default function ListSidebar() {
+type ListSidebarProps = {
+  onOpenSearchResult?: (listId: string, todoId: number | null) => void;
+  appSettings?: AppSettings;
+  onUpdateAppSettings?: (settings: AppSettings) => void;
+  onCreateSmartList?: () => void;
+};
+
+export default function ListSidebar({
+  onOpenSearchResult,
+  appSettings,
+  onUpdateAppSettings,
+  onCreateSmartList,
+}: ListSidebarProps = {}) {
   const lists = useTodosStore((s) => s.lists);
   const selectedListId = useTodosStore((s) => s.selectedListId);
+  const activeSmartListId = useTodosStore((s) => s.activeSmartListId);
   const setSelectedListId = useTodosStore((s) => s.setSelectedListId);
   const addList = useTodosStore((s) => s.addList);
+  const moveTodoToList = useTodosStore((s) => s.moveTodoToList);
+  const [dropListId, setDropListId] = React.useState<string | null>(null);
   const { focusListId } = useListDuplication();
   const { startRename } = useListEditing();
 
@@ -19,6 +40,20 @@ export default function ListSidebar() {
     const id = addList();
     startRename(id, `List ${lists.length + 1}`);
   }, [addList, startRename, lists.length]);
+  const openResult = React.useCallback(
+    (listId: string, todoId: number | null) => {
+      if (onOpenSearchResult) {
+        onOpenSearchResult(listId, todoId);
+      } else {
+        setSelectedListId(listId);
+      }
+    },
+    [onOpenSearchResult, setSelectedListId],
+  );
+  // Other lists accept todo rows dragged out of the current list
+  const acceptsTodoDrop = (e: React.DragEvent, listId: string) =>
+    listId !== selectedListId &&
+    Array.from(e.dataTransfer?.types ?? []).includes(TODO_DRAG_MIME);
   const listItemRefs = React.useRef<Map<string, HTMLDivElement>>(new Map());
 
   // Focus management effect
@@ -57,6 +92,8 @@ export default function ListSidebar() {
           <IoAddOutline size={18} />
         </button>
       </div>
+      <SidebarSearch onOpenResult={openResult} />
+      <SmartListsSection onCreateSmartList={onCreateSmartList} />
       <div className={styles.lists}>
         {lists.map((l) => (
           <div
@@ -71,7 +108,24 @@ export default function ListSidebar() {
                 setSelectedListId(l.id);
               }
             }}
-            className={`${styles.listItem} ${l.id === selectedListId ? styles.listItemActive : ''}`}
+            onDragOver={(e) => {
+              if (!acceptsTodoDrop(e, l.id)) return;
+              e.preventDefault();
+              setDropListId(l.id);
+            }}
+            onDragLeave={() =>
+              setDropListId((prev) => (prev === l.id ? null : prev))
+            }
+            onDrop={(e) => {
+              setDropListId(null);
+              if (!acceptsTodoDrop(e, l.id)) return;
+              e.preventDefault();
+              const todoId = Number(e.dataTransfer.getData(TODO_DRAG_MIME));
+              if (Number.isInteger(todoId)) {
+                void moveTodoToList(todoId, l.id);
+              }
+            }}
+            className={`${styles.listItem} ${l.id === selectedListId && !activeSmartListId ? styles.listItemActive : ''} ${l.id === dropListId ? styles.listItemDropTarget : ''}`}
           >
             <span className={styles.listName} title={l.name}>
               {l.name}
@@ -79,6 +133,13 @@ export default function ListSidebar() {
           </div>
         ))}
       </div>
+      <TagsSection onOpenResult={openResult} />
+      {appSettings && onUpdateAppSettings && (
+        <TrashSection
+          appSettings={appSettings}
+          onUpdateAppSettings={onUpdateAppSettings}
+        />
+      )}
     </aside>
   );
 }
@@ -0,0 +1,91 @@
+import React from 'react';
+import { IoSearchOutline } from 'react-icons/io5';
+import useTodoSearch from '../../../hooks/useTodoSearch';
+
+const styles = require('./SidebarSearch.module.css');
+
+type SidebarSearchProps = {
+  onOpenResult: (listId: string, todoId: number | null) => void;
+};
+
+export default function SidebarSearch({
+  onOpenResult,
+}: SidebarSearchProps): React.ReactElement {
+  const { query, setQuery, clear, groups, isSearching } = useTodoSearch();
+  const hasQuery = query.trim() !== '';
+
+  const openResult = (listId: string, todoId: number | null) => {
+    onOpenResult(listId, todoId);
+    clear();
+  };
+
+  const resultKeyDown =
+    (listId: string, todoId: number | null) => (e: React.KeyboardEvent) => {
+      if (e.key === 'Enter' || e.key === ' ') {
+        e.preventDefault();
+        openResult(listId, todoId);
+      }
+    };
+
+  return (
+    <div className={styles.search}>
+      <div className={styles.inputWrap}>
+        <IoSearchOutline size={14} className={styles.icon} aria-hidden />
+        <input
+          type="search"
+          value={query}
+          placeholder="Search all lists"
+          aria-label="Search all lists"
+          className={styles.input}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') {
+              e.preventDefault();
+              clear();
+            }
+          }}
+        />
+      </div>
+      {hasQuery && (
+        <div
+          className={styles.results}
+          role="region"
+          aria-label="Search results"
+          aria-busy={isSearching}
+        >
+          {!isSearching && groups.length === 0 && (
+            <div className={styles.empty}>No matches</div>
+          )}
+          {groups.map((group) => (
+            <div key={group.listId} className={styles.group}>
+              <div
+                role="button"
+                tabIndex={0}
+                className={`${styles.groupHeader} ${group.listMatched ? styles.groupHeaderMatched : ''}`}
+                title={group.listName}
+                onClick={() => openResult(group.listId, null)}
+                onKeyDown={resultKeyDown(group.listId, null)}
+              >
+                {group.listName}
+              </div>
+              {group.todos.map((hit) => (
+                <div
+                  key={`${hit.listId}:${hit.todoId}`}
+                  role="button"
+                  tabIndex={0}
+                  data-testid="search-result"
+                  className={`${styles.result} ${hit.completed ? styles.resultCompleted : ''}`}
+                  title={hit.text}
+                  onClick={() => openResult(hit.listId, hit.todoId)}
+                  onKeyDown={resultKeyDown(hit.listId, hit.todoId)}
+                >
+                  {hit.text}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
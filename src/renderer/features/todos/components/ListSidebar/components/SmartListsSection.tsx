@@ -0,0 +1,87 @@
+import React from 'react';
+import { IoAddOutline, IoCloseOutline, IoFunnelOutline } from 'react-icons/io5';
+import { useTodosStore } from '../../../store/useTodosStore';
+import { loadSmartLists } from '../../../api/storage';
+import { BUILT_IN_SMART_LISTS } from '../../../utils/smartLists';
+import { debugLogger } from '../../../../../utils/debug';
+
+const styles = require('./SmartListsSection.module.css');
+
+type SmartListsSectionProps = {
+  onCreateSmartList?: () => void;
+};
+
+export default function SmartListsSection({
+  onCreateSmartList,
+}: SmartListsSectionProps): React.ReactElement {
+  const smartLists = useTodosStore((s) => s.smartLists);
+  const activeSmartListId = useTodosStore((s) => s.activeSmartListId);
+  const setSmartLists = useTodosStore((s) => s.setSmartLists);
+  const openSmartList = useTodosStore((s) => s.openSmartList);
+  const deleteSmartList = useTodosStore((s) => s.deleteSmartList);
+
+  React.useEffect(() => {
+    const load = async () => {
+      try {
+        setSmartLists((await loadSmartLists()) ?? []);
+      } catch (error) {
+        debugLogger.log('error', 'Failed to load smart lists', error);
+      }
+    };
+    void load();
+  }, [setSmartLists]);
+
+  return (
+    <div className={styles.section}>
+      <div className={styles.header}>
+        <span>Smart lists</span>
+        {onCreateSmartList && (
+          <button
+            type="button"
+            className={styles.iconBtn}
+            title="New smart list"
+            aria-label="New smart list"
+            onClick={onCreateSmartList}
+          >
+            <IoAddOutline size={14} />
+          </button>
+        )}
+      </div>
+      <ul className={styles.items} aria-label="Smart lists">
+        {[...BUILT_IN_SMART_LISTS, ...smartLists].map((s) => {
+          const saved = smartLists.includes(s);
+          return (
+            <li
+              key={s.id}
+              className={`${styles.item} ${s.id === activeSmartListId ? styles.itemActive : ''}`}
+            >
+              <button
+                type="button"
+                className={styles.openBtn}
+                data-testid="smart-list-item"
+                aria-current={s.id === activeSmartListId ? 'page' : undefined}
+                onClick={() => openSmartList(s.id)}
+              >
+                <IoFunnelOutline size={12} aria-hidden />
+                <span className={styles.name} title={s.name}>
+                  {s.name}
+                </span>
+              </button>
+              {saved && (
+                <button
+                  type="button"
+                  className={styles.deleteBtn}
+                  title={`Delete ${s.name}`}
+                  aria-label={`Delete smart list ${s.name}`}
+                  onClick={() => deleteSmartList(s.id)}
+                >
+                  <IoCloseOutline size={14} aria-hidden />
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
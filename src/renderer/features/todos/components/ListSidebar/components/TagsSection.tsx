@@ -0,0 +1,127 @@
+import React from 'react';
+import { IoPricetagsOutline } from 'react-icons/io5';
+import useTagIndex from '../../../hooks/useTagIndex';
+import { useTodosStore } from '../../../store/useTodosStore';
+
+const styles = require('./TagsSection.module.css');
+
+type TagsSectionProps = {
+  onOpenResult: (listId: string, todoId: number | null) => void;
+};
+
+export default function TagsSection({
+  onOpenResult,
+}: TagsSectionProps): React.ReactElement {
+  const [open, setOpen] = React.useState(false);
+  const { tags, selectedTag, selectTag, groups } = useTagIndex(open);
+  const setTagFilter = useTodosStore((s) => s.setTagFilter);
+
+  const activateKeyDown = (action: () => void) => (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      action();
+    }
+  };
+
+  return (
+    <div className={styles.tags}>
+      <button
+        type="button"
+        className={`${styles.toggle} ${open ? styles.toggleOpen : ''}`}
+        aria-expanded={open}
+        data-testid="tags-toggle"
+        onClick={() => {
+          setOpen((v) => !v);
+          selectTag(null);
+        }}
+      >
+        <IoPricetagsOutline size={14} aria-hidden />
+        <span>Tags</span>
+      </button>
+      {open && !selectedTag && (
+        <div className={styles.panel} role="region" aria-label="Tags">
+          {tags.length === 0 ? (
+            <div className={styles.empty}>
+              Add #tags to todos to group them here
+            </div>
+          ) : (
+            <ul className={styles.tagList}>
+              {tags.map(({ tag, count }) => (
+                <li key={tag}>
+                  <button
+                    type="button"
+                    className={styles.tagItem}
+                    onClick={() => selectTag(tag)}
+                  >
+                    <span className={styles.tagName}>#{tag}</span>
+                    <span className={styles.tagCount}>{count}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+      {open && selectedTag && (
+        <div
+          className={styles.panel}
+          role="region"
+          aria-label={`Todos tagged #${selectedTag}`}
+        >
+          <div className={styles.viewHeader}>
+            <button
+              type="button"
+              className={styles.textBtn}
+              onClick={() => selectTag(null)}
+            >
+              All tags
+            </button>
+            <button
+              type="button"
+              className={styles.textBtn}
+              onClick={() => setTagFilter(selectedTag)}
+            >
+              Filter current list
+            </button>
+          </div>
+          <div className={styles.viewTitle}>#{selectedTag}</div>
+          {groups.length === 0 && (
+            <div className={styles.empty}>No todos carry this tag</div>
+          )}
+          {groups.map((group) => (
+            <div key={group.listId} className={styles.group}>
+              <div
+                role="button"
+                tabIndex={0}
+                className={styles.groupHeader}
+                title={group.listName}
+                onClick={() => onOpenResult(group.listId, null)}
+                onKeyDown={activateKeyDown(() =>
+                  onOpenResult(group.listId, null),
+                )}
+              >
+                {group.listName}
+              </div>
+              {group.todos.map((hit) => (
+                <div
+                  key={`${hit.listId}:${hit.todoId}`}
+                  role="button"
+                  tabIndex={0}
+                  data-testid="tag-result"
+                  className={`${styles.result} ${hit.completed ? styles.resultCompleted : ''}`}
+                  title={hit.text}
+                  onClick={() => onOpenResult(hit.listId, hit.todoId)}
+                  onKeyDown={activateKeyDown(() =>
+                    onOpenResult(hit.listId, hit.todoId),
+                  )}
+                >
+                  {hit.text}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
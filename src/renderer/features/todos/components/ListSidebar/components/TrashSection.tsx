@@ -0,0 +1,124 @@
+import React from 'react';
+import { IoTrashOutline } from 'react-icons/io5';
+import type { AppSettings } from '../../../types';
+import useTrash from '../../../hooks/useTrash';
+import { DEFAULT_TRASH_RETENTION_DAYS } from '../../../utils/constants';
+
+const styles = require('./TrashSection.module.css');
+
+const RETENTION_OPTIONS: Array<{ days: number; label: string }> = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 0, label: 'Forever' },
+];
+
+type TrashSectionProps = {
+  appSettings: AppSettings;
+  onUpdateAppSettings: (settings: AppSettings) => void;
+};
+
+export default function TrashSection({
+  appSettings,
+  onUpdateAppSettings,
+}: TrashSectionProps): React.ReactElement {
+  const [open, setOpen] = React.useState(false);
+  const [confirmingId, setConfirmingId] = React.useState<string | null>(null);
+  const { items, restore, purge, empty } = useTrash(open);
+  const retentionDays =
+    appSettings.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+
+  // Permanent deletes take two clicks; the first one arms the button
+  const confirmThen = (key: string, action: () => Promise<boolean>) => {
+    if (confirmingId !== key) {
+      setConfirmingId(key);
+      return;
+    }
+    setConfirmingId(null);
+    void action();
+  };
+
+  return (
+    <div className={styles.trash}>
+      <button
+        type="button"
+        className={`${styles.toggle} ${open ? styles.toggleOpen : ''}`}
+        aria-expanded={open}
+        data-testid="trash-toggle"
+        onClick={() => {
+          setOpen((v) => !v);
+          setConfirmingId(null);
+        }}
+      >
+        <IoTrashOutline size={14} aria-hidden />
+        <span>Trash</span>
+      </button>
+      {open && (
+        <div className={styles.panel} role="region" aria-label="Trash">
+          {items.length === 0 ? (
+            <div className={styles.empty}>Trash is empty</div>
+          ) : (
+            <ul className={styles.items}>
+              {items.map((item) => (
+                <li key={item.id} className={styles.item}>
+                  <span className={styles.itemName} title={item.name}>
+                    {item.name}
+                  </span>
+                  <span className={styles.itemMeta}>
+                    {item.todoCount} {item.todoCount === 1 ? 'todo' : 'todos'}
+                  </span>
+                  <span className={styles.itemActions}>
+                    <button
+                      type="button"
+                      className={styles.textBtn}
+                      onClick={() => restore(item.id)}
+                    >
+                      Restore
+                    </button>
+                    <button
+                      type="button"
+                      className={`${styles.textBtn} ${styles.dangerBtn}`}
+                      onClick={() => confirmThen(item.id, () => purge(item.id))}
+                    >
+                      {confirmingId === item.id ? 'Confirm' : 'Delete'}
+                    </button>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className={styles.footer}>
+            <label className={styles.retention}>
+              <span>Keep for</span>
+              <select
+                value={retentionDays}
+                aria-label="Trash retention"
+                onChange={(e) =>
+                  onUpdateAppSettings({
+                    ...appSettings,
+                    trashRetentionDays: Number(e.target.value),
+                  })
+                }
+              >
+                {RETENTION_OPTIONS.map((o) => (
+                  <option key={o.days} value={o.days}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {items.length > 0 && (
+              <button
+                type="button"
+                className={`${styles.textBtn} ${styles.dangerBtn}`}
+                onClick={() => confirmThen('*', empty)}
+              >
+                {confirmingId === '*' ? 'Confirm empty' : 'Empty Trash'}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import React from 'react';
+import type { QuickAddToken } from '../../utils/quickAdd';
+
+const styles = require('./QuickAddPreview.module.css');
+
+const KIND_LABELS: Record<QuickAddToken['kind'], string> = {
+  date: 'Due',
+  time: 'At',
+  priority: 'Priority',
+  tag: 'Tag',
+  list: 'List',
+};
+
+type QuickAddPreviewProps = {
+  tokens: QuickAddToken[];
+  onKeepRawText: () => void;
+};
+
+/**
+ * Chips for what quick add recognized in the text being typed, plus a
+ * "Keep as text" chip that saves the text exactly as typed instead.
+ */
+export function QuickAddPreview({
+  tokens,
+  onKeepRawText,
+}: QuickAddPreviewProps): React.ReactElement {
+  return (
+    <div
+      className={styles.preview}
+      data-testid="quick-add-preview"
+      aria-live="polite"
+    >
+      {tokens.map((token) => (
+        <span
+          key={`${token.kind}:${token.raw}`}
+          className={`${styles.token} ${styles[token.kind] ?? ''}`}
+          title={`"${token.raw}"`}
+        >
+          <span className={styles.kind}>{KIND_LABELS[token.kind]}</span>
+          {token.label}
+        </span>
+      ))}
+      <button
+        type="button"
+        className={styles.keepRaw}
+        // Keep focus in the input being typed into
+        onMouseDown={(e) => e.preventDefault()}
+        onClick={onKeepRawText}
+      >
+        Keep as text
+      </button>
+    </div>
+  );
+}
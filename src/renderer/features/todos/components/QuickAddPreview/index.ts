@@ -0,0 +1 @@
+export { QuickAddPreview } from './QuickAddPreview';
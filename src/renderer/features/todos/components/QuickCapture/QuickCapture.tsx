@@ -0,0 +1,126 @@
+import React from 'react';
+import {
+  addQuickCaptureTodo,
+  closeQuickCapture,
+  loadQuickCaptureContext,
+  type QuickCaptureContext,
+} from '../../api/storage';
+import { hasQuickAddFields, parseQuickAdd } from '../../utils/quickAdd';
+import { QuickAddPreview } from '../QuickAddPreview';
+
+const styles = require('./QuickCapture.module.css');
+
+/**
+ * Contents of the small always-on-top capture window: type a todo, pick a
+ * list (defaults to the list selected in the main window), press Enter.
+ * Dates, times, priority and `@List` typed into the text are picked up by
+ * quick add unless the user chooses to keep the text as typed.
+ */
+export default function QuickCapture(): React.ReactElement {
+  const [context, setContext] = React.useState<QuickCaptureContext>({
+    lists: [],
+    selectedListId: null,
+  });
+  const [listId, setListId] = React.useState('');
+  const [text, setText] = React.useState('');
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [keepRawText, setKeepRawText] = React.useState(false);
+  const inputRef = React.useRef<HTMLInputElement | null>(null);
+
+  React.useEffect(() => {
+    loadQuickCaptureContext()
+      .then((ctx) => {
+        setContext(ctx);
+        const initial =
+          ctx.lists.find((l) => l.id === ctx.selectedListId)?.id ??
+          ctx.lists[0]?.id ??
+          '';
+        setListId(initial);
+      })
+      .catch(() => {});
+    inputRef.current?.focus();
+  }, []);
+
+  const parsed = React.useMemo(() => {
+    if (keepRawText) return null;
+    const result = parseQuickAdd(text, { lists: context.lists });
+    return hasQuickAddFields(result) ? result : null;
+  }, [text, context.lists, keepRawText]);
+
+  const submit = async () => {
+    if (!text.trim() || !listId || isSaving) return;
+    setIsSaving(true);
+    setError(null);
+    const ok = parsed
+      ? await addQuickCaptureTodo(parsed.listId ?? listId, parsed.text, {
+          dueDate: parsed.dueDate,
+          dueTime: parsed.dueTime,
+          priority: parsed.priority,
+        })
+      : await addQuickCaptureTodo(listId, text);
+    // On success the main process closes this window
+    if (!ok) {
+      setError("Couldn't save the todo");
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form
+      className={styles.capture}
+      onSubmit={(e) => {
+        e.preventDefault();
+        void submit();
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') {
+          e.preventDefault();
+          void closeQuickCapture();
+        }
+      }}
+    >
+      <input
+        ref={inputRef}
+        className={styles.input}
+        aria-label="New todo"
+        placeholder="Add a todo…"
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          // Choosing to keep the text only lasts until it's cleared
+          if (!e.target.value.trim()) setKeepRawText(false);
+        }}
+        disabled={isSaving}
+      />
+      {parsed && (
+        <QuickAddPreview
+          tokens={parsed.tokens}
+          onKeepRawText={() => setKeepRawText(true)}
+        />
+      )}
+      <div className={styles.footer}>
+        <select
+          className={styles.listPicker}
+          aria-label="List"
+          value={listId}
+          onChange={(e) => setListId(e.target.value)}
+          disabled={isSaving || context.lists.length === 0}
+        >
+          {context.lists.map((l) => (
+            <option key={l.id} value={l.id}>
+              {l.name}
+            </option>
+          ))}
+        </select>
+        {error ? (
+          <span className={styles.error} role="alert">
+            {error}
+          </span>
+        ) : (
+          <span className={styles.hint}>Enter to add · Esc to close</span>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1 @@
+export { default as QuickCapture } from './QuickCapture';
@@ -0,0 +1,275 @@
+import React from 'react';
+import { IoCreateOutline } from 'react-icons/io5';
+import { TodoRow } from '../TodoRow';
+import { useTodosStore } from '../../store/useTodosStore';
+import useSmartList from '../../hooks/useSmartList';
+import { isBuiltInSmartList } from '../../utils/smartLists';
+import { PRIORITY_LABELS, PRIORITY_LEVELS } from '../../utils/priority';
+import { extractTags } from '../../utils/tags';
+import {
+  normalizeSmartListFilter,
+  type SmartListDefinition,
+  type SmartListDue,
+  type SmartListStatus,
+} from '../../../../../shared/smartLists';
+
+const styles = require('./SmartListView.module.css');
+
+const STATUS_OPTIONS: Array<[SmartListStatus, string]> = [
+  ['open', 'Open'],
+  ['completed', 'Completed'],
+  ['completedToday', 'Completed today'],
+  ['all', 'All'],
+];
+
+const DUE_OPTIONS: Array<[SmartListDue, string]> = [
+  ['any', 'Any time'],
+  ['overdue', 'Overdue'],
+  ['today', 'Due today'],
+  ['upcoming', 'Next 7 days'],
+  ['dated', 'Has a due date'],
+  ['undated', 'No due date'],
+];
+
+const noop = () => {};
+
+type SmartListEditorProps = {
+  definition: SmartListDefinition;
+  onSave: (definition: SmartListDefinition) => void;
+  onCancel: () => void;
+};
+
+function SmartListEditor({
+  definition,
+  onSave,
+  onCancel,
+}: SmartListEditorProps): React.ReactElement {
+  const lists = useTodosStore((s) => s.lists);
+  const [draft, setDraft] = React.useState(definition);
+  const { filter } = draft;
+  const setFilter = (patch: Partial<SmartListDefinition['filter']>) =>
+    setDraft((prev) => ({ ...prev, filter: { ...prev.filter, ...patch } }));
+
+  return (
+    <form
+      className={styles.editor}
+      aria-label="Smart list filter"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSave({
+          ...draft,
+          name: draft.name.trim() || definition.name,
+          filter: normalizeSmartListFilter(draft.filter),
+        });
+      }}
+    >
+      <label className={styles.field}>
+        <span>Name</span>
+        <input
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+        />
+      </label>
+      <label className={styles.field}>
+        <span>Status</span>
+        <select
+          value={filter.status}
+          onChange={(e) =>
+            setFilter({ status: e.target.value as SmartListStatus })
+          }
+        >
+          {STATUS_OPTIONS.map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className={styles.field}>
+        <span>Due</span>
+        <select
+          value={filter.due}
+          onChange={(e) => setFilter({ due: e.target.value as SmartListDue })}
+        >
+          {DUE_OPTIONS.map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className={styles.field}>
+        <span>Tag</span>
+        <input
+          value={filter.tag ?? ''}
+          placeholder="any"
+          onChange={(e) => setFilter({ tag: e.target.value })}
+        />
+      </label>
+      <label className={styles.field}>
+        <span>Priority</span>
+        <select
+          value={filter.minPriority ?? ''}
+          onChange={(e) =>
+            setFilter({
+              minPriority:
+                PRIORITY_LEVELS.find((p) => p === e.target.value) ?? null,
+            })
+          }
+        >
+          <option value="">Any</option>
+          {PRIORITY_LEVELS.map((p) => (
+            <option key={p} value={p}>
+              {PRIORITY_LABELS[p]} or higher
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className={styles.field}>
+        <span>Contains</span>
+        <input
+          value={filter.text}
+          onChange={(e) => setFilter({ text: e.target.value })}
+        />
+      </label>
+      <fieldset className={styles.lists}>
+        <legend>Lists (none checked = all)</legend>
+        {lists.map((l) => (
+          <label key={l.id} className={styles.listOption}>
+            <input
+              type="checkbox"
+              checked={filter.listIds.includes(l.id)}
+              onChange={(e) =>
+                setFilter({
+                  listIds: e.target.checked
+                    ? [...filter.listIds, l.id]
+                    : filter.listIds.filter((id) => id !== l.id),
+                })
+              }
+            />
+            {l.name}
+          </label>
+        ))}
+      </fieldset>
+      <div className={styles.editorActions}>
+        <button type="button" onClick={onCancel}>
+          Cancel
+        </button>
+        <button type="submit">Save</button>
+      </div>
+    </form>
+  );
+}
+
+type SmartListViewProps = {
+  // Saved smart list to open straight into the filter editor (a new one)
+  editingId?: string | null;
+  onEditingChange?: (id: string | null) => void;
+};
+
+/**
+ * Main pane for an open smart list: matching todos from every list, grouped
+ * by list. Rows edit the todo in its own list through the regular store
+ * actions, so changes are saved and undoable like any other edit.
+ */
+export default function SmartListView({
+  editingId = null,
+  onEditingChange = noop,
+}: SmartListViewProps): React.ReactElement | null {
+  const { definition, groups, loading } = useSmartList();
+  const lists = useTodosStore((s) => s.lists);
+  const setSelectedListId = useTodosStore((s) => s.setSelectedListId);
+  const saveSmartList = useTodosStore((s) => s.saveSmartList);
+  const toggleTodo = useTodosStore((s) => s.toggleTodo);
+  const updateTodo = useTodosStore((s) => s.updateTodo);
+  const setDueDate = useTodosStore((s) => s.setDueDate);
+  const setPriority = useTodosStore((s) => s.setPriority);
+
+  if (!definition) return null;
+  const editable = !isBuiltInSmartList(definition.id);
+  const editing = editable && editingId === definition.id;
+  const total = groups.reduce((n, g) => n + g.todos.length, 0);
+
+  let subtitle = `${total} ${total === 1 ? 'item' : 'items'} across ${lists.length} ${lists.length === 1 ? 'list' : 'lists'}`;
+  if (loading) subtitle = 'Loading lists…';
+
+  return (
+    <section className={styles.view} aria-label={definition.name}>
+      <div className={styles.titleRow}>
+        <h1 className={styles.title}>{definition.name}</h1>
+        {editable && !editing && (
+          <button
+            type="button"
+            className={styles.iconBtn}
+            title="Edit smart list"
+            aria-label="Edit smart list"
+            onClick={() => onEditingChange(definition.id)}
+          >
+            <IoCreateOutline size={16} />
+          </button>
+        )}
+      </div>
+      <p className={styles.subtitle}>{subtitle}</p>
+      {editing && (
+        <SmartListEditor
+          key={definition.id}
+          definition={definition}
+          onCancel={() => onEditingChange(null)}
+          onSave={(next) => {
+            saveSmartList(next);
+            onEditingChange(null);
+          }}
+        />
+      )}
+      {!loading && groups.length === 0 && (
+        <p className={styles.empty}>Nothing matches this smart list.</p>
+      )}
+      {groups.map((group) => (
+        <div
+          key={group.listId}
+          className={styles.group}
+          data-testid="smart-list-group"
+        >
+          <button
+            type="button"
+            className={styles.groupHeader}
+            title={`Open ${group.listName}`}
+            onClick={() => setSelectedListId(group.listId)}
+          >
+            {group.listName}
+          </button>
+          {group.todos.map((todo) => (
+            <TodoRow
+              key={todo.id}
+              value={todo.text}
+              checked={todo.completed}
+              dueDate={todo.dueDate ?? null}
+              onDueDateChange={(dueDate) =>
+                setDueDate(todo.id, dueDate, group.listId)
+              }
+              priority={todo.priority ?? null}
+              onPriorityChange={(priority) =>
+                setPriority(todo.id, priority, group.listId)
+              }
+              tags={extractTags(todo.text)}
+              onToggle={() => toggleTodo(todo.id, group.listId)}
+              onChange={(e) =>
+                updateTodo(todo.id, e.target.value, undefined, group.listId)
+              }
+              onKeyDown={(e) => {
+                // Rows here are edited in place; structure changes happen in
+                // the list itself
+                if (e.key === 'Enter') e.preventDefault();
+              }}
+              onDragStart={noop}
+              onDragOver={noop}
+              onDragLeave={noop}
+              onDrop={noop}
+              onDragEnd={noop}
+            />
+          ))}
+        </div>
+      ))}
+    </section>
+  );
+}
@@ -0,0 +1 @@
+export { default as SmartListView } from './SmartListView';
@@ -2,14 +2,25 @@ import React from 'react';
 import ListSidebar from '../ListSidebar/ListSidebar';
 import TodoList from '../TodoList/TodoList';
 import TodoListHeader from '../TodoListHeader/TodoListHeader';
-import type { AppSettings } from '../../types';
-import { useSelectedTodos } from '../../store/useTodosStore';
+import TodoDetailPane from '../TodoDetailPane/TodoDetailPane';
+import CommandPalette from '../CommandPalette/CommandPalette';
+import SmartListView from '../SmartListView/SmartListView';
+import type { AppSettings, AppSettingsSaveResult } from '../../types';
+import { useSelectedTodos, useTodosStore } from '../../store/useTodosStore';
 import useTodoFocus, { useTodoFocusEffect } from '../../hooks/useTodoFocus';
 import useListEditing from '../../hooks/useListEditing';
 import useListDuplication from '../../hooks/useListDuplication';
 import useListsIndex from '../../hooks/useListsIndex';
 import useTodosPersistence from '../../hooks/useTodosPersistence';
+import useUndoRedoShortcuts from '../../hooks/useUndoRedoShortcuts';
+import { useMarkdownMenuCommands } from '../../hooks/useMarkdownTransfer';
+import useQuickCaptureSync from '../../hooks/useQuickCaptureSync';
+import useTrayOpenList from '../../hooks/useTrayOpenList';
+import useReminderOpenTodo from '../../hooks/useReminderOpenTodo';
+import useAppCommands from '../../hooks/useAppCommands';
 import { loadAppSettings, saveAppSettings } from '../../api/storage';
+import { filterTodosByTag } from '../../utils/tags';
+import { DEFAULT_SMART_LIST_FILTER } from '../../../../../shared/smartLists';
 import { debugLogger } from '../../../../utils/debug';
 
 const styles = require('./TodoApp.module.css');
@@ -18,6 +29,10 @@ export default function TodoApp(): React.ReactElement {
   // Initialize lists from storage and persistence
   useListsIndex();
   useTodosPersistence();
+  useUndoRedoShortcuts();
+  useMarkdownMenuCommands();
+  useQuickCaptureSync();
+  useTrayOpenList();
   const [appSettings, setAppSettings] = React.useState<AppSettings>({
     hideCompletedItems: true,
   });
@@ -36,40 +51,115 @@ export default function TodoApp(): React.ReactElement {
       });
   }, []);
   const updateAppSettings = React.useCallback(
-    async (newSettings: AppSettings) => {
+    async (newSettings: AppSettings): Promise<AppSettingsSaveResult> => {
       setAppSettings(newSettings);
-      await saveAppSettings(newSettings);
+      const result = await saveAppSettings(newSettings);
+      if (!result.success) {
+        // Nothing was saved; show what the app is actually using
+        loadAppSettings()
+          .then(setAppSettings)
+          .catch((error) => {
+            debugLogger.log('warn', 'Failed to reload app settings', error);
+          });
+      }
+      return result;
     },
     [],
   );
+  const { runCommand } = useAppCommands(appSettings, updateAppSettings);
 
   const allTodos = useSelectedTodos();
 
-  const { inputByIdRef, focusNextIdRef, setInputRef, focusTodo } =
+  const { inputByIdRef, focusNextIdRef, setInputRef, focusTodo, moveFocusTo } =
     useTodoFocus();
 
   const { isEditingRef } = useListEditing();
 
   useTodoFocusEffect(allTodos, focusNextIdRef, inputByIdRef, isEditingRef);
 
+  const setSelectedListId = useTodosStore((s) => s.setSelectedListId);
+  const setTagFilter = useTodosStore((s) => s.setTagFilter);
+  const revealTodo = useTodosStore((s) => s.revealTodo);
+  const openSearchResult = React.useCallback(
+    (listId: string, todoId: number | null) => {
+      const { selectedListId, tagFilter, getListById } =
+        useTodosStore.getState();
+      const alreadySelected = selectedListId === listId;
+      setSelectedListId(listId);
+      if (todoId == null) return;
+      // Don't leave the opened todo hidden behind a #tag filter
+      if (
+        tagFilter &&
+        !filterTodosByTag(getListById(listId)?.todos ?? [], tagFilter).some(
+          (t) => t.id === todoId,
+        )
+      ) {
+        setTagFilter(null);
+      }
+      // ...or inside a collapsed subtree
+      revealTodo(listId, todoId);
+      // Switching lists re-runs the focus effect once the new rows mount;
+      // within the current list nothing re-renders, so focus directly.
+      if (alreadySelected) {
+        moveFocusTo(todoId);
+      } else {
+        focusTodo(todoId);
+      }
+    },
+    [setSelectedListId, setTagFilter, revealTodo, focusTodo, moveFocusTo],
+  );
+  useReminderOpenTodo(openSearchResult);
+
+  const activeSmartListId = useTodosStore((s) => s.activeSmartListId);
+  const saveSmartList = useTodosStore((s) => s.saveSmartList);
+  const openSmartList = useTodosStore((s) => s.openSmartList);
+  const [editingSmartListId, setEditingSmartListId] = React.useState<
+    string | null
+  >(null);
+  const createSmartList = React.useCallback(() => {
+    const id = `smart-${crypto?.randomUUID?.() || Date.now()}`;
+    saveSmartList({
+      id,
+      name: 'New smart list',
+      filter: DEFAULT_SMART_LIST_FILTER,
+    });
+    openSmartList(id);
+    setEditingSmartListId(id);
+  }, [saveSmartList, openSmartList]);
+
   return (
     <div className={styles.layout}>
       {/* Sidebar */}
-      <ListSidebar />
+      <ListSidebar
+        onOpenSearchResult={openSearchResult}
+        appSettings={appSettings}
+        onUpdateAppSettings={updateAppSettings}
+        onCreateSmartList={createSmartList}
+      />
 
       {/* Main content */}
       <div className={styles.container}>
         <div className={styles.content}>
-          <TodoListHeader
-            appSettings={appSettings}
-            onUpdateAppSettings={updateAppSettings}
-          />
+          {activeSmartListId ? (
+            <SmartListView
+              editingId={editingSmartListId}
+              onEditingChange={setEditingSmartListId}
+            />
+          ) : (
+            <>
+              <TodoListHeader
+                appSettings={appSettings}
+                onUpdateAppSettings={updateAppSettings}
+              />
 
-          <TodoList
-            appSettings={appSettings}
-            setInputRef={setInputRef}
-            focusTodo={focusTodo}
-          />
+              <TodoList
+                appSettings={appSettings}
+                setInputRef={setInputRef}
+                focusTodo={focusTodo}
+                moveFocus={moveFocusTo}
+              />
+            </>
+          )}
         </div>
 
         {/* ARIA live region for status messages */}
@@ -88,6 +178,12 @@ export default function TodoApp(): React.ReactElement {
           {statusMessage}
         </div>
       </div>
+
+      {/* Notes for the selected todo */}
+      <TodoDetailPane />
+
+      {/* Cmd/Ctrl+K */}
+      <CommandPalette runCommand={runCommand} />
     </div>
   );
 }
@@ -0,0 +1,65 @@
+import React from 'react';
+import { IoCloseOutline } from 'react-icons/io5';
+import { useSelectedTodos, useTodosStore } from '../../store/useTodosStore';
+
+const styles = require('./TodoDetailPane.module.css');
+
+/**
+ * Side pane for the todo picked with the row's notes button or Cmd/Ctrl+I.
+ * Notes go through the store like title edits, so they are saved by the same
+ * debounced persistence queue.
+ */
+export default function TodoDetailPane(): React.ReactElement | null {
+  const detailTodoId = useTodosStore((s) => s.detailTodoId);
+  const closeTodoDetail = useTodosStore((s) => s.closeTodoDetail);
+  const setTodoNotes = useTodosStore((s) => s.setTodoNotes);
+  const todos = useSelectedTodos();
+  const todo = todos.find((t) => t.id === detailTodoId);
+  const notesRef = React.useRef<HTMLTextAreaElement | null>(null);
+
+  React.useEffect(() => {
+    if (detailTodoId != null) notesRef.current?.focus();
+  }, [detailTodoId]);
+
+  if (!todo) return null;
+
+  return (
+    <aside
+      className={styles.pane}
+      aria-label="Todo details"
+      data-testid="todo-detail-pane"
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') {
+          e.preventDefault();
+          closeTodoDetail();
+        }
+      }}
+    >
+      <div className={styles.header}>
+        <h2
+          className={`${styles.title} ${todo.completed ? styles.titleCompleted : ''}`}
+          title={todo.text}
+        >
+          {todo.text.trim() || 'Untitled todo'}
+        </h2>
+        <button
+          type="button"
+          className={styles.closeBtn}
+          aria-label="Close details"
+          onClick={closeTodoDetail}
+        >
+          <IoCloseOutline size={18} />
+        </button>
+      </div>
+      <textarea
+        ref={notesRef}
+        aria-label="Notes"
+        data-testid="todo-notes"
+        className={styles.notes}
+        placeholder="Add notes, links, steps…"
+        value={todo.notes ?? ''}
+        onChange={(e) => setTodoNotes(todo.id, e.target.value)}
+      />
+    </aside>
+  );
+}
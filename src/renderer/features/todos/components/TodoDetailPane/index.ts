@@ -0,0 +1 @@
+export { default as TodoDetailPane } from './TodoDetailPane';
@@ -1,10 +1,16 @@
 import React from 'react';
 import { TodoRow } from '../TodoRow/TodoRow';
-import type { Section, AppSettings } from '../../types';
+import type { Section, AppSettings, EditorTodo } from '../../types';
+import type { FocusPosition } from '../../hooks/useTodoFocus';
 import { useTodosStore, useSelectedTodos } from '../../store/useTodosStore';
 import useDragReorder from '../../hooks/useDragReorder';
 import useFilteredTodos from '../../hooks/useFilteredTodos';
 import useTodoKeyboardHandlers from '../../hooks/useTodoKeyboardHandlers';
+import useOutlinePaste from '../../hooks/useOutlinePaste';
+import { extractTags } from '../../utils/tags';
+import { hasQuickAddFields, parseQuickAdd } from '../../utils/quickAdd';
+import { computeHiddenTodoIds, findParentIds } from '../../utils/collapse';
+import { TODO_DRAG_MIME } from '../../utils/constants';
 import {
   groupTodosBySection,
   computeSectionById,
@@ -25,22 +31,97 @@ const styles = require('./TodoList.module.css');
 type Props = {
   appSettings: AppSettings;
   setInputRef: (id: number, el: HTMLTextAreaElement | null) => void;
-  focusTodo: (id: number) => void;
+  focusTodo: (id: number, position?: FocusPosition) => void;
+  moveFocus?: (id: number, position?: FocusPosition) => void;
 };
 
 const TodoList = React.memo(function TodoList({
   appSettings,
   setInputRef,
   focusTodo,
+  moveFocus,
 }: Props) {
   const updateTodo = useTodosStore((s) => s.updateTodo);
   const toggleTodo = useTodosStore((s) => s.toggleTodo);
   const insertTodoBelow = useTodosStore((s) => s.insertTodoBelow);
   const removeTodoAt = useTodosStore((s) => s.removeTodoAt);
   const changeIndent = useTodosStore((s) => s.changeIndent);
+  const setDueDate = useTodosStore((s) => s.setDueDate);
+  const setDueTime = useTodosStore((s) => s.setDueTime);
+  const applyQuickAdd = useTodosStore((s) => s.applyQuickAdd);
+  const setRecurrence = useTodosStore((s) => s.setRecurrence);
+  const setPriority = useTodosStore((s) => s.setPriority);
+  const openTodoDetail = useTodosStore((s) => s.openTodoDetail);
+  const setCollapsed = useTodosStore((s) => s.setCollapsed);
+  const setAllCollapsed = useTodosStore((s) => s.setAllCollapsed);
+  const moveTodoSubtree = useTodosStore((s) => s.moveTodoSubtree);
+  const moveTodoToList = useTodosStore((s) => s.moveTodoToList);
+  const allLists = useTodosStore((s) => s.lists);
+  const currentListId = useTodosStore((s) => s.selectedListId);
+  const reorderTodos = useTodosStore((s) => s.reorderTodos);
+  const setTodoParent = useTodosStore((s) => s.setTodoParent);
+  const tagFilter = useTodosStore((s) => s.tagFilter);
+  const setTagFilter = useTodosStore((s) => s.setTagFilter);
 
   const allTodos = useSelectedTodos();
 
+  const moveTargets = React.useMemo(
+    () =>
+      allLists
+        .filter((l) => l.id !== currentListId)
+        .map((l) => ({ id: l.id, name: l.name })),
+    [allLists, currentListId],
+  );
+  const quickAddLists = React.useMemo(
+    () => allLists.map((l) => ({ id: l.id, name: l.name })),
+    [allLists],
+  );
+
+  // Quick add only parses new rows: ones that have been blank since they
+  // were last committed. Rows the user chose to keep as typed are skipped.
+  const draftIdsRef = React.useRef(new Set<number>());
+  const [rawTextIds, setRawTextIds] = React.useState<Set<number>>(new Set());
+  const [focusedId, setFocusedId] = React.useState<number | null>(null);
+  React.useEffect(() => {
+    const blank = allTodos.filter((t) => t.text === '').map((t) => t.id);
+    blank.forEach((id) => draftIdsRef.current.add(id));
+    if (blank.some((id) => rawTextIds.has(id))) {
+      setRawTextIds(
+        (prev) => new Set([...prev].filter((id) => !blank.includes(id))),
+      );
+    }
+  }, [allTodos, rawTextIds]);
+
+  const commitQuickAdd = React.useCallback(
+    (id: number, text: string) => {
+      if (!draftIdsRef.current.delete(id)) return false;
+      if (rawTextIds.has(id)) {
+        setRawTextIds((prev) => new Set([...prev].filter((x) => x !== id)));
+        return false;
+      }
+      const parsed = parseQuickAdd(text, { lists: quickAddLists });
+      if (!hasQuickAddFields(parsed)) return false;
+      applyQuickAdd(id, parsed);
+      if (parsed.listId && parsed.listId !== currentListId) {
+        void moveTodoToList(id, parsed.listId);
+      }
+      return true;
+    },
+    [rawTextIds, quickAddLists, applyQuickAdd, moveTodoToList, currentListId],
+  );
+
+  const quickAddTokensFor = (todo: EditorTodo) => {
+    if (
+      todo.id !== focusedId ||
+      rawTextIds.has(todo.id) ||
+      !draftIdsRef.current.has(todo.id)
+    ) {
+      return undefined;
+    }
+    const parsed = parseQuickAdd(todo.text, { lists: quickAddLists });
+    return hasQuickAddFields(parsed) ? parsed.tokens : undefined;
+  };
+
   // Adapter to allow hooks expecting setSelectedTodos(updater)
   const setSelectedTodos = React.useCallback(
     (
@@ -65,19 +146,22 @@ const TodoList = React.memo(function TodoList({
     [],
   );
 
-  // Note: Keyboard handlers are in TodoList (child) rather than parent (TodoApp)
-  // per dev rules. However, correctness is preserved because:
-  // 1. We pass `allTodos` (unfiltered) to ensure operations work on full list
-  // 2. The handler uses `allTodos.findIndex()` to locate todos, avoiding filtered/full-list drift
-  // 3. `hideCompletedItems` is passed to respect visibility settings for merge logic
-  const handleTodoKeyDown = useTodoKeyboardHandlers({
+  // Drag drops go through the store action so they land on the undo stack
+  const reorderSelectedTodos = React.useCallback(
+    (updater: (prev: EditorTodo[]) => EditorTodo[]) => {
+      const current = useTodosStore.getState().getSelectedList();
+      if (!current) return;
+      reorderTodos(updater(current.todos));
+    },
+    [reorderTodos],
+  );
+
+  const handleTodoPaste = useOutlinePaste({
     allTodos,
-    changeIndent,
-    insertTodoBelow,
-    removeTodoAt,
     updateTodo,
+    insertTodoBelow,
+    setTodoParent,
     focusTodo,
-    hideCompletedItems: appSettings.hideCompletedItems,
   });
 
   const { filteredTodos: todos, insertBelowAndFocus } = useFilteredTodos(
@@ -87,6 +171,7 @@ const TodoList = React.memo(function TodoList({
     removeTodoAt,
     setSelectedTodos,
     focusTodo,
+    tagFilter,
   );
 
   const sectionOf = (id: number): Section => {
@@ -104,7 +189,7 @@ const TodoList = React.memo(function TodoList({
     handleDragOverEndZone,
     handleDragLeaveEndZone,
     handleDropAtEnd,
-  } = useDragReorder(() => todos, setSelectedTodos, sectionOf);
+  } = useDragReorder(() => todos, reorderSelectedTodos, sectionOf);
   // Keep latest todos in a ref so cached handlers can access fresh data
   const todosRef = React.useRef(todos);
   React.useEffect(() => {
@@ -122,6 +207,51 @@ const TodoList = React.memo(function TodoList({
     return groupTodosBySection(todos);
   }, [todos]);
 
+  // Collapse state comes from the full list so a parent hidden by a filter
+  // still hides its children; rows are only skipped at render time so
+  // sectioning and checkbox state still see the whole subtree
+  const parentIds = React.useMemo(() => findParentIds(allTodos), [allTodos]);
+  const hiddenIds = React.useMemo(
+    () => computeHiddenTodoIds(allTodos),
+    [allTodos],
+  );
+  const visibleActive = React.useMemo(
+    () => derived.active.filter((t) => !hiddenIds.has(t.id)),
+    [derived, hiddenIds],
+  );
+  const visibleCompleted = React.useMemo(
+    () => derived.completed.filter((t) => !hiddenIds.has(t.id)),
+    [derived, hiddenIds],
+  );
+  const visibleTodoIds = React.useMemo(
+    () => [...visibleActive, ...visibleCompleted].map((t) => t.id),
+    [visibleActive, visibleCompleted],
+  );
+
+  // Note: Keyboard handlers are in TodoList (child) rather than parent (TodoApp)
+  // per dev rules. However, correctness is preserved because:
+  // 1. We pass `allTodos` (unfiltered) to ensure operations work on full list
+  // 2. The handler uses `allTodos.findIndex()` to locate todos, avoiding filtered/full-list drift
+  // 3. `hideCompletedItems` is passed to respect visibility settings for merge logic
+  // 4. Arrow navigation follows `visibleTodoIds`, the rows in on-screen order
+  const handleTodoKeyDown = useTodoKeyboardHandlers({
+    allTodos,
+    changeIndent,
+    insertTodoBelow,
+    removeTodoAt,
+    updateTodo,
+    focusTodo,
+    hideCompletedItems: appSettings.hideCompletedItems,
+    setPriority,
+    openDetail: openTodoDetail,
+    setCollapsed,
+    setAllCollapsed,
+    moveTodoSubtree,
+    moveFocus,
+    visibleTodoIds,
+    commitQuickAdd,
+  });
+
   // Compute section grouping from ALL todos (not filtered) to correctly determine
   // if we need to create a new active todo when toggling the last one
   const allDerived = React.useMemo(() => {
@@ -166,7 +296,11 @@ const TodoList = React.memo(function TodoList({
     (id: number) => {
       const ex = dragStartByIdRef.current.get(id);
       if (ex) return ex;
-      const fn = (_e: React.DragEvent) => handleDragStart(id);
+      const fn = (e: React.DragEvent) => {
+        // Lets sidebar lists accept the row as a move target
+        e.dataTransfer?.setData(TODO_DRAG_MIME, String(id));
+        handleDragStart(id);
+      };
       dragStartByIdRef.current.set(id, fn);
       return fn;
     },
@@ -208,8 +342,22 @@ const TodoList = React.memo(function TodoList({
 
   return (
     <div className={styles.list}>
+      {tagFilter && (
+        <div className={styles.tagFilterBar} data-testid="tag-filter-bar">
+          <span>
+            Showing <strong>#{tagFilter}</strong>
+          </span>
+          <button
+            type="button"
+            className={styles.tagFilterClear}
+            onClick={() => setTagFilter(null)}
+          >
+            Clear filter
+          </button>
+        </div>
+      )}
       <div data-testid="active-section">
-        {derived.active.map((todo) => {
+        {visibleActive.map((todo) => {
           const isEmpty = todo.text.trim().length === 0;
           const toggleDisabled = isEmpty;
           return (
@@ -219,6 +367,25 @@ const TodoList = React.memo(function TodoList({
               checked={todo.completed}
               indent={deriveIndentFromParentId(todo)}
               indeterminate={derived.indeterminate.get(todo.id) === true}
+              hasChildren={parentIds.has(todo.id)}
+              collapsed={!!todo.collapsed}
+              onToggleCollapsed={() => setCollapsed(todo.id, !todo.collapsed)}
+              dueDate={todo.dueDate}
+              onDueDateChange={(dueDate) => setDueDate(todo.id, dueDate)}
+              dueTime={todo.dueTime}
+              onDueTimeChange={(dueTime) => setDueTime(todo.id, dueTime)}
+              recurrence={todo.recurrence}
+              onRecurrenceChange={(rule) => setRecurrence(todo.id, rule)}
+              tags={extractTags(todo.text)}
+              onTagClick={setTagFilter}
+              priority={todo.priority}
+              onPriorityChange={(priority) => setPriority(todo.id, priority)}
+              hasNotes={!!todo.notes?.trim()}
+              onOpenDetail={() => openTodoDetail(todo.id)}
+              moveTargets={moveTargets}
+              onMoveToList={(listId) => {
+                void moveTodoToList(todo.id, listId);
+              }}
               onToggle={() => {
                 if (toggleDisabled) return;
 
@@ -238,13 +405,28 @@ const TodoList = React.memo(function TodoList({
                 const index = idToIndex.get(todo.id) ?? -1;
                 toggleTodo(todo.id);
                 // If this was the only active non-empty todo, create a new empty one and focus it
-                if (isSingleActive && !isEmpty && index !== -1) {
+                // (a recurring todo already leaves its next occurrence behind)
+                if (
+                  isSingleActive &&
+                  !isEmpty &&
+                  index !== -1 &&
+                  !todo.recurrence
+                ) {
                   insertBelowAndFocus(todo.id, '');
                 }
               }}
               toggleDisabled={toggleDisabled}
               onChange={(e) => updateTodo(todo.id, e.target.value)}
               onKeyDown={handleTodoKeyDown(todo.id)}
+              onPaste={handleTodoPaste(todo.id)}
+              onFocus={() => setFocusedId(todo.id)}
+              onBlur={() =>
+                setFocusedId((prev) => (prev === todo.id ? null : prev))
+              }
+              quickAddTokens={quickAddTokensFor(todo)}
+              onKeepRawText={() =>
+                setRawTextIds((prev) => new Set(prev).add(todo.id))
+              }
               onDragStart={getDragStart(todo.id)}
               onDragEnd={handleDragEnd}
               onDragOver={getDragOver(todo.id)}
@@ -287,16 +469,36 @@ const TodoList = React.memo(function TodoList({
       )}
 
       <div data-testid="completed-section">
-        {derived.completed.map((todo) => (
+        {visibleCompleted.map((todo) => (
           <TodoRow
             key={todo.id}
             value={todo.text}
             checked={todo.completed}
             indent={deriveIndentFromParentId(todo)}
             indeterminate={derived.indeterminate.get(todo.id) === true}
+            hasChildren={parentIds.has(todo.id)}
+            collapsed={!!todo.collapsed}
+            onToggleCollapsed={() => setCollapsed(todo.id, !todo.collapsed)}
+            dueDate={todo.dueDate}
+            onDueDateChange={(dueDate) => setDueDate(todo.id, dueDate)}
+            dueTime={todo.dueTime}
+            onDueTimeChange={(dueTime) => setDueTime(todo.id, dueTime)}
+            recurrence={todo.recurrence}
+            onRecurrenceChange={(rule) => setRecurrence(todo.id, rule)}
+            tags={extractTags(todo.text)}
+            onTagClick={setTagFilter}
+            priority={todo.priority}
+            onPriorityChange={(priority) => setPriority(todo.id, priority)}
+            hasNotes={!!todo.notes?.trim()}
+            onOpenDetail={() => openTodoDetail(todo.id)}
+            moveTargets={moveTargets}
+            onMoveToList={(listId) => {
+              void moveTodoToList(todo.id, listId);
+            }}
             onToggle={() => toggleTodo(todo.id)}
             onChange={(e) => updateTodo(todo.id, e.target.value)}
             onKeyDown={handleTodoKeyDown(todo.id)}
+            onPaste={handleTodoPaste(todo.id)}
             onDragStart={getDragStart(todo.id)}
             onDragEnd={handleDragEnd}
             onDragOver={getDragOver(todo.id)}
@@ -1,15 +1,18 @@
 import React from 'react';
-import type { AppSettings } from '../../types';
+import type { AppSettings, AppSettingsSaveResult } from '../../types';
 import { useTimeout } from '../../hooks/useTimeout';
 import ActionsMenu from './components/ActionsMenu';
 import { useTodosStore } from '../../store/useTodosStore';
 import useListEditing from '../../hooks/useListEditing';
+import { LIST_TITLE_INPUT_ID } from '../../utils/constants';
 
 const styles = require('./TodoListHeader.module.css');
 
 type TodoListHeaderProps = {
   appSettings: AppSettings;
-  onUpdateAppSettings: (settings: AppSettings) => void;
+  onUpdateAppSettings: (
+    settings: AppSettings,
+  ) => Promise<AppSettingsSaveResult>;
 };
 
 export default function TodoListHeader({
@@ -102,6 +105,7 @@ export default function TodoListHeader({
       <div className={styles.titleRow}>
         <input
           ref={titleInputRef}
+          id={LIST_TITLE_INPUT_ID}
           className={`${styles.titleInput} ${isEditing ? styles.titleInputEditing : ''}`}
           value={displayValue}
           onChange={(e) => setEditingName(e.target.value)}
@@ -2,17 +2,35 @@ import React from 'react';
 import { IoEllipsisHorizontal } from 'react-icons/io5';
 import { Checkbox } from '../../Checkbox';
 import Spinner from '../../../../../components/Spinner';
-import type { AppSettings } from '../../../types';
+import type { AppSettings, AppSettingsSaveResult } from '../../../types';
 import { useTodosStore } from '../../../store/useTodosStore';
 import useListDuplication from '../../../hooks/useListDuplication';
+import useMarkdownTransfer from '../../../hooks/useMarkdownTransfer';
 import { loadListsIndex } from '../../../api/storage';
+import {
+  DEFAULT_BACKUP_INTERVAL_MINUTES,
+  DEFAULT_BACKUP_KEEP_COUNT,
+  DEFAULT_QUICK_CAPTURE_SHORTCUT,
+} from '../../../utils/constants';
 import { debugLogger } from '../../../../../utils/debug';
 
 const styles = require('./ActionsMenu.module.css');
 
+const BACKUP_INTERVAL_OPTIONS: Array<{ minutes: number; label: string }> = [
+  { minutes: 15, label: 'Every 15 minutes' },
+  { minutes: 60, label: 'Every hour' },
+  { minutes: 240, label: 'Every 4 hours' },
+  { minutes: 1440, label: 'Every day' },
+  { minutes: 0, label: 'Only at startup' },
+];
+
+const BACKUP_KEEP_OPTIONS = [5, 10, 20, 50];
+
 type ActionsMenuProps = {
   appSettings: AppSettings;
-  onUpdateAppSettings: (settings: AppSettings) => void;
+  onUpdateAppSettings: (
+    settings: AppSettings,
+  ) => Promise<AppSettingsSaveResult>;
 };
 
 export default function ActionsMenu({
@@ -23,13 +41,55 @@ export default function ActionsMenu({
   const selectedListId = useTodosStore((s) => s.selectedListId);
   const deleteList = useTodosStore((s) => s.deleteList);
   const duplicateList = useTodosStore((s) => s.duplicateList);
+  const sortByPriority = useTodosStore((s) => s.sortByPriority);
   const { isDuplicating, handleDuplicate: handleDuplicateBase } =
     useListDuplication();
+  const { exportMarkdown, importMarkdown } = useMarkdownTransfer();
 
   const canDelete = lists.length > 1;
   const selectedList = lists.find((l) => l.id === selectedListId) || null;
 
   const [open, setOpen] = React.useState(false);
+  const savedShortcut =
+    appSettings.quickCaptureShortcut ?? DEFAULT_QUICK_CAPTURE_SHORTCUT;
+  const [shortcutDraft, setShortcutDraft] = React.useState(savedShortcut);
+  React.useEffect(() => {
+    setShortcutDraft(savedShortcut);
+  }, [savedShortcut]);
+  const [shortcutError, setShortcutError] = React.useState<string | null>(null);
+  const commitShortcut = async () => {
+    const next = shortcutDraft.trim();
+    if (next === savedShortcut) return;
+    const result = await onUpdateAppSettings({
+      ...appSettings,
+      quickCaptureShortcut: next,
+    });
+    if (result.error === 'shortcut_unavailable') {
+      setShortcutError(
+        `${next} can't be used. It may be taken by another app; ${
+          savedShortcut || 'no shortcut'
+        } is still active.`,
+      );
+      setShortcutDraft(savedShortcut);
+      return;
+    }
+    setShortcutError(null);
+  };
+  const backupInterval =
+    appSettings.backupIntervalMinutes ?? DEFAULT_BACKUP_INTERVAL_MINUTES;
+  const backupKeep = appSettings.backupKeepCount ?? DEFAULT_BACKUP_KEEP_COUNT;
+  // A value outside the presets stays selectable
+  const intervalOptions = BACKUP_INTERVAL_OPTIONS.some(
+    (o) => o.minutes === backupInterval,
+  )
+    ? BACKUP_INTERVAL_OPTIONS
+    : [
+        ...BACKUP_INTERVAL_OPTIONS,
+        { minutes: backupInterval, label: `Every ${backupInterval} minutes` },
+      ];
+  const keepOptions = BACKUP_KEEP_OPTIONS.includes(backupKeep)
+    ? BACKUP_KEEP_OPTIONS
+    : [...BACKUP_KEEP_OPTIONS, backupKeep].sort((a, b) => a - b);
   const btnRef = React.useRef<HTMLButtonElement | null>(null);
   const menuRef = React.useRef<HTMLDivElement | null>(null);
 
@@ -95,6 +155,85 @@ export default function ActionsMenu({
               />
               <span>Completed items</span>
             </label>
+            <label className={styles.menuToggleItem}>
+              <Checkbox
+                checked={!!appSettings.keepRunningInBackground}
+                onChange={(e) => {
+                  onUpdateAppSettings({
+                    ...appSettings,
+                    keepRunningInBackground: e.target.checked,
+                  });
+                }}
+                ariaLabel="Keep running in the tray after closing the window"
+                spacing="none"
+              />
+              <span>Keep running in tray</span>
+            </label>
+            <label className={styles.menuFieldItem}>
+              <span>Quick capture shortcut</span>
+              <input
+                className={styles.menuFieldInput}
+                data-testid="quick-capture-shortcut"
+                value={shortcutDraft}
+                placeholder="Disabled"
+                title="Electron accelerator, e.g. CommandOrControl+Shift+Space. Leave empty to disable."
+                onChange={(e) => setShortcutDraft(e.target.value)}
+                onBlur={() => {
+                  void commitShortcut();
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    void commitShortcut();
+                  }
+                }}
+              />
+              {shortcutError && (
+                <span className={styles.menuFieldError} role="alert">
+                  {shortcutError}
+                </span>
+              )}
+            </label>
+            <label className={styles.menuFieldItem}>
+              <span>Back up data</span>
+              <select
+                className={styles.menuFieldInput}
+                value={backupInterval}
+                aria-label="Backup interval"
+                onChange={(e) => {
+                  onUpdateAppSettings({
+                    ...appSettings,
+                    backupIntervalMinutes: Number(e.target.value),
+                  });
+                }}
+              >
+                {intervalOptions.map((o) => (
+                  <option key={o.minutes} value={o.minutes}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className={styles.menuFieldItem}>
+              <span>Backups to keep</span>
+              <select
+                className={styles.menuFieldInput}
+                value={backupKeep}
+                aria-label="Backups to keep"
+                onChange={(e) => {
+                  onUpdateAppSettings({
+                    ...appSettings,
+                    backupKeepCount: Number(e.target.value),
+                  });
+                }}
+              >
+                {keepOptions.map((n) => (
+                  <option key={n} value={n}>
+                    {n}
+                  </option>
+                ))}
+              </select>
+            </label>
           </div>
           <div className={styles.menuDivider} />
           <button
@@ -111,6 +250,58 @@ export default function ActionsMenu({
             {isDuplicating ? <Spinner size={12} /> : null}
             Duplicate list
           </button>
+          <button
+            type="button"
+            className={styles.menuItem}
+            role="menuitem"
+            data-testid="menu-sort-priority"
+            onClick={() => {
+              setOpen(false);
+              sortByPriority();
+            }}
+            disabled={!selectedList}
+          >
+            Sort by priority
+          </button>
+          <div className={styles.menuDivider} />
+          <button
+            type="button"
+            className={styles.menuItem}
+            role="menuitem"
+            data-testid="menu-export-list-markdown"
+            onClick={() => {
+              setOpen(false);
+              void exportMarkdown('list');
+            }}
+            disabled={!selectedList}
+          >
+            Export list as Markdown…
+          </button>
+          <button
+            type="button"
+            className={styles.menuItem}
+            role="menuitem"
+            data-testid="menu-export-all-markdown"
+            onClick={() => {
+              setOpen(false);
+              void exportMarkdown('all');
+            }}
+          >
+            Export all lists as Markdown…
+          </button>
+          <button
+            type="button"
+            className={styles.menuItem}
+            role="menuitem"
+            data-testid="menu-import-markdown"
+            onClick={() => {
+              setOpen(false);
+              void importMarkdown();
+            }}
+          >
+            Import Markdown…
+          </button>
+          <div className={styles.menuDivider} />
           <button
             type="button"
             className={`${styles.menuItem} ${styles.menuItemDanger}`}
@@ -124,10 +315,12 @@ export default function ActionsMenu({
             }}
             disabled={!canDelete}
             title={
-              canDelete ? 'Delete this list' : "Can't delete your only list"
+              canDelete
+                ? 'Move this list to the Trash'
+                : "Can't delete your only list"
             }
           >
-            Delete list
+            Move to Trash
           </button>
         </div>
       )}
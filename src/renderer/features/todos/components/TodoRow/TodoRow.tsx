@@ -1,19 +1,97 @@
 import React from 'react';
+import {
+  IoArrowRedoOutline,
+  IoChevronDown,
+  IoChevronForward,
+  IoDocumentTextOutline,
+  IoFlag,
+  IoFlagOutline,
+  IoRepeatOutline,
+} from 'react-icons/io5';
+import type { RecurrenceRule, TodoPriority } from '../../types';
 import { Checkbox } from '../Checkbox';
 import { clampIndent } from '../../utils/todoUtils';
 import { MAX_INDENT } from '../../utils/constants';
+import { getDueDateStatus, isValidDueDate } from '../../utils/dueDate';
+import { describeRecurrence } from '../../utils/recurrence';
+import { cyclePriority, PRIORITY_LABELS } from '../../utils/priority';
+import type { QuickAddToken } from '../../utils/quickAdd';
+import { QuickAddPreview } from '../QuickAddPreview';
 
 const styles = require('./TodoRow.module.css');
 
+const AFTER_COMPLETION_PRESETS = [1, 2, 3, 7, 14, 30];
+
+// <select> values: 'none', 'daily', 'weekly', 'weekdays', 'monthly', 'after:N'
+const recurrenceToOption = (rule: RecurrenceRule | null): string => {
+  if (!rule) return 'none';
+  if (rule.kind === 'afterCompletion') return `after:${rule.everyDays}`;
+  if (rule.kind === 'weekly' && describeRecurrence(rule) === 'Weekdays') {
+    return 'weekdays';
+  }
+  return rule.kind;
+};
+
+const optionToRecurrence = (
+  option: string,
+  current: RecurrenceRule | null,
+  dueDate: string | null,
+): RecurrenceRule | null => {
+  switch (option) {
+    case 'daily':
+    case 'monthly':
+      return { kind: option };
+    case 'weekly': {
+      if (current?.kind === 'weekly') return current;
+      // Repeat on the due date's weekday, or today's when there is none
+      const [y, m, d] = (dueDate ?? '').split('-').map(Number);
+      const day = isValidDueDate(dueDate)
+        ? new Date(y, m - 1, d).getDay()
+        : new Date().getDay();
+      return { kind: 'weekly', days: [day] };
+    }
+    case 'weekdays':
+      return { kind: 'weekly', days: [1, 2, 3, 4, 5] };
+    default:
+      if (option.startsWith('after:')) {
+        return { kind: 'afterCompletion', everyDays: Number(option.slice(6)) };
+      }
+      return null;
+  }
+};
+
 type TodoRowProps = {
   value: string;
   checked: boolean;
   indent?: number;
   indeterminate?: boolean;
+  hasChildren?: boolean;
+  collapsed?: boolean;
+  onToggleCollapsed?: () => void;
+  dueDate?: string | null;
+  onDueDateChange?: (dueDate: string | null) => void;
+  dueTime?: string | null;
+  onDueTimeChange?: (dueTime: string | null) => void;
+  recurrence?: RecurrenceRule | null;
+  tags?: string[];
+  priority?: TodoPriority | null;
+  hasNotes?: boolean;
+  onOpenDetail?: () => void;
+  moveTargets?: Array<{ id: string; name: string }>;
+  onMoveToList?: (listId: string) => void;
+  onPriorityChange?: (priority: TodoPriority | null) => void;
+  onTagClick?: (tag: string) => void;
+  onRecurrenceChange?: (recurrence: RecurrenceRule | null) => void;
   onToggle: () => void;
   toggleDisabled?: boolean;
   onChange: (e: React.ChangeEvent<HTMLTextAreaElement>) => void;
   onKeyDown: (e: React.KeyboardEvent<HTMLTextAreaElement>) => void;
+  onPaste?: (e: React.ClipboardEvent<HTMLTextAreaElement>) => void;
+  onFocus?: () => void;
+  onBlur?: () => void;
+  // Recognized quick-add tokens to preview while typing
+  quickAddTokens?: QuickAddToken[];
+  onKeepRawText?: () => void;
   onDragStart: (e: React.DragEvent) => void;
   onDragOver: (e: React.DragEvent) => void;
   onDragLeave: () => void;
@@ -30,10 +108,32 @@ export const TodoRow = React.memo(
         checked,
         indent = 0,
         indeterminate = false,
+        hasChildren = false,
+        collapsed = false,
+        onToggleCollapsed,
+        dueDate = null,
+        onDueDateChange,
+        dueTime = null,
+        onDueTimeChange,
+        recurrence = null,
+        tags = [],
+        priority = null,
+        hasNotes = false,
+        onOpenDetail,
+        moveTargets = [],
+        onMoveToList,
+        onPriorityChange,
+        onTagClick,
+        onRecurrenceChange,
         onToggle,
         toggleDisabled,
         onChange,
         onKeyDown,
+        onPaste,
+        onFocus,
+        onBlur,
+        quickAddTokens = [],
+        onKeepRawText,
         onDragStart,
         onDragOver,
         onDragLeave,
@@ -47,9 +147,25 @@ export const TodoRow = React.memo(
       const classDepth = Math.min(indentLevel, MAX_INDENT);
       const indentClass =
         classDepth > 0 ? (styles as any)[`indent${classDepth}`] || '' : '';
+      const dueStatus = getDueDateStatus(dueDate, checked);
+      const dueClass =
+        dueStatus === 'overdue'
+          ? styles.dueDateOverdue
+          : dueStatus === 'today'
+            ? styles.dueDateToday
+            : '';
+      const recurrenceOption = recurrenceToOption(recurrence);
+      const afterPresets =
+        recurrence?.kind === 'afterCompletion' &&
+        !AFTER_COMPLETION_PRESETS.includes(recurrence.everyDays)
+          ? [...AFTER_COMPLETION_PRESETS, recurrence.everyDays].sort(
+              (a, b) => a - b,
+            )
+          : AFTER_COMPLETION_PRESETS;
+      const showPreview = quickAddTokens.length > 0 && !!onKeepRawText;
       return (
         <div
-          className={`${styles.row} ${isDropTarget ? styles.dropTarget : ''}`}
+          className={`${styles.row} ${isDropTarget ? styles.dropTarget : ''} ${showPreview ? styles.rowWithPreview : ''}`}
           onDragOver={(e) => {
             e.preventDefault();
             e.stopPropagation();
@@ -80,6 +196,23 @@ export const TodoRow = React.memo(
               onDragEnd();
             }}
           >
+            {hasChildren && onToggleCollapsed && (
+              <button
+                type="button"
+                data-testid="todo-collapse-toggle"
+                className={styles.collapseToggle}
+                aria-expanded={!collapsed}
+                aria-label={collapsed ? 'Expand subtasks' : 'Collapse subtasks'}
+                title={collapsed ? 'Expand subtasks' : 'Collapse subtasks'}
+                onClick={onToggleCollapsed}
+              >
+                {collapsed ? (
+                  <IoChevronForward aria-hidden />
+                ) : (
+                  <IoChevronDown aria-hidden />
+                )}
+              </button>
+            )}
             <Checkbox
               checked={checked}
               indeterminate={indeterminate}
@@ -88,17 +221,164 @@ export const TodoRow = React.memo(
               ariaLabel="Toggle completed"
               spacing="sm"
             />
+            {onPriorityChange && (
+              <button
+                type="button"
+                data-testid="todo-priority"
+                data-priority={priority ?? undefined}
+                className={`${styles.priority} ${priority ? styles[`priority${PRIORITY_LABELS[priority]}`] : ''}`}
+                title={
+                  priority
+                    ? `${PRIORITY_LABELS[priority]} priority (click to change)`
+                    : 'Set priority'
+                }
+                aria-label={
+                  priority
+                    ? `${PRIORITY_LABELS[priority]} priority`
+                    : 'Set priority'
+                }
+                onClick={() => onPriorityChange(cyclePriority(priority))}
+              >
+                {priority ? (
+                  <IoFlag aria-hidden />
+                ) : (
+                  <IoFlagOutline aria-hidden />
+                )}
+              </button>
+            )}
             <textarea
               aria-label="Todo text"
               value={value}
               onChange={onChange}
               onKeyDown={onKeyDown}
+              onPaste={onPaste}
+              onFocus={onFocus}
+              onBlur={onBlur}
               ref={ref}
               placeholder="add your todo"
               className={`${styles.input} ${checked ? styles.inputCompleted : ''}`}
               rows={1}
             />
+            {tags.length > 0 && (
+              <span className={styles.tags}>
+                {tags.map((tag) => (
+                  <button
+                    key={tag}
+                    type="button"
+                    data-testid="todo-tag"
+                    className={styles.tagChip}
+                    title={`Show only #${tag}`}
+                    disabled={!onTagClick}
+                    onClick={() => onTagClick?.(tag)}
+                  >
+                    #{tag}
+                  </button>
+                ))}
+              </span>
+            )}
+            {onOpenDetail && (
+              <button
+                type="button"
+                data-testid="todo-notes-button"
+                className={`${styles.notesBtn} ${hasNotes ? styles.notesBtnSet : ''}`}
+                title={hasNotes ? 'Show notes' : 'Add notes'}
+                aria-label={hasNotes ? 'Show notes' : 'Add notes'}
+                onClick={onOpenDetail}
+              >
+                <IoDocumentTextOutline aria-hidden />
+              </button>
+            )}
+            {onMoveToList && moveTargets.length > 0 && (
+              <label className={styles.moveToList} title="Move to list…">
+                <IoArrowRedoOutline aria-hidden="true" />
+                <select
+                  aria-label="Move to list"
+                  data-testid="todo-move-to-list"
+                  value=""
+                  onChange={(e) => {
+                    if (e.target.value) onMoveToList(e.target.value);
+                  }}
+                  className={styles.moveToListSelect}
+                >
+                  <option value="" disabled>
+                    Move to list…
+                  </option>
+                  {moveTargets.map((list) => (
+                    <option key={list.id} value={list.id}>
+                      {list.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            {onDueDateChange && (
+              <input
+                type="date"
+                aria-label="Due date"
+                data-testid="todo-due-date"
+                data-due-status={dueStatus ?? undefined}
+                value={dueDate ?? ''}
+                onChange={(e) => onDueDateChange(e.target.value || null)}
+                className={`${styles.dueDate} ${dueDate ? styles.dueDateSet : ''} ${dueClass}`}
+              />
+            )}
+            {onDueTimeChange && dueDate && (
+              <input
+                type="time"
+                aria-label="Due time"
+                data-testid="todo-due-time"
+                value={dueTime ?? ''}
+                onChange={(e) => onDueTimeChange(e.target.value || null)}
+                className={`${styles.dueDate} ${dueTime ? styles.dueDateSet : ''} ${dueClass}`}
+              />
+            )}
+            {onRecurrenceChange && (
+              <label
+                className={`${styles.recurrence} ${recurrence ? styles.recurrenceSet : ''}`}
+                title={recurrence ? describeRecurrence(recurrence) : 'Repeat'}
+              >
+                <IoRepeatOutline aria-hidden="true" />
+                <select
+                  aria-label="Repeat"
+                  data-testid="todo-recurrence"
+                  value={recurrenceOption}
+                  onChange={(e) =>
+                    onRecurrenceChange(
+                      optionToRecurrence(e.target.value, recurrence, dueDate),
+                    )
+                  }
+                  className={styles.recurrenceSelect}
+                >
+                  <option value="none">Don&apos;t repeat</option>
+                  <option value="daily">Daily</option>
+                  <option value="weekly">
+                    {recurrence?.kind === 'weekly' &&
+                    recurrenceOption === 'weekly'
+                      ? describeRecurrence(recurrence)
+                      : 'Weekly'}
+                  </option>
+                  <option value="weekdays">Weekdays</option>
+                  <option value="monthly">Monthly</option>
+                  {afterPresets.map((n) => (
+                    <option key={n} value={`after:${n}`}>
+                      {describeRecurrence({
+                        kind: 'afterCompletion',
+                        everyDays: n,
+                      })}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
           </span>
+          {showPreview && onKeepRawText && (
+            <div className={styles.quickAdd}>
+              <QuickAddPreview
+                tokens={quickAddTokens}
+                onKeepRawText={onKeepRawText}
+              />
+            </div>
+          )}
         </div>
       );
     },
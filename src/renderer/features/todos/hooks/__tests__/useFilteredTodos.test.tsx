@@ -291,4 +291,29 @@ describe('useFilteredTodos', () => {
       ]);
     });
   });
+
+  describe('tag filter', () => {
+    it('shows only todos carrying the tag, with their ancestors', () => {
+      const todos: EditorTodo[] = [
+        { id: 1, text: 'Release', completed: false, parentId: null },
+        { id: 2, text: 'Nav #frontend', completed: false, parentId: 1 },
+        { id: 3, text: 'Docs', completed: false, parentId: null },
+        { id: 4, text: 'Old #frontend', completed: true, parentId: null },
+      ];
+      const { result } = renderHook(() =>
+        useFilteredTodos(
+          todos,
+          true,
+          mockInsertTodoBelow,
+          mockRemoveTodoAt,
+          mockSetSelectedTodos,
+          mockFocusTodo,
+          'frontend',
+        ),
+      );
+
+      expect(result.current.filteredTodos.map((t) => t.id)).toEqual([1, 2]);
+      expect(result.current.allTodos).toBe(todos);
+    });
+  });
 });
@@ -0,0 +1,108 @@
+import React from 'react';
+import { renderHook } from '@testing-library/react';
+import useOutlinePaste from '../useOutlinePaste';
+import { useTodosStore } from '../../store/useTodosStore';
+import type { EditorTodo } from '../../types';
+
+jest.mock('../../api/storage');
+
+const pasteEvent = (text: string, value: string, cursor = value.length) =>
+  ({
+    clipboardData: { getData: () => text },
+    currentTarget: { selectionStart: cursor, selectionEnd: cursor },
+    preventDefault: jest.fn(),
+  }) as unknown as React.ClipboardEvent<HTMLTextAreaElement>;
+
+function seed(todos: EditorTodo[]) {
+  useTodosStore.setState({
+    lists: [
+      {
+        id: 'list-1',
+        name: 'Test',
+        todos,
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z',
+      },
+    ],
+    selectedListId: 'list-1',
+    loadedLists: new Set(['list-1']),
+    idCounter: 10,
+    undoStack: [],
+    redoStack: [],
+  } as any);
+}
+
+function renderPaste(focusTodo = jest.fn()) {
+  const state = useTodosStore.getState();
+  return renderHook(() =>
+    useOutlinePaste({
+      allTodos: state.getSelectedList()!.todos,
+      updateTodo: state.updateTodo,
+      insertTodoBelow: state.insertTodoBelow,
+      setTodoParent: state.setTodoParent,
+      focusTodo,
+    }),
+  ).result.current;
+}
+
+const selectedTodos = () => useTodosStore.getState().getSelectedList()!.todos;
+
+describe('useOutlinePaste', () => {
+  test('turns an indented checklist into nested todos as one undo step', () => {
+    seed([{ id: 1, text: '', completed: false, indent: 0, parentId: null }]);
+    const focusTodo = jest.fn();
+    const event = pasteEvent(
+      '- [ ] Plan trip\n  - [x] Book flights\n  - [ ] Hotel\n    - [ ] Compare prices\n- [ ] Pack',
+      '',
+    );
+
+    renderPaste(focusTodo)(1)(event);
+
+    expect(event.preventDefault).toHaveBeenCalled();
+    expect(
+      selectedTodos().map(({ text, completed, parentId }) => ({
+        text,
+        completed,
+        parentId,
+      })),
+    ).toEqual([
+      { text: 'Plan trip', completed: false, parentId: null },
+      { text: 'Book flights', completed: true, parentId: 1 },
+      { text: 'Hotel', completed: false, parentId: 1 },
+      { text: 'Compare prices', completed: false, parentId: 11 },
+      { text: 'Pack', completed: false, parentId: null },
+    ]);
+    expect(focusTodo).toHaveBeenCalledWith(13, 'Pack'.length);
+
+    expect(useTodosStore.getState().undoStack).toHaveLength(1);
+    useTodosStore.getState().undo();
+    expect(selectedTodos().map((t) => t.text)).toEqual(['']);
+  });
+
+  test('keeps text around the cursor and nests under the edited row', () => {
+    seed([
+      { id: 1, text: 'Parent', completed: false, indent: 0, parentId: null },
+      { id: 2, text: 'ab', completed: false, indent: 1, parentId: 1 },
+    ]);
+
+    renderPaste()(2)(pasteEvent('one\n\ttwo', 'ab', 1));
+
+    expect(
+      selectedTodos().map(({ text, parentId }) => ({ text, parentId })),
+    ).toEqual([
+      { text: 'Parent', parentId: null },
+      { text: 'aone', parentId: 1 },
+      { text: 'twob', parentId: 2 },
+    ]);
+  });
+
+  test('leaves single-line pastes to the textarea', () => {
+    seed([{ id: 1, text: '', completed: false, indent: 0, parentId: null }]);
+    const event = pasteEvent('just one line\n', '');
+
+    renderPaste()(1)(event);
+
+    expect(event.preventDefault).not.toHaveBeenCalled();
+    expect(selectedTodos()).toHaveLength(1);
+  });
+});
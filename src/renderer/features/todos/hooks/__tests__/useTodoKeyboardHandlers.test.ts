@@ -1073,6 +1073,157 @@ describe('useTodoKeyboardHandlers', () => {
     });
   });
 
+  describe('Collapsed subtrees', () => {
+    const collapsedTodos: EditorTodo[] = mockTodos.map((t) =>
+      t.id === 1 ? { ...t, collapsed: true } : t,
+    );
+
+    it('collapses the focused parent with Cmd+ArrowUp', () => {
+      const setCollapsed = jest.fn();
+      const { result } = renderHook(() =>
+        useTodoKeyboardHandlers({
+          ...defaultProps,
+          setCollapsed,
+          setAllCollapsed: jest.fn(),
+        }),
+      );
+
+      const mockEvent = {
+        key: 'ArrowUp',
+        metaKey: true,
+        preventDefault: jest.fn(),
+      } as unknown as React.KeyboardEvent<HTMLTextAreaElement>;
+      result.current(1)(mockEvent);
+
+      expect(mockEvent.preventDefault).toHaveBeenCalled();
+      expect(setCollapsed).toHaveBeenCalledWith(1, true);
+    });
+
+    it('collapses the parent from a subtask and focuses it', () => {
+      const setCollapsed = jest.fn();
+      const { result } = renderHook(() =>
+        useTodoKeyboardHandlers({
+          ...defaultProps,
+          setCollapsed,
+          setAllCollapsed: jest.fn(),
+        }),
+      );
+
+      result.current(3)({
+        key: 'ArrowUp',
+        ctrlKey: true,
+        preventDefault: jest.fn(),
+      } as unknown as React.KeyboardEvent<HTMLTextAreaElement>);
+
+      expect(setCollapsed).toHaveBeenCalledWith(1, true);
+      expect(mockFocusTodo).toHaveBeenCalledWith(1);
+    });
+
+    it('expands every parent with Cmd+Shift+ArrowDown', () => {
+      const setAllCollapsed = jest.fn();
+      const { result } = renderHook(() =>
+        useTodoKeyboardHandlers({
+          ...defaultProps,
+          setCollapsed: jest.fn(),
+          setAllCollapsed,
+        }),
+      );
+
+      result.current(4)({
+        key: 'ArrowDown',
+        metaKey: true,
+        shiftKey: true,
+        preventDefault: jest.fn(),
+      } as unknown as React.KeyboardEvent<HTMLTextAreaElement>);
+
+      expect(setAllCollapsed).toHaveBeenCalledWith(false);
+    });
+
+    it('does not merge into a row hidden under a collapsed parent', () => {
+      const { result } = renderHook(() =>
+        useTodoKeyboardHandlers({ ...defaultProps, allTodos: collapsedTodos }),
+      );
+
+      const textarea = document.createElement('textarea');
+      textarea.value = 'Parent 2';
+      textarea.setSelectionRange(0, 0);
+      result.current(4)({
+        key: 'Backspace',
+        preventDefault: jest.fn(),
+        currentTarget: textarea,
+      } as unknown as React.KeyboardEvent<HTMLTextAreaElement>);
+
+      expect(mockUpdateTodo).toHaveBeenCalledWith(1, 'Parent 1Parent 2');
+      expect(mockRemoveTodoAt).toHaveBeenCalledWith(3);
+    });
+  });
+
+  describe('Arrow navigation and moving', () => {
+    const arrowEvent = (
+      key: string,
+      value: string,
+      cursor: number,
+      modifiers: Partial<React.KeyboardEvent> = {},
+    ) => {
+      const textarea = document.createElement('textarea');
+      textarea.value = value;
+      textarea.setSelectionRange(cursor, cursor);
+      return {
+        key,
+        preventDefault: jest.fn(),
+        currentTarget: textarea,
+        ...modifiers,
+      } as unknown as React.KeyboardEvent<HTMLTextAreaElement>;
+    };
+
+    it('moves focus to the previous visible row at the start of the text', () => {
+      const moveFocus = jest.fn();
+      const { result } = renderHook(() =>
+        useTodoKeyboardHandlers({
+          ...defaultProps,
+          moveFocus,
+          visibleTodoIds: [1, 4, 5],
+        }),
+      );
+
+      const event = arrowEvent('ArrowUp', 'Parent 2', 0);
+      result.current(4)(event);
+
+      expect(event.preventDefault).toHaveBeenCalled();
+      expect(moveFocus).toHaveBeenCalledWith(1, 'end');
+    });
+
+    it('moves focus to the next row only at the end of the text', () => {
+      const moveFocus = jest.fn();
+      const { result } = renderHook(() =>
+        useTodoKeyboardHandlers({ ...defaultProps, moveFocus }),
+      );
+
+      result.current(1)(arrowEvent('ArrowDown', 'Parent 1', 3));
+      expect(moveFocus).not.toHaveBeenCalled();
+
+      result.current(1)(arrowEvent('ArrowDown', 'Parent 1', 8));
+      expect(moveFocus).toHaveBeenCalledWith(2, 'start');
+    });
+
+    it('moves the todo with Alt+Shift+ArrowDown and keeps the caret', () => {
+      const moveTodoSubtree = jest.fn().mockReturnValue(true);
+      const { result } = renderHook(() =>
+        useTodoKeyboardHandlers({ ...defaultProps, moveTodoSubtree }),
+      );
+
+      result.current(1)(
+        arrowEvent('ArrowDown', 'Parent 1', 2, {
+          altKey: true,
+          shiftKey: true,
+        }),
+      );
+
+      expect(moveTodoSubtree).toHaveBeenCalledWith(1, 'down');
+      expect(mockFocusTodo).toHaveBeenCalledWith(1, 2);
+    });
+  });
+
   describe('Edge cases', () => {
     it('should handle empty todos array', () => {
       const { result } = renderHook(() =>
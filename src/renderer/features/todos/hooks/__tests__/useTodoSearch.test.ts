@@ -0,0 +1,72 @@
+import { renderHook, act } from '@testing-library/react';
+import useTodoSearch from '../useTodoSearch';
+import { searchTodos } from '../../api/storage';
+
+jest.mock('../../api/storage', () => ({
+  searchTodos: jest.fn(),
+}));
+
+const mockSearchTodos = searchTodos as jest.MockedFunction<typeof searchTodos>;
+
+describe('useTodoSearch', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockSearchTodos.mockReset();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('debounces the query and groups hits by list', async () => {
+    mockSearchTodos.mockResolvedValue([
+      {
+        kind: 'todo',
+        listId: 'a',
+        listName: 'A',
+        todoId: 1,
+        text: 'milk',
+        completed: false,
+      },
+    ]);
+    const { result } = renderHook(() => useTodoSearch(100));
+
+    act(() => {
+      result.current.setQuery('m');
+    });
+    act(() => {
+      result.current.setQuery('mi');
+    });
+    expect(result.current.isSearching).toBe(true);
+
+    await act(async () => {
+      jest.advanceTimersByTime(100);
+    });
+
+    expect(mockSearchTodos).toHaveBeenCalledTimes(1);
+    expect(mockSearchTodos).toHaveBeenCalledWith('mi');
+    expect(result.current.isSearching).toBe(false);
+    expect(result.current.groups).toHaveLength(1);
+    expect(result.current.groups[0].todos[0].todoId).toBe(1);
+  });
+
+  it('clearing the query drops results without searching', async () => {
+    mockSearchTodos.mockResolvedValue([]);
+    const { result } = renderHook(() => useTodoSearch(100));
+
+    act(() => {
+      result.current.setQuery('x');
+    });
+    act(() => {
+      result.current.clear();
+    });
+    await act(async () => {
+      jest.advanceTimersByTime(100);
+    });
+
+    expect(mockSearchTodos).not.toHaveBeenCalled();
+    expect(result.current.query).toBe('');
+    expect(result.current.groups).toEqual([]);
+    expect(result.current.isSearching).toBe(false);
+  });
+});
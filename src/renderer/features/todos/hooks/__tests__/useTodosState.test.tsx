@@ -29,10 +29,14 @@ describe('useTodosState', () => {
     });
     mockStorage.loadListTodos.mockResolvedValue({
       version: 3,
+      revision: 0,
       todos: [],
     });
     mockStorage.saveListsIndex.mockResolvedValue(true);
-    mockStorage.saveListTodos.mockResolvedValue(true);
+    mockStorage.saveListTodos.mockResolvedValue({
+      status: 'saved',
+      revision: 1,
+    });
     mockStorage.duplicateList.mockResolvedValue({
       success: true,
       newListId: 'new-list-id',
@@ -337,6 +341,7 @@ describe('useTodosState', () => {
     ];
     mockStorage.loadListTodos.mockResolvedValue({
       version: 3,
+      revision: 0,
       todos: mockTodos,
     });
 
@@ -360,6 +365,7 @@ describe('useTodosState', () => {
     ];
     mockStorage.loadListTodos.mockResolvedValue({
       version: 3,
+      revision: 0,
       todos: mockTodos,
     });
 
@@ -383,6 +389,7 @@ describe('useTodosState', () => {
     ];
     mockStorage.loadListTodos.mockResolvedValue({
       version: 3,
+      revision: 0,
       todos: mockTodos,
     });
 
@@ -409,6 +416,7 @@ describe('useTodosState', () => {
     ];
     mockStorage.loadListTodos.mockResolvedValue({
       version: 3,
+      revision: 0,
       todos: mockTodos,
     });
 
@@ -432,6 +440,7 @@ describe('useTodosState', () => {
     ];
     mockStorage.loadListTodos.mockResolvedValue({
       version: 3,
+      revision: 0,
       todos: mockTodos,
     });
 
@@ -551,6 +560,7 @@ describe('useTodosState', () => {
     // Mock loadListTodos for the duplicated list
     mockStorage.loadListTodos.mockResolvedValue({
       version: 3,
+      revision: 0,
       todos: duplicatedTodos,
     });
 
@@ -606,9 +616,9 @@ describe('useTodosState', () => {
 
     mockStorage.loadListTodos.mockImplementation(async (listId: string) => {
       if (listId === 'new-list-id') {
-        return { version: 3, todos: sourceTodos };
+        return { version: 3, todos: sourceTodos, revision: 0 };
       }
-      return { version: 3, todos: [] };
+      return { version: 3, todos: [], revision: 0 };
     });
 
     const { result } = renderHook(() => useTodosState());
@@ -665,7 +675,11 @@ describe('useTodosState', () => {
     });
 
     // When duplicating, the hook will load todos for the new list id
-    mockStorage.loadListTodos.mockResolvedValue({ version: 3, todos: [] });
+    mockStorage.loadListTodos.mockResolvedValue({
+      version: 3,
+      todos: [],
+      revision: 0,
+    });
 
     const { result } = renderHook(() => useTodosState());
 
@@ -691,6 +705,7 @@ describe('useTodosState', () => {
     const currentTodos = result.current.getSelectedTodos();
     mockStorage.loadListTodos.mockResolvedValueOnce({
       version: 3,
+      revision: 0,
       todos: currentTodos.map((t) => ({
         id: t.id,
         text: t.text,
@@ -736,6 +751,7 @@ describe('useTodosState', () => {
     // Mock loadListTodos for the duplicated list
     mockStorage.loadListTodos.mockResolvedValue({
       version: 3,
+      revision: 0,
       todos: [
         { id: 1, text: 'Task 1', completed: true, indent: 0 },
         { id: 2, text: 'Task 2', completed: false, indent: 0 },
@@ -748,13 +764,18 @@ describe('useTodosState', () => {
       await new Promise((resolve) => setTimeout(resolve, 0));
     });
 
-    // Mock saveListTodos to control resolution and assert ordering
+    // An unsaved edit; the loaded list itself needs no save
+    act(() => {
+      result.current.updateTodo(2, 'Task 2 (edited)');
+    });
+
+    // Mock patchListTodos to control resolution and assert ordering
     let resolveSave!: () => void;
-    const savePromise = new Promise<boolean>((resolve) => {
-      resolveSave = () => resolve(true);
+    const savePromise = new Promise((resolve) => {
+      resolveSave = () => resolve({ status: 'saved', revision: 1 });
     });
     const saveListTodosSpy = jest.fn().mockImplementation(() => savePromise);
-    mockStorage.saveListTodos = saveListTodosSpy as any;
+    mockStorage.patchListTodos = saveListTodosSpy as any;
 
     const duplicateSpy = jest
       .spyOn(mockStorage, 'duplicateList')
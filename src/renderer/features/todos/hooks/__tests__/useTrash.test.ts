@@ -0,0 +1,86 @@
+import { renderHook, act, waitFor } from '@testing-library/react';
+import useTrash from '../useTrash';
+import * as storage from '../../api/storage';
+import { useTodosStore } from '../../store/useTodosStore';
+
+jest.mock('../../api/storage');
+
+const mockStorage = storage as jest.Mocked<typeof storage>;
+
+const trashed = (id: string) => ({
+  id,
+  name: `List ${id}`,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  deletedAt: '2024-02-01T00:00:00.000Z',
+  todoCount: 2,
+});
+
+describe('useTrash', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    useTodosStore.setState({
+      lists: [],
+      selectedListId: null,
+      loadedLists: new Set(),
+    });
+    mockStorage.loadTrash.mockResolvedValue([trashed('a'), trashed('b')]);
+    mockStorage.purgeList.mockResolvedValue(true);
+    mockStorage.emptyTrash.mockResolvedValue(true);
+    mockStorage.restoreList.mockResolvedValue({
+      success: true,
+      list: {
+        id: 'a',
+        name: 'List a',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-03-01T00:00:00.000Z',
+      },
+    });
+  });
+
+  it('does not load while closed', () => {
+    renderHook(() => useTrash(false));
+    expect(mockStorage.loadTrash).not.toHaveBeenCalled();
+  });
+
+  it('loads items when opened', async () => {
+    const { result } = renderHook(() => useTrash(true));
+    await waitFor(() => expect(result.current.items).toHaveLength(2));
+  });
+
+  it('restore puts the list back in the store and selects it', async () => {
+    const { result } = renderHook(() => useTrash(true));
+    await waitFor(() => expect(result.current.items).toHaveLength(2));
+
+    // storage no longer reports the restored list
+    mockStorage.loadTrash.mockResolvedValue([trashed('b')]);
+    await act(async () => {
+      await result.current.restore('a');
+    });
+
+    expect(mockStorage.restoreList).toHaveBeenCalledWith('a');
+    const state = useTodosStore.getState();
+    expect(state.selectedListId).toBe('a');
+    expect(state.getListById('a')?.todos).toEqual([]);
+    await waitFor(() =>
+      expect(result.current.items.map((l) => l.id)).toEqual(['b']),
+    );
+  });
+
+  it('purge and empty remove items permanently', async () => {
+    const { result } = renderHook(() => useTrash(true));
+    await waitFor(() => expect(result.current.items).toHaveLength(2));
+
+    await act(async () => {
+      await result.current.purge('b');
+    });
+    expect(mockStorage.purgeList).toHaveBeenCalledWith('b');
+    expect(result.current.items.map((l) => l.id)).toEqual(['a']);
+
+    await act(async () => {
+      await result.current.empty();
+    });
+    expect(mockStorage.emptyTrash).toHaveBeenCalled();
+    expect(result.current.items).toEqual([]);
+  });
+});
@@ -0,0 +1,92 @@
+import { renderHook } from '@testing-library/react';
+import useUndoRedoShortcuts, {
+  getUndoRedoIntent,
+} from '../useUndoRedoShortcuts';
+import { useTodosStore } from '../../store/useTodosStore';
+
+jest.mock('../../api/storage');
+
+describe('getUndoRedoIntent', () => {
+  const key = (overrides: Partial<KeyboardEvent>) => ({
+    key: 'z',
+    metaKey: false,
+    ctrlKey: false,
+    altKey: false,
+    shiftKey: false,
+    ...overrides,
+  });
+
+  it('maps Cmd/Ctrl+Z to undo and Shift+Cmd/Ctrl+Z to redo', () => {
+    expect(getUndoRedoIntent(key({ metaKey: true }))).toBe('undo');
+    expect(getUndoRedoIntent(key({ ctrlKey: true }))).toBe('undo');
+    expect(
+      getUndoRedoIntent(key({ metaKey: true, shiftKey: true, key: 'Z' })),
+    ).toBe('redo');
+  });
+
+  it('ignores other combinations', () => {
+    expect(getUndoRedoIntent(key({}))).toBeNull();
+    expect(getUndoRedoIntent(key({ metaKey: true, altKey: true }))).toBeNull();
+    expect(getUndoRedoIntent(key({ metaKey: true, key: 'y' }))).toBeNull();
+  });
+});
+
+describe('useUndoRedoShortcuts', () => {
+  beforeEach(() => {
+    useTodosStore.setState({
+      lists: [
+        {
+          id: 'list-1',
+          name: 'A',
+          todos: [{ id: 1, text: 'a', completed: false, parentId: null }],
+          createdAt: '2024-01-01T00:00:00.000Z',
+          updatedAt: '2024-01-01T00:00:00.000Z',
+        },
+      ],
+      selectedListId: 'list-1',
+      undoStack: [],
+      redoStack: [],
+    });
+  });
+
+  const pressUndo = (target: HTMLElement) => {
+    const event = new KeyboardEvent('keydown', {
+      key: 'z',
+      metaKey: true,
+      bubbles: true,
+      cancelable: true,
+    });
+    target.dispatchEvent(event);
+    return event;
+  };
+
+  it('undoes the last store change from a textarea and blocks native undo', () => {
+    renderHook(() => useUndoRedoShortcuts());
+    useTodosStore.getState().toggleTodo(1);
+    const textarea = document.createElement('textarea');
+    document.body.appendChild(textarea);
+
+    const event = pressUndo(textarea);
+
+    expect(event.defaultPrevented).toBe(true);
+    expect(useTodosStore.getState().getSelectedList()?.todos[0].completed).toBe(
+      false,
+    );
+    textarea.remove();
+  });
+
+  it('leaves native undo alone when history is empty or in plain inputs', () => {
+    renderHook(() => useUndoRedoShortcuts());
+    const textarea = document.createElement('textarea');
+    const input = document.createElement('input');
+    document.body.append(textarea, input);
+
+    expect(pressUndo(textarea).defaultPrevented).toBe(false);
+
+    useTodosStore.getState().toggleTodo(1);
+    expect(pressUndo(input).defaultPrevented).toBe(false);
+    expect(useTodosStore.getState().undoStack).toHaveLength(1);
+    textarea.remove();
+    input.remove();
+  });
+});
@@ -0,0 +1,100 @@
+import React from 'react';
+import type { AppSettings } from '../types';
+import { useTodosStore } from '../store/useTodosStore';
+import useMarkdownTransfer from './useMarkdownTransfer';
+import { runMainCommand } from '../api/storage';
+import { on } from '../api/ipc';
+import { LIST_TITLE_INPUT_ID } from '../utils/constants';
+import { getCommand, type CommandId } from '../../../../shared/commands';
+
+/**
+ * Return type for the useAppCommands hook
+ */
+export interface UseAppCommandsReturn {
+  /** Run a command in whichever process owns its handler */
+  runCommand: (id: CommandId) => void;
+}
+
+// Wait for the header to render the current list before focusing its title
+const focusListTitle = () => {
+  setTimeout(() => {
+    document.getElementById(LIST_TITLE_INPUT_ID)?.focus();
+  }, 0);
+};
+
+/**
+ * Renderer-side handlers for the shared command registry. Used by the
+ * command palette and by native menu items dispatched over `menu-command`;
+ * commands owned by the main process are forwarded over IPC.
+ */
+export default function useAppCommands(
+  appSettings: AppSettings,
+  onUpdateAppSettings: (settings: AppSettings) => void,
+): UseAppCommandsReturn {
+  const { exportMarkdown, importMarkdown } = useMarkdownTransfer();
+
+  const runCommand = React.useCallback(
+    (id: CommandId) => {
+      if (getCommand(id).runsIn === 'main') {
+        void runMainCommand(id);
+        return;
+      }
+      const state = useTodosStore.getState();
+      const { selectedListId } = state;
+      switch (id) {
+        case 'new-list':
+          state.addList();
+          focusListTitle();
+          break;
+        case 'rename-list':
+          focusListTitle();
+          break;
+        case 'duplicate-list':
+          if (selectedListId) void state.duplicateList(selectedListId);
+          break;
+        case 'delete-list':
+          // The last remaining list can't be trashed
+          if (selectedListId && state.lists.length > 1) {
+            void state.deleteList(selectedListId);
+          }
+          break;
+        case 'sort-by-priority':
+          state.sortByPriority();
+          break;
+        case 'toggle-completed-items':
+          onUpdateAppSettings({
+            ...appSettings,
+            hideCompletedItems: !appSettings.hideCompletedItems,
+          });
+          break;
+        case 'undo':
+          state.undo();
+          break;
+        case 'redo':
+          state.redo();
+          break;
+        case 'import-markdown':
+          void importMarkdown();
+          break;
+        case 'export-list-markdown':
+          void exportMarkdown('list');
+          break;
+        case 'export-all-markdown':
+          void exportMarkdown('all');
+          break;
+        default:
+          break;
+      }
+    },
+    [appSettings, onUpdateAppSettings, exportMarkdown, importMarkdown],
+  );
+
+  React.useEffect(() => {
+    const off = on('menu-command', runCommand);
+    return () => {
+      off?.();
+    };
+  }, [runCommand]);
+
+  return { runCommand };
+}
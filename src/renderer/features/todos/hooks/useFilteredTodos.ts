@@ -1,5 +1,6 @@
 import React from 'react';
 import type { EditorTodo } from '../types';
+import { filterTodosByTag } from '../utils/tags';
 
 /**
  * Return type for the useFilteredTodos hook
@@ -19,7 +20,7 @@ export interface UseFilteredTodosReturn {
  * Custom hook for managing filtered todos with proper index translation.
  *
  * This hook handles the complexity of working with filtered todo lists by:
- * - Providing filtered todos based on completion status
+ * - Providing filtered todos based on completion status and an optional #tag
  * - Translating filtered indices to actual list indices for operations
  * - Managing focus after insert/remove operations
  * - Handling edge cases when filtering is active
@@ -30,6 +31,8 @@ export interface UseFilteredTodosReturn {
  * @param removeTodoAt - Function to remove a todo at a given index
  * @param setSelectedTodos - Function to update the selected todos
  * @param focusTodo - Function to focus a todo by ID
+ * @param tagFilter - Only show todos tagged with this tag (plus their
+ *                    ancestors and subtasks); null shows everything
  * @returns Object containing filtered todos and operation functions
  *
  * @example
@@ -63,12 +66,14 @@ export default function useFilteredTodos(
     updater: (prev: EditorTodo[]) => EditorTodo[] | null | undefined,
   ) => void,
   focusTodo: (id: number) => void,
+  tagFilter: string | null = null,
 ): UseFilteredTodosReturn {
   const filteredTodos = React.useMemo(() => {
-    return hideCompletedItems
+    const visible = hideCompletedItems
       ? allTodos.filter((todo) => !todo.completed)
       : allTodos;
-  }, [allTodos, hideCompletedItems]);
+    return tagFilter ? filterTodosByTag(visible, tagFilter) : visible;
+  }, [allTodos, hideCompletedItems, tagFilter]);
 
   /**
    * Insert a new todo below the specified todo and focus it.
@@ -0,0 +1,124 @@
+import React from 'react';
+import type { EditorTodo } from '../types';
+import {
+  exportMarkdownFile,
+  importMarkdownFiles,
+  loadListTodos,
+  saveListTodos,
+} from '../api/storage';
+import { on } from '../api/ipc';
+import { useTodosStore } from '../store/useTodosStore';
+import { listsToMarkdown, parseMarkdownLists } from '../utils/markdown';
+import { debugLogger } from '../../../utils/debug';
+
+export type MarkdownExportScope = 'list' | 'all';
+
+/**
+ * Return type for the useMarkdownTransfer hook
+ */
+export interface UseMarkdownTransferReturn {
+  /** Export the selected list or every list; false if canceled or failed */
+  exportMarkdown: (scope: MarkdownExportScope) => Promise<boolean>;
+  /** Pick Markdown files and add them as new lists; resolves to the number of lists added */
+  importMarkdown: () => Promise<number>;
+}
+
+// Loaded lists are exported from memory (unsaved edits included), others from storage
+async function resolveTodos(listId: string): Promise<EditorTodo[]> {
+  const state = useTodosStore.getState();
+  const list = state.lists.find((l) => l.id === listId);
+  if (list && state.isListLoaded(listId)) return list.todos;
+  const doc = await loadListTodos(listId);
+  return doc.todos;
+}
+
+/**
+ * Custom hook for exporting lists to and importing lists from Markdown task
+ * lists. File dialogs run in the main process.
+ */
+export default function useMarkdownTransfer(): UseMarkdownTransferReturn {
+  const importLists = useTodosStore((s) => s.importLists);
+
+  const exportMarkdown = React.useCallback(
+    async (scope: MarkdownExportScope) => {
+      const { lists, selectedListId } = useTodosStore.getState();
+      const targets =
+        scope === 'all' ? lists : lists.filter((l) => l.id === selectedListId);
+      if (targets.length === 0) return false;
+
+      let withTodos;
+      try {
+        withTodos = await Promise.all(
+          targets.map(async (l) => ({
+            name: l.name,
+            todos: await resolveTodos(l.id),
+          })),
+        );
+      } catch (error) {
+        // Exporting an unreadable list as empty would lose it silently
+        debugLogger.log('error', 'Failed to load todos for export', { error });
+        return false;
+      }
+      const defaultName = scope === 'all' ? 'Todolo' : targets[0].name;
+      const res = await exportMarkdownFile(
+        defaultName,
+        listsToMarkdown(withTodos),
+      );
+      return res.success;
+    },
+    [],
+  );
+
+  const importMarkdown = React.useCallback(async () => {
+    const files = await importMarkdownFiles();
+    const parsed = files.flatMap((f) => parseMarkdownLists(f.content, f.name));
+    if (parsed.length === 0) {
+      if (files.length > 0) {
+        debugLogger.log('warn', 'No Markdown list items found to import', {
+          fileCount: files.length,
+        });
+      }
+      return 0;
+    }
+
+    const ids = importLists(parsed);
+    // Persist right away; only the selected list is saved by the normal
+    // debounced path
+    const { lists, setListRevision } = useTodosStore.getState();
+    await Promise.all(
+      ids.map(async (id) => {
+        const list = lists.find((l) => l.id === id);
+        // New lists, so storage has nothing to conflict with
+        const result = await saveListTodos(
+          id,
+          { version: 2, todos: list?.todos ?? [] },
+          0,
+        );
+        if (result.status === 'saved') setListRevision(id, result.revision);
+      }),
+    );
+    return ids.length;
+  }, [importLists]);
+
+  return { exportMarkdown, importMarkdown };
+}
+
+/**
+ * Wires the File menu's Markdown import/export items to the renderer.
+ */
+export function useMarkdownMenuCommands(): void {
+  const { exportMarkdown, importMarkdown } = useMarkdownTransfer();
+
+  React.useEffect(() => {
+    const offExport = on('menu-export-markdown', (scope) => {
+      void exportMarkdown(scope);
+    });
+    const offImport = on('menu-import-markdown', () => {
+      void importMarkdown();
+    });
+    return () => {
+      offExport?.();
+      offImport?.();
+    };
+  }, [exportMarkdown, importMarkdown]);
+}
@@ -0,0 +1,118 @@
+import React from 'react';
+import type { EditorTodo } from '../types';
+import type { FocusPosition } from './useTodoFocus';
+import { parseOutlineText } from '../utils/markdown';
+import { deriveIndentFromParentId } from '../utils/todoUtils';
+import { MAX_INDENT } from '../utils/constants';
+import { debugLogger } from '../../../utils/debug';
+
+export interface UseOutlinePasteProps {
+  allTodos: EditorTodo[];
+  updateTodo: (id: number, text: string, coalesceKey?: string) => void;
+  insertTodoBelow: (
+    index: number,
+    text?: string,
+    coalesceKey?: string,
+  ) => number;
+  setTodoParent: (
+    id: number,
+    parentId: number | null,
+    options?: { completed?: boolean; coalesceKey?: string },
+  ) => void;
+  focusTodo: (id: number, position?: FocusPosition) => void;
+}
+
+/**
+ * Custom hook that turns a multi-line paste into one todo per line.
+ *
+ * The first line goes into the row being edited (at the cursor); the rest are
+ * inserted below it. Leading whitespace nests a line under the previous
+ * shallower one, and `[x]` lines come in completed. The whole paste is a
+ * single undo step. Single-line pastes fall through to the textarea.
+ */
+export default function useOutlinePaste({
+  allTodos,
+  updateTodo,
+  insertTodoBelow,
+  setTodoParent,
+  focusTodo,
+}: UseOutlinePasteProps) {
+  return React.useCallback(
+    (id: number) => (event: React.ClipboardEvent<HTMLTextAreaElement>) => {
+      const items = parseOutlineText(
+        event.clipboardData?.getData('text/plain') ?? '',
+      );
+      if (items.length < 2) return;
+      const index = allTodos.findIndex((t) => t.id === id);
+      if (index === -1) return;
+      event.preventDefault();
+
+      const current = allTodos[index];
+      const el = event.currentTarget;
+      const start = el.selectionStart ?? current.text.length;
+      const end = el.selectionEnd ?? start;
+      const before = current.text.slice(0, start);
+      const after = current.text.slice(end);
+      const coalesceKey = `paste:${id}:${Date.now()}`;
+      const [first, ...rest] = items;
+
+      updateTodo(id, before + first.text, coalesceKey);
+      if (current.text.trim() === '' && first.completed) {
+        setTodoParent(id, current.parentId ?? null, {
+          completed: true,
+          coalesceKey,
+        });
+      }
+
+      // Depth is relative to the first line; lines can't go above the row
+      // being edited or skip a level
+      const baseDepth = deriveIndentFromParentId(current, { todos: allTodos });
+      const maxRelative = Math.max(0, MAX_INDENT - baseDepth);
+      const chain: Array<{ id: number; completed: boolean }> = [
+        { id, completed: current.completed || first.completed },
+      ];
+      let lastId = id;
+      let lastText = before + first.text;
+
+      rest.forEach((item, offset) => {
+        const relative = Math.min(
+          Math.max(0, item.depth - first.depth),
+          chain.length,
+          maxRelative,
+        );
+        chain.length = Math.max(relative, 1);
+        // An active todo can't sit under a completed one: climb to the nearest
+        // active ancestor, falling back to the edited row's parent
+        let parentIndex = relative - 1;
+        while (
+          parentIndex >= 0 &&
+          !item.completed &&
+          chain[parentIndex].completed
+        ) {
+          parentIndex -= 1;
+        }
+        const parentId =
+          parentIndex >= 0 ? chain[parentIndex].id : (current.parentId ?? null);
+
+        const newId = insertTodoBelow(index + offset, item.text, coalesceKey);
+        setTodoParent(newId, parentId, {
+          completed: item.completed,
+          coalesceKey,
+        });
+        chain[relative] = { id: newId, completed: item.completed };
+        lastId = newId;
+        lastText = item.text;
+      });
+
+      if (after) {
+        updateTodo(lastId, lastText + after, coalesceKey);
+      }
+      debugLogger.log('info', 'Pasted outline', {
+        todoId: id,
+        lineCount: items.length,
+      });
+      focusTodo(lastId, lastText.length);
+    },
+    [allTodos, updateTodo, insertTodoBelow, setTodoParent, focusTodo],
+  );
+}
@@ -0,0 +1,27 @@
+import React from 'react';
+import { useTodosStore } from '../store/useTodosStore';
+import { on } from '../api/ipc';
+
+/**
+ * Adds todos captured in the quick-capture window to the open lists, so they
+ * show up without reloading. The todo is already saved by the main process.
+ */
+export default function useQuickCaptureSync(): void {
+  const appendCapturedTodo = useTodosStore((s) => s.appendCapturedTodo);
+  const setListRevision = useTodosStore((s) => s.setListRevision);
+
+  React.useEffect(() => {
+    const off = on('quick-capture-added', (payload) => {
+      const { listId, todoId, revision, text, dueDate, dueTime, priority } =
+        payload;
+      // The store normalizes the parsed fields
+      appendCapturedTodo(listId, todoId, text, { dueDate, dueTime, priority });
+      // The open list already has the todo, so its next save builds on
+      // the revision that added it
+      if (revision !== undefined) setListRevision(listId, revision);
+    });
+    return () => {
+      off?.();
+    };
+  }, [appendCapturedTodo, setListRevision]);
+}
@@ -0,0 +1,22 @@
+import React from 'react';
+import { useTodosStore } from '../store/useTodosStore';
+import { on } from '../api/ipc';
+
+/**
+ * Opens the todo behind a clicked reminder notification.
+ */
+export default function useReminderOpenTodo(
+  openTodo: (listId: string, todoId: number) => void,
+): void {
+  React.useEffect(() => {
+    const off = on('reminder-open-todo', (listId, todoId) => {
+      if (!useTodosStore.getState().lists.some((l) => l.id === listId)) {
+        return;
+      }
+      openTodo(listId, todoId);
+    });
+    return () => {
+      off?.();
+    };
+  }, [openTodo]);
+}
@@ -0,0 +1,109 @@
+import React from 'react';
+import { loadListTodos } from '../api/storage';
+import { useTodosStore } from '../store/useTodosStore';
+import { debugLogger } from '../../../utils/debug';
+import { normalizeStoredTodos } from '../utils/storedTodos';
+import {
+  BUILT_IN_SMART_LISTS,
+  querySmartList,
+  type SmartListGroup,
+} from '../utils/smartLists';
+import type { SmartListDefinition } from '../../../../shared/smartLists';
+
+/**
+ * Return type for the useSmartList hook
+ */
+export interface UseSmartListReturn {
+  /** The open smart list, built-in or saved; null when none is open */
+  definition: SmartListDefinition | null;
+  /** Matching todos grouped by source list */
+  groups: SmartListGroup[];
+  /** True while lists the query needs are still loading */
+  loading: boolean;
+}
+
+/**
+ * Custom hook backing the smart list view.
+ *
+ * Smart lists read from every list's todos, so opening one loads the lists
+ * that haven't been opened yet into the store. Results are computed from the
+ * store, so edits made through the store show up (and are saved) like edits
+ * in the list itself.
+ */
+export default function useSmartList(): UseSmartListReturn {
+  const activeSmartListId = useTodosStore((s) => s.activeSmartListId);
+  const smartLists = useTodosStore((s) => s.smartLists);
+  const lists = useTodosStore((s) => s.lists);
+  const loadedLists = useTodosStore((s) => s.loadedLists);
+  const [pending, setPending] = React.useState<Set<string>>(new Set());
+  // Each list is fetched at most once; a failed load isn't retried in a loop
+  const requestedRef = React.useRef(new Set<string>());
+
+  const definition = React.useMemo(
+    () =>
+      [...BUILT_IN_SMART_LISTS, ...smartLists].find(
+        (s) => s.id === activeSmartListId,
+      ) ?? null,
+    [activeSmartListId, smartLists],
+  );
+
+  const sourceIds = React.useMemo(
+    () =>
+      lists
+        .map((l) => l.id)
+        .filter(
+          (id) =>
+            !definition?.filter.listIds.length ||
+            definition.filter.listIds.includes(id),
+        ),
+    [lists, definition],
+  );
+
+  React.useEffect(() => {
+    if (!definition) return;
+    const missing = sourceIds.filter(
+      (id) => !loadedLists.has(id) && !requestedRef.current.has(id),
+    );
+    if (missing.length === 0) return;
+    missing.forEach((id) => requestedRef.current.add(id));
+    setPending((prev) => new Set([...prev, ...missing]));
+    missing.forEach(async (listId) => {
+      try {
+        const doc = await loadListTodos(listId);
+        const todos = normalizeStoredTodos(doc?.todos ?? []);
+        const state = useTodosStore.getState();
+        // Opening the list in the meantime loads it the usual way
+        if (!state.isListLoaded(listId)) {
+          state.setLists((prev) =>
+            prev.map((l) => (l.id === listId ? { ...l, todos } : l)),
+          );
+          state.markListAsLoaded(listId);
+          state.setListRevision(listId, doc?.revision ?? 0);
+          state.syncIdCounter(todos.reduce((m, t) => Math.max(m, t.id), 0));
+        }
+      } catch (error) {
+        debugLogger.log('error', 'Smart list: failed to load list todos', {
+          listId,
+          error,
+        });
+      } finally {
+        setPending((prev) => {
+          const next = new Set(prev);
+          next.delete(listId);
+          return next;
+        });
+      }
+    });
+  }, [definition, sourceIds, loadedLists]);
+
+  const groups = React.useMemo(
+    () => (definition ? querySmartList(lists, definition.filter) : []),
+    [definition, lists],
+  );
+
+  return {
+    definition,
+    groups,
+    loading: pending.size > 0,
+  };
+}
@@ -0,0 +1,66 @@
+import React from 'react';
+import type { TagCount } from '../types';
+import { loadTags, loadTodosByTag } from '../api/storage';
+import { useTodosStore } from '../store/useTodosStore';
+import {
+  groupSearchHitsByList,
+  type SearchResultGroup,
+} from '../utils/searchResults';
+
+// Edits reach the database after the 200ms save debounce; re-read after that
+const REFRESH_DELAY_MS = 500;
+
+/**
+ * Return type for the useTagIndex hook
+ */
+export interface UseTagIndexReturn {
+  /** Tags in use across all lists, most used first */
+  tags: TagCount[];
+  /** Tag whose todos are shown in the tag view, if any */
+  selectedTag: string | null;
+  /** Show every todo carrying a tag (null closes the tag view) */
+  selectTag: (tag: string | null) => void;
+  /** Todos carrying the selected tag, grouped by list */
+  groups: SearchResultGroup[];
+}
+
+/**
+ * Custom hook backing the sidebar tag view.
+ *
+ * Tags are only fetched while the view is open, and re-fetched shortly after
+ * lists change so counts follow edits once they have been saved.
+ */
+export default function useTagIndex(isOpen: boolean): UseTagIndexReturn {
+  const [tags, setTags] = React.useState<TagCount[]>([]);
+  const [selectedTag, setSelectedTag] = React.useState<string | null>(null);
+  const [groups, setGroups] = React.useState<SearchResultGroup[]>([]);
+  const lists = useTodosStore((s) => s.lists);
+  const requestSeqRef = React.useRef(0);
+  const listsRef = React.useRef(lists);
+
+  React.useEffect(() => {
+    // Opening the view or picking a tag loads right away; edits wait for the save
+    const delay = listsRef.current !== lists ? REFRESH_DELAY_MS : 0;
+    listsRef.current = lists;
+    if (!isOpen) return undefined;
+    requestSeqRef.current += 1;
+    const seq = requestSeqRef.current;
+    const timeout = setTimeout(async () => {
+      const [nextTags, hits] = await Promise.all([
+        loadTags(),
+        selectedTag ? loadTodosByTag(selectedTag) : Promise.resolve([]),
+      ]);
+      if (seq !== requestSeqRef.current) return;
+      setTags(nextTags);
+      setGroups(groupSearchHitsByList(hits));
+    }, delay);
+    return () => clearTimeout(timeout);
+  }, [isOpen, selectedTag, lists]);
+
+  const selectTag = React.useCallback((tag: string | null) => {
+    setSelectedTag(tag);
+    if (!tag) setGroups([]);
+  }, []);
+
+  return { tags, selectedTag, selectTag, groups };
+}
@@ -29,6 +29,8 @@ export interface UseTodoFocusReturn {
   setInputRef: (id: number, el: HTMLTextAreaElement | null) => void;
   /** Function to schedule a todo for focus */
   focusTodo: (id: number, position?: FocusPosition) => void;
+  /** Function to focus a mounted todo right away (falls back to scheduling) */
+  moveFocusTo: (id: number, position?: FocusPosition) => void;
   /** Function to clear any pending focus */
   clearFocus: () => void;
 }
@@ -78,6 +80,28 @@ export default function useTodoFocus(): UseTodoFocusReturn {
     [],
   );
 
+  // Keyboard navigation doesn't change todos, so the focus effect never runs;
+  // focus the row directly when it is already on screen
+  const moveFocusTo = React.useCallback(
+    (id: number, position: FocusPosition = 'end') => {
+      const el = inputByIdRef.current.get(id);
+      if (!el) {
+        focusNextIdRef.current = { id, position };
+        return;
+      }
+      el.focus();
+      const cursorPos =
+        position === 'start'
+          ? 0
+          : position === 'end'
+            ? el.value.length
+            : Math.max(0, Math.min(position, el.value.length));
+      el.setSelectionRange(cursorPos, cursorPos);
+      focusNextIdRef.current = null;
+    },
+    [],
+  );
+
   const clearFocus = React.useCallback(() => {
     focusNextIdRef.current = null;
   }, []);
@@ -87,6 +111,7 @@ export default function useTodoFocus(): UseTodoFocusReturn {
     focusNextIdRef,
     setInputRef,
     focusTodo,
+    moveFocusTo,
     clearFocus,
   };
 }
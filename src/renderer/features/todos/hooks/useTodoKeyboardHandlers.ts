@@ -1,6 +1,10 @@
 import React from 'react';
-import type { EditorTodo } from '../types';
-import { getCursorPosition, isCursorAtStart } from '../utils/cursorUtils';
+import type { EditorTodo, TodoPriority } from '../types';
+import {
+  getCursorPosition,
+  isCursorAtEnd,
+  isCursorAtStart,
+} from '../utils/cursorUtils';
 import type { FocusPosition } from './useTodoFocus';
 import { debugLogger } from '../../../utils/debug';
 import {
@@ -9,6 +13,8 @@ import {
   deriveIndentFromParentId,
   clampIndent,
 } from '../utils/todoUtils';
+import { cyclePriority } from '../utils/priority';
+import { computeHiddenTodoIds, findAncestorIds } from '../utils/collapse';
 
 export interface UseTodoKeyboardHandlersProps {
   allTodos: EditorTodo[];
@@ -18,6 +24,169 @@ export interface UseTodoKeyboardHandlersProps {
   updateTodo: (id: number, text: string) => void;
   focusTodo: (id: number, position?: FocusPosition) => void;
   hideCompletedItems?: boolean;
+  setPriority?: (id: number, priority: TodoPriority | null) => void;
+  openDetail?: (id: number) => void;
+  setCollapsed?: (id: number, collapsed: boolean) => void;
+  setAllCollapsed?: (collapsed: boolean) => void;
+  moveTodoSubtree?: (id: number, direction: 'up' | 'down') => boolean;
+  // Focuses a row immediately; needed for navigation, which doesn't re-render
+  moveFocus?: (id: number, position?: FocusPosition) => void;
+  // Rows in on-screen order; defaults to allTodos minus collapsed subtrees
+  visibleTodoIds?: number[];
+  // Applies quick-add parsing to the text a row keeps when Enter commits it;
+  // returns true when it saved the text itself
+  commitQuickAdd?: (id: number, text: string) => boolean;
+}
+
+/**
+ * Cmd/Ctrl+Shift+P cycles the todo's priority, like clicking its marker.
+ * Returns true when the event was handled.
+ */
+function handlePriorityShortcut(
+  event: React.KeyboardEvent<HTMLTextAreaElement>,
+  todo: EditorTodo,
+  setPriority?: (id: number, priority: TodoPriority | null) => void,
+): boolean {
+  if (
+    !setPriority ||
+    !(event.metaKey || event.ctrlKey) ||
+    !event.shiftKey ||
+    event.key.toLowerCase() !== 'p'
+  ) {
+    return false;
+  }
+  event.preventDefault();
+  setPriority(todo.id, cyclePriority(todo.priority));
+  return true;
+}
+
+/**
+ * Cmd/Ctrl+I opens the todo's detail pane. Returns true when handled.
+ */
+function handleDetailShortcut(
+  event: React.KeyboardEvent<HTMLTextAreaElement>,
+  id: number,
+  openDetail?: (id: number) => void,
+): boolean {
+  if (
+    !openDetail ||
+    !(event.metaKey || event.ctrlKey) ||
+    event.shiftKey ||
+    event.altKey ||
+    event.key.toLowerCase() !== 'i'
+  ) {
+    return false;
+  }
+  event.preventDefault();
+  openDetail(id);
+  return true;
+}
+
+/**
+ * Cmd/Ctrl+ArrowUp collapses the focused todo, Cmd/Ctrl+ArrowDown expands it;
+ * with Shift they apply to every parent in the list. Collapsing from a subtask
+ * collapses its parent, and focus moves up to whichever row stays visible.
+ * Returns true when the event was handled.
+ */
+function handleCollapseShortcut(
+  event: React.KeyboardEvent<HTMLTextAreaElement>,
+  index: number,
+  allTodos: EditorTodo[],
+  focusTodo: (id: number, position?: FocusPosition) => void,
+  setCollapsed?: (id: number, collapsed: boolean) => void,
+  setAllCollapsed?: (collapsed: boolean) => void,
+): boolean {
+  if (
+    !setCollapsed ||
+    !setAllCollapsed ||
+    !(event.metaKey || event.ctrlKey) ||
+    event.altKey ||
+    (event.key !== 'ArrowUp' && event.key !== 'ArrowDown')
+  ) {
+    return false;
+  }
+  event.preventDefault();
+  const cur = allTodos[index];
+  const collapse = event.key === 'ArrowUp';
+  const ancestors = findAncestorIds(allTodos, cur.id);
+
+  if (event.shiftKey) {
+    setAllCollapsed(collapse);
+    if (collapse && ancestors.length > 0) {
+      focusTodo(ancestors[ancestors.length - 1]);
+    }
+    return true;
+  }
+
+  const hasChildren = allTodos.some((t) => t.parentId === cur.id);
+  if (hasChildren) {
+    setCollapsed(cur.id, collapse);
+  } else if (collapse && ancestors.length > 0) {
+    setCollapsed(ancestors[0], true);
+    focusTodo(ancestors[0]);
+  }
+  return true;
+}
+
+/**
+ * Alt+Shift+ArrowUp/ArrowDown moves the todo and its subtree past the
+ * neighbouring sibling, keeping the caret where it was. Returns true when handled.
+ */
+function handleMoveShortcut(
+  event: React.KeyboardEvent<HTMLTextAreaElement>,
+  id: number,
+  focusTodo: (id: number, position?: FocusPosition) => void,
+  moveTodoSubtree?: (id: number, direction: 'up' | 'down') => boolean,
+): boolean {
+  if (
+    !moveTodoSubtree ||
+    !event.altKey ||
+    !event.shiftKey ||
+    event.metaKey ||
+    event.ctrlKey ||
+    (event.key !== 'ArrowUp' && event.key !== 'ArrowDown')
+  ) {
+    return false;
+  }
+  event.preventDefault();
+  const cursorPos = getCursorPosition(event.currentTarget);
+  if (moveTodoSubtree(id, event.key === 'ArrowUp' ? 'up' : 'down')) {
+    // Reordering remounts the row in its new place; restore focus afterwards
+    focusTodo(id, cursorPos);
+  }
+  return true;
+}
+
+/**
+ * ArrowUp at the start of the text / ArrowDown at the end moves focus to the
+ * previous / next visible row. Anywhere else the caret moves as usual.
+ */
+function handleArrowKey(
+  event: React.KeyboardEvent<HTMLTextAreaElement>,
+  id: number,
+  visibleIds: number[],
+  moveFocus?: (id: number, position?: FocusPosition) => void,
+): void {
+  const el = event.currentTarget;
+  if (
+    !moveFocus ||
+    event.altKey ||
+    event.shiftKey ||
+    event.metaKey ||
+    event.ctrlKey ||
+    el.selectionStart !== el.selectionEnd
+  ) {
+    return;
+  }
+  const up = event.key === 'ArrowUp';
+  if (up ? !isCursorAtStart(el) : !isCursorAtEnd(el)) return;
+
+  const position = visibleIds.indexOf(id);
+  const targetId = visibleIds[up ? position - 1 : position + 1];
+  if (position === -1 || targetId == null) return;
+
+  event.preventDefault();
+  moveFocus(targetId, up ? 'end' : 'start');
 }
 
 /**
@@ -64,6 +233,7 @@ function handleEnterKey(
   updateTodo: (id: number, text: string) => void,
   insertTodoBelow: (index: number, text?: string) => number,
   focusTodo: (id: number, position?: FocusPosition) => void,
+  commitQuickAdd?: (id: number, text: string) => boolean,
 ): void {
   event.preventDefault();
   const cur = allTodos[index];
@@ -91,12 +261,15 @@ function handleEnterKey(
   } else if (cursorPos === text.length) {
     // Cursor at end: create new empty todo (preserve current behavior)
     branch = 'end';
+    commitQuickAdd?.(cur.id, text);
     newTodoId = insertTodoBelow(index, '');
     focusTodo(newTodoId, 'start');
   } else {
     // Cursor in middle: split content
     branch = 'middle';
-    updateTodo(cur.id, leftContent);
+    if (!commitQuickAdd?.(cur.id, leftContent)) {
+      updateTodo(cur.id, leftContent);
+    }
     newTodoId = insertTodoBelow(index, rightContent);
     focusTodo(newTodoId, 'start');
   }
@@ -126,6 +299,7 @@ function handleBackspaceKey(
   updateTodo: (id: number, text: string) => void,
   focusTodo: (id: number, position?: FocusPosition) => void,
   hideCompletedItems: boolean = false,
+  hiddenIds: Set<number> = new Set(),
 ): void {
   const el = event.currentTarget;
   const cur = allTodos[index];
@@ -157,7 +331,8 @@ function handleBackspaceKey(
 
     for (let i = index - 1; i >= 0; i--) {
       const candidate = allTodos[i];
-      if (!candidate) {
+      // Rows inside a collapsed subtree aren't on screen, so never merge into them
+      if (!candidate || hiddenIds.has(candidate.id)) {
         // eslint-disable-next-line no-continue
         continue;
       }
@@ -285,9 +460,12 @@ function handleBackspaceKey(
     }
   }
 
-  // Default: remove and focus previous item
+  // Default: remove and focus the previous visible item
   removeTodoAt(index);
-  const prevTodo = allTodos[index - 1];
+  const prevTodo = allTodos
+    .slice(0, index)
+    .reverse()
+    .find((t) => !hiddenIds.has(t.id));
   if (prevTodo) {
     focusTodo(prevTodo.id);
   }
@@ -297,7 +475,14 @@ function handleBackspaceKey(
  * Custom hook for handling keyboard interactions on todo items.
  *
  * Provides a handler factory that creates keyboard event handlers for individual todos.
- * Handles Tab (indent/outdent), Enter (create new todo), and Backspace (delete/outdent) keys.
+ * Handles Tab (indent/outdent), Enter (create new todo), and Backspace (delete/outdent) keys,
+ * plus Cmd/Ctrl+Shift+P to cycle priority, Cmd/Ctrl+I to open the detail pane and
+ * Cmd/Ctrl(+Shift)+ArrowUp/ArrowDown to collapse or expand subtrees.
+ * ArrowUp/ArrowDown at the edges of the text move between visible rows, and
+ * Alt+Shift+ArrowUp/ArrowDown move the todo with its subtree. When Enter
+ * commits a row, `commitQuickAdd` gets a chance to parse the text it keeps.
+ * Rows hidden inside a collapsed subtree are skipped when looking for merge and
+ * focus targets.
  *
  * @param props - Configuration object containing todos and action functions
  * @returns A function that creates keyboard handlers for specific todo IDs
@@ -324,12 +509,45 @@ export default function useTodoKeyboardHandlers({
   updateTodo,
   focusTodo,
   hideCompletedItems = false,
+  setPriority,
+  openDetail,
+  setCollapsed,
+  setAllCollapsed,
+  moveTodoSubtree,
+  moveFocus,
+  visibleTodoIds,
+  commitQuickAdd,
 }: UseTodoKeyboardHandlersProps) {
+  const hiddenIds = React.useMemo(
+    () => computeHiddenTodoIds(allTodos),
+    [allTodos],
+  );
+  const visibleIds = React.useMemo(
+    () =>
+      visibleTodoIds ??
+      allTodos.filter((t) => !hiddenIds.has(t.id)).map((t) => t.id),
+    [visibleTodoIds, allTodos, hiddenIds],
+  );
   return React.useCallback(
     (id: number) => {
       return (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
         const index = allTodos.findIndex((t) => t.id === id);
         if (index === -1) return;
+        if (
+          handlePriorityShortcut(event, allTodos[index], setPriority) ||
+          handleDetailShortcut(event, id, openDetail) ||
+          handleCollapseShortcut(
+            event,
+            index,
+            allTodos,
+            focusTodo,
+            setCollapsed,
+            setAllCollapsed,
+          ) ||
+          handleMoveShortcut(event, id, focusTodo, moveTodoSubtree)
+        ) {
+          return;
+        }
 
         switch (event.key) {
           case 'Tab':
@@ -343,6 +561,7 @@ export default function useTodoKeyboardHandlers({
               updateTodo,
               insertTodoBelow,
               focusTodo,
+              commitQuickAdd,
             );
             break;
           case 'Backspace':
@@ -356,8 +575,13 @@ export default function useTodoKeyboardHandlers({
               updateTodo,
               focusTodo,
               hideCompletedItems,
+              hiddenIds,
             );
             break;
+          case 'ArrowUp':
+          case 'ArrowDown':
+            handleArrowKey(event, id, visibleIds, moveFocus);
+            break;
           default:
             // No action for other keys
             break;
@@ -372,6 +596,15 @@ export default function useTodoKeyboardHandlers({
       updateTodo,
       focusTodo,
       hideCompletedItems,
+      setPriority,
+      openDetail,
+      setCollapsed,
+      setAllCollapsed,
+      moveTodoSubtree,
+      moveFocus,
+      hiddenIds,
+      visibleIds,
+      commitQuickAdd,
     ],
   );
 }
@@ -0,0 +1,61 @@
+import React from 'react';
+import { searchTodos } from '../api/storage';
+import {
+  groupSearchHitsByList,
+  type SearchResultGroup,
+} from '../utils/searchResults';
+
+const SEARCH_DEBOUNCE_MS = 150;
+
+/**
+ * Return type for the useTodoSearch hook
+ */
+export interface UseTodoSearchReturn {
+  /** Current raw query text */
+  query: string;
+  /** Update the query; searching is debounced */
+  setQuery: (query: string) => void;
+  /** Reset the query and results */
+  clear: () => void;
+  /** Matches grouped by list, in ranking order */
+  groups: SearchResultGroup[];
+  /** Whether a search request is in flight */
+  isSearching: boolean;
+}
+
+/**
+ * Custom hook for full-text search across all lists.
+ *
+ * Queries are debounced and responses from superseded queries are ignored,
+ * so results always reflect the latest text in the search box.
+ */
+export default function useTodoSearch(
+  debounceMs: number = SEARCH_DEBOUNCE_MS,
+): UseTodoSearchReturn {
+  const [query, setQuery] = React.useState('');
+  const [groups, setGroups] = React.useState<SearchResultGroup[]>([]);
+  const [isSearching, setIsSearching] = React.useState(false);
+  const requestSeqRef = React.useRef(0);
+
+  React.useEffect(() => {
+    requestSeqRef.current += 1;
+    const seq = requestSeqRef.current;
+    if (query.trim() === '') {
+      setGroups([]);
+      setIsSearching(false);
+      return undefined;
+    }
+    setIsSearching(true);
+    const timeout = setTimeout(async () => {
+      const hits = await searchTodos(query);
+      if (seq !== requestSeqRef.current) return;
+      setGroups(groupSearchHitsByList(hits));
+      setIsSearching(false);
+    }, debounceMs);
+    return () => clearTimeout(timeout);
+  }, [query, debounceMs]);
+
+  const clear = React.useCallback(() => setQuery(''), []);
+
+  return { query, setQuery, clear, groups, isSearching };
+}
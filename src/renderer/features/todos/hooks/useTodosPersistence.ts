@@ -1,9 +1,15 @@
 import React from 'react';
-import { saveListTodos, loadListTodos } from '../api/storage';
+import { saveListTodos, loadListTodos, patchListTodos } from '../api/storage';
 import { debugLogger } from '../../../utils/debug';
 import { SaveQueue } from '../utils/saveQueue';
 import { useTodosStore } from '../store/useTodosStore';
-import { groupTodosBySection, clampIndent } from '../utils/todoUtils';
+import { groupTodosBySection } from '../utils/todoUtils';
+import { normalizeStoredTodos } from '../utils/storedTodos';
+import { diffTodos, isEmptyPatch, mergeTodos } from '../utils/todosPatch';
+import type { EditorTodo, TodosSaveResult } from '../types';
+
+// Saves that keep losing to concurrent writes give up after this many merges
+const MAX_CONFLICT_MERGES = 3;
 
 /**
  * Phase 5 Refactor: Zero parameters! Store handles all state.
@@ -20,27 +26,171 @@ export default function useTodosPersistence() {
   const nextId = useTodosStore((state) => state.nextId);
   const syncIdCounter = useTodosStore((state) => state.syncIdCounter);
 
+  // Other loaded lists edited since the last save (smart lists edit todos
+  // outside the selected list)
+  const dirtyListIdsRef = React.useRef(new Set<string>());
+
+  // What storage holds for each list as of its last load or save; saves send
+  // only the difference. Lists without an entry are saved in full.
+  const savedTodosRef = React.useRef(new Map<string, EditorTodo[]>());
+  // Saves of one list run one at a time, each based on the revision the
+  // previous one produced
+  const saveChainsRef = React.useRef(new Map<string, Promise<boolean>>());
+  // Lists whose todos couldn't be loaded; what's on screen isn't what
+  // storage holds, so nothing is saved for them
+  const failedLoadsRef = React.useRef(new Set<string>());
+
+  const saveTodos = React.useCallback(
+    async (
+      listId: string,
+      todos: EditorTodo[],
+      merges: number,
+    ): Promise<boolean> => {
+      const state = useTodosStore.getState();
+      const baseRevision = state.listRevisions[listId] ?? 0;
+      const saved = savedTodosRef.current.get(listId);
+      let result: TodosSaveResult = { status: 'failed' };
+      if (saved) {
+        const patch = diffTodos(saved, todos);
+        if (isEmptyPatch(patch)) return true;
+        result = await patchListTodos(listId, patch, baseRevision);
+        if (result.status === 'failed') {
+          debugLogger.log('warn', 'Patch save failed; saving full list', {
+            listId,
+          });
+        }
+      }
+      if (result.status === 'failed') {
+        result = await saveListTodos(
+          listId,
+          { version: 2, todos },
+          baseRevision,
+        );
+      }
+      if (result.status === 'saved') {
+        savedTodosRef.current.set(listId, todos);
+        state.setListRevision(listId, result.revision);
+        return true;
+      }
+      if (result.status !== 'conflict') return false;
+
+      // Storage moved on (quick capture, a move from another list, another
+      // window): merge its version with the edits here and save again
+      if (merges >= MAX_CONFLICT_MERGES) {
+        debugLogger.log('error', 'Giving up on save after repeated conflicts', {
+          listId,
+          revision: result.revision,
+        });
+        return false;
+      }
+      debugLogger.log('warn', 'List changed in storage; merging', {
+        listId,
+        baseRevision,
+        revision: result.revision,
+      });
+      let stored;
+      try {
+        stored = await loadListTodos(listId);
+      } catch {
+        return false;
+      }
+      const remote = normalizeStoredTodos(stored.todos);
+      const current = useTodosStore.getState();
+      const local = current.lists.find((l) => l.id === listId)?.todos;
+      if (!local) return false;
+      current.syncIdCounter(remote.reduce((m, t) => Math.max(m, t.id), 0));
+      const merged = mergeTodos(
+        savedTodosRef.current.get(listId) ?? [],
+        local,
+        remote,
+        current.nextId,
+      );
+      savedTodosRef.current.set(listId, remote);
+      current.setListRevision(listId, stored.revision);
+      if (!isEmptyPatch(diffTodos(local, merged))) {
+        current.replaceListTodos(listId, merged);
+      }
+      return saveTodos(listId, merged, merges + 1);
+    },
+    [],
+  );
+
+  const persistList = React.useCallback(
+    (listId: string, todos: EditorTodo[]): Promise<boolean> => {
+      if (failedLoadsRef.current.has(listId)) {
+        debugLogger.log('warn', 'Not saving a list that failed to load', {
+          listId,
+        });
+        return Promise.resolve(false);
+      }
+      const previous = saveChainsRef.current.get(listId);
+      const run = (previous ?? Promise.resolve(true))
+        .catch(() => false)
+        .then(() => saveTodos(listId, todos, 0));
+      saveChainsRef.current.set(listId, run);
+      const release = () => {
+        if (saveChainsRef.current.get(listId) === run) {
+          saveChainsRef.current.delete(listId);
+        }
+      };
+      run.then(release, release);
+      return run;
+    },
+    [saveTodos],
+  );
+
+  // Store actions that write to storage themselves (moving todos to another
+  // list) go through the same per-list save chain
+  React.useEffect(() => {
+    const { setListPersistence } = useTodosStore.getState();
+    setListPersistence({
+      flush: (listId) => {
+        const list = useTodosStore
+          .getState()
+          .lists.find((l) => l.id === listId);
+        return list ? persistList(listId, list.todos) : Promise.resolve(false);
+      },
+      updateSaved: (listId, update) => {
+        const saved = savedTodosRef.current.get(listId);
+        if (saved) savedTodosRef.current.set(listId, update(saved));
+      },
+    });
+    return () => setListPersistence(null);
+  }, [persistList]);
+
   // No local timers; all save timing is centralized in SaveQueue
   // Queue uses store getState() to always read latest state on save (no refs!)
   const queueRef = React.useRef<SaveQueue | null>(null);
   if (!queueRef.current) {
     queueRef.current = new SaveQueue(async () => {
       const state = useTodosStore.getState();
-      const listId = state.selectedListId;
-      if (!listId) return;
+      const dirty = [...dirtyListIdsRef.current];
+      dirtyListIdsRef.current.clear();
       const isTestEnv =
         typeof process !== 'undefined' && process.env?.NODE_ENV === 'test';
-      if (!isTestEnv && !state.isListLoaded(listId)) return;
-      const snapshot = state.lists.find((l) => l.id === listId);
-      if (!snapshot) return;
-      try {
-        await saveListTodos(listId, { version: 2, todos: snapshot.todos });
-      } catch (error) {
-        debugLogger.log('error', 'Queue-triggered save failed', {
-          listId,
-          error,
-        });
+      const listIds = dirty.filter((id) => state.isListLoaded(id));
+      const selectedId = state.selectedListId;
+      if (
+        selectedId &&
+        !listIds.includes(selectedId) &&
+        (isTestEnv || state.isListLoaded(selectedId))
+      ) {
+        listIds.unshift(selectedId);
       }
+      await Promise.all(
+        listIds.map(async (listId) => {
+          const snapshot = state.lists.find((l) => l.id === listId);
+          if (!snapshot) return;
+          try {
+            await persistList(listId, snapshot.todos);
+          } catch (error) {
+            debugLogger.log('error', 'Queue-triggered save failed', {
+              listId,
+              error,
+            });
+          }
+        }),
+      );
     });
   }
 
@@ -56,6 +206,15 @@ export default function useTodosPersistence() {
         selectedListId: state.selectedListId,
       };
       const listId = current.selectedListId;
+      // Edits to other loaded lists are saved by the same queue
+      current.lists.forEach((l) => {
+        if (l.id === listId || !state.isListLoaded(l.id)) return;
+        const before = prevState?.lists.find((p) => p.id === l.id)?.todos;
+        if (before && before !== l.todos) {
+          dirtyListIdsRef.current.add(l.id);
+          queueRef.current?.enqueue('debounced', 200);
+        }
+      });
       if (!listId) {
         prevState = current;
         return;
@@ -121,16 +280,13 @@ export default function useTodosPersistence() {
         listId,
         todoCount: snapshot.todos.length,
       });
-      const ok = await saveListTodos(listId, {
-        version: 2,
-        todos: snapshot.todos,
-      });
+      const ok = await persistList(listId, snapshot.todos);
       return ok;
     } catch (error) {
       debugLogger.log('error', 'Failed to flush todos', { listId, error });
       return false;
     }
-  }, []);
+  }, [persistList]);
 
   // Lazy-load selected list todos when selection changes (with caching)
   React.useEffect(() => {
@@ -174,29 +330,22 @@ export default function useTodosPersistence() {
       try {
         fetched = await loadListTodos(selectedListId);
       } catch (error) {
+        // Left unloaded: no seed row and no save that could overwrite the
+        // stored todos; the next selection tries again
+        failedLoadsRef.current.add(selectedListId);
         debugLogger.log('error', 'Failed to load todos from storage', {
           selectedListId,
           error,
         });
-        // Seed with empty todo on load failure
-        fetched = { version: 2, todos: [] };
+        return;
       }
+      failedLoadsRef.current.delete(selectedListId);
 
-      const todosNorm = (fetched.todos || []).map((t: any, i: number) => {
-        const todo: any = {
-          id: typeof t.id === 'number' ? t.id : i + 1,
-          text: typeof t.text === 'string' ? t.text : String(t.text ?? ''),
-          completed: Boolean(
-            (t as any).completed ?? (t as any).checked ?? false,
-          ),
-          indent: clampIndent(Number((t as any).indent ?? 0)),
-        };
-        // Preserve parentId from database (section is computed, not persisted)
-        if (t.parentId !== undefined) {
-          todo.parentId = t.parentId;
-        }
-        return todo;
-      });
+      const todosNorm = normalizeStoredTodos(fetched.todos);
+      savedTodosRef.current.set(selectedListId, todosNorm);
+      useTodosStore
+        .getState()
+        .setListRevision(selectedListId, fetched.revision);
 
       // Check if we need to seed: either no todos at all, or no active todos
       const sectionGroup = groupTodosBySection(todosNorm);
@@ -227,10 +376,8 @@ export default function useTodosPersistence() {
           ),
         );
         markListAsLoaded(selectedListId);
-        saveListTodos(selectedListId, {
-          version: 2,
-          todos: todosWithSeed,
-        }).catch((error) => {
+        // The seed row goes out as a patch against what was just loaded
+        persistList(selectedListId, todosWithSeed).catch((error) => {
           debugLogger.log('error', 'Failed to save seed todos', error);
         });
         debugLogger.log(
@@ -275,6 +422,7 @@ export default function useTodosPersistence() {
     setLists,
     nextId,
     syncIdCounter,
+    persistList,
   ]);
 
   // Debounce saves on any change to the selected list's todos
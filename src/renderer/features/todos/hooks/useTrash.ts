@@ -0,0 +1,67 @@
+import React from 'react';
+import type { TrashedList } from '../types';
+import {
+  loadTrash,
+  purgeList as purgeListApi,
+  emptyTrash as emptyTrashApi,
+} from '../api/storage';
+import { useTodosStore } from '../store/useTodosStore';
+
+/**
+ * Return type for the useTrash hook
+ */
+export interface UseTrashReturn {
+  /** Lists currently in the Trash, most recently deleted first */
+  items: TrashedList[];
+  /** Reload the Trash contents from storage */
+  refresh: () => Promise<void>;
+  /** Move a list out of the Trash and select it */
+  restore: (id: string) => Promise<boolean>;
+  /** Permanently delete one list from the Trash */
+  purge: (id: string) => Promise<boolean>;
+  /** Permanently delete everything in the Trash */
+  empty: () => Promise<boolean>;
+}
+
+/**
+ * Custom hook backing the sidebar Trash view.
+ *
+ * Contents are only fetched while the view is open, and re-fetched whenever
+ * the set of live lists changes (a list was moved to or out of the Trash).
+ */
+export default function useTrash(isOpen: boolean): UseTrashReturn {
+  const [items, setItems] = React.useState<TrashedList[]>([]);
+  const listCount = useTodosStore((s) => s.lists.length);
+  const restoreList = useTodosStore((s) => s.restoreList);
+
+  const refresh = React.useCallback(async () => {
+    setItems(await loadTrash());
+  }, []);
+
+  React.useEffect(() => {
+    if (isOpen) void refresh();
+  }, [isOpen, listCount, refresh]);
+
+  const restore = React.useCallback(
+    async (id: string) => {
+      const ok = await restoreList(id);
+      if (ok) setItems((prev) => prev.filter((l) => l.id !== id));
+      return ok;
+    },
+    [restoreList],
+  );
+
+  const purge = React.useCallback(async (id: string) => {
+    const ok = await purgeListApi(id);
+    if (ok) setItems((prev) => prev.filter((l) => l.id !== id));
+    return ok;
+  }, []);
+
+  const empty = React.useCallback(async () => {
+    const ok = await emptyTrashApi();
+    if (ok) setItems([]);
+    return ok;
+  }, []);
+
+  return { items, refresh, restore, purge, empty };
+}
@@ -0,0 +1,20 @@
+import React from 'react';
+import { useTodosStore } from '../store/useTodosStore';
+import { on } from '../api/ipc';
+
+/**
+ * Selects the list picked from the tray menu.
+ */
+export default function useTrayOpenList(): void {
+  const setSelectedListId = useTodosStore((s) => s.setSelectedListId);
+
+  React.useEffect(() => {
+    const off = on('tray-open-list', (listId) => {
+      if (!useTodosStore.getState().lists.some((l) => l.id === listId)) return;
+      setSelectedListId(listId);
+    });
+    return () => {
+      off?.();
+    };
+  }, [setSelectedListId]);
+}
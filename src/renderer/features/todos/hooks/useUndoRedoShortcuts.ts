@@ -0,0 +1,58 @@
+import React from 'react';
+import { useTodosStore } from '../store/useTodosStore';
+import { on } from '../api/ipc';
+
+/**
+ * Detects Cmd/Ctrl+Z (undo) and Shift+Cmd/Ctrl+Z (redo).
+ */
+export function getUndoRedoIntent(
+  event: Pick<KeyboardEvent, 'key' | 'metaKey' | 'ctrlKey' | 'altKey'> & {
+    shiftKey: boolean;
+  },
+): 'undo' | 'redo' | null {
+  if (!(event.metaKey || event.ctrlKey) || event.altKey) return null;
+  if (event.key.toLowerCase() !== 'z') return null;
+  return event.shiftKey ? 'redo' : 'undo';
+}
+
+/**
+ * Wires the store's undo/redo history to the keyboard and the Edit menu.
+ *
+ * The app's history takes priority over a todo textarea's native undo; when
+ * there is nothing left in the app history the native behavior runs instead.
+ * Plain inputs (list rename, search) keep their native undo.
+ */
+export default function useUndoRedoShortcuts(): void {
+  React.useEffect(() => {
+    const run = (intent: 'undo' | 'redo'): boolean => {
+      const state = useTodosStore.getState();
+      return intent === 'undo' ? state.undo() : state.redo();
+    };
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      const intent = getUndoRedoIntent(event);
+      if (!intent) return;
+      if (event.target instanceof HTMLInputElement) return;
+      const { undoStack, redoStack } = useTodosStore.getState();
+      const stack = intent === 'undo' ? undoStack : redoStack;
+      if (stack.length === 0) return;
+      event.preventDefault();
+      event.stopPropagation();
+      run(intent);
+    };
+
+    // Menu items (macOS Edit menu) fall back to the focused field's own undo
+    const onMenu = (intent: 'undo' | 'redo') => () => {
+      if (!run(intent)) document.execCommand(intent);
+    };
+
+    window.addEventListener('keydown', onKeyDown, true);
+    const offUndo = on('app-undo', onMenu('undo'));
+    const offRedo = on('app-redo', onMenu('redo'));
+    return () => {
+      window.removeEventListener('keydown', onKeyDown, true);
+      offUndo?.();
+      offRedo?.();
+    };
+  }, []);
+}
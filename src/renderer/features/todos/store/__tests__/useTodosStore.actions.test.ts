@@ -31,6 +31,8 @@ describe('useTodosStore actions', () => {
       indexLoaded: false,
       loadedLists: new Set(),
       idCounter: 1,
+      listRevisions: {},
+      listPersistence: null,
     } as any);
     mockStorage.duplicateList.mockResolvedValue({
       success: true,
@@ -52,6 +54,338 @@ describe('useTodosStore actions', () => {
     expect(selected?.todos[0].text).toBe('Updated');
   });
 
+  test('setDueDate sets, normalizes and clears the due date', () => {
+    const todos: EditorTodo[] = [
+      { id: 1, text: 'A', completed: false, indent: 0, parentId: null },
+    ];
+    useTodosStore.setState({
+      lists: [seedList('list-1', todos)],
+      selectedListId: 'list-1',
+    } as any);
+    const { setDueDate, getSelectedList } = useTodosStore.getState();
+
+    setDueDate(1, '2025-06-15');
+    expect(getSelectedList()?.todos[0].dueDate).toBe('2025-06-15');
+
+    setDueDate(1, 'not-a-date');
+    expect(getSelectedList()?.todos[0].dueDate).toBeNull();
+  });
+
+  test('due times need a date and are dropped with it', () => {
+    const todos: EditorTodo[] = [
+      { id: 1, text: 'A', completed: false, indent: 0, parentId: null },
+    ];
+    useTodosStore.setState({
+      lists: [seedList('list-1', todos)],
+      selectedListId: 'list-1',
+    } as any);
+    const { setDueDate, setDueTime, getSelectedList } =
+      useTodosStore.getState();
+
+    setDueTime(1, '09:30');
+    expect(getSelectedList()?.todos[0].dueTime).toBeUndefined();
+
+    setDueDate(1, '2025-06-15');
+    setDueTime(1, '09:30');
+    expect(getSelectedList()?.todos[0].dueTime).toBe('09:30');
+
+    setDueDate(1, null);
+    expect(getSelectedList()?.todos[0]).toMatchObject({
+      dueDate: null,
+      dueTime: null,
+    });
+  });
+
+  test('applyQuickAdd sets the parsed fields as one undo step', () => {
+    const todos: EditorTodo[] = [
+      {
+        id: 1,
+        text: 'Call Bob tomorrow !high',
+        completed: false,
+        indent: 0,
+        parentId: null,
+        priority: 'low',
+      },
+    ];
+    useTodosStore.setState({
+      lists: [seedList('list-1', todos)],
+      selectedListId: 'list-1',
+      undoStack: [],
+      redoStack: [],
+    } as any);
+
+    useTodosStore.getState().applyQuickAdd(1, {
+      text: 'Call Bob',
+      dueDate: '2025-06-16',
+      dueTime: null,
+      priority: 'high',
+    });
+    expect(useTodosStore.getState().getSelectedList()?.todos[0]).toMatchObject({
+      text: 'Call Bob',
+      dueDate: '2025-06-16',
+      priority: 'high',
+    });
+
+    useTodosStore.getState().undo();
+    expect(useTodosStore.getState().getSelectedList()?.todos[0]).toMatchObject({
+      text: 'Call Bob tomorrow !high',
+      priority: 'low',
+    });
+  });
+
+  test('toggleTodo spawns the next occurrence of a recurring todo', () => {
+    jest.useFakeTimers().setSystemTime(new Date(2025, 5, 15, 9, 0));
+    const todos: EditorTodo[] = [
+      {
+        id: 1,
+        text: 'Water plants',
+        completed: false,
+        indent: 0,
+        parentId: null,
+        dueDate: '2025-06-15',
+        recurrence: { kind: 'daily' },
+      },
+      { id: 2, text: 'Balcony', completed: false, indent: 1, parentId: 1 },
+      { id: 3, text: 'Other', completed: false, indent: 0, parentId: null },
+    ];
+    useTodosStore.setState({
+      lists: [seedList('list-1', todos)],
+      selectedListId: 'list-1',
+      idCounter: 10,
+      undoStack: [],
+    } as any);
+
+    useTodosStore.getState().toggleTodo(1);
+    jest.useRealTimers();
+
+    const after = useTodosStore.getState().getSelectedList()!.todos;
+    expect(after.map((t) => [t.id, t.completed])).toEqual([
+      [1, true],
+      [2, true],
+      [10, false],
+      [11, false],
+      [3, false],
+    ]);
+    expect(after[0].recurrence).toBeNull();
+    expect(after[2]).toMatchObject({
+      text: 'Water plants',
+      dueDate: '2025-06-16',
+      recurrence: { kind: 'daily' },
+      parentId: null,
+    });
+    expect(after[3]).toMatchObject({ text: 'Balcony', parentId: 10 });
+    // Completing and spawning is a single undo step
+    expect(useTodosStore.getState().undoStack).toHaveLength(1);
+  });
+
+  test('setRecurrence sets and clears the rule', () => {
+    useTodosStore.setState({
+      lists: [
+        seedList('list-1', [
+          { id: 1, text: 'A', completed: false, indent: 0, parentId: null },
+        ]),
+      ],
+      selectedListId: 'list-1',
+    } as any);
+    const { setRecurrence, getSelectedList } = useTodosStore.getState();
+
+    setRecurrence(1, { kind: 'weekly', days: [4, 1, 4] });
+    expect(getSelectedList()?.todos[0].recurrence).toEqual({
+      kind: 'weekly',
+      days: [1, 4],
+    });
+
+    setRecurrence(1, null);
+    expect(getSelectedList()?.todos[0].recurrence).toBeNull();
+  });
+
+  test('updateTodo turns a !1–!3 token into a priority', () => {
+    useTodosStore.setState({
+      lists: [
+        seedList('list-1', [
+          { id: 1, text: 'A', completed: false, indent: 0, parentId: null },
+        ]),
+      ],
+      selectedListId: 'list-1',
+    } as any);
+
+    useTodosStore.getState().updateTodo(1, 'Call bank !1 ');
+
+    const todo = useTodosStore.getState().getSelectedList()?.todos[0];
+    expect(todo).toMatchObject({ text: 'Call bank ', priority: 'high' });
+  });
+
+  test('sortByPriority reorders blocks as one undo step', () => {
+    const todos: EditorTodo[] = [
+      { id: 1, text: 'A', completed: false, indent: 0, parentId: null },
+      { id: 2, text: 'A.1', completed: false, indent: 1, parentId: 1 },
+      {
+        id: 3,
+        text: 'B',
+        completed: false,
+        indent: 0,
+        parentId: null,
+        priority: 'medium',
+      },
+    ];
+    useTodosStore.setState({
+      lists: [seedList('list-1', todos)],
+      selectedListId: 'list-1',
+      undoStack: [],
+    } as any);
+    const { sortByPriority, setPriority } = useTodosStore.getState();
+
+    sortByPriority();
+    expect(
+      useTodosStore
+        .getState()
+        .getSelectedList()
+        ?.todos.map((t) => t.id),
+    ).toEqual([3, 1, 2]);
+
+    setPriority(1, 'urgent');
+    sortByPriority();
+    expect(
+      useTodosStore
+        .getState()
+        .getSelectedList()
+        ?.todos.map((t) => t.id),
+    ).toEqual([1, 2, 3]);
+    expect(
+      useTodosStore.getState().undoStack.map((e) => (e as any).label),
+    ).toEqual(['sortByPriority', 'setPriority', 'sortByPriority']);
+  });
+
+  test('setTodoNotes coalesces consecutive edits into one undo step', () => {
+    useTodosStore.setState({
+      lists: [
+        seedList('list-1', [
+          { id: 1, text: 'A', completed: false, indent: 0, parentId: null },
+        ]),
+      ],
+      selectedListId: 'list-1',
+      undoStack: [],
+    } as any);
+    const { setTodoNotes } = useTodosStore.getState();
+
+    setTodoNotes(1, 'F');
+    setTodoNotes(1, 'First line');
+
+    expect(useTodosStore.getState().getSelectedList()?.todos[0].notes).toBe(
+      'First line',
+    );
+    expect(
+      useTodosStore.getState().undoStack.map((e) => (e as any).label),
+    ).toEqual(['setTodoNotes']);
+  });
+
+  test('collapse state changes are not recorded as undo steps', () => {
+    useTodosStore.setState({
+      lists: [
+        seedList('list-1', [
+          { id: 1, text: 'A', completed: false, indent: 0, parentId: null },
+          { id: 2, text: 'A.1', completed: false, indent: 1, parentId: 1 },
+          { id: 3, text: 'B', completed: false, indent: 0, parentId: null },
+        ]),
+      ],
+      selectedListId: 'list-1',
+      undoStack: [],
+    } as any);
+    const { setCollapsed, setAllCollapsed } = useTodosStore.getState();
+
+    // Leaf todos have nothing to collapse
+    setCollapsed(3, true);
+    expect(useTodosStore.getState().getSelectedList()?.todos[2].collapsed).toBe(
+      undefined,
+    );
+
+    setAllCollapsed(true);
+    expect(
+      useTodosStore
+        .getState()
+        .getSelectedList()
+        ?.todos.map((t) => !!t.collapsed),
+    ).toEqual([true, false, false]);
+
+    setCollapsed(1, false);
+    expect(useTodosStore.getState().getSelectedList()?.todos[0].collapsed).toBe(
+      false,
+    );
+    expect(useTodosStore.getState().undoStack).toHaveLength(0);
+  });
+
+  test('insertTodoBelow a collapsed parent inserts after its subtree', () => {
+    useTodosStore.setState({
+      lists: [
+        seedList('list-1', [
+          {
+            id: 1,
+            text: 'A',
+            completed: false,
+            indent: 0,
+            parentId: null,
+            collapsed: true,
+          },
+          { id: 2, text: 'A.1', completed: false, indent: 1, parentId: 1 },
+          { id: 3, text: 'B', completed: false, indent: 0, parentId: null },
+        ]),
+      ],
+      selectedListId: 'list-1',
+      idCounter: 10,
+    } as any);
+
+    const newId = useTodosStore.getState().insertTodoBelow(0, 'New');
+
+    const todos = useTodosStore.getState().getSelectedList()?.todos ?? [];
+    expect(todos.map((t) => t.id)).toEqual([1, 2, newId, 3]);
+    expect(todos[2].parentId).toBeNull();
+  });
+
+  test('indenting under a collapsed parent expands it', () => {
+    useTodosStore.setState({
+      lists: [
+        seedList('list-1', [
+          {
+            id: 1,
+            text: 'A',
+            completed: false,
+            indent: 0,
+            parentId: null,
+            collapsed: true,
+          },
+          { id: 2, text: 'A.1', completed: false, indent: 1, parentId: 1 },
+          { id: 3, text: 'B', completed: false, indent: 0, parentId: null },
+        ]),
+      ],
+      selectedListId: 'list-1',
+    } as any);
+
+    useTodosStore.getState().changeIndent(3, 1);
+
+    const todos = useTodosStore.getState().getSelectedList()?.todos ?? [];
+    expect(todos[2].parentId).toBe(1);
+    expect(todos[0].collapsed).toBe(false);
+  });
+
+  test('switching lists closes the detail pane', () => {
+    useTodosStore.setState({
+      lists: [
+        seedList('list-1', [
+          { id: 1, text: 'A', completed: false, indent: 0, parentId: null },
+        ]),
+        seedList('list-2', []),
+      ],
+      selectedListId: 'list-1',
+    } as any);
+    const { openTodoDetail, setSelectedListId } = useTodosStore.getState();
+
+    openTodoDetail(1);
+    expect(useTodosStore.getState().detailTodoId).toBe(1);
+
+    setSelectedListId('list-2');
+    expect(useTodosStore.getState().detailTodoId).toBeNull();
+  });
+
   test('updateTodo moves list to the top based on recency', () => {
     const olderList = seedList(
       'list-older',
@@ -89,6 +423,37 @@ describe('useTodosStore actions', () => {
     expect(selected?.todos.map((t) => t.completed)).toEqual([true, true, true]);
   });
 
+  test('toggleTodo with a listId edits that list and stamps completion', () => {
+    const todo = (text: string): EditorTodo => ({
+      id: 1,
+      text,
+      completed: false,
+      indent: 0,
+      parentId: null,
+    });
+    useTodosStore.setState({
+      lists: [
+        seedList('list-1', [todo('mine')]),
+        seedList('list-2', [todo('other')]),
+      ],
+      selectedListId: 'list-1',
+    } as any);
+
+    useTodosStore.getState().toggleTodo(1, 'list-2');
+
+    const [other] = useTodosStore.getState().getListById('list-2')!.todos;
+    expect(other.completed).toBe(true);
+    expect(typeof other.completedAt).toBe('string');
+    expect(
+      useTodosStore.getState().getListById('list-1')?.todos[0].completed,
+    ).toBe(false);
+
+    useTodosStore.getState().toggleTodo(1, 'list-2');
+    expect(
+      useTodosStore.getState().getListById('list-2')?.todos[0].completedAt,
+    ).toBeNull();
+  });
+
   test('insertTodoBelow inserts with inherited parent', () => {
     const todos: EditorTodo[] = [
       { id: 1, text: 'A', completed: false, indent: 0, parentId: null },
@@ -201,6 +566,108 @@ describe('useTodosStore actions', () => {
     expect(duplicated?.updatedAt).toEqual(expect.any(String));
   });
 
+  test('moveTodoToList moves the subtree into a loaded destination', async () => {
+    useTodosStore.setState({
+      lists: [
+        seedList('source', [
+          { id: 1, text: 'A', completed: false, indent: 0, parentId: null },
+          { id: 2, text: 'A.1', completed: false, indent: 1, parentId: 1 },
+          { id: 3, text: 'B', completed: false, indent: 0, parentId: null },
+        ]),
+        // 'Y' hasn't been saved yet
+        seedList('target', [
+          { id: 1, text: 'X', completed: false, indent: 0, parentId: null },
+          { id: 4, text: 'Y', completed: false, indent: 0, parentId: null },
+        ]),
+      ],
+      selectedListId: 'source',
+      loadedLists: new Set(['source', 'target']),
+      idCounter: 5,
+      undoStack: [
+        { kind: 'todos', label: 'updateTodo', listId: 'source', at: 0 },
+      ],
+    } as any);
+    const persistence = {
+      flush: jest.fn(async (listId: string) => {
+        useTodosStore
+          .getState()
+          .setListRevision(listId, listId === 'source' ? 4 : 6);
+        return true;
+      }),
+      updateSaved: jest.fn(),
+    };
+    useTodosStore.getState().setListPersistence(persistence);
+    mockStorage.moveTodosToList.mockResolvedValue({
+      success: true,
+      idMap: { 1: 5, 2: 6 },
+    });
+
+    const moved = await useTodosStore.getState().moveTodoToList(1, 'target');
+
+    expect(moved).toBe(true);
+    // Pending edits of both lists are flushed through the persistence hook
+    // (so storage assigns ids after 'Y'), and the move is based on the
+    // revisions those saves produced
+    expect(persistence.flush).toHaveBeenCalledWith('source');
+    expect(persistence.flush).toHaveBeenCalledWith('target');
+    expect(mockStorage.saveListTodos).not.toHaveBeenCalled();
+    expect(mockStorage.moveTodosToList).toHaveBeenCalledWith(
+      'source',
+      1,
+      'target',
+      4,
+      6,
+    );
+    expect(persistence.updateSaved.mock.calls.map(([id]) => id)).toEqual([
+      'source',
+      'target',
+    ]);
+    const state = useTodosStore.getState();
+    expect(state.getListById('source')?.todos.map((t) => t.id)).toEqual([3]);
+    expect(
+      state.getListById('target')?.todos.map((t) => [t.id, t.parentId]),
+    ).toEqual([
+      [1, null],
+      [4, null],
+      [5, null],
+      [6, 5],
+    ]);
+    expect(state.undoStack).toHaveLength(0);
+    expect(state.nextId()).toBe(7);
+  });
+
+  test('moveTodoToList leaves both lists alone when the flush or the move fails', async () => {
+    const source = seedList('source', [
+      { id: 1, text: 'A', completed: false, indent: 0, parentId: null },
+    ]);
+    useTodosStore.setState({
+      lists: [source, seedList('target', [])],
+      selectedListId: 'source',
+      loadedLists: new Set(['source', 'target']),
+    } as any);
+    const flush = jest.fn(async () => false);
+    useTodosStore
+      .getState()
+      .setListPersistence({ flush, updateSaved: jest.fn() });
+
+    expect(await useTodosStore.getState().moveTodoToList(1, 'target')).toBe(
+      false,
+    );
+    expect(mockStorage.moveTodosToList).not.toHaveBeenCalled();
+
+    flush.mockResolvedValue(true);
+    mockStorage.moveTodosToList.mockResolvedValue({
+      success: false,
+      error: 'revision_conflict',
+      listId: 'target',
+      revision: 7,
+    });
+    expect(await useTodosStore.getState().moveTodoToList(1, 'target')).toBe(
+      false,
+    );
+    expect(useTodosStore.getState().getListById('source')).toBe(source);
+  });
+
   test('changeIndent clamps to MAX_INDENT when increasing depth repeatedly', () => {
     const todos: EditorTodo[] = [
       { id: 1, text: 'Root', completed: false, indent: 0, parentId: null },
@@ -256,4 +723,70 @@ describe('useTodosStore actions', () => {
     expect(target?.parentId).toBe(2);
     expect(target?.indent).toBe(MIN_INDENT + 2);
   });
+
+  test('importLists adds loaded lists with fresh todo ids and selects the first', () => {
+    const existing = seedList('list-1', [
+      { id: 1, text: 'Keep', completed: false, indent: 0, parentId: null },
+    ]);
+    useTodosStore.setState({
+      lists: [existing],
+      selectedListId: 'list-1',
+      idCounter: 5,
+    } as any);
+
+    const ids = useTodosStore.getState().importLists([
+      {
+        name: 'Imported',
+        todos: [
+          {
+            id: 1,
+            text: 'Parent',
+            completed: false,
+            indent: 0,
+            parentId: null,
+          },
+          { id: 2, text: 'Child', completed: false, indent: 1, parentId: 1 },
+        ],
+      },
+    ]);
+
+    const state = useTodosStore.getState();
+    expect(ids).toHaveLength(1);
+    expect(state.selectedListId).toBe(ids[0]);
+    expect(state.isListLoaded(ids[0])).toBe(true);
+    const imported = state.lists.find((l) => l.id === ids[0])!;
+    expect(imported.name).toBe('Imported');
+    expect(imported.todos.map((t) => t.id)).toEqual([5, 6]);
+    expect(imported.todos[1].parentId).toBe(5);
+    expect(state.lists).toHaveLength(2);
+  });
+
+  test('appendCapturedTodo adds to loaded lists and only bumps unloaded ones', () => {
+    const loaded = seedList('list-1', [
+      { id: 4, text: 'Unsaved', completed: false, indent: 0, parentId: null },
+    ]);
+    const unloaded = seedList('list-2', [], { name: 'Later' });
+    useTodosStore.setState({
+      lists: [loaded, unloaded],
+      selectedListId: 'list-1',
+      loadedLists: new Set(['list-1']),
+      idCounter: 5,
+      undoStack: [],
+    } as any);
+
+    // id 4 is taken by an unsaved row, so a fresh one is used
+    useTodosStore.getState().appendCapturedTodo('list-1', 4, 'Captured');
+    useTodosStore.getState().appendCapturedTodo('list-2', 1, 'Elsewhere');
+
+    const state = useTodosStore.getState();
+    const first = state.getListById('list-1')!;
+    expect(first.todos.map((t) => [t.id, t.text])).toEqual([
+      [4, 'Unsaved'],
+      [5, 'Captured'],
+    ]);
+    const second = state.getListById('list-2')!;
+    expect(second.todos).toEqual([]);
+    expect(second.updatedAt).not.toBe(unloaded.updatedAt);
+    expect(state.undoStack).toHaveLength(0);
+  });
 });
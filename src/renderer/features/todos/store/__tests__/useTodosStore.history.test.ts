@@ -0,0 +1,254 @@
+import { useTodosStore } from '../useTodosStore';
+import {
+  COALESCE_WINDOW_MS,
+  HISTORY_LIMIT,
+  pushHistoryEntry,
+} from '../history';
+import type { HistoryEntry } from '../history';
+import type { TodoList, EditorTodo } from '../../types';
+import * as storage from '../../api/storage';
+
+jest.mock('../../api/storage');
+
+const mockStorage = storage as jest.Mocked<typeof storage>;
+
+function seedList(id: string, todos: EditorTodo[]): TodoList {
+  return {
+    id,
+    name: `List ${id}`,
+    todos,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+}
+
+const todo = (id: number, text: string, extra: Partial<EditorTodo> = {}) =>
+  ({
+    id,
+    text,
+    completed: false,
+    indent: 0,
+    parentId: null,
+    ...extra,
+  }) as EditorTodo;
+
+const selectedTodos = () =>
+  useTodosStore.getState().getSelectedList()?.todos ?? [];
+
+describe('useTodosStore undo/redo', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    useTodosStore.setState({
+      lists: [seedList('list-1', [todo(1, 'A'), todo(2, 'B')])],
+      selectedListId: 'list-1',
+      indexLoaded: true,
+      loadedLists: new Set(['list-1']),
+      idCounter: 3,
+      undoStack: [],
+      redoStack: [],
+    });
+    mockStorage.deleteList.mockResolvedValue({ success: true });
+    mockStorage.restoreList.mockResolvedValue({
+      success: true,
+      list: {
+        id: 'list-2',
+        name: 'List list-2',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z',
+      },
+    });
+  });
+
+  test('toggleTodo can be undone and redone', () => {
+    const store = useTodosStore.getState();
+    store.toggleTodo(1);
+    expect(selectedTodos()[0].completed).toBe(true);
+
+    expect(useTodosStore.getState().undo()).toBe(true);
+    expect(selectedTodos()[0].completed).toBe(false);
+
+    expect(useTodosStore.getState().redo()).toBe(true);
+    expect(selectedTodos()[0].completed).toBe(true);
+  });
+
+  test('insert, indent and remove unwind in reverse order', () => {
+    const store = useTodosStore.getState();
+    store.insertTodoBelow(1, 'C');
+    store.changeIndent(2, 1);
+    store.removeTodoAt(0);
+    expect(selectedTodos().map((t) => t.text)).toEqual(['B', 'C']);
+
+    useTodosStore.getState().undo();
+    expect(selectedTodos().map((t) => t.text)).toEqual(['A', 'B', 'C']);
+    expect(selectedTodos()[1].parentId).toBe(1);
+
+    useTodosStore.getState().undo();
+    expect(selectedTodos()[1].parentId).toBeNull();
+
+    useTodosStore.getState().undo();
+    expect(selectedTodos().map((t) => t.text)).toEqual(['A', 'B']);
+    expect(useTodosStore.getState().undo()).toBe(false);
+  });
+
+  test('consecutive typing on one row coalesces into a single step', () => {
+    const store = useTodosStore.getState();
+    store.updateTodo(1, 'Ab');
+    store.updateTodo(1, 'Abc');
+    store.updateTodo(2, 'Bx');
+    expect(useTodosStore.getState().undoStack).toHaveLength(2);
+
+    useTodosStore.getState().undo();
+    useTodosStore.getState().undo();
+    expect(selectedTodos().map((t) => t.text)).toEqual(['A', 'B']);
+  });
+
+  test('a new change clears the redo stack', () => {
+    const store = useTodosStore.getState();
+    store.toggleTodo(1);
+    useTodosStore.getState().undo();
+    expect(useTodosStore.getState().redoStack).toHaveLength(1);
+
+    useTodosStore.getState().toggleTodo(2);
+    expect(useTodosStore.getState().redoStack).toHaveLength(0);
+  });
+
+  test('reorderTodos is undoable', () => {
+    const [a, b] = selectedTodos();
+    useTodosStore.getState().reorderTodos([b, a]);
+    expect(selectedTodos().map((t) => t.id)).toEqual([2, 1]);
+
+    useTodosStore.getState().undo();
+    expect(selectedTodos().map((t) => t.id)).toEqual([1, 2]);
+  });
+
+  test('undo switches back to the list the change happened in', () => {
+    useTodosStore.getState().toggleTodo(1);
+    useTodosStore.setState((s) => ({
+      lists: [...s.lists, seedList('list-2', [todo(1, 'Other')])],
+      selectedListId: 'list-2',
+    }));
+
+    useTodosStore.getState().undo();
+    expect(useTodosStore.getState().selectedListId).toBe('list-1');
+    expect(selectedTodos()[0].completed).toBe(false);
+  });
+
+  test('deleteList can be undone by restoring the list from the trash', async () => {
+    useTodosStore.setState((s) => ({
+      lists: [...s.lists, seedList('list-2', [todo(1, 'Keep me')])],
+      loadedLists: new Set(['list-1', 'list-2']),
+    }));
+
+    await useTodosStore.getState().deleteList('list-2');
+    expect(mockStorage.deleteList).toHaveBeenCalledWith('list-2');
+    expect(useTodosStore.getState().getListById('list-2')).toBeUndefined();
+
+    useTodosStore.getState().undo();
+    const restored = useTodosStore.getState().getListById('list-2');
+    expect(restored?.todos.map((t) => t.text)).toEqual(['Keep me']);
+    expect(mockStorage.restoreList).toHaveBeenCalledWith('list-2');
+
+    useTodosStore.getState().redo();
+    expect(useTodosStore.getState().getListById('list-2')).toBeUndefined();
+    expect(mockStorage.deleteList).toHaveBeenCalledTimes(2);
+  });
+
+  test('deleteList keeps the list and records nothing when the delete fails', async () => {
+    useTodosStore.setState((s) => ({
+      lists: [...s.lists, seedList('list-2', [todo(1, 'Keep me')])],
+      loadedLists: new Set(['list-1', 'list-2']),
+    }));
+    mockStorage.deleteList.mockResolvedValueOnce({
+      success: false,
+      error: 'internal_error',
+    });
+
+    await expect(useTodosStore.getState().deleteList('list-2')).resolves.toBe(
+      false,
+    );
+    expect(useTodosStore.getState().getListById('list-2')).toBeDefined();
+    expect(useTodosStore.getState().undoStack).toHaveLength(0);
+  });
+
+  test('undo keeps todos that changed since the entry was recorded', () => {
+    useTodosStore.getState().toggleTodo(1);
+    useTodosStore.getState().appendCapturedTodo('list-1', 3, 'Captured');
+    // A merged save brought in an edit to B from another window
+    useTodosStore
+      .getState()
+      .replaceListTodos('list-1', [
+        selectedTodos()[0],
+        todo(2, 'B remote'),
+        selectedTodos()[2],
+      ]);
+
+    expect(useTodosStore.getState().undo()).toBe(true);
+    expect(selectedTodos().map((t) => [t.text, t.completed])).toEqual([
+      ['A', false],
+      ['B remote', false],
+      ['Captured', false],
+    ]);
+
+    useTodosStore.getState().redo();
+    expect(selectedTodos().map((t) => t.completed)).toEqual([
+      true,
+      false,
+      false,
+    ]);
+  });
+
+  test('undo leaves a smart list view for the list it changes', () => {
+    useTodosStore.getState().toggleTodo(1);
+    useTodosStore.setState({ activeSmartListId: 'smart-1' });
+
+    useTodosStore.getState().undo();
+    expect(useTodosStore.getState().activeSmartListId).toBeNull();
+    expect(useTodosStore.getState().selectedListId).toBe('list-1');
+  });
+
+  test('entries for lists that no longer exist are skipped', () => {
+    useTodosStore.getState().toggleTodo(1);
+    useTodosStore.setState((s) => ({
+      lists: [...s.lists, seedList('list-2', [todo(1, 'x')])],
+      selectedListId: 'list-2',
+    }));
+    useTodosStore.getState().toggleTodo(1);
+    useTodosStore.setState((s) => ({
+      lists: s.lists.filter((l) => l.id !== 'list-2'),
+      selectedListId: 'list-1',
+    }));
+
+    expect(useTodosStore.getState().undo()).toBe(true);
+    expect(selectedTodos()[0].completed).toBe(false);
+    expect(useTodosStore.getState().undoStack).toHaveLength(0);
+  });
+});
+
+describe('pushHistoryEntry', () => {
+  const entry = (at: number, coalesceKey?: string): HistoryEntry => ({
+    kind: 'todos',
+    label: 'updateTodo',
+    listId: 'l',
+    before: [],
+    after: [todo(1, String(at))],
+    coalesceKey,
+    at,
+  });
+
+  test('does not coalesce outside the time window', () => {
+    const stack = pushHistoryEntry(
+      [entry(0, 'k')],
+      entry(COALESCE_WINDOW_MS + 1, 'k'),
+    );
+    expect(stack).toHaveLength(2);
+  });
+
+  test('caps the stack length', () => {
+    let stack: HistoryEntry[] = [];
+    for (let i = 0; i < HISTORY_LIMIT + 5; i++) {
+      stack = pushHistoryEntry(stack, entry(i));
+    }
+    expect(stack).toHaveLength(HISTORY_LIMIT);
+    expect(stack[0].at).toBe(5);
+  });
+});
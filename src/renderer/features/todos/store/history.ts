@@ -0,0 +1,72 @@
+import type { EditorTodo, TodoList } from '../types';
+
+/**
+ * Application-level undo/redo history.
+ *
+ * Todo mutations record the selected list's todos before and after the change.
+ * Undo applies the difference from `after` back to `before` to the list as it
+ * is now, and redo the reverse, so changes made since by something else
+ * survive. List deletions keep the in-memory list so undo can take it back
+ * out of the Trash.
+ */
+
+export type TodosHistoryLabel =
+  | 'updateTodo'
+  | 'toggleTodo'
+  | 'setDueDate'
+  | 'setDueTime'
+  | 'setRecurrence'
+  | 'setPriority'
+  | 'sortByPriority'
+  | 'applyQuickAdd'
+  | 'setTodoNotes'
+  | 'changeIndent'
+  | 'insertTodoBelow'
+  | 'setTodoParent'
+  | 'removeTodoAt'
+  | 'moveTodoSubtree'
+  | 'reorderTodos';
+
+export type HistoryEntry =
+  | {
+      kind: 'todos';
+      label: TodosHistoryLabel;
+      listId: string;
+      before: EditorTodo[];
+      after: EditorTodo[];
+      // consecutive entries with the same key inside the window are merged
+      coalesceKey?: string;
+      at: number;
+    }
+  | {
+      kind: 'deleteList';
+      list: TodoList;
+      wasSelected: boolean;
+      at: number;
+    };
+
+export const HISTORY_LIMIT = 100;
+export const COALESCE_WINDOW_MS = 1000;
+
+export const pushHistoryEntry = (
+  stack: HistoryEntry[],
+  entry: HistoryEntry,
+): HistoryEntry[] => {
+  const top = stack[stack.length - 1];
+  if (
+    entry.kind === 'todos' &&
+    top?.kind === 'todos' &&
+    entry.coalesceKey != null &&
+    top.coalesceKey === entry.coalesceKey &&
+    entry.at - top.at <= COALESCE_WINDOW_MS
+  ) {
+    return [
+      ...stack.slice(0, -1),
+      { ...top, after: entry.after, at: entry.at },
+    ];
+  }
+  const next = [...stack, entry];
+  return next.length > HISTORY_LIMIT
+    ? next.slice(next.length - HISTORY_LIMIT)
+    : next;
+};
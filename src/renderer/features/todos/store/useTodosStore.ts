@@ -1,5 +1,10 @@
 import { create } from 'zustand';
-import type { TodoList, EditorTodo } from '../types';
+import type {
+  TodoList,
+  EditorTodo,
+  RecurrenceRule,
+  TodoPriority,
+} from '../types';
 import {
   reparentChildren,
   outdentChildren,
@@ -8,12 +13,42 @@ import {
   clampIndent,
 } from '../utils/todoUtils';
 import { MIN_INDENT } from '../utils/constants';
+import { moveTodoSubtree } from '../utils/dragDropUtils';
+import { normalizeDueDate, normalizeDueTime } from '../utils/dueDate';
+import {
+  collectSubtree,
+  createNextOccurrence,
+  normalizeRecurrence,
+} from '../utils/recurrence';
+import { normalizeTag } from '../utils/tags';
+import type { QuickAddFields } from '../utils/quickAdd';
+import type { SmartListDefinition } from '../../../../shared/smartLists';
+import {
+  expandTodos,
+  findAncestorIds,
+  findParentIds,
+  findSubtreeEndIndex,
+} from '../utils/collapse';
+import {
+  normalizePriority,
+  parsePriorityToken,
+  sortTodosByPriority,
+} from '../utils/priority';
 import {
   duplicateList as duplicateListApi,
   deleteList as deleteListApi,
+  restoreList as restoreListApi,
+  moveTodosToList as moveTodosToListApi,
+  saveSmartLists as saveSmartListsApi,
 } from '../api/storage';
 import { debugLogger } from '../../../utils/debug';
 import { sortListsByRecency } from '../utils/listOrdering';
+import { mergeTodos } from '../utils/todosPatch';
+import {
+  pushHistoryEntry,
+  type HistoryEntry,
+  type TodosHistoryLabel,
+} from './history';
 
 /**
  * Centralized Todos Store (Phase 5: Eliminate Ref Plumbing)
@@ -32,6 +67,22 @@ import { sortListsByRecency } from '../utils/listOrdering';
  * - Simpler hook signatures
  */
 
+/**
+ * Hooks into useTodosPersistence for actions that write to storage
+ * themselves, so they queue behind its saves and keep its copy of what is
+ * stored up to date.
+ */
+export type ListPersistence = {
+  // Saves the list's pending edits, after any save of it already running
+  flush: (listId: string) => Promise<boolean>;
+  // Records rows written outside the save path; the next save diffs
+  // against the result
+  updateSaved: (
+    listId: string,
+    update: (saved: EditorTodo[]) => EditorTodo[],
+  ) => void;
+};
+
 type TodosState = {
   // Core state
   lists: TodoList[];
@@ -41,32 +92,105 @@ type TodosState = {
   // Internal tracking (replaces refs)
   loadedLists: Set<string>;
   idCounter: number;
+  // Storage revision each list's todos were last loaded or saved at; saves
+  // are based on it (missing = 0, a list storage hasn't seen yet)
+  listRevisions: Record<string, number>;
+
+  // Undo/redo history (see ./history.ts)
+  undoStack: HistoryEntry[];
+  redoStack: HistoryEntry[];
+
+  // #tag the selected list is filtered by (view state, not persisted)
+  tagFilter: string | null;
+  // Todo (in the selected list) whose detail pane is open
+  detailTodoId: number | null;
+  // Set while useTodosPersistence is mounted
+  listPersistence: ListPersistence | null;
+  // Saved smart list definitions (the built-in ones aren't stored)
+  smartLists: SmartListDefinition[];
+  // Smart list shown instead of the selected list, if any
+  activeSmartListId: string | null;
 
   // Actions: Lists
   setLists: (lists: TodoList[] | ((prev: TodoList[]) => TodoList[])) => void;
   setSelectedListId: (id: string | null) => void;
   setIndexLoaded: (loaded: boolean) => void;
+  setTagFilter: (tag: string | null) => void;
+  openTodoDetail: (id: number) => void;
+  closeTodoDetail: () => void;
+  setSmartLists: (definitions: SmartListDefinition[]) => void;
+  openSmartList: (id: string | null) => void;
+  saveSmartList: (definition: SmartListDefinition) => void;
+  deleteSmartList: (id: string) => void;
 
   // Actions: Loaded lists tracking
   markListAsLoaded: (listId: string) => void;
   isListLoaded: (listId: string) => boolean;
+  setListRevision: (listId: string, revision: number) => void;
+  setListPersistence: (persistence: ListPersistence | null) => void;
+  replaceListTodos: (listId: string, todos: EditorTodo[]) => void;
 
   // Actions: ID counter
   nextId: () => number;
   syncIdCounter: (maxId: number) => void;
 
-  // Actions: Todos (selected list)
-  updateTodo: (id: number, text: string) => void;
-  toggleTodo: (id: number) => void;
+  // Actions: Todos (selected list unless a source list is given, as smart
+  // lists do)
+  updateTodo: (
+    id: number,
+    text: string,
+    coalesceKey?: string,
+    listId?: string,
+  ) => void;
+  toggleTodo: (id: number, listId?: string) => void;
+  setDueDate: (id: number, dueDate: string | null, listId?: string) => void;
+  setDueTime: (id: number, dueTime: string | null) => void;
+  setRecurrence: (id: number, recurrence: RecurrenceRule | null) => void;
+  setPriority: (
+    id: number,
+    priority: TodoPriority | null,
+    listId?: string,
+  ) => void;
+  sortByPriority: () => void;
+  setTodoNotes: (id: number, notes: string) => void;
+  setCollapsed: (id: number, collapsed: boolean) => void;
+  moveTodoSubtree: (id: number, direction: 'up' | 'down') => boolean;
+  setAllCollapsed: (collapsed: boolean) => void;
+  revealTodo: (listId: string, id: number) => void;
   setIndent: (id: number, indent: number) => void;
   changeIndent: (id: number, delta: number) => void;
-  insertTodoBelow: (index: number, text?: string) => number;
+  insertTodoBelow: (
+    index: number,
+    text?: string,
+    coalesceKey?: string,
+  ) => number;
+  setTodoParent: (
+    id: number,
+    parentId: number | null,
+    options?: { completed?: boolean; coalesceKey?: string },
+  ) => void;
   removeTodoAt: (index: number) => void;
+  reorderTodos: (todos: EditorTodo[]) => void;
+  applyQuickAdd: (id: number, fields: QuickAddFields) => void;
+  appendCapturedTodo: (
+    listId: string,
+    todoId: number,
+    text: string,
+    fields?: Partial<Omit<QuickAddFields, 'text'>>,
+  ) => void;
+
+  // Actions: History
+  undo: () => boolean;
+  redo: () => boolean;
 
   // Actions: Lists management
   addList: () => string;
+  importLists: (
+    lists: Array<{ name: string; todos: EditorTodo[] }>,
+  ) => string[];
   deleteSelectedList: () => void;
-  deleteList: (id: string) => Promise<void>;
+  deleteList: (id: string) => Promise<boolean>;
+  restoreList: (id: string) => Promise<boolean>;
   renameList: (id: string, name: string) => void;
   updateListMeta: (
     id: string,
@@ -76,12 +200,34 @@ type TodosState = {
     sourceListId: string,
     newListName?: string,
   ) => Promise<string | null>;
+  moveTodoToList: (todoId: number, targetListId: string) => Promise<boolean>;
 
   // Computed selectors
   getSelectedList: () => TodoList | undefined;
   getListById: (id: string) => TodoList | undefined;
 };
 
+// Records a todos mutation on the undo stack; any new change clears redo.
+const recordTodosChange = (
+  state: TodosState,
+  listId: string,
+  before: EditorTodo[],
+  after: EditorTodo[],
+  label: TodosHistoryLabel,
+  coalesceKey?: string,
+): Pick<TodosState, 'undoStack' | 'redoStack'> => ({
+  undoStack: pushHistoryEntry(state.undoStack, {
+    kind: 'todos',
+    label,
+    listId,
+    before,
+    after,
+    coalesceKey,
+    at: Date.now(),
+  }),
+  redoStack: [],
+});
+
 export const useTodosStore = create<TodosState>((set, get) => ({
   // Initial state
   lists: [],
@@ -89,6 +235,14 @@ export const useTodosStore = create<TodosState>((set, get) => ({
   indexLoaded: false,
   loadedLists: new Set<string>(),
   idCounter: 1,
+  listRevisions: {},
+  listPersistence: null,
+  undoStack: [],
+  redoStack: [],
+  tagFilter: null,
+  detailTodoId: null,
+  smartLists: [],
+  activeSmartListId: null,
 
   // Actions: Lists
   setLists: (listsOrFn) => {
@@ -171,7 +325,12 @@ export const useTodosStore = create<TodosState>((set, get) => ({
 
   setSelectedListId: (id) => {
     debugLogger.log('info', 'Store: setSelectedListId', { id });
-    set({ selectedListId: id });
+    // Picking a list leaves any smart list
+    set((state) =>
+      state.selectedListId === id
+        ? { selectedListId: id, activeSmartListId: null }
+        : { selectedListId: id, activeSmartListId: null, detailTodoId: null },
+    );
   },
 
   setIndexLoaded: (loaded) => {
@@ -179,6 +338,56 @@ export const useTodosStore = create<TodosState>((set, get) => ({
     set({ indexLoaded: loaded });
   },
 
+  setTagFilter: (tag) => {
+    const normalized = tag != null ? normalizeTag(tag) : null;
+    debugLogger.log('info', 'Store: setTagFilter', { tag: normalized });
+    set({ tagFilter: normalized });
+  },
+
+  openTodoDetail: (id) => {
+    debugLogger.log('info', 'Store: openTodoDetail', { todoId: id });
+    set({ detailTodoId: id });
+  },
+
+  closeTodoDetail: () => {
+    set({ detailTodoId: null });
+  },
+
+  setSmartLists: (definitions) => {
+    set({ smartLists: definitions });
+  },
+
+  openSmartList: (id) => {
+    debugLogger.log('info', 'Store: openSmartList', { id });
+    // The detail pane follows the selected list, which is hidden meanwhile
+    set({ activeSmartListId: id, detailTodoId: null });
+  },
+
+  saveSmartList: (definition) => {
+    const { smartLists } = get();
+    const next = smartLists.some((s) => s.id === definition.id)
+      ? smartLists.map((s) => (s.id === definition.id ? definition : s))
+      : [...smartLists, definition];
+    set({ smartLists: next });
+    debugLogger.log('info', 'Store: saveSmartList', { id: definition.id });
+    saveSmartListsApi(next).catch((error) => {
+      debugLogger.log('error', 'Failed to save smart lists', error);
+    });
+  },
+
+  deleteSmartList: (id) => {
+    const next = get().smartLists.filter((s) => s.id !== id);
+    set((state) => ({
+      smartLists: next,
+      activeSmartListId:
+        state.activeSmartListId === id ? null : state.activeSmartListId,
+    }));
+    debugLogger.log('info', 'Store: deleteSmartList', { id });
+    saveSmartListsApi(next).catch((error) => {
+      debugLogger.log('error', 'Failed to save smart lists', error);
+    });
+  },
+
   // Actions: Loaded lists tracking
   markListAsLoaded: (listId) => {
     set((state) => {
@@ -196,6 +405,28 @@ export const useTodosStore = create<TodosState>((set, get) => ({
     return get().loadedLists.has(listId);
   },
 
+  // Revisions only grow, so a reply that arrives late can't move one back
+  setListRevision: (listId, revision) => {
+    set((state) =>
+      (state.listRevisions[listId] ?? 0) >= revision
+        ? state
+        : { listRevisions: { ...state.listRevisions, [listId]: revision } },
+    );
+  },
+
+  setListPersistence: (persistence) => {
+    set({ listPersistence: persistence });
+  },
+
+  // Todos reconciled with a newer stored version (see useTodosPersistence).
+  // History stays: undo applies its changes on top of the reconciled todos.
+  replaceListTodos: (listId, todos) => {
+    set((prev) => ({
+      ...prev,
+      lists: prev.lists.map((l) => (l.id === listId ? { ...l, todos } : l)),
+    }));
+  },
+
   // Actions: ID counter
   nextId: () => {
     const current = get().idCounter;
@@ -220,15 +451,30 @@ export const useTodosStore = create<TodosState>((set, get) => ({
   },
 
   // Actions: Todos (selected list)
-  updateTodo: (id, text) => {
+  updateTodo: (id, text, coalesceKey, listId) => {
     if (!Number.isFinite(id) || typeof text !== 'string') return;
+    // A typed `!1`–`!3` token sets the priority and is removed from the text
+    const token = parsePriorityToken(text);
+    const nextText = token ? token.text : text;
     set((state) => {
-      const list = state.lists.find((l) => l.id === state.selectedListId);
+      const list = state.lists.find(
+        (l) => l.id === (listId ?? state.selectedListId),
+      );
       if (!list) return state;
+      const isChanged = (t: EditorTodo) =>
+        t.text !== nextText ||
+        (token != null && (t.priority ?? null) !== token.priority);
       const updatedTodos = list.todos.map((t) =>
-        t.id === id ? (t.text === text ? t : { ...t, text }) : t,
+        t.id === id && isChanged(t)
+          ? {
+              ...t,
+              text: nextText,
+              ...(token ? { priority: token.priority } : {}),
+            }
+          : t,
       );
       if (updatedTodos === list.todos) return state;
+      const textChanged = list.todos.some((t) => t.id === id && isChanged(t));
       const updatedLists = state.lists.map((l) =>
         l.id === list.id
           ? { ...l, todos: updatedTodos, updatedAt: new Date().toISOString() }
@@ -238,13 +484,35 @@ export const useTodosStore = create<TodosState>((set, get) => ({
       return {
         ...state,
         lists: sortListsByRecency(updatedLists),
+        // Typing bursts on one row collapse into a single undo step
+        ...(textChanged
+          ? recordTodosChange(
+              state,
+              list.id,
+              list.todos,
+              updatedTodos,
+              'updateTodo',
+              coalesceKey ?? `text:${list.id}:${id}`,
+            )
+          : {}),
       } as TodosState;
     });
   },
 
-  toggleTodo: (id) => {
+  toggleTodo: (id, listId) => {
+    // Completing a recurring todo copies its subtree as the next occurrence;
+    // ids are allocated up front since nextId() writes to the store
+    const { lists, selectedListId, nextId } = get();
+    const targetListId = listId ?? selectedListId;
+    const sourceTodos = lists.find((l) => l.id === targetListId)?.todos ?? [];
+    const source = sourceTodos.find((t) => t.id === id);
+    const occurrenceIds =
+      source && !source.completed && normalizeRecurrence(source.recurrence)
+        ? collectSubtree(sourceTodos, id).map(() => nextId())
+        : [];
+
     set((state) => {
-      const list = state.lists.find((l) => l.id === state.selectedListId);
+      const list = state.lists.find((l) => l.id === targetListId);
       if (!list) return state;
       const idx = list.todos.findIndex((t) => t.id === id);
       if (idx === -1) return state;
@@ -253,8 +521,10 @@ export const useTodosStore = create<TodosState>((set, get) => ({
       const cur = next[idx];
       const newCompleted = !cur.completed;
       if (cur.completed === newCompleted) return state;
+      // Children completed along with the parent share its timestamp
+      const completedAt = newCompleted ? new Date().toISOString() : null;
 
-      next[idx] = { ...cur, completed: newCompleted };
+      next[idx] = { ...cur, completed: newCompleted, completedAt };
       if (cur.parentId == null) {
         const anyLinkedChild = next.some((t) => t.parentId === cur.id);
         if (anyLinkedChild) {
@@ -277,18 +547,39 @@ export const useTodosStore = create<TodosState>((set, get) => ({
                 const { parentId } = current;
                 current = next.find((t) => t.id === parentId);
               }
-              if (isDesc) next[i] = { ...next[i], completed: newCompleted };
+              if (isDesc) {
+                next[i] = { ...next[i], completed: newCompleted, completedAt };
+              }
             }
           }
         } else {
           for (let i = idx + 1; i < next.length; i++) {
             const ind = Number(next[i].indent ?? 0);
             if (ind === 0) break;
-            next[i] = { ...next[i], completed: newCompleted };
+            next[i] = { ...next[i], completed: newCompleted, completedAt };
           }
         }
       }
 
+      if (newCompleted && occurrenceIds.length > 0) {
+        const subtree = collectSubtree(list.todos, id);
+        const occurrence = createNextOccurrence(subtree, occurrenceIds);
+        if (occurrence.length > 0) {
+          // The rule moves to the new occurrence so re-completing this one
+          // doesn't spawn a duplicate
+          next[idx] = { ...next[idx], recurrence: null };
+          const lastIndex = Math.max(
+            ...subtree.map((t) => next.findIndex((n) => n.id === t.id)),
+          );
+          next.splice(lastIndex + 1, 0, ...occurrence);
+          debugLogger.log('info', 'Store: spawned next occurrence', {
+            todoId: id,
+            newTodoId: occurrence[0].id,
+            dueDate: occurrence[0].dueDate,
+          });
+        }
+      }
+
       const updatedLists = state.lists.map((l) =>
         l.id === list.id
           ? { ...l, todos: next, updatedAt: new Date().toISOString() }
@@ -297,6 +588,319 @@ export const useTodosStore = create<TodosState>((set, get) => ({
       return {
         ...state,
         lists: sortListsByRecency(updatedLists),
+        ...recordTodosChange(state, list.id, list.todos, next, 'toggleTodo'),
+      } as TodosState;
+    });
+  },
+
+  setDueDate: (id, dueDate, listId) => {
+    const normalized = normalizeDueDate(dueDate);
+    set((state) => {
+      const list = state.lists.find(
+        (l) => l.id === (listId ?? state.selectedListId),
+      );
+      if (!list) return state;
+      const target = list.todos.find((t) => t.id === id);
+      if (!target || (target.dueDate ?? null) === normalized) return state;
+      // A time without a date means nothing, so clearing the date drops it
+      const updatedTodos = list.todos.map((t) =>
+        t.id === id
+          ? {
+              ...t,
+              dueDate: normalized,
+              dueTime: normalized ? t.dueTime : null,
+            }
+          : t,
+      );
+      debugLogger.log('info', 'Store: setDueDate', {
+        todoId: id,
+        dueDate: normalized,
+      });
+      const updatedLists = state.lists.map((l) =>
+        l.id === list.id
+          ? { ...l, todos: updatedTodos, updatedAt: new Date().toISOString() }
+          : l,
+      );
+      return {
+        ...state,
+        lists: sortListsByRecency(updatedLists),
+        ...recordTodosChange(
+          state,
+          list.id,
+          list.todos,
+          updatedTodos,
+          'setDueDate',
+        ),
+      } as TodosState;
+    });
+  },
+
+  setDueTime: (id, dueTime) => {
+    const normalized = normalizeDueTime(dueTime);
+    set((state) => {
+      const list = state.lists.find((l) => l.id === state.selectedListId);
+      if (!list) return state;
+      const target = list.todos.find((t) => t.id === id);
+      if (!target || (target.dueTime ?? null) === normalized) return state;
+      // Only dated todos can have a time
+      if (normalized && !target.dueDate) return state;
+      const updatedTodos = list.todos.map((t) =>
+        t.id === id ? { ...t, dueTime: normalized } : t,
+      );
+      debugLogger.log('info', 'Store: setDueTime', {
+        todoId: id,
+        dueTime: normalized,
+      });
+      const updatedLists = state.lists.map((l) =>
+        l.id === list.id
+          ? { ...l, todos: updatedTodos, updatedAt: new Date().toISOString() }
+          : l,
+      );
+      return {
+        ...state,
+        lists: sortListsByRecency(updatedLists),
+        ...recordTodosChange(
+          state,
+          list.id,
+          list.todos,
+          updatedTodos,
+          'setDueTime',
+        ),
+      } as TodosState;
+    });
+  },
+
+  setRecurrence: (id, recurrence) => {
+    const normalized = normalizeRecurrence(recurrence);
+    set((state) => {
+      const list = state.lists.find((l) => l.id === state.selectedListId);
+      if (!list) return state;
+      const target = list.todos.find((t) => t.id === id);
+      if (
+        !target ||
+        JSON.stringify(normalizeRecurrence(target.recurrence)) ===
+          JSON.stringify(normalized)
+      ) {
+        return state;
+      }
+      const updatedTodos = list.todos.map((t) =>
+        t.id === id ? { ...t, recurrence: normalized } : t,
+      );
+      debugLogger.log('info', 'Store: setRecurrence', {
+        todoId: id,
+        recurrence: normalized,
+      });
+      const updatedLists = state.lists.map((l) =>
+        l.id === list.id
+          ? { ...l, todos: updatedTodos, updatedAt: new Date().toISOString() }
+          : l,
+      );
+      return {
+        ...state,
+        lists: sortListsByRecency(updatedLists),
+        ...recordTodosChange(
+          state,
+          list.id,
+          list.todos,
+          updatedTodos,
+          'setRecurrence',
+        ),
+      } as TodosState;
+    });
+  },
+
+  setPriority: (id, priority, listId) => {
+    const normalized = normalizePriority(priority);
+    set((state) => {
+      const list = state.lists.find(
+        (l) => l.id === (listId ?? state.selectedListId),
+      );
+      if (!list) return state;
+      const target = list.todos.find((t) => t.id === id);
+      if (!target || (target.priority ?? null) === normalized) return state;
+      const updatedTodos = list.todos.map((t) =>
+        t.id === id ? { ...t, priority: normalized } : t,
+      );
+      debugLogger.log('info', 'Store: setPriority', {
+        todoId: id,
+        priority: normalized,
+      });
+      const updatedLists = state.lists.map((l) =>
+        l.id === list.id
+          ? { ...l, todos: updatedTodos, updatedAt: new Date().toISOString() }
+          : l,
+      );
+      return {
+        ...state,
+        lists: sortListsByRecency(updatedLists),
+        ...recordTodosChange(
+          state,
+          list.id,
+          list.todos,
+          updatedTodos,
+          'setPriority',
+        ),
+      } as TodosState;
+    });
+  },
+
+  sortByPriority: () => {
+    set((state) => {
+      const list = state.lists.find((l) => l.id === state.selectedListId);
+      if (!list) return state;
+      const sorted = sortTodosByPriority(list.todos);
+      if (sorted.every((t, i) => t === list.todos[i])) return state;
+      debugLogger.log('info', 'Store: sortByPriority', {
+        listId: list.id,
+        todoCount: sorted.length,
+      });
+      const updatedLists = state.lists.map((l) =>
+        l.id === list.id
+          ? { ...l, todos: sorted, updatedAt: new Date().toISOString() }
+          : l,
+      );
+      return {
+        ...state,
+        lists: sortListsByRecency(updatedLists),
+        ...recordTodosChange(
+          state,
+          list.id,
+          list.todos,
+          sorted,
+          'sortByPriority',
+        ),
+      } as TodosState;
+    });
+  },
+
+  setTodoNotes: (id, notes) => {
+    if (typeof notes !== 'string') return;
+    set((state) => {
+      const list = state.lists.find((l) => l.id === state.selectedListId);
+      if (!list) return state;
+      const target = list.todos.find((t) => t.id === id);
+      if (!target || (target.notes ?? '') === notes) return state;
+      const updatedTodos = list.todos.map((t) =>
+        t.id === id ? { ...t, notes } : t,
+      );
+      const updatedLists = state.lists.map((l) =>
+        l.id === list.id
+          ? { ...l, todos: updatedTodos, updatedAt: new Date().toISOString() }
+          : l,
+      );
+      return {
+        ...state,
+        lists: sortListsByRecency(updatedLists),
+        // Like title edits, a typing burst is one undo step
+        ...recordTodosChange(
+          state,
+          list.id,
+          list.todos,
+          updatedTodos,
+          'setTodoNotes',
+          `notes:${list.id}:${id}`,
+        ),
+      } as TodosState;
+    });
+  },
+
+  // Collapse state is view state: persisted with the list, but not an undo
+  // step and not an edit that moves the list up in the sidebar
+  setCollapsed: (id, collapsed) => {
+    set((state) => {
+      const list = state.lists.find((l) => l.id === state.selectedListId);
+      if (!list) return state;
+      const target = list.todos.find((t) => t.id === id);
+      if (!target || !!target.collapsed === collapsed) return state;
+      if (collapsed && !list.todos.some((t) => t.parentId === id)) {
+        return state;
+      }
+      debugLogger.log('info', 'Store: setCollapsed', { todoId: id, collapsed });
+      const updatedTodos = list.todos.map((t) =>
+        t.id === id ? { ...t, collapsed } : t,
+      );
+      return {
+        ...state,
+        lists: state.lists.map((l) =>
+          l.id === list.id ? { ...l, todos: updatedTodos } : l,
+        ),
+      } as TodosState;
+    });
+  },
+
+  moveTodoSubtree: (id, direction) => {
+    const list = get().getSelectedList();
+    if (!list) return false;
+    const updatedTodos = moveTodoSubtree(list.todos, id, direction);
+    if (!updatedTodos) return false;
+    debugLogger.log('info', 'Store: moveTodoSubtree', {
+      todoId: id,
+      direction,
+    });
+    set((state) => {
+      const updatedLists = state.lists.map((l) =>
+        l.id === list.id
+          ? { ...l, todos: updatedTodos, updatedAt: new Date().toISOString() }
+          : l,
+      );
+      return {
+        ...state,
+        lists: sortListsByRecency(updatedLists),
+        ...recordTodosChange(
+          state,
+          list.id,
+          list.todos,
+          updatedTodos,
+          'moveTodoSubtree',
+        ),
+      } as TodosState;
+    });
+    return true;
+  },
+
+  setAllCollapsed: (collapsed) => {
+    set((state) => {
+      const list = state.lists.find((l) => l.id === state.selectedListId);
+      if (!list) return state;
+      const parentIds = findParentIds(list.todos);
+      // Expanding also clears stale flags on todos that lost their children
+      const shouldCollapse = (t: EditorTodo) =>
+        collapsed && parentIds.has(t.id);
+      if (list.todos.every((t) => !!t.collapsed === shouldCollapse(t))) {
+        return state;
+      }
+      debugLogger.log('info', 'Store: setAllCollapsed', {
+        collapsed,
+        parents: parentIds.size,
+      });
+      const updatedTodos = list.todos.map((t) =>
+        !!t.collapsed === shouldCollapse(t)
+          ? t
+          : { ...t, collapsed: shouldCollapse(t) },
+      );
+      return {
+        ...state,
+        lists: state.lists.map((l) =>
+          l.id === list.id ? { ...l, todos: updatedTodos } : l,
+        ),
+      } as TodosState;
+    });
+  },
+
+  revealTodo: (listId, id) => {
+    set((state) => {
+      const list = state.lists.find((l) => l.id === listId);
+      if (!list) return state;
+      const updatedTodos = expandTodos(
+        list.todos,
+        findAncestorIds(list.todos, id),
+      );
+      if (updatedTodos === list.todos) return state;
+      return {
+        ...state,
+        lists: state.lists.map((l) =>
+          l.id === list.id ? { ...l, todos: updatedTodos } : l,
+        ),
       } as TodosState;
     });
   },
@@ -355,12 +959,17 @@ export const useTodosStore = create<TodosState>((set, get) => ({
       if (currentIndent === newIndent) return state;
 
       const targetIndex = list.todos.findIndex((t) => t.id === id);
-      const updated = [...list.todos];
       const newParentId = computeParentForIndentChange(
         list.todos,
         id,
         newIndent,
       );
+      // Indenting under a collapsed parent opens it so the row stays visible
+      const updated = [
+        ...(newParentId != null
+          ? expandTodos(list.todos, [newParentId])
+          : list.todos),
+      ];
       updated[targetIndex] =
         newParentId == null
           ? {
@@ -385,11 +994,18 @@ export const useTodosStore = create<TodosState>((set, get) => ({
       return {
         ...state,
         lists: sortListsByRecency(updatedLists),
+        ...recordTodosChange(
+          state,
+          list.id,
+          list.todos,
+          updated,
+          'changeIndent',
+        ),
       } as TodosState;
     });
   },
 
-  insertTodoBelow: (index, text = '') => {
+  insertTodoBelow: (index, text, coalesceKey) => {
     const id = get().nextId();
     set((state) => {
       const list = state.lists.find((l) => l.id === state.selectedListId);
@@ -412,12 +1028,16 @@ export const useTodosStore = create<TodosState>((set, get) => ({
       }
       const newTodo: EditorTodo = {
         id,
-        text,
+        text: text ?? '',
         completed: false,
         parentId: baseParentId,
         indent: indentLevel,
       };
-      next.splice(index + 1, 0, newTodo);
+      // A collapsed parent keeps its hidden children: the new row goes after them
+      const insertAt = baseTodo?.collapsed
+        ? findSubtreeEndIndex(next, index) + 1
+        : index + 1;
+      next.splice(insertAt, 0, newTodo);
 
       const updatedLists = state.lists.map((l) =>
         l.id === list.id
@@ -427,11 +1047,81 @@ export const useTodosStore = create<TodosState>((set, get) => ({
       return {
         ...state,
         lists: sortListsByRecency(updatedLists),
+        ...recordTodosChange(
+          state,
+          list.id,
+          list.todos,
+          next,
+          'insertTodoBelow',
+          coalesceKey,
+        ),
       } as TodosState;
     });
     return id;
   },
 
+  setTodoParent: (id, parentId, options = {}) => {
+    set((state) => {
+      const list = state.lists.find((l) => l.id === state.selectedListId);
+      if (!list) return state;
+      const idx = list.todos.findIndex((t) => t.id === id);
+      if (idx === -1) return state;
+      const target = list.todos[idx];
+
+      let indent = MIN_INDENT;
+      if (parentId != null) {
+        const parent = list.todos.find((t) => t.id === parentId);
+        if (!parent) return state;
+        // Refuse to attach a todo under its own descendant
+        const seen = new Set<number>();
+        let cursor: EditorTodo | undefined = parent;
+        while (cursor) {
+          if (cursor.id === id || seen.has(cursor.id)) return state;
+          seen.add(cursor.id);
+          const nextParentId: number | null | undefined = cursor.parentId;
+          cursor =
+            nextParentId != null
+              ? list.todos.find((t) => t.id === nextParentId)
+              : undefined;
+        }
+        indent = clampIndent(
+          deriveIndentFromParentId(parent, { todos: list.todos }) + 1,
+        );
+      }
+      const completed = options.completed ?? target.completed;
+      if (
+        (target.parentId ?? null) === parentId &&
+        target.completed === completed
+      ) {
+        return state;
+      }
+
+      const next = [
+        ...(parentId != null
+          ? expandTodos(list.todos, [parentId])
+          : list.todos),
+      ];
+      next[idx] = { ...target, parentId, indent, completed };
+      const updatedLists = state.lists.map((l) =>
+        l.id === list.id
+          ? { ...l, todos: next, updatedAt: new Date().toISOString() }
+          : l,
+      );
+      return {
+        ...state,
+        lists: sortListsByRecency(updatedLists),
+        ...recordTodosChange(
+          state,
+          list.id,
+          list.todos,
+          next,
+          'setTodoParent',
+          options.coalesceKey,
+        ),
+      } as TodosState;
+    });
+  },
+
   removeTodoAt: (index) => {
     set((state) => {
       const list = state.lists.find((l) => l.id === state.selectedListId);
@@ -492,6 +1182,13 @@ export const useTodosStore = create<TodosState>((set, get) => ({
         return {
           ...state,
           lists: sortListsByRecency(updatedLists),
+          ...recordTodosChange(
+            state,
+            list.id,
+            list.todos,
+            updatedTodos,
+            'removeTodoAt',
+          ),
         } as TodosState;
       }
       const updatedLists = state.lists.map((l) =>
@@ -502,10 +1199,155 @@ export const useTodosStore = create<TodosState>((set, get) => ({
       return {
         ...state,
         lists: sortListsByRecency(updatedLists),
+        ...recordTodosChange(state, list.id, list.todos, next, 'removeTodoAt'),
+      } as TodosState;
+    });
+  },
+
+  // Replaces the selected list's todos after a drag drop (undoable)
+  reorderTodos: (todos) => {
+    set((state) => {
+      const list = state.lists.find((l) => l.id === state.selectedListId);
+      if (!list || list.todos === todos) return state;
+      debugLogger.log('info', 'Store: reorderTodos', {
+        listId: list.id,
+        count: todos.length,
+      });
+      const updatedLists = state.lists.map((l) =>
+        l.id === list.id
+          ? { ...l, todos, updatedAt: new Date().toISOString() }
+          : l,
+      );
+      return {
+        ...state,
+        lists: sortListsByRecency(updatedLists),
+        ...recordTodosChange(state, list.id, list.todos, todos, 'reorderTodos'),
+      } as TodosState;
+    });
+  },
+
+  // Fields parsed out of a row's text by quick add, applied as one undo step.
+  // Fields the text didn't mention are left as they were.
+  applyQuickAdd: (id, fields) => {
+    set((state) => {
+      const list = state.lists.find((l) => l.id === state.selectedListId);
+      if (!list) return state;
+      const target = list.todos.find((t) => t.id === id);
+      if (!target) return state;
+      const dueDate = normalizeDueDate(fields.dueDate) ?? target.dueDate;
+      const updated: EditorTodo = {
+        ...target,
+        text: fields.text,
+        dueDate,
+        dueTime: dueDate
+          ? (normalizeDueTime(fields.dueTime) ?? target.dueTime)
+          : null,
+        priority: normalizePriority(fields.priority) ?? target.priority,
+      };
+      const updatedTodos = list.todos.map((t) => (t.id === id ? updated : t));
+      debugLogger.log('info', 'Store: applyQuickAdd', {
+        todoId: id,
+        dueDate: updated.dueDate,
+        dueTime: updated.dueTime,
+        priority: updated.priority,
+      });
+      const updatedLists = state.lists.map((l) =>
+        l.id === list.id
+          ? { ...l, todos: updatedTodos, updatedAt: new Date().toISOString() }
+          : l,
+      );
+      return {
+        ...state,
+        lists: sortListsByRecency(updatedLists),
+        ...recordTodosChange(
+          state,
+          list.id,
+          list.todos,
+          updatedTodos,
+          'applyQuickAdd',
+        ),
       } as TodosState;
     });
   },
 
+  // A todo added from the quick-capture window (already saved by main).
+  // Lists whose todos aren't loaded yet will pick it up on first load.
+  appendCapturedTodo: (listId, todoId, text, fields = {}) => {
+    const state = get();
+    const list = state.lists.find((l) => l.id === listId);
+    if (!list) return;
+    const loaded = state.loadedLists.has(listId);
+    // Keep the saved id unless an unsaved row already uses it
+    const id =
+      loaded && list.todos.some((t) => t.id === todoId)
+        ? state.nextId()
+        : todoId;
+    state.syncIdCounter(id);
+    const dueDate = normalizeDueDate(fields.dueDate);
+    const captured: EditorTodo = {
+      id: todoId,
+      text,
+      completed: false,
+      indent: 0,
+      parentId: null,
+      dueDate,
+      dueTime: dueDate ? normalizeDueTime(fields.dueTime) : null,
+      priority: normalizePriority(fields.priority),
+    };
+    const nowIso = new Date().toISOString();
+    set((prev) => ({
+      ...prev,
+      lists: sortListsByRecency(
+        prev.lists.map((l) =>
+          l.id === listId
+            ? {
+                ...l,
+                todos: loaded ? [...l.todos, { ...captured, id }] : l.todos,
+                updatedAt: nowIso,
+              }
+            : l,
+        ),
+      ),
+    }));
+    // Storage already has the row under its saved id; the next save diffs
+    // against that instead of inserting it again
+    if (loaded) {
+      state.listPersistence?.updateSaved(listId, (saved) => [
+        ...saved,
+        captured,
+      ]);
+    }
+    debugLogger.log('info', 'Store: appendCapturedTodo', {
+      listId,
+      todoId: id,
+      loaded,
+    });
+  },
+
+  // Actions: History
+  undo: () => {
+    const entry = get().undoStack[get().undoStack.length - 1];
+    if (!entry) return false;
+    const applied = applyHistoryEntry(entry, 'undo');
+    set((state) => ({
+      undoStack: state.undoStack.slice(0, -1),
+      redoStack: applied ? [...state.redoStack, entry] : state.redoStack,
+    }));
+    // Entries whose list no longer exists are dropped; try the next one
+    return applied || get().undo();
+  },
+
+  redo: () => {
+    const entry = get().redoStack[get().redoStack.length - 1];
+    if (!entry) return false;
+    const applied = applyHistoryEntry(entry, 'redo');
+    set((state) => ({
+      redoStack: state.redoStack.slice(0, -1),
+      undoStack: applied ? [...state.undoStack, entry] : state.undoStack,
+    }));
+    return applied || get().redo();
+  },
+
   // Actions: Lists management (minimal; persistence remains in hooks)
   addList: () => {
     const id =
@@ -528,11 +1370,54 @@ export const useTodosStore = create<TodosState>((set, get) => ({
         ...state,
         lists: updatedLists,
         selectedListId: id,
+        activeSmartListId: null,
       } as TodosState;
     });
     return id;
   },
 
+  importLists: (imported) => {
+    if (imported.length === 0) return [];
+    const { nextId } = get();
+    const now = new Date().toISOString();
+    const newLists: TodoList[] = imported.map((source, index) => {
+      // Fresh ids from the shared counter so later inserts can't collide
+      const idMap = new Map<number, number>();
+      source.todos.forEach((t) => idMap.set(t.id, nextId()));
+      return {
+        id:
+          // eslint-disable-next-line no-undef
+          (globalThis.crypto?.randomUUID?.() as string | undefined) ||
+          `list-${Date.now()}-${index}`,
+        name: source.name,
+        todos: source.todos.map((t) => ({
+          ...t,
+          id: idMap.get(t.id)!,
+          parentId: t.parentId != null ? (idMap.get(t.parentId) ?? null) : null,
+        })),
+        createdAt: now,
+        updatedAt: now,
+      };
+    });
+    const ids = newLists.map((l) => l.id);
+    set((state) => {
+      const loadedLists = new Set(state.loadedLists);
+      ids.forEach((id) => loadedLists.add(id));
+      return {
+        ...state,
+        lists: sortListsByRecency([...state.lists, ...newLists]),
+        loadedLists,
+        selectedListId: ids[0],
+        activeSmartListId: null,
+      } as TodosState;
+    });
+    debugLogger.log('info', 'Store: importLists', {
+      count: newLists.length,
+      todoCount: newLists.reduce((n, l) => n + l.todos.length, 0),
+    });
+    return ids;
+  },
+
   deleteSelectedList: () => {
     set((state) => {
       const id = state.selectedListId;
@@ -550,11 +1435,14 @@ export const useTodosStore = create<TodosState>((set, get) => ({
   },
 
   deleteList: async (id) => {
-    try {
-      await deleteListApi(id);
-    } catch {
-      // ignore errors; UI flows handle error messaging
+    // Lists go to the Trash; keep the in-memory copy so undo can restore it
+    const snapshot = get().lists.find((l) => l.id === id) ?? null;
+    const res = await deleteListApi(id);
+    if (!res.success) {
+      debugLogger.log('error', 'Store: deleteList failed', { id });
+      return false;
     }
+    debugLogger.log('info', 'Store: deleteList', { id });
     set((state) => {
       const remaining = sortListsByRecency(
         state.lists.filter((l) => l.id !== id),
@@ -567,8 +1455,40 @@ export const useTodosStore = create<TodosState>((set, get) => ({
         ...state,
         lists: remaining,
         selectedListId: nextSelected,
+        ...(snapshot
+          ? {
+              undoStack: pushHistoryEntry(state.undoStack, {
+                kind: 'deleteList',
+                list: snapshot,
+                wasSelected: state.selectedListId === id,
+                at: Date.now(),
+              }),
+              redoStack: [],
+            }
+          : {}),
       } as TodosState;
     });
+    return true;
+  },
+
+  restoreList: async (id) => {
+    const res = await restoreListApi(id);
+    if (!res.success) return false;
+    debugLogger.log('info', 'Store: restoreList', { id });
+    set((state) => {
+      // Todos are lazy-loaded again when the restored list is selected
+      const loadedLists = new Set(state.loadedLists);
+      loadedLists.delete(id);
+      const others = state.lists.filter((l) => l.id !== id);
+      return {
+        ...state,
+        lists: sortListsByRecency([...others, { ...res.list, todos: [] }]),
+        loadedLists,
+        selectedListId: id,
+        activeSmartListId: null,
+      } as TodosState;
+    });
+    return true;
   },
 
   renameList: (id, name) => {
@@ -643,6 +1563,110 @@ export const useTodosStore = create<TodosState>((set, get) => ({
     }
   },
 
+  moveTodoToList: async (todoId, targetListId) => {
+    const source = get().getSelectedList();
+    if (!source || source.id === targetListId) return false;
+    const subtree = collectSubtree(source.todos, todoId);
+    if (subtree.length === 0) return false;
+
+    try {
+      // The move works on the saved rows, so write out edits that are still
+      // waiting in the debounce window first. Unsaved rows of a loaded target
+      // could clash with the ids the moved rows get there.
+      const persistence = get().listPersistence;
+      const targetLoaded = get().loadedLists.has(targetListId);
+      if (persistence) {
+        const flushed = await Promise.all([
+          persistence.flush(source.id),
+          targetLoaded ? persistence.flush(targetListId) : true,
+        ]);
+        if (flushed.includes(false)) return false;
+      }
+      const revisions = get().listRevisions;
+      const result = await moveTodosToListApi(
+        source.id,
+        todoId,
+        targetListId,
+        revisions[source.id] ?? 0,
+        targetLoaded ? (revisions[targetListId] ?? 0) : null,
+      );
+      if (!result.success) return false;
+      Object.entries(result.revisions ?? {}).forEach(([id, revision]) =>
+        get().setListRevision(id, revision),
+      );
+
+      const idMap = new Map(
+        Object.entries(result.idMap).map(([from, to]) => [Number(from), to]),
+      );
+      get().syncIdCounter(Math.max(...idMap.values()));
+      const rootIndent = Number(subtree[0].indent ?? 0);
+      const moved: EditorTodo[] = subtree.map((t, i) => ({
+        ...t,
+        id: idMap.get(t.id) ?? t.id,
+        parentId: i === 0 ? null : (idMap.get(t.parentId as number) ?? null),
+        indent: Math.max(0, Number(t.indent ?? 0) - rootIndent),
+      }));
+      const nowIso = new Date().toISOString();
+      persistence?.updateSaved(source.id, (saved) =>
+        saved.filter((t) => !idMap.has(t.id)),
+      );
+      if (targetLoaded) {
+        persistence?.updateSaved(targetListId, (saved) => [...saved, ...moved]);
+      }
+
+      set((prev) => {
+        const updatedLists = prev.lists.map((l) => {
+          if (l.id === source.id) {
+            return {
+              ...l,
+              todos: l.todos.filter((t) => !idMap.has(t.id)),
+              updatedAt: nowIso,
+            };
+          }
+          if (l.id === targetListId) {
+            // An unloaded destination picks the rows up when it is opened
+            return {
+              ...l,
+              todos: targetLoaded ? [...l.todos, ...moved] : l.todos,
+              updatedAt: nowIso,
+            };
+          }
+          return l;
+        });
+        return {
+          ...prev,
+          lists: sortListsByRecency(updatedLists),
+          // Snapshots of either list would bring back rows that now live
+          // elsewhere, so their history ends here
+          undoStack: prev.undoStack.filter(
+            (e) =>
+              e.kind !== 'todos' ||
+              (e.listId !== source.id && e.listId !== targetListId),
+          ),
+          redoStack: prev.redoStack.filter(
+            (e) =>
+              e.kind !== 'todos' ||
+              (e.listId !== source.id && e.listId !== targetListId),
+          ),
+          detailTodoId:
+            prev.detailTodoId != null && idMap.has(prev.detailTodoId)
+              ? null
+              : prev.detailTodoId,
+        } as TodosState;
+      });
+      debugLogger.log('info', 'Store: moveTodoToList', {
+        sourceListId: source.id,
+        targetListId,
+        todoId,
+        moved: moved.length,
+      });
+      return true;
+    } catch (error) {
+      debugLogger.log('error', 'Store: moveTodoToList failed', { error });
+      return false;
+    }
+  },
+
   // Computed selectors
   getSelectedList: () => {
     const { lists, selectedListId } = get();
@@ -667,3 +1691,79 @@ export const useSelectedTodos = (): EditorTodo[] => {
   const selectedList = useSelectedList();
   return selectedList?.todos ?? [];
 };
+
+/**
+ * Applies one history entry in the given direction.
+ * Returns false when the entry no longer applies (e.g. its list is gone).
+ */
+function applyHistoryEntry(
+  entry: HistoryEntry,
+  direction: 'undo' | 'redo',
+): boolean {
+  const state = useTodosStore.getState();
+  debugLogger.log('info', `Store: ${direction}`, {
+    kind: entry.kind,
+    label: entry.kind === 'todos' ? entry.label : undefined,
+  });
+
+  if (entry.kind === 'todos') {
+    const list = state.lists.find((l) => l.id === entry.listId);
+    if (!list) return false;
+    // Only the entry's own change is reverted (or re-applied); todos that
+    // changed since it was recorded (quick capture, a merged save) keep
+    // their current state
+    const [from, to] =
+      direction === 'undo'
+        ? [entry.after, entry.before]
+        : [entry.before, entry.after];
+    const todos = mergeTodos(from, to, list.todos, state.nextId);
+    const nowIso = new Date().toISOString();
+    useTodosStore.setState({
+      lists: sortListsByRecency(
+        state.lists.map((l) =>
+          l.id === entry.listId ? { ...l, todos, updatedAt: nowIso } : l,
+        ),
+      ),
+      selectedListId: entry.listId,
+      // Show the list the change happened in, not a smart list over it
+      activeSmartListId: null,
+    });
+    return true;
+  }
+
+  const { list } = entry;
+  const exists = state.lists.some((l) => l.id === list.id);
+  if (direction === 'undo') {
+    if (exists) return false;
+    useTodosStore.setState({
+      lists: sortListsByRecency([...state.lists, list]),
+      ...(entry.wasSelected
+        ? { selectedListId: list.id, activeSmartListId: null }
+        : {}),
+    });
+    // The list is only in the Trash; take it back out
+    restoreListApi(list.id).catch((error) => {
+      debugLogger.log('error', 'Failed to restore list from trash', {
+        listId: list.id,
+        error,
+      });
+    });
+    return true;
+  }
+
+  if (!exists) return false;
+  const remaining = sortListsByRecency(
+    state.lists.filter((l) => l.id !== list.id),
+  );
+  useTodosStore.setState({
+    lists: remaining,
+    selectedListId:
+      state.selectedListId === list.id
+        ? (remaining[0]?.id ?? null)
+        : state.selectedListId,
+  });
+  deleteListApi(list.id).catch(() => {
+    // ignore errors; the list is already gone from the UI
+  });
+  return true;
+}
@@ -47,5 +47,7 @@ export function resetTestStore() {
     indexLoaded: false,
     loadedLists: new Set(),
     idCounter: 1,
+    undoStack: [],
+    redoStack: [],
   });
 }
@@ -7,8 +7,49 @@ export type EditorTodo = {
   // indentation level: 0..1 (clamped)
   indent?: number;
   parentId?: number | null;
+  // calendar due date in local time (YYYY-MM-DD); null/undefined = no date
+  dueDate?: string | null;
+  // time of day on the due date (24-hour HH:MM); ignored without a dueDate
+  dueTime?: string | null;
+  // repeat rule; completing the todo spawns the next occurrence
+  recurrence?: RecurrenceRule | null;
+  // null/undefined = no priority
+  priority?: TodoPriority | null;
+  // multi-line details shown in the detail pane; null/'' = none
+  notes?: string | null;
+  // children are hidden in the list while true
+  collapsed?: boolean;
+  // ISO timestamp of the last completion; null/undefined while open
+  completedAt?: string | null;
 };
 
+export type TodoPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+// Outcome of saving a list's todos. Saves name the storage revision they
+// were based on; 'conflict' means the list changed since then, and
+// `revision` is where it is now.
+export type TodosSaveResult =
+  | { status: 'saved'; revision: number }
+  | { status: 'conflict'; revision: number }
+  | { status: 'failed' };
+
+// Changes to one list's todos since its last save (see utils/todosPatch).
+// Positions name the todo each one now follows (`afterId`, null for the top)
+export type TodosPatch = {
+  inserted: Array<{ todo: EditorTodo; afterId: number | null }>;
+  // todos whose fields changed; position changes are in `moved`
+  updated: EditorTodo[];
+  deleted: number[];
+  moved: Array<{ id: number; afterId: number | null }>;
+};
+
+// Weekdays are 0 (Sunday) .. 6 (Saturday)
+export type RecurrenceRule =
+  | { kind: 'daily' }
+  | { kind: 'weekly'; days: number[] }
+  | { kind: 'monthly' }
+  | { kind: 'afterCompletion'; everyDays: number };
+
 export type TodoList = {
   id: string;
   name: string;
@@ -25,10 +66,52 @@ export type AppData = {
 
 export type AppSettings = {
   hideCompletedItems: boolean;
+  // days a list stays in Trash before it is purged; 0 = keep forever
+  trashRetentionDays?: number;
+  // global shortcut that opens the quick-capture window; '' = disabled
+  quickCaptureShortcut?: string;
+  // stay in the tray after the last window closes
+  keepRunningInBackground?: boolean;
+  // minutes between database snapshots; 0 = only the one at startup
+  backupIntervalMinutes?: number;
+  // snapshots kept before the oldest are removed
+  backupKeepCount?: number;
+};
+
+// 'shortcut_unavailable': the quick-capture shortcut is invalid or taken by
+// another app; nothing was saved
+export type AppSettingsSaveResult = { success: boolean; error?: string };
+
+// A soft-deleted list as shown in the Trash view
+export type TrashedList = {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt: string;
+  todoCount: number;
 };
 
 export type Section = 'active' | 'completed';
 
+export type DueDateStatus = 'overdue' | 'today' | 'upcoming';
+
+// Full-text search hit; `todoId` is null when the list name itself matched
+export type SearchHit = {
+  kind: 'todo' | 'list';
+  listId: string;
+  listName: string;
+  todoId: number | null;
+  text: string;
+  completed: boolean;
+};
+
+// A #tag and the number of todos carrying it across live lists
+export type TagCount = {
+  tag: string;
+  count: number;
+};
+
 // Action types for potential reducer pattern
 export type TodoAction =
   | { type: 'ADD_TODO'; payload: { text: string; indent: number } }
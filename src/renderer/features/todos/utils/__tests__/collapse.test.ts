@@ -0,0 +1,45 @@
+import type { EditorTodo } from '../../types';
+import {
+  computeHiddenTodoIds,
+  expandTodos,
+  findAncestorIds,
+  findParentIds,
+  findSubtreeEndIndex,
+} from '../collapse';
+
+const todos: EditorTodo[] = [
+  { id: 1, text: 'A', completed: false, parentId: null, collapsed: true },
+  { id: 2, text: 'A.1', completed: false, parentId: 1 },
+  { id: 3, text: 'A.1.a', completed: false, parentId: 2 },
+  { id: 4, text: 'B', completed: false, parentId: null },
+  { id: 5, text: 'B.1', completed: false, parentId: 4, collapsed: true },
+];
+
+describe('collapse utils', () => {
+  test('findParentIds returns todos with children', () => {
+    expect(Array.from(findParentIds(todos)).sort()).toEqual([1, 2, 4]);
+  });
+
+  test('computeHiddenTodoIds hides every descendant of a collapsed todo', () => {
+    // 5 is collapsed but has no children, so nothing else is hidden
+    expect(Array.from(computeHiddenTodoIds(todos)).sort()).toEqual([2, 3]);
+  });
+
+  test('findAncestorIds lists ancestors nearest first', () => {
+    expect(findAncestorIds(todos, 3)).toEqual([2, 1]);
+    expect(findAncestorIds(todos, 4)).toEqual([]);
+  });
+
+  test('findSubtreeEndIndex returns the last descendant row', () => {
+    expect(findSubtreeEndIndex(todos, 0)).toBe(2);
+    expect(findSubtreeEndIndex(todos, 3)).toBe(4);
+    expect(findSubtreeEndIndex(todos, 2)).toBe(2);
+  });
+
+  test('expandTodos clears the flag and keeps the array when unchanged', () => {
+    expect(expandTodos(todos, [4])).toBe(todos);
+    const expanded = expandTodos(todos, [1]);
+    expect(expanded[0].collapsed).toBe(false);
+    expect(expanded[4]).toBe(todos[4]);
+  });
+});
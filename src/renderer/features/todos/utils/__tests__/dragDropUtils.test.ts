@@ -7,6 +7,7 @@ import {
   fixOrphanedChildren,
   findLastIndexInSection,
   validateDragOperation,
+  moveTodoSubtree,
 } from '../dragDropUtils';
 import type { EditorTodo } from '../../types';
 
@@ -659,3 +660,33 @@ describe('dragDropUtils', () => {
     });
   });
 });
+
+describe('moveTodoSubtree', () => {
+  const todos: EditorTodo[] = [
+    { id: 1, text: 'A', completed: false, parentId: null },
+    { id: 2, text: 'A.1', completed: false, parentId: 1 },
+    { id: 3, text: 'A.2', completed: false, parentId: 1 },
+    { id: 4, text: 'B', completed: false, parentId: null },
+    { id: 5, text: 'B.1', completed: false, parentId: 4 },
+    { id: 6, text: 'C', completed: true, parentId: null },
+  ];
+  const ids = (list: EditorTodo[] | null) => list?.map((t) => t.id);
+
+  it('moves a todo with its subtree past the previous sibling', () => {
+    expect(ids(moveTodoSubtree(todos, 4, 'up'))).toEqual([4, 5, 1, 2, 3, 6]);
+  });
+
+  it('moves a todo past the next sibling and its subtree', () => {
+    expect(ids(moveTodoSubtree(todos, 1, 'down'))).toEqual([4, 5, 1, 2, 3, 6]);
+  });
+
+  it('reorders children without leaving their parent', () => {
+    expect(ids(moveTodoSubtree(todos, 3, 'up'))).toEqual([1, 3, 2, 4, 5, 6]);
+    expect(moveTodoSubtree(todos, 2, 'up')).toBeNull();
+    expect(moveTodoSubtree(todos, 5, 'down')).toBeNull();
+  });
+
+  it('refuses to move across sections', () => {
+    expect(moveTodoSubtree(todos, 4, 'down')).toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+import {
+  getDueDateStatus,
+  isValidDueDate,
+  normalizeDueDate,
+  toDateKey,
+} from '../dueDate';
+
+describe('dueDate utils', () => {
+  const now = new Date(2025, 5, 15, 9, 30); // 2025-06-15 local time
+
+  it('formats dates as local YYYY-MM-DD keys', () => {
+    expect(toDateKey(now)).toBe('2025-06-15');
+    expect(toDateKey(new Date(2025, 0, 3))).toBe('2025-01-03');
+  });
+
+  it('accepts only real calendar days', () => {
+    expect(isValidDueDate('2025-02-28')).toBe(true);
+    expect(isValidDueDate('2025-02-30')).toBe(false);
+    expect(isValidDueDate('2025-6-1')).toBe(false);
+    expect(isValidDueDate('')).toBe(false);
+    expect(isValidDueDate(null)).toBe(false);
+  });
+
+  it('normalizes invalid values to null', () => {
+    expect(normalizeDueDate('2025-06-01')).toBe('2025-06-01');
+    expect(normalizeDueDate('tomorrow')).toBeNull();
+    expect(normalizeDueDate(undefined)).toBeNull();
+  });
+
+  it.each([
+    ['2025-06-14', 'overdue'],
+    ['2025-06-15', 'today'],
+    ['2025-06-16', 'upcoming'],
+  ] as const)('classifies %s as %s', (dueDate, expected) => {
+    expect(getDueDateStatus(dueDate, false, now)).toBe(expected);
+  });
+
+  it('has no status for completed todos or missing dates', () => {
+    expect(getDueDateStatus('2025-06-01', true, now)).toBeNull();
+    expect(getDueDateStatus(null, false, now)).toBeNull();
+    expect(getDueDateStatus(undefined, false, now)).toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+import { fuzzyScore, rankByFuzzy } from '../fuzzy';
+
+describe('fuzzyScore', () => {
+  it('matches subsequences case-insensitively', () => {
+    expect(fuzzyScore('DUP', 'Duplicate List')).not.toBeNull();
+    expect(fuzzyScore('dpl', 'Duplicate List')).not.toBeNull();
+    expect(fuzzyScore('xyz', 'Duplicate List')).toBeNull();
+  });
+
+  it('ignores whitespace in the query', () => {
+    expect(fuzzyScore('dup list', 'Duplicate List')).toBe(
+      fuzzyScore('duplist', 'Duplicate List'),
+    );
+  });
+
+  it('prefers word starts over matches inside words', () => {
+    const wordStarts = fuzzyScore('dl', 'Duplicate List') as number;
+    const inside = fuzzyScore('dl', 'Sidebar lists') as number;
+    expect(wordStarts).toBeGreaterThan(inside);
+  });
+
+  it('still matches when jumping to a word start would leave no room', () => {
+    expect(fuzzyScore('ab', 'xab a')).not.toBeNull();
+  });
+
+  it('returns 0 for an empty query', () => {
+    expect(fuzzyScore('  ', 'anything')).toBe(0);
+  });
+});
+
+describe('rankByFuzzy', () => {
+  const items = [
+    { title: 'Undo', keywords: [] },
+    { title: 'Toggle Completed Items', keywords: ['hide'] },
+    { title: 'Export List as Markdown…', keywords: ['save'] },
+  ];
+  const texts = (item: (typeof items)[number]) => [
+    item.title,
+    ...item.keywords,
+  ];
+
+  it('returns every item in order for an empty query', () => {
+    expect(rankByFuzzy(items, '', texts)).toBe(items);
+  });
+
+  it('drops non-matches and ranks the best match first', () => {
+    const ranked = rankByFuzzy(items, 'tc', texts);
+    expect(ranked.map((i) => i.title)).toEqual(['Toggle Completed Items']);
+  });
+
+  it('matches on keywords', () => {
+    expect(rankByFuzzy(items, 'hide', texts)[0].title).toBe(
+      'Toggle Completed Items',
+    );
+  });
+});
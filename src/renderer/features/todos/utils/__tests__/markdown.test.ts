@@ -0,0 +1,116 @@
+import {
+  listsToMarkdown,
+  parseOutlineText,
+  parseMarkdownLists,
+  todosToMarkdown,
+} from '../markdown';
+import type { EditorTodo } from '../../types';
+
+const todo = (
+  id: number,
+  text: string,
+  parentId: number | null = null,
+  completed = false,
+): EditorTodo => ({ id, text, completed, indent: 0, parentId });
+
+describe('todosToMarkdown', () => {
+  it('nests items by parentId and skips blank rows', () => {
+    const md = todosToMarkdown([
+      todo(1, 'Ship release'),
+      todo(2, 'Write notes', 1, true),
+      todo(3, 'Proofread', 2, true),
+      todo(4, ''),
+      todo(5, 'Celebrate'),
+    ]);
+    expect(md).toBe(
+      [
+        '- [ ] Ship release',
+        '  - [x] Write notes',
+        '    - [x] Proofread',
+        '- [ ] Celebrate',
+      ].join('\n'),
+    );
+  });
+});
+
+describe('listsToMarkdown', () => {
+  it('puts each list under its own heading', () => {
+    const md = listsToMarkdown([
+      { name: 'Work', todos: [todo(1, 'Review PR')] },
+      { name: 'Empty', todos: [] },
+    ]);
+    expect(md).toBe('# Work\n\n- [ ] Review PR\n\n# Empty\n');
+  });
+});
+
+describe('parseMarkdownLists', () => {
+  it('round-trips exported lists', () => {
+    const source = [
+      todo(1, 'Ship release'),
+      todo(2, 'Write notes', 1),
+      todo(3, 'Proofread', 2, true),
+      todo(4, 'Celebrate'),
+    ];
+    const [parsed] = parseMarkdownLists(
+      listsToMarkdown([{ name: 'Work', todos: source }]),
+      'fallback',
+    );
+    expect(parsed.name).toBe('Work');
+    expect(
+      parsed.todos.map(({ text, completed, parentId }) => ({
+        text,
+        completed,
+        parentId,
+      })),
+    ).toEqual(
+      source.map(({ text, completed, parentId }) => ({
+        text,
+        completed,
+        parentId,
+      })),
+    );
+  });
+
+  it('uses the fallback name for items before any heading', () => {
+    const lists = parseMarkdownLists(
+      '- [ ] loose item\n\n# Named\n* [X] done\n',
+      'notes',
+    );
+    expect(lists.map((l) => l.name)).toEqual(['notes', 'Named']);
+    expect(lists[1].todos[0].completed).toBe(true);
+  });
+
+  it('handles tab and 4-space indentation and plain bullets', () => {
+    const [tabs] = parseMarkdownLists('- a\n\t- b\n\t\t- c', 'x');
+    const [spaces] = parseMarkdownLists('- a\n    - b\n        - c', 'x');
+    [tabs, spaces].forEach((list) => {
+      expect(list.todos.map((t) => t.parentId)).toEqual([null, 1, 2]);
+    });
+  });
+
+  it('does not keep active items under a completed parent', () => {
+    const [list] = parseMarkdownLists('- [x] parent\n  - [ ] child', 'x');
+    expect(list.todos[1].parentId).toBeNull();
+  });
+
+  it('drops headings without items and ignores prose', () => {
+    const lists = parseMarkdownLists(
+      '# Title\n\nSome intro text.\n\n## Tasks\n- [ ] one',
+      'x',
+    );
+    expect(lists).toHaveLength(1);
+    expect(lists[0].name).toBe('Tasks');
+  });
+});
+
+describe('parseOutlineText', () => {
+  it('strips markers, keeps completion and ranks indentation', () => {
+    expect(
+      parseOutlineText('  * [x] done\n\n    plain child\n  - [ ] next'),
+    ).toEqual([
+      { text: 'done', completed: true, depth: 0 },
+      { text: 'plain child', completed: false, depth: 1 },
+      { text: 'next', completed: false, depth: 0 },
+    ]);
+  });
+});
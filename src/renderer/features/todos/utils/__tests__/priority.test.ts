@@ -0,0 +1,53 @@
+import type { EditorTodo } from '../../types';
+import {
+  cyclePriority,
+  normalizePriority,
+  parsePriorityToken,
+  priorityRank,
+  sortTodosByPriority,
+} from '../priority';
+
+describe('priority utils', () => {
+  it('normalizes and ranks priorities', () => {
+    expect(normalizePriority('high')).toBe('high');
+    expect(normalizePriority('p1')).toBeNull();
+    expect(priorityRank(null)).toBe(0);
+    expect(priorityRank('low')).toBe(1);
+    expect(priorityRank('urgent')).toBe(4);
+  });
+
+  it('cycles none → low → … → urgent → none', () => {
+    expect(cyclePriority(null)).toBe('low');
+    expect(cyclePriority('high')).toBe('urgent');
+    expect(cyclePriority('urgent')).toBeNull();
+  });
+
+  it.each([
+    ['!1 call bank ', 'call bank ', 'high'],
+    ['call !2 bank', 'call bank', 'medium'],
+    ['call bank !3 ', 'call bank ', 'low'],
+  ] as const)('parses %j', (input, text, priority) => {
+    expect(parsePriorityToken(input)).toEqual({ text, priority });
+  });
+
+  it('ignores unfinished, unknown and embedded tokens', () => {
+    expect(parsePriorityToken('call bank !1')).toBeNull();
+    expect(parsePriorityToken('!4 later')).toBeNull();
+    expect(parsePriorityToken('wow!1 ok')).toBeNull();
+  });
+
+  it('sorts top-level blocks by priority, keeping children with their parent', () => {
+    const todos: EditorTodo[] = [
+      { id: 1, text: 'A', completed: false, parentId: null },
+      { id: 2, text: 'A.1', completed: false, parentId: 1, priority: 'urgent' },
+      { id: 3, text: 'B', completed: false, parentId: null, priority: 'low' },
+      { id: 4, text: 'C', completed: false, parentId: null, priority: 'high' },
+      { id: 5, text: 'C.1', completed: false, parentId: 4 },
+      { id: 6, text: 'D', completed: false, parentId: null, priority: 'low' },
+    ];
+    const sorted = sortTodosByPriority(todos);
+    expect(sorted.map((t) => t.id)).toEqual([4, 5, 3, 6, 1, 2]);
+    // Original objects are kept so unchanged rows stay referentially equal
+    expect(sorted[0]).toBe(todos[3]);
+  });
+});
@@ -0,0 +1,100 @@
+import { hasQuickAddFields, parseQuickAdd } from '../quickAdd';
+
+// Wednesday
+const now = new Date(2024, 4, 1, 10, 0);
+const lists = [
+  { id: 'sales', name: 'Sales' },
+  { id: 'work', name: 'Work' },
+  { id: 'trips', name: 'Work Trips' },
+];
+
+describe('parseQuickAdd', () => {
+  it('parses the full example and strips the tokens', () => {
+    const res = parseQuickAdd('call Bob tomorrow 3pm !high #sales @Sales', {
+      now,
+      lists,
+    });
+    expect(res).toMatchObject({
+      text: 'call Bob #sales',
+      dueDate: '2024-05-02',
+      dueTime: '15:00',
+      priority: 'high',
+      tags: ['sales'],
+      listId: 'sales',
+    });
+    expect(res.tokens.map((t) => t.kind)).toEqual([
+      'list',
+      'date',
+      'time',
+      'priority',
+      'tag',
+    ]);
+  });
+
+  it.each([
+    ['today', '2024-05-01'],
+    ['tmrw', '2024-05-02'],
+    ['fri', '2024-05-03'],
+    ['next fri', '2024-05-03'],
+    ['on wednesday', '2024-05-08'],
+    ['in 3 days', '2024-05-04'],
+    ['in a week', '2024-05-08'],
+    ['in 2 months', '2024-07-01'],
+    ['next week', '2024-05-08'],
+    ['2024-06-15', '2024-06-15'],
+    ['may 3rd', '2024-05-03'],
+    ['3 jan', '2025-01-03'],
+  ])('reads "%s" as %s', (phrase, expected) => {
+    const res = parseQuickAdd(`pay rent ${phrase}`, { now });
+    expect(res.dueDate).toBe(expected);
+    expect(res.text).toBe('pay rent');
+  });
+
+  it.each([
+    ['at 9am', '09:00'],
+    ['12am', '00:00'],
+    ['3:30 pm', '15:30'],
+    ['18:45', '18:45'],
+    ['at noon', '12:00'],
+  ])('reads "%s" as %s, due today', (phrase, expected) => {
+    const res = parseQuickAdd(`standup ${phrase}`, { now });
+    expect(res.dueTime).toBe(expected);
+    expect(res.dueDate).toBe('2024-05-01');
+    expect(res.text).toBe('standup');
+  });
+
+  it('maps !1-!3 and priority words', () => {
+    expect(parseQuickAdd('a !1', { now }).priority).toBe('high');
+    expect(parseQuickAdd('a !3', { now }).priority).toBe('low');
+    expect(parseQuickAdd('a !URGENT', { now }).priority).toBe('urgent');
+    expect(parseQuickAdd('a !med', { now }).priority).toBe('medium');
+  });
+
+  it('prefers the longest list name and ignores unknown lists', () => {
+    expect(parseQuickAdd('book @work trips', { now, lists }).listId).toBe(
+      'trips',
+    );
+    const unknown = parseQuickAdd('email @someone', { now, lists });
+    expect(unknown.listId).toBeNull();
+    expect(unknown.text).toBe('email @someone');
+  });
+
+  it('leaves words that only look like tokens alone', () => {
+    const res = parseQuickAdd('buy 3 decks of cards!nope fridays', { now });
+    expect(hasQuickAddFields(res)).toBe(false);
+    expect(res.text).toBe('buy 3 decks of cards!nope fridays');
+    expect(parseQuickAdd('feb 30', { now }).dueDate).toBeNull();
+  });
+
+  it('is not worth applying when only tokens were typed', () => {
+    const res = parseQuickAdd('tomorrow !high', { now });
+    expect(res.text).toBe('');
+    expect(hasQuickAddFields(res)).toBe(false);
+  });
+
+  it('does not count tags alone as fields', () => {
+    const res = parseQuickAdd('plan #q3', { now });
+    expect(res.tags).toEqual(['q3']);
+    expect(hasQuickAddFields(res)).toBe(false);
+  });
+});
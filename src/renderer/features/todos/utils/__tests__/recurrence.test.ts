@@ -0,0 +1,111 @@
+import type { EditorTodo } from '../../types';
+import {
+  collectSubtree,
+  computeNextDueDate,
+  createNextOccurrence,
+  describeRecurrence,
+  normalizeRecurrence,
+} from '../recurrence';
+
+describe('recurrence utils', () => {
+  const now = new Date(2025, 5, 15, 9, 30); // Sunday 2025-06-15 local time
+
+  it('normalizes rules and rejects malformed ones', () => {
+    expect(normalizeRecurrence({ kind: 'daily' })).toEqual({ kind: 'daily' });
+    expect(normalizeRecurrence({ kind: 'weekly', days: [5, 1, 1, 9] })).toEqual(
+      { kind: 'weekly', days: [1, 5] },
+    );
+    expect(normalizeRecurrence({ kind: 'weekly', days: [] })).toBeNull();
+    expect(
+      normalizeRecurrence({ kind: 'afterCompletion', everyDays: 0 }),
+    ).toBeNull();
+    expect(normalizeRecurrence({ kind: 'yearly' })).toBeNull();
+    expect(normalizeRecurrence(null)).toBeNull();
+  });
+
+  it.each([
+    ['daily, due today', { kind: 'daily' }, '2025-06-15', '2025-06-16'],
+    ['daily, overdue', { kind: 'daily' }, '2025-06-10', '2025-06-16'],
+    ['daily, completed early', { kind: 'daily' }, '2025-06-20', '2025-06-21'],
+    ['daily, no date', { kind: 'daily' }, null, '2025-06-16'],
+    ['weekly Mon/Thu', { kind: 'weekly', days: [1, 4] }, null, '2025-06-16'],
+    [
+      'weekly from Mon',
+      { kind: 'weekly', days: [1, 4] },
+      '2025-06-16',
+      '2025-06-19',
+    ],
+    ['monthly', { kind: 'monthly' }, '2025-06-15', '2025-07-15'],
+    ['monthly, overdue', { kind: 'monthly' }, '2025-04-10', '2025-07-10'],
+    ['monthly, clamped', { kind: 'monthly' }, '2025-01-31', '2025-06-30'],
+    [
+      'after completion',
+      { kind: 'afterCompletion', everyDays: 3 },
+      '2025-06-01',
+      '2025-06-18',
+    ],
+  ] as const)('schedules %s', (_name, rule, dueDate, expected) => {
+    expect(computeNextDueDate(rule as any, dueDate, now)).toBe(expected);
+  });
+
+  it('clamps monthly rules to short months', () => {
+    const feb = new Date(2025, 1, 1);
+    expect(computeNextDueDate({ kind: 'monthly' }, '2025-01-31', feb)).toBe(
+      '2025-02-28',
+    );
+  });
+
+  it('describes rules', () => {
+    expect(describeRecurrence({ kind: 'daily' })).toBe('Daily');
+    expect(describeRecurrence({ kind: 'weekly', days: [1, 2, 3, 4, 5] })).toBe(
+      'Weekdays',
+    );
+    expect(describeRecurrence({ kind: 'weekly', days: [1, 4] })).toBe(
+      'Weekly on Mon, Thu',
+    );
+    expect(describeRecurrence({ kind: 'afterCompletion', everyDays: 2 })).toBe(
+      'Every 2 days after completion',
+    );
+  });
+
+  it('copies a subtree unchecked with remapped ids and shifted dates', () => {
+    const todos: EditorTodo[] = [
+      {
+        id: 1,
+        text: 'Report',
+        completed: true,
+        parentId: null,
+        dueDate: '2025-06-15',
+        recurrence: { kind: 'weekly', days: [0] },
+      },
+      { id: 2, text: 'Draft', completed: true, parentId: 1 },
+      {
+        id: 3,
+        text: 'Review',
+        completed: true,
+        parentId: 2,
+        dueDate: '2025-06-14',
+      },
+      { id: 4, text: 'Unrelated', completed: false, parentId: null },
+    ];
+    const subtree = collectSubtree(todos, 1);
+    expect(subtree.map((t) => t.id)).toEqual([1, 2, 3]);
+
+    const copies = createNextOccurrence(subtree, [7, 8, 9], now);
+    expect(copies).toEqual([
+      expect.objectContaining({
+        id: 7,
+        completed: false,
+        parentId: null,
+        dueDate: '2025-06-22',
+      }),
+      expect.objectContaining({ id: 8, completed: false, parentId: 7 }),
+      expect.objectContaining({
+        id: 9,
+        completed: false,
+        parentId: 8,
+        dueDate: '2025-06-21',
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,45 @@
+import { groupSearchHitsByList } from '../searchResults';
+import type { SearchHit } from '../../types';
+
+const todoHit = (listId: string, todoId: number, text: string): SearchHit => ({
+  kind: 'todo',
+  listId,
+  listName: `List ${listId}`,
+  todoId,
+  text,
+  completed: false,
+});
+
+describe('groupSearchHitsByList', () => {
+  it('groups hits by list in ranking order', () => {
+    const groups = groupSearchHitsByList([
+      todoHit('b', 2, 'milk'),
+      todoHit('a', 1, 'milk chocolate'),
+      todoHit('b', 5, 'oat milk'),
+    ]);
+    expect(groups.map((g) => g.listId)).toEqual(['b', 'a']);
+    expect(groups[0].todos.map((t) => t.todoId)).toEqual([2, 5]);
+    expect(groups[1].todos.map((t) => t.todoId)).toEqual([1]);
+  });
+
+  it('marks groups whose list name matched', () => {
+    const groups = groupSearchHitsByList([
+      {
+        kind: 'list',
+        listId: 'a',
+        listName: 'Groceries',
+        todoId: null,
+        text: 'Groceries',
+        completed: false,
+      },
+      todoHit('c', 3, 'groceries run'),
+    ]);
+    expect(groups).toHaveLength(2);
+    expect(groups[0]).toMatchObject({ listMatched: true, todos: [] });
+    expect(groups[1]).toMatchObject({ listMatched: false });
+  });
+
+  it('returns an empty array for no hits', () => {
+    expect(groupSearchHitsByList([])).toEqual([]);
+  });
+});
@@ -0,0 +1,128 @@
+import type { EditorTodo, TodoList } from '../../types';
+import {
+  DEFAULT_SMART_LIST_FILTER,
+  type SmartListFilter,
+} from '../../../../../shared/smartLists';
+import { matchesSmartListFilter, querySmartList } from '../smartLists';
+
+const todo = (overrides: Partial<EditorTodo>): EditorTodo => ({
+  id: 1,
+  text: 'task',
+  completed: false,
+  indent: 0,
+  parentId: null,
+  ...overrides,
+});
+
+const filter = (overrides: Partial<SmartListFilter>): SmartListFilter => ({
+  ...DEFAULT_SMART_LIST_FILTER,
+  ...overrides,
+});
+
+describe('smart lists', () => {
+  const now = new Date(2025, 5, 15, 9, 30); // 2025-06-15 local time
+
+  it('skips blank rows and respects status', () => {
+    expect(matchesSmartListFilter(todo({ text: '  ' }), filter({}), now)).toBe(
+      false,
+    );
+    expect(matchesSmartListFilter(todo({}), filter({}), now)).toBe(true);
+    expect(
+      matchesSmartListFilter(todo({ completed: true }), filter({}), now),
+    ).toBe(false);
+    expect(
+      matchesSmartListFilter(
+        todo({ completed: true }),
+        filter({ status: 'all' }),
+        now,
+      ),
+    ).toBe(true);
+  });
+
+  it('matches todos completed today by their completion time', () => {
+    const completedToday = filter({ status: 'completedToday' });
+    expect(
+      matchesSmartListFilter(
+        todo({
+          completed: true,
+          completedAt: new Date(2025, 5, 15, 8).toISOString(),
+        }),
+        completedToday,
+        now,
+      ),
+    ).toBe(true);
+    expect(
+      matchesSmartListFilter(
+        todo({
+          completed: true,
+          completedAt: new Date(2025, 5, 14, 23).toISOString(),
+        }),
+        completedToday,
+        now,
+      ),
+    ).toBe(false);
+    expect(
+      matchesSmartListFilter(todo({ completed: true }), completedToday, now),
+    ).toBe(false);
+  });
+
+  it.each([
+    ['overdue', '2025-06-14', true],
+    ['overdue', '2025-06-15', false],
+    ['today', '2025-06-15', true],
+    ['upcoming', '2025-06-21', true],
+    ['upcoming', '2025-06-22', false],
+    ['dated', '2025-01-01', true],
+    ['undated', null, true],
+    ['undated', '2025-06-15', false],
+  ] as const)('due %s with %s → %s', (due, dueDate, expected) => {
+    expect(
+      matchesSmartListFilter(todo({ dueDate }), filter({ due }), now),
+    ).toBe(expected);
+  });
+
+  it('filters by tag, minimum priority and text', () => {
+    const t = todo({ text: 'Call Bob #sales', priority: 'high' });
+    expect(matchesSmartListFilter(t, filter({ tag: 'sales' }), now)).toBe(true);
+    expect(matchesSmartListFilter(t, filter({ tag: 'home' }), now)).toBe(false);
+    expect(
+      matchesSmartListFilter(t, filter({ minPriority: 'medium' }), now),
+    ).toBe(true);
+    expect(
+      matchesSmartListFilter(t, filter({ minPriority: 'urgent' }), now),
+    ).toBe(false);
+    expect(matchesSmartListFilter(t, filter({ text: 'bob' }), now)).toBe(true);
+    expect(matchesSmartListFilter(t, filter({ text: 'alice' }), now)).toBe(
+      false,
+    );
+  });
+
+  it('groups matches by list in list order, leaving out empty lists', () => {
+    const list = (id: string, todos: EditorTodo[]): TodoList => ({
+      id,
+      name: id.toUpperCase(),
+      todos,
+      createdAt: '2025-01-01T00:00:00.000Z',
+      updatedAt: '2025-01-01T00:00:00.000Z',
+    });
+    const lists = [
+      list('a', [todo({ id: 1, completed: true })]),
+      list('b', [todo({ id: 1 }), todo({ id: 2 })]),
+      list('c', [todo({ id: 5 })]),
+    ];
+    expect(
+      querySmartList(lists, filter({}), now).map((g) => [
+        g.listId,
+        g.todos.map((t) => t.id),
+      ]),
+    ).toEqual([
+      ['b', [1, 2]],
+      ['c', [5]],
+    ]);
+    expect(
+      querySmartList(lists, filter({ listIds: ['c'] }), now).map(
+        (g) => g.listId,
+      ),
+    ).toEqual(['c']);
+  });
+});
@@ -0,0 +1,36 @@
+import type { EditorTodo } from '../../types';
+import { extractTags, filterTodosByTag, normalizeTag } from '../tags';
+
+describe('tag utils', () => {
+  it('extracts distinct lower-cased tags', () => {
+    expect(extractTags('#Frontend fix nav #bug and #frontend again')).toEqual([
+      'frontend',
+      'bug',
+    ]);
+    expect(extractTags('ship #v2/api-docs- today')).toEqual(['v2/api-docs']);
+    expect(extractTags('#café #naïve')).toEqual(['café', 'naïve']);
+  });
+
+  it('ignores anchors, issue numbers and mid-word hashes', () => {
+    expect(extractTags('see issue #123 and foo#bar or #')).toEqual([]);
+  });
+
+  it('normalizes user input to a tag key', () => {
+    expect(normalizeTag(' #Frontend ')).toBe('frontend');
+    expect(normalizeTag('#')).toBeNull();
+  });
+
+  it('keeps tagged todos with their ancestors and subtasks', () => {
+    const todos: EditorTodo[] = [
+      { id: 1, text: 'Release', completed: false, parentId: null },
+      { id: 2, text: 'Fix nav #frontend', completed: false, parentId: 1 },
+      { id: 3, text: 'Check mobile', completed: false, parentId: 2 },
+      { id: 4, text: 'Update API #backend', completed: false, parentId: 1 },
+      { id: 5, text: 'Unrelated', completed: false, parentId: null },
+    ];
+    expect(filterTodosByTag(todos, 'frontend').map((t) => t.id)).toEqual([
+      1, 2, 3,
+    ]);
+    expect(filterTodosByTag(todos, 'design')).toEqual([]);
+  });
+});
@@ -0,0 +1,176 @@
+import type { EditorTodo } from '../../types';
+import { diffTodos, isEmptyPatch, mergeTodos } from '../todosPatch';
+
+const todo = (id: number, overrides: Partial<EditorTodo> = {}): EditorTodo => ({
+  id,
+  text: `task ${id}`,
+  completed: false,
+  indent: 0,
+  parentId: null,
+  ...overrides,
+});
+
+describe('todos patch', () => {
+  it('is empty when nothing changed', () => {
+    const saved = [todo(1), todo(2)];
+    expect(isEmptyPatch(diffTodos(saved, saved))).toBe(true);
+    // Copies with the same stored fields don't count as edits
+    expect(
+      isEmptyPatch(
+        diffTodos(
+          saved,
+          saved.map((t) => ({ ...t })),
+        ),
+      ),
+    ).toBe(true);
+  });
+
+  it('treats missing and null optional fields alike', () => {
+    const saved = [todo(1, { dueDate: null, notes: '' })];
+    const next = [{ id: 1, text: 'task 1', completed: false }];
+    expect(isEmptyPatch(diffTodos(saved, next))).toBe(true);
+  });
+
+  it('reports only the todos that changed', () => {
+    const saved = [todo(1), todo(2), todo(3)];
+    const edited = { ...saved[1], text: 'edited', priority: 'high' as const };
+    const patch = diffTodos(saved, [saved[0], edited, saved[2]]);
+    expect(patch).toEqual({
+      inserted: [],
+      updated: [edited],
+      deleted: [],
+      moved: [],
+    });
+  });
+
+  it('reports inserts with the todo they follow', () => {
+    const saved = [todo(1), todo(2)];
+    const added = todo(3, { text: '' });
+    const patch = diffTodos(saved, [saved[0], added, saved[1]]);
+    expect(patch.inserted).toEqual([{ todo: added, afterId: 1 }]);
+    expect(patch.moved).toEqual([]);
+    expect(patch.updated).toEqual([]);
+  });
+
+  it('reports deletes and reorders', () => {
+    const saved = [todo(1), todo(2), todo(3)];
+    const patch = diffTodos(saved, [saved[2], saved[0]]);
+    expect(patch.deleted).toEqual([2]);
+    expect(patch.moved).toEqual([{ id: 3, afterId: null }]);
+    expect(patch.inserted).toEqual([]);
+  });
+
+  it('touches one todo per insert, delete or drag however long the list', () => {
+    const saved = Array.from({ length: 100 }, (_, i) => todo(i + 1));
+    const top = todo(101);
+    expect(diffTodos(saved, [top, ...saved])).toEqual({
+      inserted: [{ todo: top, afterId: null }],
+      updated: [],
+      deleted: [],
+      moved: [],
+    });
+    expect(diffTodos(saved, saved.slice(1))).toEqual({
+      inserted: [],
+      updated: [],
+      deleted: [1],
+      moved: [],
+    });
+    const dragged = [...saved.slice(1, 50), saved[0], ...saved.slice(50)];
+    expect(diffTodos(saved, dragged).moved).toEqual([{ id: 1, afterId: 50 }]);
+  });
+
+  it('compares recurrence rules by value', () => {
+    const saved = [todo(1, { recurrence: { kind: 'weekly', days: [1, 3] } })];
+    expect(
+      isEmptyPatch(
+        diffTodos(saved, [
+          { ...saved[0], recurrence: { kind: 'weekly', days: [1, 3] } },
+        ]),
+      ),
+    ).toBe(true);
+    expect(
+      diffTodos(saved, [
+        { ...saved[0], recurrence: { kind: 'weekly', days: [1] } },
+      ]).updated,
+    ).toHaveLength(1);
+  });
+
+  describe('mergeTodos', () => {
+    const noIds = () => {
+      throw new Error('no id expected');
+    };
+
+    it('keeps edits from both sides', () => {
+      const base = [todo(1), todo(2), todo(3)];
+      const local = [{ ...base[0], text: 'mine' }, base[1], base[2]];
+      const remote = [base[0], { ...base[1], completed: true }];
+      expect(mergeTodos(base, local, remote, noIds)).toEqual([
+        { ...base[0], text: 'mine' },
+        { ...base[1], completed: true },
+      ]);
+    });
+
+    it('prefers the local edit when both sides changed a todo', () => {
+      const base = [todo(1)];
+      const local = [{ ...base[0], text: 'mine' }];
+      const remote = [{ ...base[0], text: 'theirs' }];
+      expect(mergeTodos(base, local, remote, noIds)).toEqual(local);
+    });
+
+    it('places todos added in storage after the todo they follow', () => {
+      const base = [todo(1), todo(2)];
+      const local = [base[0], todo(5, { text: 'mine' }), base[1]];
+      const remote = [base[0], base[1], todo(3, { text: 'captured' })];
+      expect(mergeTodos(base, local, remote, noIds).map((t) => t.id)).toEqual([
+        1, 5, 2, 3,
+      ]);
+    });
+
+    it('renumbers a local todo whose id storage used for another', () => {
+      const base = [todo(1)];
+      const local = [
+        base[0],
+        todo(2, { text: 'mine' }),
+        todo(4, { parentId: 2 }),
+      ];
+      const remote = [base[0], todo(2, { text: 'captured' })];
+      const merged = mergeTodos(base, local, remote, () => 9);
+      expect(merged.map((t) => [t.id, t.text, t.parentId])).toEqual([
+        [1, 'task 1', null],
+        [2, 'captured', null],
+        [9, 'mine', null],
+        [4, 'task 4', 9],
+      ]);
+    });
+
+    it('lifts children of todos deleted in storage to the top level', () => {
+      const base = [todo(1), todo(2, { parentId: 1, indent: 1 })];
+      const local = [base[0], { ...base[1], text: 'edited child' }];
+      const remote = [base[1]];
+      expect(mergeTodos(base, local, remote, noIds)).toEqual([
+        { ...base[1], text: 'edited child', parentId: null, indent: 0 },
+      ]);
+    });
+
+    it('moves the whole subtree up when its parent is deleted in storage', () => {
+      const base = [
+        todo(1),
+        todo(2, { parentId: 1, indent: 1 }),
+        todo(3, { parentId: 2, indent: 2 }),
+        todo(4, { parentId: 3, indent: 3 }),
+      ];
+      const remote = base.slice(1);
+      expect(
+        mergeTodos(base, base, remote, noIds).map((t) => [
+          t.id,
+          t.parentId,
+          t.indent,
+        ]),
+      ).toEqual([
+        [2, null, 0],
+        [3, 2, 1],
+        [4, 3, 2],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import type { EditorTodo } from '../types';
+
+/**
+ * Ids of todos that have at least one child
+ */
+export const findParentIds = (todos: EditorTodo[]): Set<number> =>
+  new Set(
+    todos
+      .map((t) => t.parentId)
+      .filter((parentId): parentId is number => parentId != null),
+  );
+
+/**
+ * Ids of todos hidden because one of their ancestors is collapsed.
+ * Follows parentId chains, so it doesn't depend on list order.
+ */
+export const computeHiddenTodoIds = (todos: EditorTodo[]): Set<number> => {
+  const byId = new Map(todos.map((t) => [t.id, t]));
+  const hidden = new Set<number>();
+  todos.forEach((todo) => {
+    const seen = new Set<number>();
+    let parentId = todo.parentId ?? null;
+    while (parentId != null && !seen.has(parentId)) {
+      seen.add(parentId);
+      const parent = byId.get(parentId);
+      if (!parent) break;
+      if (parent.collapsed) {
+        hidden.add(todo.id);
+        break;
+      }
+      parentId = parent.parentId ?? null;
+    }
+  });
+  return hidden;
+};
+
+/**
+ * Ids of a todo's ancestors, nearest first
+ */
+export const findAncestorIds = (todos: EditorTodo[], id: number): number[] => {
+  const byId = new Map(todos.map((t) => [t.id, t]));
+  const ancestors: number[] = [];
+  let parentId = byId.get(id)?.parentId ?? null;
+  while (parentId != null && !ancestors.includes(parentId)) {
+    ancestors.push(parentId);
+    parentId = byId.get(parentId)?.parentId ?? null;
+  }
+  return ancestors;
+};
+
+/**
+ * Index of the last row in the todo's subtree, i.e. where a new sibling
+ * should go so it lands after the (possibly hidden) children.
+ */
+export const findSubtreeEndIndex = (
+  todos: EditorTodo[],
+  index: number,
+): number => {
+  const root = todos[index];
+  if (!root) return index;
+  // Descendants follow their parent contiguously
+  const subtree = new Set([root.id]);
+  let end = index;
+  while (
+    end + 1 < todos.length &&
+    subtree.has(todos[end + 1].parentId as number)
+  ) {
+    end += 1;
+    subtree.add(todos[end].id);
+  }
+  return end;
+};
+
+/**
+ * Clears the collapsed flag on the given todos. Returns the same array when
+ * none of them was collapsed.
+ */
+export const expandTodos = (
+  todos: EditorTodo[],
+  ids: Iterable<number>,
+): EditorTodo[] => {
+  const targets = new Set(ids);
+  if (!todos.some((t) => t.collapsed && targets.has(t.id))) return todos;
+  return todos.map((t) =>
+    t.collapsed && targets.has(t.id) ? { ...t, collapsed: false } : t,
+  );
+};
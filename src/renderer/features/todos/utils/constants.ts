@@ -3,3 +3,11 @@ export const IMMEDIATE_SAVE_DEBOUNCE_MS = 0;
 export const MIN_INDENT = 0;
 export const MAX_INDENT = 3;
 export const FOCUS_CLEAR_DELAY_MS = 100;
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const DEFAULT_QUICK_CAPTURE_SHORTCUT = 'CommandOrControl+Shift+Space';
+export const DEFAULT_BACKUP_INTERVAL_MINUTES = 60;
+export const DEFAULT_BACKUP_KEEP_COUNT = 10;
+// dataTransfer type carrying a dragged todo's id (drop it on a sidebar list to move it)
+export const TODO_DRAG_MIME = 'application/x-todolo-todo';
+// The list title input in the header; focusing it starts a rename
+export const LIST_TITLE_INPUT_ID = 'list-title-input';
@@ -1,5 +1,9 @@
 import type { EditorTodo, Section } from '../types';
-import { calculateEffectiveSection } from './todoUtils';
+import {
+  calculateEffectiveSection,
+  deriveIndentFromParentId,
+} from './todoUtils';
+import { findSubtreeEndIndex } from './collapse';
 
 /**
  * Checks if targetId is a child of sourceId in the todos hierarchy
@@ -189,3 +193,59 @@ export const validateDragOperation = (
 
   return { valid: true };
 };
+
+/**
+ * Moves a todo together with its subtree past its previous or next sibling
+ * (keyboard reordering). Siblings share the todo's parent, so nesting never
+ * changes; the swap is checked with the same rules as a drag and drop.
+ * Returns null when there is no sibling to swap with or the move is invalid.
+ */
+export const moveTodoSubtree = (
+  todos: EditorTodo[],
+  id: number,
+  direction: 'up' | 'down',
+): EditorTodo[] | null => {
+  const index = todos.findIndex((t) => t.id === id);
+  if (index === -1) return null;
+  const parentId = todos[index].parentId ?? null;
+  const endIndex = findSubtreeEndIndex(todos, index);
+
+  let siblingIndex = -1;
+  if (direction === 'up') {
+    for (let i = index - 1; i >= 0 && todos[i].id !== parentId; i--) {
+      if ((todos[i].parentId ?? null) === parentId) {
+        siblingIndex = i;
+        break;
+      }
+    }
+  } else if ((todos[endIndex + 1]?.parentId ?? null) === parentId) {
+    siblingIndex = endIndex + 1;
+  }
+  if (siblingIndex === -1 || !todos[siblingIndex]) return null;
+
+  // isChildOf reads `indent`; derive it from parentId so it matches nesting
+  const withDepth = todos.map((t) => ({
+    ...t,
+    indent: deriveIndentFromParentId(t, { todos }),
+  }));
+  if (!validateDragOperation(id, todos[siblingIndex].id, withDepth).valid) {
+    return null;
+  }
+
+  const block = todos.slice(index, endIndex + 1);
+  if (direction === 'up') {
+    return [
+      ...todos.slice(0, siblingIndex),
+      ...block,
+      ...todos.slice(siblingIndex, index),
+      ...todos.slice(endIndex + 1),
+    ];
+  }
+  const siblingEnd = findSubtreeEndIndex(todos, siblingIndex);
+  return [
+    ...todos.slice(0, index),
+    ...todos.slice(endIndex + 1, siblingEnd + 1),
+    ...block,
+    ...todos.slice(siblingEnd + 1),
+  ];
+};
@@ -0,0 +1,56 @@
+import type { DueDateStatus } from '../types';
+
+const DUE_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const DUE_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Formats a Date as a local calendar key (YYYY-MM-DD), matching the value
+ * format of `<input type="date">` and the persisted `due_date` column.
+ */
+export const toDateKey = (date: Date): string => {
+  const y = String(date.getFullYear()).padStart(4, '0');
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+};
+
+/**
+ * Validates a due date string (YYYY-MM-DD that maps to a real calendar day)
+ */
+export const isValidDueDate = (value: unknown): value is string => {
+  if (typeof value !== 'string') return false;
+  const match = DUE_DATE_PATTERN.exec(value);
+  if (!match) return false;
+  const [, y, m, d] = match;
+  const date = new Date(Number(y), Number(m) - 1, Number(d));
+  return toDateKey(date) === value;
+};
+
+/**
+ * Normalizes an arbitrary value to a due date string or null
+ */
+export const normalizeDueDate = (value: unknown): string | null =>
+  isValidDueDate(value) ? value : null;
+
+/**
+ * Normalizes an arbitrary value to a 24-hour `HH:MM` due time or null
+ */
+export const normalizeDueTime = (value: unknown): string | null =>
+  typeof value === 'string' && DUE_TIME_PATTERN.test(value) ? value : null;
+
+/**
+ * Classifies a due date relative to today.
+ * Completed todos and todos without a date have no status.
+ */
+export const getDueDateStatus = (
+  dueDate: string | null | undefined,
+  completed: boolean,
+  now: Date = new Date(),
+): DueDateStatus | null => {
+  if (completed || !isValidDueDate(dueDate)) return null;
+  const today = toDateKey(now);
+  // Keys are zero-padded, so string comparison matches calendar order
+  if (dueDate < today) return 'overdue';
+  if (dueDate === today) return 'today';
+  return 'upcoming';
+};
@@ -0,0 +1,77 @@
+const isWordStart = (text: string, index: number): boolean =>
+  index === 0 || !/[a-z0-9]/i.test(text[index - 1]);
+
+const hasSubsequence = (query: string, text: string, from: number): boolean => {
+  let pos = from;
+  return [...query].every((ch) => {
+    const found = text.indexOf(ch, pos);
+    pos = found + 1;
+    return found !== -1;
+  });
+};
+
+/**
+ * Scores `text` against `query` as a case-insensitive subsequence match;
+ * null when some query character can't be found. Matches at word starts and
+ * runs of consecutive characters score higher, so "dl" ranks
+ * "Duplicate List" above "Sidebar lists".
+ */
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const q = query.toLowerCase().replace(/\s+/g, '');
+  if (!q) return 0;
+  const t = text.toLowerCase();
+  let score = 0;
+  let from = 0;
+  let prev = -2;
+  for (let i = 0; i < q.length; i += 1) {
+    const nearest = t.indexOf(q[i], from);
+    if (nearest === -1) return null;
+    let index = nearest;
+    // Prefer a later word start over a plain match, as long as the rest of
+    // the query still fits after it
+    if (!isWordStart(t, nearest) && nearest !== prev + 1) {
+      const rest = q.slice(i + 1);
+      for (let j = nearest + 1; j < t.length; j += 1) {
+        if (
+          t[j] === q[i] &&
+          isWordStart(t, j) &&
+          hasSubsequence(rest, t, j + 1)
+        ) {
+          index = j;
+          break;
+        }
+      }
+    }
+    score += 1;
+    if (isWordStart(t, index)) score += 3;
+    if (index === prev + 1) score += 2;
+    prev = index;
+    from = index + 1;
+  }
+  // Among equal matches, shorter texts are closer
+  return score - t.length / 100;
+};
+
+/**
+ * Items matching `query` on any of their texts, best match first. Ties keep
+ * the input order; an empty query returns every item.
+ */
+export const rankByFuzzy = <T>(
+  items: T[],
+  query: string,
+  getTexts: (item: T) => string[],
+): T[] => {
+  if (!query.trim()) return items;
+  return items
+    .map((item, index) => {
+      const scores = getTexts(item)
+        .map((text) => fuzzyScore(query, text))
+        .filter((s): s is number => s != null);
+      return { item, index, score: scores.length ? Math.max(...scores) : null };
+    })
+    .filter(
+      (r): r is { item: T; index: number; score: number } => r.score != null,
+    )
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map((r) => r.item);
+};
@@ -0,0 +1,141 @@
+import type { EditorTodo } from '../types';
+import { clampIndent, deriveIndentFromParentId } from './todoUtils';
+import { enforceParentChildInvariant } from './migration';
+
+export type MarkdownList = {
+  name: string;
+  todos: EditorTodo[];
+};
+
+// One pasted line; `depth` is relative to the shallowest line (0)
+export type OutlineItem = {
+  text: string;
+  completed: boolean;
+  depth: number;
+};
+
+const INDENT_UNIT = '  ';
+
+// `- [ ] text`, `* [x] text`, `1. [ ] text`, or a plain bullet without a box
+const LIST_ITEM_PATTERN =
+  /^([ \t]*)(?:[-*+]|\d+[.)])\s+(?:\[([ xX])\]\s*)?(.*)$/;
+const HEADING_PATTERN = /^#{1,6}\s+(.*?)\s*#*\s*$/;
+
+/**
+ * Renders todos as a GitHub-flavoured Markdown task list.
+ * Nesting comes from the parentId chain; blank rows (e.g. the seed row) are skipped.
+ */
+export const todosToMarkdown = (todos: EditorTodo[]): string => {
+  const lookup = new Map(todos.map((t) => [t.id, t]));
+  return todos
+    .filter((t) => t.text.trim() !== '')
+    .map((t) => {
+      const depth = deriveIndentFromParentId(t, {
+        lookup: (id) => lookup.get(id),
+      });
+      const box = t.completed ? '[x]' : '[ ]';
+      const text = t.text.replace(/\r?\n/g, ' ').trim();
+      return `${INDENT_UNIT.repeat(depth)}- ${box} ${text}`;
+    })
+    .join('\n');
+};
+
+/**
+ * Renders one or more lists, each under its own `#` heading.
+ */
+export const listsToMarkdown = (lists: MarkdownList[]): string =>
+  `${lists
+    .map((list) => {
+      const body = todosToMarkdown(list.todos);
+      return body ? `# ${list.name}\n\n${body}` : `# ${list.name}`;
+    })
+    .join('\n\n')}\n`;
+
+// Leading whitespace width, counting a tab as one indent unit
+const measureIndent = (whitespace: string): number =>
+  whitespace.replace(/\t/g, INDENT_UNIT).length;
+
+// Maps each distinct indent width to a depth so 2-space, 4-space and
+// tab-indented text all nest the same way
+const rankIndentWidths = (widths: number[]): number[] => {
+  const distinct = Array.from(new Set(widths)).sort((a, b) => a - b);
+  return widths.map((w) => distinct.indexOf(w));
+};
+
+/**
+ * Parses Markdown into lists. Each heading starts a new list; items before the
+ * first heading go into a list named `fallbackName`. Nesting is rebuilt from
+ * indentation with the same rules used for legacy data (`inferParentIds`),
+ * including the rule that active items can't sit under completed ones.
+ * Lists without any items are dropped.
+ */
+export const parseMarkdownLists = (
+  markdown: string,
+  fallbackName: string,
+): MarkdownList[] => {
+  type RawItem = { width: number; text: string; completed: boolean };
+  const sections: Array<{ name: string; items: RawItem[] }> = [];
+  let current: { name: string; items: RawItem[] } | null = null;
+
+  markdown.split(/\r?\n/).forEach((line) => {
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      current = { name: heading[1].trim() || fallbackName, items: [] };
+      sections.push(current);
+      return;
+    }
+    const item = LIST_ITEM_PATTERN.exec(line);
+    if (!item) return;
+    const text = item[3].trim();
+    if (!text) return;
+    if (!current) {
+      current = { name: fallbackName, items: [] };
+      sections.push(current);
+    }
+    current.items.push({
+      width: measureIndent(item[1]),
+      text,
+      completed: item[2] === 'x' || item[2] === 'X',
+    });
+  });
+
+  return sections
+    .filter((section) => section.items.length > 0)
+    .map((section) => {
+      const depths = rankIndentWidths(section.items.map((i) => i.width));
+      const todos: EditorTodo[] = section.items.map((item, index) => ({
+        id: index + 1,
+        text: item.text,
+        completed: item.completed,
+        indent: clampIndent(depths[index]),
+      }));
+      const { todos: withParents } = enforceParentChildInvariant(todos);
+      return { name: section.name, todos: withParents };
+    });
+};
+
+/**
+ * Splits pasted text into outline items. Every non-blank line becomes an item;
+ * bullet and checkbox markers are stripped and leading whitespace sets depth.
+ */
+export const parseOutlineText = (text: string): OutlineItem[] => {
+  const raw = text
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== '')
+    .map((line) => {
+      const item = LIST_ITEM_PATTERN.exec(line);
+      const whitespace = item ? item[1] : (/^[ \t]*/.exec(line)?.[0] ?? '');
+      return {
+        width: measureIndent(whitespace),
+        text: (item ? item[3] : line).trim(),
+        completed: item ? item[2] === 'x' || item[2] === 'X' : false,
+      };
+    })
+    .filter((item) => item.text !== '');
+  const depths = rankIndentWidths(raw.map((i) => i.width));
+  return raw.map((item, index) => ({
+    text: item.text,
+    completed: item.completed,
+    depth: depths[index],
+  }));
+};
@@ -0,0 +1,101 @@
+import type { EditorTodo, TodoPriority } from '../types';
+import { extractTodoBlock, insertTodoBlock } from './dragDropUtils';
+import { deriveIndentFromParentId } from './todoUtils';
+
+// Lowest to highest; a todo without a priority sorts below all of them
+export const PRIORITY_LEVELS: TodoPriority[] = [
+  'low',
+  'medium',
+  'high',
+  'urgent',
+];
+
+export const PRIORITY_LABELS: Record<TodoPriority, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  urgent: 'Urgent',
+};
+
+// `!1` (high) .. `!3` (low), standalone and followed by whitespace so a token
+// is only picked up once the user has finished typing it
+const PRIORITY_TOKEN_PATTERN = /(^|\s)!([1-3])(?=\s)/;
+const TOKEN_PRIORITIES: Record<string, TodoPriority> = {
+  '1': 'high',
+  '2': 'medium',
+  '3': 'low',
+};
+
+/**
+ * Normalizes an arbitrary value to a priority or null (no priority)
+ */
+export const normalizePriority = (value: unknown): TodoPriority | null =>
+  PRIORITY_LEVELS.includes(value as TodoPriority)
+    ? (value as TodoPriority)
+    : null;
+
+/**
+ * Numeric rank for sorting: 0 for no priority, 1 (low) .. 4 (urgent)
+ */
+export const priorityRank = (value: unknown): number => {
+  const priority = normalizePriority(value);
+  return priority ? PRIORITY_LEVELS.indexOf(priority) + 1 : 0;
+};
+
+/**
+ * Next priority when clicking the row marker: none → low → … → urgent → none
+ */
+export const cyclePriority = (value: unknown): TodoPriority | null =>
+  PRIORITY_LEVELS[priorityRank(value)] ?? null;
+
+/**
+ * Finds a `!1`–`!3` token in todo text. Returns the text with the token
+ * removed and the priority it stands for, or null if there is none.
+ */
+export const parsePriorityToken = (
+  text: string,
+): { text: string; priority: TodoPriority } | null => {
+  const match = PRIORITY_TOKEN_PATTERN.exec(text);
+  if (!match) return null;
+  const start = match.index + match[1].length;
+  const end = start + match[2].length + 1;
+  // Drop one adjoining space so "a !1 b" becomes "a b"
+  const before = text.slice(0, start);
+  const after = text.slice(end);
+  const joined =
+    before === '' || /\s$/.test(before)
+      ? before + after.replace(/^\s/, '')
+      : before + after;
+  return { text: joined, priority: TOKEN_PRIORITIES[match[2]] };
+};
+
+/**
+ * Stable-sorts top-level blocks (a root todo plus its children) by the root's
+ * priority, highest first. Children keep their order under their parent.
+ */
+export const sortTodosByPriority = (todos: EditorTodo[]): EditorTodo[] => {
+  // extractTodoBlock groups by `indent`; derive it from parentId first so
+  // blocks match the hierarchy
+  const withDepth = todos.map((t) => ({
+    ...t,
+    indent: deriveIndentFromParentId(t, { todos }),
+  }));
+  const blocks: EditorTodo[][] = [];
+  let index = 0;
+  while (index < withDepth.length) {
+    const { endIndex } = extractTodoBlock(withDepth, index);
+    blocks.push(todos.slice(index, endIndex + 1));
+    index = endIndex + 1;
+  }
+  return blocks
+    .map((block, order) => ({
+      block,
+      order,
+      rank: priorityRank(block[0].priority),
+    }))
+    .sort((a, b) => b.rank - a.rank || a.order - b.order)
+    .reduce<EditorTodo[]>(
+      (sorted, { block }) => insertTodoBlock(sorted, block, sorted.length),
+      [],
+    );
+};
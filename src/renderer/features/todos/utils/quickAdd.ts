@@ -0,0 +1,347 @@
+import type { TodoPriority } from '../types';
+import { toDateKey } from './dueDate';
+import { PRIORITY_LABELS } from './priority';
+import { extractTags } from './tags';
+
+export type QuickAddTokenKind = 'date' | 'time' | 'priority' | 'tag' | 'list';
+
+export type QuickAddToken = {
+  kind: QuickAddTokenKind;
+  // the text that was recognized, e.g. "next fri" or "@Sales"
+  raw: string;
+  // what it was read as, for the preview
+  label: string;
+};
+
+export type QuickAddResult = {
+  // input with the date, time, priority and list tokens removed; `#tags`
+  // stay in the text because that's where tags live
+  text: string;
+  dueDate: string | null;
+  dueTime: string | null;
+  priority: TodoPriority | null;
+  tags: string[];
+  listId: string | null;
+  tokens: QuickAddToken[];
+};
+
+// What a parse changes on the todo itself
+export type QuickAddFields = Pick<
+  QuickAddResult,
+  'text' | 'dueDate' | 'dueTime' | 'priority'
+>;
+
+type QuickAddOptions = {
+  now?: Date;
+  // lists an `@Name` token can target
+  lists?: Array<{ id: string; name: string }>;
+};
+
+type Span = { start: number; end: number };
+
+// Tokens stand alone: whitespace (or the edges of the text) on both sides,
+// allowing trailing punctuation
+const BEFORE = '(?<=^|\\s)';
+const AFTER = '(?=$|[\\s,.;:!?])';
+
+const WEEKDAYS: Array<[number, string]> = [
+  [0, 'sunday|sun'],
+  [1, 'monday|mon'],
+  [2, 'tuesday|tues|tue'],
+  [3, 'wednesday|wed'],
+  [4, 'thursday|thurs|thur|thu'],
+  [5, 'friday|fri'],
+  [6, 'saturday|sat'],
+];
+// Full names or abbreviations; matched month is looked up by its first
+// three letters
+const MONTHS = [
+  'jan(?:uary)?',
+  'feb(?:ruary)?',
+  'mar(?:ch)?',
+  'apr(?:il)?',
+  'may',
+  'june?',
+  'july?',
+  'aug(?:ust)?',
+  'sep(?:t(?:ember)?)?',
+  'oct(?:ober)?',
+  'nov(?:ember)?',
+  'dec(?:ember)?',
+];
+const MONTH_NAME = `(${MONTHS.join('|')})`;
+const monthIndex = (name: string): number =>
+  MONTHS.findIndex((m) => m.startsWith(name.slice(0, 3).toLowerCase()));
+const DAY_OF_MONTH = '(\\d{1,2})(?:st|nd|rd|th)?';
+const DATE_PREFIX = '(?:(?:on|by|due)\\s+)?';
+
+const PRIORITY_WORDS: Record<string, TodoPriority> = {
+  '1': 'high',
+  '2': 'medium',
+  '3': 'low',
+  low: 'low',
+  med: 'medium',
+  medium: 'medium',
+  high: 'high',
+  urgent: 'urgent',
+};
+
+const pattern = (body: string) => new RegExp(`${BEFORE}${body}${AFTER}`, 'i');
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Calendar date for a day/month, rolling over to next year once it has passed
+const upcomingDate = (now: Date, month: number, day: number): Date | null => {
+  const today = addDays(now, 0);
+  let date = new Date(now.getFullYear(), month, day);
+  if (date.getMonth() !== month) return null;
+  if (date < today) date = new Date(now.getFullYear() + 1, month, day);
+  return date.getMonth() === month ? date : null;
+};
+
+type Rule<T> = {
+  regex: RegExp;
+  resolve: (match: RegExpExecArray, now: Date) => T | null;
+};
+
+const DATE_RULES: Rule<Date>[] = [
+  {
+    regex: pattern(`${DATE_PREFIX}(today|tonight)`),
+    resolve: (_m, now) => addDays(now, 0),
+  },
+  {
+    regex: pattern(`${DATE_PREFIX}(tomorrow|tmrw|tmr)`),
+    resolve: (_m, now) => addDays(now, 1),
+  },
+  {
+    // "fri", "next fri", "on friday": the coming one, never today
+    regex: pattern(
+      `${DATE_PREFIX}(?:(?:next|this)\\s+)?(${WEEKDAYS.map(([, names]) => names).join('|')})`,
+    ),
+    resolve: (m, now) => {
+      const name = m[1].toLowerCase();
+      const entry = WEEKDAYS.find(([, names]) =>
+        names.split('|').includes(name),
+      );
+      if (!entry) return null;
+      return addDays(now, (entry[0] - now.getDay() + 7) % 7 || 7);
+    },
+  },
+  {
+    regex: pattern('in\\s+(\\d{1,3}|an?)\\s+(day|week|month)s?'),
+    resolve: (m, now) => {
+      const count = /^\d+$/.test(m[1]) ? Number(m[1]) : 1;
+      const unit = m[2].toLowerCase();
+      if (unit === 'month') {
+        return new Date(
+          now.getFullYear(),
+          now.getMonth() + count,
+          now.getDate(),
+        );
+      }
+      return addDays(now, unit === 'week' ? count * 7 : count);
+    },
+  },
+  {
+    regex: pattern('next\\s+(week|month)'),
+    resolve: (m, now) =>
+      m[1].toLowerCase() === 'week'
+        ? addDays(now, 7)
+        : new Date(now.getFullYear(), now.getMonth() + 1, now.getDate()),
+  },
+  {
+    regex: pattern(`${DATE_PREFIX}(\\d{4})-(\\d{2})-(\\d{2})`),
+    resolve: (m) => {
+      const date = new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+      return toDateKey(date) === `${m[1]}-${m[2]}-${m[3]}` ? date : null;
+    },
+  },
+  {
+    // "may 3", "May 3rd"
+    regex: pattern(`${DATE_PREFIX}${MONTH_NAME}\\s+${DAY_OF_MONTH}`),
+    resolve: (m, now) => upcomingDate(now, monthIndex(m[1]), Number(m[2])),
+  },
+  {
+    // "3 may", "3rd of May"
+    regex: pattern(`${DATE_PREFIX}${DAY_OF_MONTH}\\s+(?:of\\s+)?${MONTH_NAME}`),
+    resolve: (m, now) => upcomingDate(now, monthIndex(m[2]), Number(m[1])),
+  },
+];
+
+const TIME_RULES: Rule<[number, number]>[] = [
+  {
+    // "3pm", "3:30 pm", "at 11am"
+    regex: pattern('(?:at\\s+)?(\\d{1,2})(?::([0-5]\\d))?\\s?(am|pm)'),
+    resolve: (m) => {
+      const hour = Number(m[1]);
+      if (hour < 1 || hour > 12) return null;
+      const pm = m[3].toLowerCase() === 'pm';
+      return [(hour % 12) + (pm ? 12 : 0), Number(m[2] ?? 0)];
+    },
+  },
+  {
+    // "15:00", "at 9:30"
+    regex: pattern('(?:at\\s+)?([01]?\\d|2[0-3]):([0-5]\\d)'),
+    resolve: (m) => [Number(m[1]), Number(m[2])],
+  },
+  {
+    regex: pattern('(?:at\\s+)?(noon|midnight)'),
+    resolve: (m) => (m[1].toLowerCase() === 'noon' ? [12, 0] : [0, 0]),
+  },
+];
+
+const PRIORITY_REGEX = pattern('!(1|2|3|low|med|medium|high|urgent)');
+
+// Blanks out claimed characters so later rules can't match across them
+const maskSpans = (text: string, spans: Span[]): string =>
+  spans.reduce(
+    (masked, { start, end }) =>
+      masked.slice(0, start) + '\u0000'.repeat(end - start) + masked.slice(end),
+    text,
+  );
+
+const findListToken = (
+  text: string,
+  lists: QuickAddOptions['lists'] = [],
+): { span: Span; list: { id: string; name: string } } | null => {
+  const lower = text.toLowerCase();
+  // Longest names first, so "@Work Trips" wins over "@Work"
+  const byLength = [...lists]
+    .filter((l) => l.name.trim() !== '')
+    .sort((a, b) => b.name.length - a.name.length);
+  for (
+    let at = lower.indexOf('@');
+    at !== -1;
+    at = lower.indexOf('@', at + 1)
+  ) {
+    if (at === 0 || /\s/.test(lower[at - 1])) {
+      const list = byLength.find((l) => {
+        const end = at + 1 + l.name.length;
+        return (
+          lower.startsWith(l.name.toLowerCase(), at + 1) &&
+          (end === lower.length || /[\s,.;:!?]/.test(lower[end]))
+        );
+      });
+      if (list) {
+        return { span: { start: at, end: at + 1 + list.name.length }, list };
+      }
+    }
+  }
+  return null;
+};
+
+const formatTime = ([hour, minute]: [number, number]): string =>
+  `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+
+// First rule that matches and resolves to a value
+const matchFirst = <T>(
+  rules: Rule<T>[],
+  text: string,
+  now: Date,
+): { match: RegExpExecArray; value: T } | null => {
+  for (let i = 0; i < rules.length; i += 1) {
+    const match = rules[i].regex.exec(text);
+    const value = match ? rules[i].resolve(match, now) : null;
+    if (match && value != null) return { match, value };
+  }
+  return null;
+};
+
+const spanOf = (match: RegExpExecArray): Span => ({
+  start: match.index,
+  end: match.index + match[0].length,
+});
+
+/**
+ * Reads structured fields out of free text typed into a new todo, e.g.
+ * "call Bob tomorrow 3pm !high #sales @Work". Recognizes one date, time,
+ * priority and target list each; the first match of a kind wins. A time
+ * without a date means today.
+ */
+export const parseQuickAdd = (
+  input: string,
+  { now = new Date(), lists = [] }: QuickAddOptions = {},
+): QuickAddResult => {
+  const spans: Span[] = [];
+  const tokens: QuickAddToken[] = [];
+
+  const listToken = findListToken(input, lists);
+  if (listToken) {
+    spans.push(listToken.span);
+    tokens.push({
+      kind: 'list',
+      raw: input.slice(listToken.span.start, listToken.span.end),
+      label: listToken.list.name,
+    });
+  }
+
+  const date = matchFirst(DATE_RULES, maskSpans(input, spans), now);
+  if (date) {
+    spans.push(spanOf(date.match));
+    tokens.push({
+      kind: 'date',
+      raw: date.match[0],
+      label: date.value.toLocaleDateString(undefined, {
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric',
+      }),
+    });
+  }
+
+  const time = matchFirst(TIME_RULES, maskSpans(input, spans), now);
+  const dueTime = time ? formatTime(time.value) : null;
+  if (time && dueTime) {
+    spans.push(spanOf(time.match));
+    tokens.push({ kind: 'time', raw: time.match[0], label: dueTime });
+  }
+
+  const priorityMatch = PRIORITY_REGEX.exec(maskSpans(input, spans));
+  const priority = priorityMatch
+    ? PRIORITY_WORDS[priorityMatch[1].toLowerCase()]
+    : null;
+  if (priorityMatch && priority) {
+    spans.push(spanOf(priorityMatch));
+    tokens.push({
+      kind: 'priority',
+      raw: priorityMatch[0],
+      label: PRIORITY_LABELS[priority],
+    });
+  }
+
+  const tags = extractTags(input);
+  tags.forEach((tag) =>
+    tokens.push({ kind: 'tag', raw: `#${tag}`, label: `#${tag}` }),
+  );
+
+  const text = [...spans]
+    .sort((a, b) => b.start - a.start)
+    .reduce(
+      (acc, { start, end }) => `${acc.slice(0, start)} ${acc.slice(end)}`,
+      input,
+    )
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+
+  let dueDate: string | null = null;
+  if (date) dueDate = toDateKey(date.value);
+  else if (dueTime) dueDate = toDateKey(now);
+
+  return {
+    text,
+    dueDate,
+    dueTime,
+    priority,
+    tags,
+    listId: listToken?.list.id ?? null,
+    tokens,
+  };
+};
+
+/**
+ * Whether the result is worth applying: it changes something beyond the text
+ * as typed (tags alone don't, they stay in the text) and leaves some text.
+ */
+export const hasQuickAddFields = (result: QuickAddResult): boolean =>
+  result.text !== '' && result.tokens.some((t) => t.kind !== 'tag');
@@ -0,0 +1,199 @@
+import type { EditorTodo, RecurrenceRule } from '../types';
+import { isValidDueDate, toDateKey } from './dueDate';
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const WORKWEEK = [1, 2, 3, 4, 5];
+
+/**
+ * Normalizes an arbitrary value to a recurrence rule or null.
+ * Weekly days are de-duplicated and sorted; empty or invalid rules become null.
+ */
+export const normalizeRecurrence = (value: unknown): RecurrenceRule | null => {
+  if (!value || typeof value !== 'object') return null;
+  const rule = value as Record<string, unknown>;
+  switch (rule.kind) {
+    case 'daily':
+    case 'monthly':
+      return { kind: rule.kind };
+    case 'weekly': {
+      const days = Array.isArray(rule.days)
+        ? Array.from(
+            new Set(
+              rule.days.filter(
+                (d): d is number => Number.isInteger(d) && d >= 0 && d <= 6,
+              ),
+            ),
+          ).sort((a, b) => a - b)
+        : [];
+      return days.length > 0 ? { kind: 'weekly', days } : null;
+    }
+    case 'afterCompletion': {
+      const everyDays = Number(rule.everyDays);
+      return Number.isInteger(everyDays) && everyDays > 0
+        ? { kind: 'afterCompletion', everyDays }
+        : null;
+    }
+    default:
+      return null;
+  }
+};
+
+const parseDateKey = (key: string): Date => {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Same day-of-month `months` later, clamped to the month's last day
+const addMonths = (date: Date, months: number, dayOfMonth: number): Date => {
+  const lastDay = new Date(
+    date.getFullYear(),
+    date.getMonth() + months + 1,
+    0,
+  ).getDate();
+  return new Date(
+    date.getFullYear(),
+    date.getMonth() + months,
+    Math.min(dayOfMonth, lastDay),
+  );
+};
+
+/**
+ * Computes the due date of the next occurrence when a recurring todo is
+ * completed on `now`.
+ *
+ * Calendar rules (daily/weekly/monthly) advance from the current due date, but
+ * never land on or before today, so completing an overdue todo doesn't spawn
+ * another overdue one. `afterCompletion` counts from the completion day.
+ * Todos without a due date are scheduled as if they were due today.
+ */
+export const computeNextDueDate = (
+  rule: RecurrenceRule,
+  dueDate: string | null | undefined,
+  now: Date = new Date(),
+): string => {
+  const today = parseDateKey(toDateKey(now));
+  const due = isValidDueDate(dueDate) ? parseDateKey(dueDate) : today;
+  const from = due > today ? due : today;
+
+  switch (rule.kind) {
+    case 'afterCompletion':
+      return toDateKey(addDays(today, rule.everyDays));
+    case 'weekly': {
+      for (let offset = 1; offset <= 7; offset += 1) {
+        const candidate = addDays(from, offset);
+        if (rule.days.includes(candidate.getDay())) return toDateKey(candidate);
+      }
+      return toDateKey(addDays(from, 7));
+    }
+    case 'monthly': {
+      const dayOfMonth = due.getDate();
+      let months = 1;
+      let next = addMonths(due, months, dayOfMonth);
+      while (next <= today) {
+        months += 1;
+        next = addMonths(due, months, dayOfMonth);
+      }
+      return toDateKey(next);
+    }
+    case 'daily':
+    default:
+      return toDateKey(addDays(from, 1));
+  }
+};
+
+/**
+ * Short human-readable label for a rule, e.g. "Weekly on Mon, Thu"
+ */
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  switch (rule.kind) {
+    case 'daily':
+      return 'Daily';
+    case 'monthly':
+      return 'Monthly';
+    case 'afterCompletion':
+      return rule.everyDays === 1
+        ? 'Every day after completion'
+        : `Every ${rule.everyDays} days after completion`;
+    case 'weekly':
+    default:
+      if (
+        rule.days.length === WORKWEEK.length &&
+        WORKWEEK.every((d) => rule.days.includes(d))
+      ) {
+        return 'Weekdays';
+      }
+      return `Weekly on ${rule.days.map((d) => WEEKDAY_NAMES[d]).join(', ')}`;
+  }
+};
+
+/**
+ * Returns the todo followed by its descendants (via parentId) in list order.
+ */
+export const collectSubtree = (
+  todos: EditorTodo[],
+  rootId: number,
+): EditorTodo[] => {
+  const childrenOf = new Map<number, number[]>();
+  todos.forEach((t) => {
+    if (t.parentId == null) return;
+    childrenOf.set(t.parentId, [...(childrenOf.get(t.parentId) ?? []), t.id]);
+  });
+  const ids = new Set<number>();
+  const stack = [rootId];
+  while (stack.length > 0) {
+    const current = stack.pop() as number;
+    if (!ids.has(current)) {
+      ids.add(current);
+      stack.push(...(childrenOf.get(current) ?? []));
+    }
+  }
+  return [
+    ...todos.filter((t) => t.id === rootId),
+    ...todos.filter((t) => t.id !== rootId && ids.has(t.id)),
+  ];
+};
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round(
+    (parseDateKey(to).getTime() - parseDateKey(from).getTime()) / 86400000,
+  );
+
+/**
+ * Copies a recurring todo's subtree as its next occurrence.
+ *
+ * `subtree[0]` is the recurring todo; `newIds` supplies one id per row. Copies
+ * are unchecked, nesting is remapped to the new ids, and the root moves to the
+ * next due date. Subtask due dates shift by the same number of days.
+ */
+export const createNextOccurrence = (
+  subtree: EditorTodo[],
+  newIds: number[],
+  now: Date = new Date(),
+): EditorTodo[] => {
+  const [root] = subtree;
+  const rule = normalizeRecurrence(root?.recurrence);
+  if (!root || !rule) return [];
+  const nextDue = computeNextDueDate(rule, root.dueDate, now);
+  const shift = daysBetween(
+    isValidDueDate(root.dueDate) ? root.dueDate : toDateKey(now),
+    nextDue,
+  );
+  const idMap = new Map(subtree.map((t, i) => [t.id, newIds[i]]));
+  return subtree.map((t, i) => {
+    if (i === 0) {
+      return { ...t, id: newIds[0], completed: false, dueDate: nextDue };
+    }
+    return {
+      ...t,
+      id: newIds[i],
+      completed: false,
+      parentId: t.parentId != null ? (idMap.get(t.parentId) ?? null) : null,
+      dueDate: isValidDueDate(t.dueDate)
+        ? toDateKey(addDays(parseDateKey(t.dueDate), shift))
+        : t.dueDate,
+    };
+  });
+};
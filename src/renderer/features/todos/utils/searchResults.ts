@@ -0,0 +1,37 @@
+import type { SearchHit } from '../types';
+
+export type SearchResultGroup = {
+  listId: string;
+  listName: string;
+  // true when the list name itself matched the query
+  listMatched: boolean;
+  todos: SearchHit[];
+};
+
+/**
+ * Groups flat search hits by list, preserving the ranking order of the first
+ * hit seen for each list (and the order of todo hits within a list).
+ */
+export const groupSearchHitsByList = (
+  hits: SearchHit[],
+): SearchResultGroup[] => {
+  const groups = new Map<string, SearchResultGroup>();
+  hits.forEach((hit) => {
+    let group = groups.get(hit.listId);
+    if (!group) {
+      group = {
+        listId: hit.listId,
+        listName: hit.listName,
+        listMatched: false,
+        todos: [],
+      };
+      groups.set(hit.listId, group);
+    }
+    if (hit.kind === 'list') {
+      group.listMatched = true;
+    } else if (hit.todoId != null) {
+      group.todos.push(hit);
+    }
+  });
+  return Array.from(groups.values());
+};
@@ -0,0 +1,138 @@
+import type { EditorTodo, TodoList } from '../types';
+import {
+  DEFAULT_SMART_LIST_FILTER,
+  type SmartListDefinition,
+  type SmartListFilter,
+} from '../../../../shared/smartLists';
+import { isValidDueDate, toDateKey } from './dueDate';
+import { priorityRank } from './priority';
+import { extractTags } from './tags';
+
+export type SmartListGroup = {
+  listId: string;
+  listName: string;
+  todos: EditorTodo[];
+};
+
+// Always in the sidebar; their ids never collide with saved ones
+export const BUILT_IN_SMART_LISTS: readonly SmartListDefinition[] = [
+  {
+    id: 'smart:today',
+    name: 'Today',
+    filter: { ...DEFAULT_SMART_LIST_FILTER, due: 'today' },
+  },
+  {
+    id: 'smart:overdue',
+    name: 'Overdue',
+    filter: { ...DEFAULT_SMART_LIST_FILTER, due: 'overdue' },
+  },
+  {
+    id: 'smart:open',
+    name: 'All open',
+    filter: DEFAULT_SMART_LIST_FILTER,
+  },
+  {
+    id: 'smart:completed-today',
+    name: 'Completed today',
+    filter: { ...DEFAULT_SMART_LIST_FILTER, status: 'completedToday' },
+  },
+];
+
+export const isBuiltInSmartList = (id: string): boolean =>
+  BUILT_IN_SMART_LISTS.some((s) => s.id === id);
+
+const UPCOMING_DAYS = 7;
+
+const matchesStatus = (
+  todo: EditorTodo,
+  filter: SmartListFilter,
+  today: string,
+): boolean => {
+  switch (filter.status) {
+    case 'open':
+      return !todo.completed;
+    case 'completed':
+      return todo.completed;
+    case 'completedToday':
+      return (
+        todo.completed &&
+        typeof todo.completedAt === 'string' &&
+        toDateKey(new Date(todo.completedAt)) === today
+      );
+    default:
+      return true;
+  }
+};
+
+const matchesDue = (
+  todo: EditorTodo,
+  filter: SmartListFilter,
+  now: Date,
+): boolean => {
+  if (filter.due === 'any') return true;
+  const { dueDate } = todo;
+  if (filter.due === 'undated') return !isValidDueDate(dueDate);
+  if (!isValidDueDate(dueDate)) return false;
+  // Keys are zero-padded, so string comparison matches calendar order
+  const today = toDateKey(now);
+  switch (filter.due) {
+    case 'overdue':
+      return dueDate < today;
+    case 'today':
+      return dueDate === today;
+    case 'upcoming': {
+      const last = toDateKey(
+        new Date(
+          now.getFullYear(),
+          now.getMonth(),
+          now.getDate() + UPCOMING_DAYS - 1,
+        ),
+      );
+      return dueDate >= today && dueDate <= last;
+    }
+    default:
+      return true;
+  }
+};
+
+/**
+ * Whether a todo belongs in a smart list. Blank rows never do.
+ */
+export const matchesSmartListFilter = (
+  todo: EditorTodo,
+  filter: SmartListFilter,
+  now: Date = new Date(),
+): boolean => {
+  if (todo.text.trim() === '') return false;
+  if (!matchesStatus(todo, filter, toDateKey(now))) return false;
+  if (!matchesDue(todo, filter, now)) return false;
+  if (filter.tag && !extractTags(todo.text).includes(filter.tag)) return false;
+  if (
+    filter.minPriority &&
+    priorityRank(todo.priority) < priorityRank(filter.minPriority)
+  ) {
+    return false;
+  }
+  return (
+    filter.text === '' ||
+    todo.text.toLowerCase().includes(filter.text.toLowerCase())
+  );
+};
+
+/**
+ * Matching todos grouped by their source list, in sidebar order; lists
+ * without matches are left out.
+ */
+export const querySmartList = (
+  lists: TodoList[],
+  filter: SmartListFilter,
+  now: Date = new Date(),
+): SmartListGroup[] =>
+  lists
+    .filter((l) => filter.listIds.length === 0 || filter.listIds.includes(l.id))
+    .map((l) => ({
+      listId: l.id,
+      listName: l.name,
+      todos: l.todos.filter((t) => matchesSmartListFilter(t, filter, now)),
+    }))
+    .filter((group) => group.todos.length > 0);
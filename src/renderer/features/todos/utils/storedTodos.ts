@@ -0,0 +1,50 @@
+import type { EditorTodo } from '../types';
+import { clampIndent } from './todoUtils';
+import { normalizeDueDate, normalizeDueTime } from './dueDate';
+import { normalizeRecurrence } from './recurrence';
+import { normalizePriority } from './priority';
+
+/**
+ * Turns todos as loaded from storage into editor todos, filling in ids and
+ * dropping malformed optional fields. Optional fields are only set when
+ * present, so freshly loaded todos compare equal to ones created in the app.
+ */
+export const normalizeStoredTodos = (todos: unknown[]): EditorTodo[] =>
+  todos.map((item, i) => {
+    const t = (item && typeof item === 'object' ? item : {}) as Record<
+      string,
+      unknown
+    >;
+    const todo: EditorTodo = {
+      id: typeof t.id === 'number' ? t.id : i + 1,
+      text: typeof t.text === 'string' ? t.text : String(t.text ?? ''),
+      completed: Boolean(t.completed ?? t.checked ?? false),
+      indent: clampIndent(Number(t.indent ?? 0)),
+    };
+    // Preserve parentId from database (section is computed, not persisted)
+    if (t.parentId !== undefined) {
+      todo.parentId = typeof t.parentId === 'number' ? t.parentId : null;
+    }
+    if (t.dueDate != null) {
+      todo.dueDate = normalizeDueDate(t.dueDate);
+    }
+    if (t.dueTime != null) {
+      todo.dueTime = normalizeDueTime(t.dueTime);
+    }
+    if (t.recurrence != null) {
+      todo.recurrence = normalizeRecurrence(t.recurrence);
+    }
+    if (t.priority != null) {
+      todo.priority = normalizePriority(t.priority);
+    }
+    if (typeof t.notes === 'string' && t.notes !== '') {
+      todo.notes = t.notes;
+    }
+    if (t.collapsed) {
+      todo.collapsed = true;
+    }
+    if (todo.completed && typeof t.completedAt === 'string') {
+      todo.completedAt = t.completedAt;
+    }
+    return todo;
+  });
@@ -0,0 +1,60 @@
+import type { EditorTodo } from '../types';
+
+// `#word` at the start of the text or after whitespace; must start with a letter
+const TAG_PATTERN = /(^|\s)#(\p{L}[\p{L}\p{N}_/-]*)/gu;
+
+/**
+ * Returns the distinct, lower-cased `#tags` in a todo's text (without `#`),
+ * in order of first appearance. Kept in step with `extractTags` in db.ts,
+ * which maintains the `todo_tags` index.
+ */
+export const extractTags = (text: string): string[] => {
+  const tags = new Set<string>();
+  Array.from(text.matchAll(TAG_PATTERN)).forEach((match) => {
+    const tag = match[2].replace(/[/-]+$/, '').toLowerCase();
+    if (tag) tags.add(tag);
+  });
+  return Array.from(tags);
+};
+
+/**
+ * Normalizes user input (`#Frontend`, ` frontend `) to a tag key, or null
+ */
+export const normalizeTag = (value: string): string | null => {
+  const tag = value.trim().replace(/^#/, '').toLowerCase();
+  return tag !== '' ? tag : null;
+};
+
+/**
+ * Keeps todos carrying `tag`, plus their ancestors (for context) and their
+ * descendants (subtasks belong to a tagged todo). List order is preserved.
+ */
+export const filterTodosByTag = (
+  todos: EditorTodo[],
+  tag: string,
+): EditorTodo[] => {
+  const byId = new Map(todos.map((t) => [t.id, t]));
+  const tagged = new Set(
+    todos.filter((t) => extractTags(t.text).includes(tag)).map((t) => t.id),
+  );
+  if (tagged.size === 0) return [];
+
+  // The todo followed by its ancestors, nearest first
+  const chainOf = (todo: EditorTodo): number[] => {
+    const chain = [todo.id];
+    let parentId = todo.parentId ?? null;
+    while (parentId != null && !chain.includes(parentId)) {
+      chain.push(parentId);
+      parentId = byId.get(parentId)?.parentId ?? null;
+    }
+    return chain;
+  };
+
+  const visible = new Set<number>();
+  todos.forEach((t) => {
+    const chain = chainOf(t);
+    if (chain.some((id) => tagged.has(id))) visible.add(t.id);
+    if (tagged.has(t.id)) chain.forEach((id) => visible.add(id));
+  });
+  return todos.filter((t) => visible.has(t.id));
+};
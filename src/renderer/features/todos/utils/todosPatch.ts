@@ -0,0 +1,184 @@
+import type { EditorTodo, TodosPatch } from '../types';
+import { clampIndent } from './todoUtils';
+
+// Everything that is stored per todo except its position; missing and null
+// mean the same thing in storage
+const storedFields = (t: EditorTodo) => [
+  t.text,
+  t.completed,
+  Number(t.indent ?? 0),
+  t.parentId ?? null,
+  t.dueDate ?? null,
+  t.dueTime ?? null,
+  JSON.stringify(t.recurrence ?? null),
+  t.priority ?? null,
+  t.notes || null,
+  !!t.collapsed,
+  t.completedAt ?? null,
+];
+
+const sameStoredFields = (a: EditorTodo, b: EditorTodo): boolean => {
+  const fa = storedFields(a);
+  const fb = storedFields(b);
+  return fa.every((v, i) => v === fb[i]);
+};
+
+// Positions in `next` (indexes into it) of the longest run of todos that
+// kept their relative order; those stay where they are in storage
+const unmovedPositions = (indexes: Array<number | null>): Set<number> => {
+  // tails[k]: position ending the best run of length k + 1 found so far
+  const tails: number[] = [];
+  const previous = new Map<number, number>();
+  indexes.forEach((index, position) => {
+    if (index == null) return;
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if ((indexes[tails[mid]] as number) < index) lo = mid + 1;
+      else hi = mid;
+    }
+    if (lo > 0) previous.set(position, tails[lo - 1]);
+    tails[lo] = position;
+  });
+  const run = new Set<number>();
+  for (
+    let position: number | undefined = tails[tails.length - 1];
+    position !== undefined;
+    position = previous.get(position)
+  ) {
+    run.add(position);
+  }
+  return run;
+};
+
+/**
+ * The changes that turn the saved todos of a list into `next`. Store updates
+ * replace only the todos they touch, so unchanged todos are skipped by
+ * identity before any fields are compared. Only todos outside the longest
+ * run that kept its order count as moved, so adding, removing or dragging
+ * one todo sends one position however long the list is.
+ */
+export const diffTodos = (
+  saved: EditorTodo[],
+  next: EditorTodo[],
+): TodosPatch => {
+  const before = new Map(saved.map((t, i) => [t.id, { todo: t, index: i }]));
+  const patch: TodosPatch = {
+    inserted: [],
+    updated: [],
+    deleted: [],
+    moved: [],
+  };
+  const unmoved = unmovedPositions(
+    next.map((t) => before.get(t.id)?.index ?? null),
+  );
+  const seen = new Set<number>();
+  next.forEach((todo, position) => {
+    seen.add(todo.id);
+    const afterId = position > 0 ? next[position - 1].id : null;
+    const prev = before.get(todo.id);
+    if (!prev) {
+      patch.inserted.push({ todo, afterId });
+      return;
+    }
+    if (prev.todo !== todo && !sameStoredFields(prev.todo, todo)) {
+      patch.updated.push(todo);
+    }
+    if (!unmoved.has(position)) {
+      patch.moved.push({ id: todo.id, afterId });
+    }
+  });
+  saved.forEach((t) => {
+    if (!seen.has(t.id)) patch.deleted.push(t.id);
+  });
+  return patch;
+};
+
+export const isEmptyPatch = (patch: TodosPatch): boolean =>
+  patch.inserted.length === 0 &&
+  patch.updated.length === 0 &&
+  patch.deleted.length === 0 &&
+  patch.moved.length === 0;
+
+/**
+ * Reconciles local edits with a newer stored version of the same list. Both
+ * sides are compared with `base`, the version they started from: changes
+ * made on only one side are kept, local edits win where both changed the
+ * same todo, and todos added in storage are placed after the todo they
+ * follow there. A local todo whose id storage handed out for a different
+ * todo in the meantime gets a fresh id from `allocateId`.
+ */
+export const mergeTodos = (
+  base: EditorTodo[],
+  local: EditorTodo[],
+  remote: EditorTodo[],
+  allocateId: () => number,
+): EditorTodo[] => {
+  const mine = diffTodos(base, local);
+  const theirs = diffTodos(base, remote);
+  const remoteById = new Map(remote.map((t) => [t.id, t]));
+  const theirUpdates = new Map(theirs.updated.map((t) => [t.id, t]));
+  const theirDeletes = new Set(theirs.deleted);
+  const edited = new Set([
+    ...mine.updated.map((t) => t.id),
+    ...mine.inserted.map(({ todo }) => todo.id),
+  ]);
+
+  const renamed = new Map<number, number>();
+  mine.inserted.forEach(({ todo }) => {
+    const stored = remoteById.get(todo.id);
+    if (stored && !sameStoredFields(stored, todo)) {
+      renamed.set(todo.id, allocateId());
+    }
+  });
+  const rename = (id: number | null | undefined) =>
+    id != null ? (renamed.get(id) ?? id) : id;
+
+  const merged: EditorTodo[] = local
+    .filter((t) => edited.has(t.id) || !theirDeletes.has(t.id))
+    .map((t) => {
+      if (renamed.has(t.id)) {
+        return {
+          ...t,
+          id: rename(t.id) as number,
+          parentId: rename(t.parentId),
+        };
+      }
+      const stored = theirUpdates.get(t.id);
+      if (stored && !edited.has(t.id)) return stored;
+      return renamed.has(t.parentId as number)
+        ? { ...t, parentId: rename(t.parentId) }
+        : t;
+    });
+
+  // Todos only storage has go after the todo they follow there
+  const present = new Set(merged.map((t) => t.id));
+  let anchor = -1;
+  remote.forEach((t) => {
+    if (present.has(t.id)) {
+      anchor = merged.findIndex((m) => m.id === t.id);
+      return;
+    }
+    if (!theirs.inserted.some(({ todo }) => todo.id === t.id)) return;
+    merged.splice(anchor + 1, 0, t);
+    present.add(t.id);
+    anchor += 1;
+  });
+
+  // Children of todos deleted on the other side become top-level and their
+  // descendants move up with them (descendants follow their parents)
+  const lifted = new Map<number, number>();
+  return merged.map((t) => {
+    if (t.parentId == null) return t;
+    if (!present.has(t.parentId)) {
+      lifted.set(t.id, 0);
+      return { ...t, parentId: null, indent: 0 };
+    }
+    const parentIndent = lifted.get(t.parentId);
+    if (parentIndent === undefined) return t;
+    const indent = clampIndent(parentIndent + 1);
+    lifted.set(t.id, indent);
+    return indent === t.indent ? t : { ...t, indent };
+  });
+};
@@ -1,12 +1,13 @@
 import { createRoot } from 'react-dom/client';
 import App from './App';
+import { once } from './features/todos/api/ipc';
 
 const container = document.getElementById('root') as HTMLElement;
 const root = createRoot(container);
 root.render(<App />);
 
 // calling IPC exposed from preload script
-window.electron?.ipcRenderer.once('ipc-example', (arg) => {
+once('ipc-example', (arg) => {
   // eslint-disable-next-line no-console
   console.log(arg);
 });
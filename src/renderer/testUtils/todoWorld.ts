@@ -11,6 +11,7 @@ export function setupStorage(
   const mockStorage = storage as jest.Mocked<typeof storage>;
   jest.clearAllMocks();
   mockStorage.loadAppSettings.mockResolvedValue({ hideCompletedItems: true });
+  mockStorage.saveAppSettings.mockResolvedValue({ success: true });
   mockStorage.loadListsIndex.mockResolvedValue({
     version: 2,
     lists: [
@@ -23,9 +24,20 @@ export function setupStorage(
     ],
     selectedListId: 'list-1',
   });
-  mockStorage.loadListTodos.mockResolvedValue({ version: 3, todos: [] });
+  mockStorage.loadListTodos.mockResolvedValue({
+    version: 3,
+    todos: [],
+    revision: 0,
+  });
   mockStorage.saveListsIndex.mockResolvedValue(true);
-  mockStorage.saveListTodos.mockResolvedValue(true);
+  mockStorage.saveListTodos.mockResolvedValue({
+    status: 'saved',
+    revision: 1,
+  });
+  mockStorage.patchListTodos.mockResolvedValue({
+    status: 'saved',
+    revision: 1,
+  });
   mockStorage.duplicateList.mockResolvedValue({
     success: true,
     newListId: 'new-list-id',
@@ -146,6 +158,7 @@ export function createWorld(overrides?: Parameters<typeof setupStorage>[0]) {
     if (newListTodos) {
       mockStorage.loadListTodos.mockResolvedValueOnce({
         version: 3,
+        revision: 0,
         todos: newListTodos,
       });
     }
@@ -18,8 +18,16 @@ export function setupDefaultMocks(partial?: MockOverrides) {
     indexLoaded: false,
     loadedLists: new Set(),
     idCounter: 1,
+    listRevisions: {},
+    undoStack: [],
+    redoStack: [],
+    tagFilter: null,
+    detailTodoId: null,
+    smartLists: [],
+    activeSmartListId: null,
   });
   mockStorage.loadAppSettings.mockResolvedValue({ hideCompletedItems: true });
+  mockStorage.saveAppSettings.mockResolvedValue({ success: true });
   mockStorage.loadListsIndex.mockResolvedValue({
     version: 2,
     lists: [
@@ -34,10 +42,20 @@ export function setupDefaultMocks(partial?: MockOverrides) {
   });
   mockStorage.loadListTodos.mockResolvedValue({
     version: 3,
+    revision: 0,
     todos: [{ id: 1, text: '', completed: false, indent: 0, parentId: null }],
   });
   mockStorage.saveListsIndex.mockResolvedValue(true);
-  mockStorage.saveListTodos.mockResolvedValue(true);
+  mockStorage.saveListTodos.mockResolvedValue({
+    status: 'saved',
+    revision: 1,
+  });
+  mockStorage.patchListTodos.mockResolvedValue({
+    status: 'saved',
+    revision: 1,
+  });
+  mockStorage.loadSmartLists.mockResolvedValue([]);
+  mockStorage.saveSmartLists.mockResolvedValue(true);
   if (partial) {
     Object.entries(partial).forEach(([k, v]) => {
       // Cast through unknown to preserve typings while assigning
@@ -0,0 +1,181 @@
+/**
+ * App commands shared by the native menu (main process) and the command
+ * palette (renderer). Both sides draw labels, shortcuts and availability from
+ * these definitions; each side wires up its own handlers.
+ */
+
+export type CommandId =
+  | 'new-list'
+  | 'rename-list'
+  | 'duplicate-list'
+  | 'delete-list'
+  | 'sort-by-priority'
+  | 'toggle-completed-items'
+  | 'toggle-debug-mode'
+  | 'undo'
+  | 'redo'
+  | 'import-markdown'
+  | 'export-list-markdown'
+  | 'export-all-markdown'
+  | 'restore-backup'
+  | 'check-for-updates';
+
+export type CommandCategory = 'List' | 'View' | 'Edit' | 'File' | 'Help';
+
+export interface CommandDefinition {
+  id: CommandId;
+  title: string;
+  category: CommandCategory;
+  /** Extra words the palette matches on */
+  keywords?: string[];
+  /** Electron accelerator, e.g. `CmdOrCtrl+D` */
+  accelerator?: string;
+  /** Where the handler lives; the palette forwards `main` commands over IPC */
+  runsIn: 'main' | 'renderer';
+  /** Only offered when the debug UI is enabled */
+  debugOnly?: boolean;
+}
+
+export const COMMANDS: readonly CommandDefinition[] = [
+  {
+    id: 'new-list',
+    title: 'New List',
+    category: 'List',
+    keywords: ['add', 'create'],
+    runsIn: 'renderer',
+  },
+  {
+    id: 'rename-list',
+    title: 'Rename List',
+    category: 'List',
+    keywords: ['title', 'name'],
+    runsIn: 'renderer',
+  },
+  {
+    id: 'duplicate-list',
+    title: 'Duplicate List',
+    category: 'List',
+    keywords: ['copy', 'clone'],
+    runsIn: 'renderer',
+  },
+  {
+    id: 'delete-list',
+    title: 'Move List to Trash',
+    category: 'List',
+    keywords: ['delete', 'remove'],
+    runsIn: 'renderer',
+  },
+  {
+    id: 'sort-by-priority',
+    title: 'Sort by Priority',
+    category: 'List',
+    runsIn: 'renderer',
+  },
+  {
+    id: 'toggle-completed-items',
+    title: 'Toggle Completed Items',
+    category: 'View',
+    keywords: ['hide', 'show', 'done'],
+    runsIn: 'renderer',
+  },
+  {
+    id: 'toggle-debug-mode',
+    title: 'Toggle Debug Mode',
+    category: 'View',
+    keywords: ['logs', 'performance'],
+    accelerator: 'CmdOrCtrl+D',
+    runsIn: 'main',
+    debugOnly: true,
+  },
+  {
+    id: 'undo',
+    title: 'Undo',
+    category: 'Edit',
+    accelerator: 'CmdOrCtrl+Z',
+    runsIn: 'renderer',
+  },
+  {
+    id: 'redo',
+    title: 'Redo',
+    category: 'Edit',
+    accelerator: 'Shift+CmdOrCtrl+Z',
+    runsIn: 'renderer',
+  },
+  {
+    id: 'import-markdown',
+    title: 'Import Markdown…',
+    category: 'File',
+    runsIn: 'renderer',
+  },
+  {
+    id: 'export-list-markdown',
+    title: 'Export List as Markdown…',
+    category: 'File',
+    keywords: ['save'],
+    runsIn: 'renderer',
+  },
+  {
+    id: 'export-all-markdown',
+    title: 'Export All Lists as Markdown…',
+    category: 'File',
+    keywords: ['save'],
+    runsIn: 'renderer',
+  },
+  {
+    id: 'restore-backup',
+    title: 'Restore from Backup…',
+    category: 'File',
+    runsIn: 'main',
+  },
+  {
+    id: 'check-for-updates',
+    title: 'Check for Updates…',
+    category: 'Help',
+    keywords: ['upgrade', 'version'],
+    runsIn: 'main',
+  },
+];
+
+export function isCommandId(value: unknown): value is CommandId {
+  return COMMANDS.some((c) => c.id === value);
+}
+
+export function getCommand(id: CommandId): CommandDefinition {
+  const command = COMMANDS.find((c) => c.id === id);
+  if (!command) throw new Error(`Unknown command: ${id}`);
+  return command;
+}
+
+/**
+ * Commands offered in this build; debug-only ones need the debug UI
+ */
+export function getAvailableCommands(
+  debugUIEnabled: boolean,
+): CommandDefinition[] {
+  return COMMANDS.filter((c) => debugUIEnabled || !c.debugOnly);
+}
+
+/**
+ * Renders an accelerator for display, e.g. `Shift+CmdOrCtrl+Z` -> `⇧⌘Z`
+ * on macOS and `Shift+Ctrl+Z` elsewhere.
+ */
+export function formatAccelerator(accelerator: string, isMac: boolean): string {
+  const parts = accelerator.split('+');
+  if (!isMac) {
+    return parts
+      .map((p) => (p === 'CmdOrCtrl' || p === 'CommandOrControl' ? 'Ctrl' : p))
+      .join('+');
+  }
+  const symbols: Record<string, string> = {
+    CmdOrCtrl: '⌘',
+    CommandOrControl: '⌘',
+    Command: '⌘',
+    Cmd: '⌘',
+    Shift: '⇧',
+    Alt: '⌥',
+    Option: '⌥',
+    Ctrl: '⌃',
+    Control: '⌃',
+  };
+  return parts.map((p) => symbols[p] ?? p).join('');
+}
@@ -0,0 +1,392 @@
+/**
+ * The IPC contract between the main process and the renderer. Every channel
+ * is listed here with schemas for what it carries: invoke channels with
+ * their arguments and reply, event channels (main → renderer) with their
+ * arguments. The main process validates requests before a handler runs;
+ * the renderer validates arguments before sending and replies on arrival.
+ */
+import { isCommandId } from './commands';
+import * as s from './ipcSchema';
+import type { IpcIssue } from './ipcSchema';
+
+const priority = s.oneOf(['low', 'medium', 'high', 'urgent'] as const);
+
+const recurrence = s.union(
+  s.object({ kind: s.literal('daily') }),
+  s.object({ kind: s.literal('weekly'), days: s.array(s.integer()) }),
+  s.object({ kind: s.literal('monthly') }),
+  s.object({ kind: s.literal('afterCompletion'), everyDays: s.number() }),
+);
+
+const todo = s.object({
+  id: s.integer(),
+  text: s.string(),
+  completed: s.boolean(),
+  indent: s.optional(s.number()),
+  parentId: s.optional(s.nullable(s.integer())),
+  dueDate: s.optional(s.nullable(s.string())),
+  dueTime: s.optional(s.nullable(s.string())),
+  recurrence: s.optional(s.nullable(recurrence)),
+  priority: s.optional(s.nullable(priority)),
+  notes: s.optional(s.nullable(s.string())),
+  collapsed: s.optional(s.boolean()),
+  completedAt: s.optional(s.nullable(s.string())),
+});
+
+const listMeta = s.object({
+  id: s.string(),
+  name: s.string(),
+  createdAt: s.string(),
+  updatedAt: s.string(),
+});
+
+const listsIndex = (lists: s.Schema<Array<s.Infer<typeof listMeta>>>) =>
+  s.object({
+    version: s.literal(2),
+    lists,
+    selectedListId: s.optional(s.string()),
+  });
+
+const todosDoc = s.object({
+  version: s.literal(2),
+  todos: s.array(todo),
+});
+
+const todosPatch = s.object({
+  inserted: s.array(s.object({ todo, afterId: s.nullable(s.integer()) })),
+  updated: s.array(todo),
+  deleted: s.array(s.integer()),
+  moved: s.array(
+    s.object({ id: s.integer(), afterId: s.nullable(s.integer()) }),
+  ),
+});
+
+const appSettings = s.object({
+  hideCompletedItems: s.boolean(),
+  trashRetentionDays: s.optional(s.number()),
+  quickCaptureShortcut: s.optional(s.string()),
+  keepRunningInBackground: s.optional(s.boolean()),
+  backupIntervalMinutes: s.optional(s.integer()),
+  backupKeepCount: s.optional(s.integer()),
+});
+
+const searchHit = s.object({
+  kind: s.oneOf(['todo', 'list'] as const),
+  listId: s.string(),
+  listName: s.string(),
+  todoId: s.nullable(s.integer()),
+  text: s.string(),
+  completed: s.boolean(),
+});
+
+const trashedList = s.object({
+  id: s.string(),
+  name: s.string(),
+  createdAt: s.string(),
+  updatedAt: s.string(),
+  deletedAt: s.string(),
+  todoCount: s.number(),
+});
+
+const quickCaptureFields = s.object({
+  dueDate: s.optional(s.nullable(s.string())),
+  dueTime: s.optional(s.nullable(s.string())),
+  priority: s.optional(s.nullable(priority)),
+});
+
+// `{ success, error? }`, the reply of most writes
+const writeResult = s.object({
+  success: s.boolean(),
+  error: s.optional(s.string()),
+});
+
+// Reply of save-list-todos and patch-list-todos; `revision` is the list's
+// revision after the save, or the current one on 'revision_conflict'
+const todosWriteResult = s.union(
+  s.object({ success: s.literal(true), revision: s.integer() }),
+  s.object({
+    success: s.literal(false),
+    error: s.string(),
+    revision: s.optional(s.integer()),
+  }),
+);
+
+const failure = <const E extends string>(errors: readonly E[]) =>
+  s.object({ success: s.literal(false), error: s.oneOf(errors) });
+
+export const INVOKE_CONTRACT = {
+  'load-lists': {
+    request: s.args([]),
+    // A malformed entry shouldn't hide every other list
+    response: listsIndex(s.array(listMeta, { dropInvalid: true })),
+  },
+  'save-lists': {
+    request: s.args([listsIndex(s.array(listMeta))]),
+    response: writeResult,
+  },
+  'load-list-todos': {
+    request: s.args([s.string()]),
+    response: s.union(
+      s.object({
+        version: s.literal(2),
+        todos: s.array(todo),
+        revision: s.integer(),
+      }),
+      s.object({ success: s.literal(false), error: s.string() }),
+    ),
+  },
+  'save-list-todos': {
+    request: s.args([s.string(), todosDoc, s.integer()]),
+    response: todosWriteResult,
+  },
+  'patch-list-todos': {
+    request: s.args([s.string(), todosPatch, s.integer()]),
+    response: todosWriteResult,
+  },
+  'load-app-settings': { request: s.args([]), response: appSettings },
+  'save-app-settings': {
+    request: s.args([appSettings]),
+    response: writeResult,
+  },
+  // Definitions are normalized on both ends (see shared/smartLists)
+  'load-smart-lists': {
+    request: s.args([]),
+    response: s.array(s.unknown()),
+  },
+  'save-smart-lists': {
+    request: s.args([s.array(s.unknown())]),
+    response: writeResult,
+  },
+  'duplicate-list': {
+    request: s.args([s.string()], [s.string()]),
+    response: s.union(
+      s.object({ success: s.literal(true), newListId: s.string() }),
+      failure(['invalid_source_id', 'not_found', 'internal_error']),
+    ),
+  },
+  // After the target come the base revisions of the source list and, when
+  // the renderer holds its rows, the target list
+  'move-todos-to-list': {
+    request: s.args(
+      [s.string(), s.integer(), s.string(), s.integer()],
+      [s.nullable(s.integer())],
+    ),
+    response: s.union(
+      s.object({
+        success: s.literal(true),
+        idMap: s.record(s.integer()),
+        revisions: s.optional(s.record(s.integer())),
+      }),
+      s.object({
+        success: s.literal(false),
+        error: s.literal('revision_conflict'),
+        listId: s.string(),
+        revision: s.integer(),
+      }),
+      failure(['invalid_args', 'not_found', 'internal_error']),
+    ),
+  },
+  'set-selected-list-meta': {
+    request: s.args([s.nullable(s.string())]),
+    response: s.nothing(),
+  },
+  'delete-list': { request: s.args([s.string()]), response: writeResult },
+  'search-todos': {
+    request: s.args([s.string()], [s.integer()]),
+    response: s.array(searchHit, { dropInvalid: true }),
+  },
+  'load-tags': {
+    request: s.args([]),
+    response: s.array(s.object({ tag: s.string(), count: s.number() }), {
+      dropInvalid: true,
+    }),
+  },
+  'todos-by-tag': {
+    request: s.args([s.string()]),
+    response: s.array(searchHit, { dropInvalid: true }),
+  },
+  'load-trash': {
+    request: s.args([]),
+    response: s.array(trashedList, { dropInvalid: true }),
+  },
+  'restore-list': {
+    request: s.args([s.string()]),
+    response: s.union(
+      s.object({ success: s.literal(true), list: listMeta }),
+      s.object({ success: s.literal(false), error: s.string() }),
+    ),
+  },
+  'purge-list': { request: s.args([s.string()]), response: writeResult },
+  'empty-trash': {
+    request: s.args([]),
+    response: s.object({ success: s.boolean(), purged: s.number() }),
+  },
+  'export-markdown': {
+    request: s.args([
+      s.object({ defaultName: s.string(), content: s.string() }),
+    ]),
+    response: s.object({
+      success: s.boolean(),
+      canceled: s.optional(s.boolean()),
+      error: s.optional(s.string()),
+    }),
+  },
+  'import-markdown': {
+    request: s.args([]),
+    response: s.object({
+      success: s.boolean(),
+      canceled: s.optional(s.boolean()),
+      files: s.array(s.object({ name: s.string(), content: s.string() }), {
+        dropInvalid: true,
+      }),
+      error: s.optional(s.string()),
+    }),
+  },
+  'quick-capture-context': {
+    request: s.args([]),
+    response: s.object({
+      lists: s.array(s.object({ id: s.string(), name: s.string() })),
+      selectedListId: s.nullable(s.string()),
+    }),
+  },
+  'quick-capture-add': {
+    request: s.args([s.string(), s.string()], [quickCaptureFields]),
+    response: s.object({
+      success: s.boolean(),
+      todoId: s.optional(s.integer()),
+      revision: s.optional(s.integer()),
+      error: s.optional(s.string()),
+    }),
+  },
+  'quick-capture-close': { request: s.args([]), response: s.nothing() },
+  'load-commands': {
+    request: s.args([]),
+    response: s.array(s.guard('command id', isCommandId), {
+      dropInvalid: true,
+    }),
+  },
+  'run-command': {
+    request: s.args([s.guard('command id', isCommandId)]),
+    response: s.object({
+      success: s.boolean(),
+      error: s.optional(s.oneOf(['no_window'] as const)),
+    }),
+  },
+};
+
+export const EVENT_CONTRACT = {
+  // Boilerplate round trip from the app template
+  'ipc-example': s.args([s.unknown()]),
+  'quick-capture-added': s.args([
+    s.object({
+      listId: s.string(),
+      todoId: s.integer(),
+      revision: s.optional(s.integer()),
+      text: s.string(),
+      dueDate: s.nullable(s.string()),
+      dueTime: s.nullable(s.string()),
+      priority: s.nullable(priority),
+    }),
+  ]),
+  'tray-open-list': s.args([s.string()]),
+  'reminder-open-todo': s.args([s.string(), s.integer()]),
+  'menu-command': s.args([s.guard('command id', isCommandId)]),
+  'toggle-debug-mode': s.args([]),
+  'app-undo': s.args([]),
+  'app-redo': s.args([]),
+  'menu-import-markdown': s.args([]),
+  'menu-export-markdown': s.args([s.oneOf(['list', 'all'] as const)]),
+};
+
+export type InvokeChannel = keyof typeof INVOKE_CONTRACT;
+export type EventChannel = keyof typeof EVENT_CONTRACT;
+export type Channels = InvokeChannel | EventChannel;
+
+export type InvokeArgs<C extends InvokeChannel> = s.Infer<
+  (typeof INVOKE_CONTRACT)[C]['request']
+>;
+export type InvokeResult<C extends InvokeChannel> = s.Infer<
+  (typeof INVOKE_CONTRACT)[C]['response']
+>;
+export type EventArgs<C extends EventChannel> = s.Infer<
+  (typeof EVENT_CONTRACT)[C]
+>;
+
+/**
+ * Why a payload was refused. The main process replies with this instead of
+ * running the handler; the renderer raises it for bad arguments or replies.
+ */
+export type IpcPayloadError = {
+  success: false;
+  error: 'invalid_payload';
+  channel: Channels;
+  direction: 'request' | 'response' | 'event';
+  issues: IpcIssue[];
+};
+
+export const isIpcPayloadError = (value: unknown): value is IpcPayloadError =>
+  typeof value === 'object' &&
+  value !== null &&
+  (value as { error?: unknown }).error === 'invalid_payload' &&
+  Array.isArray((value as { issues?: unknown }).issues);
+
+export type PayloadCheck<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: IpcPayloadError };
+
+const checkPayload = <T>(
+  schema: s.Schema<T>,
+  value: unknown,
+  channel: Channels,
+  direction: IpcPayloadError['direction'],
+): PayloadCheck<T> => {
+  const result = s.check(
+    schema,
+    value,
+    direction === 'response' ? 'reply' : 'args',
+  );
+  if (result.ok) return result;
+  return {
+    ok: false,
+    error: {
+      success: false,
+      error: 'invalid_payload',
+      channel,
+      direction,
+      issues: result.issues,
+    },
+  };
+};
+
+export const checkRequest = <C extends InvokeChannel>(
+  channel: C,
+  args: unknown[],
+): PayloadCheck<InvokeArgs<C>> =>
+  checkPayload(
+    INVOKE_CONTRACT[channel].request as s.Schema<InvokeArgs<C>>,
+    args,
+    channel,
+    'request',
+  );
+
+export const checkResponse = <C extends InvokeChannel>(
+  channel: C,
+  reply: unknown,
+): PayloadCheck<InvokeResult<C>> =>
+  checkPayload(
+    INVOKE_CONTRACT[channel].response as s.Schema<InvokeResult<C>>,
+    reply,
+    channel,
+    'response',
+  );
+
+export const checkEvent = <C extends EventChannel>(
+  channel: C,
+  args: unknown[],
+): PayloadCheck<EventArgs<C>> =>
+  checkPayload(
+    EVENT_CONTRACT[channel] as s.Schema<EventArgs<C>>,
+    args,
+    channel,
+    'event',
+  );
@@ -0,0 +1,270 @@
+/**
+ * Small runtime schemas for IPC payloads. A schema checks an unknown value
+ * and carries its TypeScript type, so a single definition drives both the
+ * checks on each side of the bridge and the types of the typed wrappers.
+ *
+ * Objects keep keys their schema doesn't mention; rows from older app
+ * versions still round-trip.
+ */
+
+export type IpcIssue = {
+  // where the problem is, e.g. `args[1].todos[0].id`
+  path: string;
+  message: string;
+};
+
+export type Schema<T> = {
+  // what the schema accepts, for issue messages
+  readonly expected: string;
+  // the value may be left out (object keys, trailing arguments)
+  readonly optional?: true;
+  // Returns the checked value and pushes any problems onto `issues`
+  readonly parse: (value: unknown, path: string, issues: IpcIssue[]) => T;
+};
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type AnySchema = Schema<unknown>;
+type Shape = Record<string, AnySchema>;
+
+// Built from conditional types: the linter's parser can't read mapped types
+type UnionToIntersection<U> = (
+  U extends unknown ? (x: U) => void : never
+) extends (x: infer I) => void
+  ? I
+  : never;
+
+type FieldOf<S extends Shape, K extends keyof S> = K extends keyof S
+  ? S[K] extends { optional: true }
+    ? Partial<Record<K, Infer<S[K]>>>
+    : Record<K, Infer<S[K]>>
+  : never;
+
+export type ObjectOf<S extends Shape> = UnionToIntersection<
+  FieldOf<S, keyof S>
+>;
+
+type TupleOf<T extends readonly AnySchema[]> = T extends readonly [
+  infer Head,
+  ...infer Rest extends readonly AnySchema[],
+]
+  ? [Infer<Head>, ...TupleOf<Rest>]
+  : [];
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const join = (path: string, key: string | number): string => {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+};
+
+const primitive = <T>(
+  expected: string,
+  test: (value: unknown) => boolean,
+): Schema<T> => ({
+  expected,
+  parse: (value, path, issues) => {
+    if (!test(value)) {
+      issues.push({
+        path,
+        message: `expected ${expected}, got ${describe(value)}`,
+      });
+    }
+    return value as T;
+  },
+});
+
+export const string = (): Schema<string> =>
+  primitive('string', (v) => typeof v === 'string');
+
+export const number = (): Schema<number> =>
+  primitive('number', (v) => typeof v === 'number' && Number.isFinite(v));
+
+export const integer = (): Schema<number> =>
+  primitive('integer', (v) => Number.isInteger(v));
+
+export const boolean = (): Schema<boolean> =>
+  primitive('boolean', (v) => typeof v === 'boolean');
+
+// Replies of handlers that return nothing
+export const nothing = (): Schema<void> =>
+  primitive('nothing', (v) => v === undefined);
+
+export const unknown = (): Schema<unknown> => ({
+  expected: 'anything',
+  parse: (value) => value,
+});
+
+export const literal = <T extends string | number | boolean>(
+  expected: T,
+): Schema<T> => primitive(JSON.stringify(expected), (v) => v === expected);
+
+export const oneOf = <T extends string>(values: readonly T[]): Schema<T> =>
+  primitive(values.map((v) => JSON.stringify(v)).join(' | '), (v) =>
+    values.includes(v as T),
+  );
+
+// Reuses an existing type guard, e.g. isCommandId
+export const guard = <T>(
+  expected: string,
+  test: (value: unknown) => value is T,
+): Schema<T> => primitive(expected, test);
+
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> => ({
+  expected: `${schema.expected} | null`,
+  parse: (value, path, issues) =>
+    value === null ? null : schema.parse(value, path, issues),
+});
+
+export const optional = <T>(
+  schema: Schema<T>,
+): Schema<T | undefined> & { readonly optional: true } => ({
+  expected: `${schema.expected} | undefined`,
+  optional: true,
+  parse: (value, path, issues) =>
+    value === undefined ? undefined : schema.parse(value, path, issues),
+});
+
+/**
+ * With `dropInvalid`, items that don't match are left out instead of
+ * failing the whole array.
+ */
+export const array = <T>(
+  item: Schema<T>,
+  options: { dropInvalid?: boolean } = {},
+): Schema<T[]> => ({
+  expected: `${item.expected}[]`,
+  parse: (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: `expected array, got ${describe(value)}` });
+      return [];
+    }
+    return value.flatMap((element, index) => {
+      const itemIssues: IpcIssue[] = [];
+      const parsed = item.parse(element, join(path, index), itemIssues);
+      if (itemIssues.length === 0) return [parsed];
+      if (!options.dropInvalid) issues.push(...itemIssues);
+      return [];
+    });
+  },
+});
+
+export const record = <T>(value: Schema<T>): Schema<Record<string, T>> => ({
+  expected: `record of ${value.expected}`,
+  parse: (input, path, issues) => {
+    if (!isPlainObject(input)) {
+      issues.push({ path, message: `expected object, got ${describe(input)}` });
+      return {};
+    }
+    const result: Record<string, T> = {};
+    Object.entries(input).forEach(([key, v]) => {
+      result[key] = value.parse(v, join(path, key), issues);
+    });
+    return result;
+  },
+});
+
+export const object = <S extends Shape>(shape: S): Schema<ObjectOf<S>> => ({
+  expected: 'object',
+  parse: (value, path, issues) => {
+    if (!isPlainObject(value)) {
+      issues.push({ path, message: `expected object, got ${describe(value)}` });
+      return value as ObjectOf<S>;
+    }
+    const result: Record<string, unknown> = { ...value };
+    Object.entries(shape).forEach(([key, field]) => {
+      if (value[key] === undefined && field.optional) return;
+      result[key] = field.parse(value[key], join(path, key), issues);
+    });
+    return result as ObjectOf<S>;
+  },
+});
+
+/**
+ * The first option that matches wins. When none does, the issues of the
+ * closest one are reported.
+ */
+export const union = <const T extends readonly AnySchema[]>(
+  ...options: T
+): Schema<Infer<T[number]>> => ({
+  expected: options.map((o) => o.expected).join(' | '),
+  parse: (value, path, issues) => {
+    let closest: IpcIssue[] | null = null;
+    for (let i = 0; i < options.length; i += 1) {
+      const optionIssues: IpcIssue[] = [];
+      const parsed = options[i].parse(value, path, optionIssues);
+      if (optionIssues.length === 0) return parsed as Infer<T[number]>;
+      if (!closest || optionIssues.length < closest.length) {
+        closest = optionIssues;
+      }
+    }
+    issues.push(...(closest ?? []));
+    return value as Infer<T[number]>;
+  },
+});
+
+/**
+ * An argument list: `required` first, then `trailing` arguments that may be
+ * left out.
+ */
+export const args = <
+  const R extends readonly AnySchema[],
+  const O extends readonly AnySchema[] = [],
+>(
+  required: R,
+  trailing?: O,
+): Schema<[...TupleOf<R>, ...Partial<TupleOf<O>>]> => {
+  const all: readonly AnySchema[] = [...required, ...(trailing ?? [])];
+  return {
+    expected: `${required.length}..${all.length} arguments`,
+    parse: (value, path, issues) => {
+      if (!Array.isArray(value)) {
+        issues.push({
+          path,
+          message: `expected arguments, got ${describe(value)}`,
+        });
+        return [] as unknown as [...TupleOf<R>, ...Partial<TupleOf<O>>];
+      }
+      if (value.length < required.length || value.length > all.length) {
+        issues.push({
+          path,
+          message: `expected ${
+            required.length === all.length
+              ? all.length
+              : `${required.length} to ${all.length}`
+          } arguments, got ${value.length}`,
+        });
+      }
+      return value
+        .slice(0, all.length)
+        .map((v, i) =>
+          i >= required.length && v === undefined
+            ? undefined
+            : all[i].parse(v, join(path, i), issues),
+        ) as unknown as [...TupleOf<R>, ...Partial<TupleOf<O>>];
+    },
+  };
+};
+
+export type CheckResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: IpcIssue[] };
+
+export function check<T>(
+  schema: Schema<T>,
+  value: unknown,
+  root: string,
+): CheckResult<T> {
+  const issues: IpcIssue[] = [];
+  const parsed = schema.parse(value, root, issues);
+  return issues.length === 0
+    ? { ok: true, value: parsed }
+    : { ok: false, issues };
+}
@@ -0,0 +1,125 @@
+/**
+ * Smart lists are saved queries over the todos of every list. The main
+ * process stores the definitions; the renderer evaluates them against the
+ * todos it has loaded.
+ */
+
+// 'completedToday' needs the todo's completion timestamp
+export type SmartListStatus = 'open' | 'completed' | 'completedToday' | 'all';
+
+// 'upcoming' is the next seven days, today included
+export type SmartListDue =
+  | 'any'
+  | 'overdue'
+  | 'today'
+  | 'upcoming'
+  | 'dated'
+  | 'undated';
+
+export type SmartListPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+export type SmartListFilter = {
+  status: SmartListStatus;
+  due: SmartListDue;
+  // without the leading '#'; null = any
+  tag: string | null;
+  // this priority or higher; null = any
+  minPriority: SmartListPriority | null;
+  // case-insensitive substring of the text; '' = any
+  text: string;
+  // lists to draw from; empty = all lists
+  listIds: string[];
+};
+
+export type SmartListDefinition = {
+  id: string;
+  name: string;
+  filter: SmartListFilter;
+};
+
+const STATUSES: readonly SmartListStatus[] = [
+  'open',
+  'completed',
+  'completedToday',
+  'all',
+];
+const DUES: readonly SmartListDue[] = [
+  'any',
+  'overdue',
+  'today',
+  'upcoming',
+  'dated',
+  'undated',
+];
+const PRIORITIES: readonly SmartListPriority[] = [
+  'low',
+  'medium',
+  'high',
+  'urgent',
+];
+
+export const DEFAULT_SMART_LIST_FILTER: SmartListFilter = {
+  status: 'open',
+  due: 'any',
+  tag: null,
+  minPriority: null,
+  text: '',
+  listIds: [],
+};
+
+const pick = <T extends string>(
+  options: readonly T[],
+  value: unknown,
+  fallback: T,
+): T => (options.includes(value as T) ? (value as T) : fallback);
+
+/**
+ * Fills in defaults and drops anything malformed, so stored or hand-edited
+ * definitions always evaluate.
+ */
+export function normalizeSmartListFilter(value: unknown): SmartListFilter {
+  const raw = (value && typeof value === 'object' ? value : {}) as Record<
+    string,
+    unknown
+  >;
+  const tag =
+    typeof raw.tag === 'string'
+      ? raw.tag.trim().replace(/^#/, '').toLowerCase()
+      : '';
+  return {
+    status: pick(STATUSES, raw.status, DEFAULT_SMART_LIST_FILTER.status),
+    due: pick(DUES, raw.due, DEFAULT_SMART_LIST_FILTER.due),
+    tag: tag !== '' ? tag : null,
+    minPriority: PRIORITIES.includes(raw.minPriority as SmartListPriority)
+      ? (raw.minPriority as SmartListPriority)
+      : null,
+    text: typeof raw.text === 'string' ? raw.text.trim() : '',
+    listIds: Array.isArray(raw.listIds)
+      ? raw.listIds.filter(
+          (id): id is string => typeof id === 'string' && id !== '',
+        )
+      : [],
+  };
+}
+
+/**
+ * Saved definitions with an id and a name; duplicates by id keep the first.
+ */
+export function normalizeSmartLists(value: unknown): SmartListDefinition[] {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  return value.reduce<SmartListDefinition[]>((acc, item) => {
+    const { id, name, filter } = (item ?? {}) as Record<string, unknown>;
+    if (typeof id !== 'string' || id === '' || seen.has(id)) return acc;
+    seen.add(id);
+    acc.push({
+      id,
+      name:
+        typeof name === 'string' && name.trim() !== ''
+          ? name.trim()
+          : 'Smart list',
+      filter: normalizeSmartListFilter(filter),
+    });
+    return acc;
+  }, []);
+}